@@ -13,8 +13,12 @@ import SignUp from "./pages/SignUp";
 import Login from "./pages/Login";
 import Dashboard from "./pages/Dashboard";
 import Draft from "./pages/Draft";
+import AuctionDraft from "./pages/AuctionDraft";
 import LeaguePage from "./pages/League";
 import MockDraftPage from "./pages/MockDraft";
+import MockDraftReportPage from "./pages/MockDraftReport";
+import MockDraftAnalyticsPage from "./pages/MockDraftAnalytics";
+import MatchupPage from "./pages/Matchup";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -46,6 +50,22 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/league/:leagueId/matchup/:matchupId"
+              element={
+                <ProtectedRoute>
+                  <MatchupPage />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/league/:leagueId/mock-analytics"
+              element={
+                <ProtectedRoute>
+                  <MockDraftAnalyticsPage />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/mock-draft/:mockDraftId"
               element={
@@ -54,7 +74,16 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/mock-draft/:mockDraftId/report"
+              element={
+                <ProtectedRoute>
+                  <MockDraftReportPage />
+                </ProtectedRoute>
+              }
+            />
             <Route path="/draft" element={<Draft />} />
+            <Route path="/auction" element={<AuctionDraft />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -30,6 +30,7 @@ interface AvailablePlayersTableProps {
   onDraft: (playerId: string, playerName: string) => void;
   disabled?: boolean;
   isMyTurn?: boolean;
+  actionLabel?: string; // Button text on each row
 }
 
 // Row height for virtualization
@@ -45,6 +46,7 @@ export function AvailablePlayersTable({
   onDraft,
   disabled = false,
   isMyTurn = false,
+  actionLabel = "Draft",
 }: AvailablePlayersTableProps) {
   const parentRef = useRef<HTMLDivElement>(null);
   const [searchInput, setSearchInput] = useState("");
@@ -241,7 +243,7 @@ export function AvailablePlayersTable({
                             disabled={disabled || !isMyTurn}
                             className="shrink-0"
                           >
-                            Draft
+                            {actionLabel}
                           </Button>
                         </div>
                         <div className="flex items-center gap-1.5 text-[11px] text-gray-500 overflow-hidden">
@@ -282,7 +284,7 @@ export function AvailablePlayersTable({
                             onClick={() => onDraft(player.id, player.name)}
                             disabled={disabled || !isMyTurn}
                           >
-                            Draft
+                            {actionLabel}
                           </Button>
                         </div>
                       </div>
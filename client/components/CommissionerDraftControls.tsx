@@ -0,0 +1,214 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  fetchDraftActions,
+  pauseDraft,
+  resumeDraft,
+  undoLastPick,
+  type DraftAction,
+  type DraftState,
+} from "@/lib/draft";
+import { useToast } from "@/hooks/use-toast";
+import { Pause, Play, Undo2, UserCheck, Shield } from "lucide-react";
+
+interface CommissionerDraftControlsProps {
+  leagueId: string;
+  state: DraftState;
+  nextTeam: string | null;
+  hasPicks: boolean;
+  isDraftComplete: boolean;
+  pickingOnBehalf: boolean;
+  onPickingOnBehalfChange: (picking: boolean) => void;
+  onActionComplete?: () => void;
+}
+
+// Describe a logged action in one line
+const describeAction = (action: DraftAction): string => {
+  const pick = action.details.pick_number;
+  switch (action.action) {
+    case "pause":
+      return `Paused at pick ${pick}`;
+    case "resume":
+      return `Resumed at pick ${pick}`;
+    case "undo_pick":
+      return `Undid pick ${pick}: ${action.details.team_name} - ${action.details.player_name}`;
+    case "pick_on_behalf":
+      return `Picked ${action.details.player_name} for ${action.details.team_name} (pick ${pick})`;
+    default:
+      return action.action;
+  }
+};
+
+export function CommissionerDraftControls({
+  leagueId,
+  state,
+  nextTeam,
+  hasPicks,
+  isDraftComplete,
+  pickingOnBehalf,
+  onPickingOnBehalfChange,
+  onActionComplete,
+}: CommissionerDraftControlsProps) {
+  const [loading, setLoading] = useState(false);
+  const [confirmUndoOpen, setConfirmUndoOpen] = useState(false);
+  const [actions, setActions] = useState<DraftAction[]>([]);
+  const { toast } = useToast();
+
+  // Reload the action log whenever the board moves or the clock is toggled
+  useEffect(() => {
+    fetchDraftActions(leagueId, 5)
+      .then(setActions)
+      .catch((error) => console.error("Error loading draft actions:", error));
+  }, [leagueId, state.current_pick, state.paused]);
+
+  const runAction = async (
+    action: () => Promise<{ message: string }>,
+    title: string
+  ) => {
+    try {
+      setLoading(true);
+      const result = await action();
+      toast({
+        title,
+        description: result.message,
+      });
+      onActionComplete?.();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Commissioner action failed",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between flex-wrap gap-2">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Shield className="h-5 w-5" />
+              Commissioner Controls
+            </CardTitle>
+            <CardDescription>
+              Every action here is recorded in the draft log
+            </CardDescription>
+          </div>
+          {state.paused && (
+            <Badge variant="outline" className="border-orange-400 text-orange-600">
+              <Pause className="h-3 w-3 mr-1" />
+              Paused
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {!isDraftComplete &&
+            (state.paused ? (
+              <Button
+                size="sm"
+                onClick={() => runAction(() => resumeDraft(leagueId), "Draft Resumed")}
+                disabled={loading}
+              >
+                <Play className="mr-2 h-4 w-4" />
+                Resume Draft
+              </Button>
+            ) : (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => runAction(() => pauseDraft(leagueId), "Draft Paused")}
+                disabled={loading}
+              >
+                <Pause className="mr-2 h-4 w-4" />
+                Pause Draft
+              </Button>
+            ))}
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setConfirmUndoOpen(true)}
+            disabled={loading || !hasPicks}
+          >
+            <Undo2 className="mr-2 h-4 w-4" />
+            Undo Last Pick
+          </Button>
+          {!isDraftComplete && nextTeam && (
+            <Button
+              size="sm"
+              variant={pickingOnBehalf ? "default" : "outline"}
+              onClick={() => onPickingOnBehalfChange(!pickingOnBehalf)}
+              disabled={loading}
+            >
+              <UserCheck className="mr-2 h-4 w-4" />
+              {pickingOnBehalf ? "Cancel Pick" : `Pick for ${nextTeam}`}
+            </Button>
+          )}
+        </div>
+
+        {pickingOnBehalf && (
+          <p className="text-sm text-blue-600">
+            Choose a player below to draft them for {nextTeam}.
+          </p>
+        )}
+
+        {actions.length > 0 && (
+          <div className="border-t pt-3 space-y-1">
+            <div className="text-xs text-gray-500 mb-1">Recent actions</div>
+            {actions.map((action) => (
+              <div key={action.id} className="text-sm text-gray-600 flex justify-between gap-2">
+                <span className="truncate">{describeAction(action)}</span>
+                <span className="text-xs text-gray-400 whitespace-nowrap">
+                  {new Date(action.created_at).toLocaleTimeString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmUndoOpen} onOpenChange={setConfirmUndoOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Undo the last pick?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The player goes back into the available pool and the team that
+              made the pick is put back on the clock.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={loading}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => runAction(() => undoLastPick(leagueId), "Pick Undone")}
+              disabled={loading}
+            >
+              Undo Pick
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
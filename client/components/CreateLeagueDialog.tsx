@@ -12,7 +12,11 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { createLeague, type League } from "@/lib/leagues";
+import {
+  createLeague,
+  DEFAULT_LEAGUE_SETTINGS,
+  type League,
+} from "@/lib/leagues";
 import { useToast } from "@/hooks/use-toast";
 
 interface CreateLeagueDialogProps {
@@ -25,6 +29,8 @@ interface LeagueFormData {
   name: string;
   description: string;
   maxTeams: number;
+  minTeams: number;
+  draftRounds: number;
 }
 
 export function CreateLeagueDialog({
@@ -38,12 +44,15 @@ export function CreateLeagueDialog({
     register,
     handleSubmit,
     reset,
+    getValues,
     formState: { errors },
   } = useForm<LeagueFormData>({
     defaultValues: {
       name: "",
       description: "",
       maxTeams: 12,
+      minTeams: DEFAULT_LEAGUE_SETTINGS.min_teams,
+      draftRounds: DEFAULT_LEAGUE_SETTINGS.draft_rounds,
     },
   });
 
@@ -53,7 +62,11 @@ export function CreateLeagueDialog({
       const league = await createLeague(
         data.name,
         data.description || undefined,
-        data.maxTeams
+        data.maxTeams,
+        {
+          min_teams: data.minTeams,
+          draft_rounds: data.draftRounds,
+        }
       );
       toast({
         title: "League Created",
@@ -126,6 +139,52 @@ export function CreateLeagueDialog({
             )}
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="minTeams">Min Teams to Draft</Label>
+              <Input
+                id="minTeams"
+                type="number"
+                min="2"
+                max="20"
+                {...register("minTeams", {
+                  required: true,
+                  valueAsNumber: true,
+                  min: { value: 2, message: "Minimum 2 teams" },
+                  validate: (value) =>
+                    value <= getValues("maxTeams") ||
+                    "Cannot exceed max teams",
+                })}
+              />
+              {errors.minTeams && (
+                <p className="text-sm text-destructive">
+                  {errors.minTeams.message}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="draftRounds">Draft Rounds</Label>
+              <Input
+                id="draftRounds"
+                type="number"
+                min="1"
+                max="30"
+                {...register("draftRounds", {
+                  required: true,
+                  valueAsNumber: true,
+                  min: { value: 1, message: "Minimum 1 round" },
+                  max: { value: 30, message: "Maximum 30 rounds" },
+                })}
+              />
+              {errors.draftRounds && (
+                <p className="text-sm text-destructive">
+                  {errors.draftRounds.message}
+                </p>
+              )}
+            </div>
+          </div>
+
           <DialogFooter>
             <Button
               type="button"
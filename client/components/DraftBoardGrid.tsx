@@ -0,0 +1,238 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { formatCountdown, useCountdown } from "@/hooks/use-countdown";
+import {
+  DEFAULT_DRAFT_FORMAT,
+  getRoundOrder,
+  getTeamIndexForPick,
+  type DraftFormat,
+} from "@shared/draftOrder";
+import { Bot, Clock, Maximize2, Minimize2 } from "lucide-react";
+
+// Cell colors by position; anything else falls back to gray
+const POSITION_COLORS: Record<string, string> = {
+  QB: "bg-red-100 border-red-300 text-red-900",
+  RB: "bg-green-100 border-green-300 text-green-900",
+  WR: "bg-blue-100 border-blue-300 text-blue-900",
+  TE: "bg-orange-100 border-orange-300 text-orange-900",
+  K: "bg-purple-100 border-purple-300 text-purple-900",
+  DEF: "bg-gray-200 border-gray-400 text-gray-900",
+};
+
+const positionColor = (position?: string | null) =>
+  POSITION_COLORS[position?.toUpperCase() ?? ""] ??
+  "bg-gray-100 border-gray-300 text-gray-900";
+
+interface Team {
+  id: string;
+  name: string;
+  owner_id?: string | null;
+  is_bot?: boolean;
+}
+
+interface DraftBoardGridProps {
+  teams: Team[];
+  draftOrder: string[]; // Team names in draft order; one column each
+  currentPick: number; // 0-indexed current pick number
+  totalRounds: number;
+  format?: DraftFormat;
+  userId?: string;
+  picks: Array<{
+    pick_number: number;
+    player_name?: string;
+    position?: string | null;
+    is_keeper?: boolean;
+  }>;
+  pickDeadline?: string | null; // Shown as a countdown in TV mode
+  isComplete?: boolean;
+}
+
+// Classic draft board: teams across the top, one row per round. TV mode
+// takes the board full screen for draft parties.
+export function DraftBoardGrid({
+  teams,
+  draftOrder,
+  currentPick,
+  totalRounds,
+  format = DEFAULT_DRAFT_FORMAT,
+  userId,
+  picks,
+  pickDeadline,
+  isComplete = false,
+}: DraftBoardGridProps) {
+  const boardRef = useRef<HTMLDivElement>(null);
+  const [tvMode, setTvMode] = useState(false);
+  const secondsLeft = useCountdown(pickDeadline);
+
+  // Leaving full screen with Escape also leaves TV mode
+  useEffect(() => {
+    const handleChange = () => setTvMode(document.fullscreenElement === boardRef.current);
+    document.addEventListener("fullscreenchange", handleChange);
+    return () => document.removeEventListener("fullscreenchange", handleChange);
+  }, []);
+
+  const toggleTvMode = async () => {
+    try {
+      if (document.fullscreenElement) {
+        await document.exitFullscreen();
+      } else {
+        await boardRef.current?.requestFullscreen();
+      }
+    } catch (error) {
+      // Full screen can be blocked (e.g. in iframes); fall back to the styling alone
+      console.error("Full screen unavailable:", error);
+      setTvMode((value) => !value);
+    }
+  };
+
+  // rows[round - 1][column] is the overall pick number (1-indexed) for that cell
+  const rows = useMemo(() => {
+    const numTeams = draftOrder.length;
+    return Array.from({ length: totalRounds }, (_, r) => {
+      const round = r + 1;
+      const pickNumbers = new Array<number>(numTeams);
+      getRoundOrder(numTeams, round, format).forEach((teamIndex, i) => {
+        pickNumbers[teamIndex] = r * numTeams + i + 1;
+      });
+      return pickNumbers;
+    });
+  }, [draftOrder.length, totalRounds, format]);
+
+  const picksByNumber = useMemo(
+    () => new Map(picks.map((pick) => [pick.pick_number, pick])),
+    [picks]
+  );
+
+  if (draftOrder.length === 0) return null;
+
+  const onTheClock = isComplete
+    ? null
+    : draftOrder[getTeamIndexForPick(currentPick, draftOrder.length, format)];
+  const teamFor = (name: string) => teams.find((team) => team.name === name);
+
+  return (
+    <div
+      ref={boardRef}
+      className={cn(tvMode && "fixed inset-0 z-50 overflow-auto bg-gray-950 p-6")}
+    >
+      <Card className={cn(tvMode && "border-gray-800 bg-gray-900 text-white")}>
+        <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+          <CardTitle className={cn(tvMode && "text-3xl")}>Draft Board</CardTitle>
+          <div className="flex items-center gap-4">
+            {tvMode && onTheClock && (
+              <div className="flex items-center gap-2 text-2xl font-semibold">
+                <Clock className="h-6 w-6" />
+                On the clock: {onTheClock}
+                {secondsLeft !== null && (
+                  <span className="tabular-nums text-yellow-400">
+                    {formatCountdown(secondsLeft)}
+                  </span>
+                )}
+              </div>
+            )}
+            <Button
+              variant={tvMode ? "secondary" : "outline"}
+              size="sm"
+              onClick={toggleTvMode}
+            >
+              {tvMode ? (
+                <Minimize2 className="mr-2 h-4 w-4" />
+              ) : (
+                <Maximize2 className="mr-2 h-4 w-4" />
+              )}
+              {tvMode ? "Exit TV Mode" : "TV Mode"}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <div
+            className="grid gap-1 min-w-max"
+            style={{
+              gridTemplateColumns: `auto repeat(${draftOrder.length}, minmax(${tvMode ? 9 : 7}rem, 1fr))`,
+            }}
+          >
+            {/* Team headers */}
+            <div />
+            {draftOrder.map((teamName) => {
+              const team = teamFor(teamName);
+              return (
+                <div
+                  key={teamName}
+                  className={cn(
+                    "flex items-center justify-center gap-1 rounded px-2 py-1 text-center font-semibold truncate",
+                    tvMode ? "text-lg" : "text-xs",
+                    userId && team?.owner_id === userId && "ring-2 ring-blue-500"
+                  )}
+                >
+                  {team?.is_bot && <Bot className="h-3 w-3 shrink-0" />}
+                  <span className="truncate">{teamName}</span>
+                </div>
+              );
+            })}
+
+            {/* One row per round */}
+            {rows.map((pickNumbers, r) => (
+              <div key={r} className="contents">
+                <div
+                  className={cn(
+                    "flex items-center pr-2 font-semibold text-gray-500",
+                    tvMode ? "text-lg" : "text-xs"
+                  )}
+                >
+                  R{r + 1}
+                </div>
+                {pickNumbers.map((pickNumber) => {
+                  const pick = picksByNumber.get(pickNumber);
+                  const isCurrent = !isComplete && pickNumber === currentPick + 1;
+
+                  return (
+                    <div
+                      key={pickNumber}
+                      className={cn(
+                        "rounded border px-2 py-1",
+                        tvMode ? "min-h-[4.5rem]" : "min-h-[3rem]",
+                        pick
+                          ? positionColor(pick.position)
+                          : tvMode
+                          ? "border-gray-700 text-gray-500"
+                          : "border-dashed border-gray-200 text-gray-400",
+                        isCurrent && "ring-2 ring-yellow-400 animate-pulse"
+                      )}
+                    >
+                      <div
+                        className={cn(
+                          "flex justify-between",
+                          tvMode ? "text-sm" : "text-[10px]"
+                        )}
+                      >
+                        <span>
+                          {r + 1}.{pickNumber - r * draftOrder.length}
+                        </span>
+                        {pick?.position && (
+                          <span className="font-semibold">
+                            {pick.is_keeper && "K · "}
+                            {pick.position}
+                          </span>
+                        )}
+                      </div>
+                      <div
+                        className={cn(
+                          "font-medium leading-tight",
+                          tvMode ? "text-base" : "text-xs"
+                        )}
+                      >
+                        {pick ? pick.player_name : isCurrent ? "On the clock" : ""}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, FileJson, FileSpreadsheet, Loader2, Printer } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { DraftExportFormat } from "@shared/api";
+
+interface DraftExportMenuProps {
+  onExport: (format: DraftExportFormat) => Promise<void>;
+  className?: string;
+}
+
+// Download a completed draft as CSV or JSON, or open a printable recap
+export function DraftExportMenu({ onExport, className }: DraftExportMenuProps) {
+  const { toast } = useToast();
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: DraftExportFormat) => {
+    try {
+      setExporting(true);
+      await onExport(format);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to export draft",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className={className} disabled={exporting}>
+          {exporting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="mr-2 h-4 w-4" />
+          )}
+          Export Results
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleExport("csv")}>
+          <FileSpreadsheet className="mr-2 h-4 w-4" />
+          CSV spreadsheet
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport("json")}>
+          <FileJson className="mr-2 h-4 w-4" />
+          JSON
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport("html")}>
+          <Printer className="mr-2 h-4 w-4" />
+          Printable recap
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
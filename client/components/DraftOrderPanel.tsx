@@ -0,0 +1,264 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  lockDraftOrder,
+  setDraftOrder,
+  unlockDraftOrder,
+} from "@/lib/draft";
+import {
+  getLeagueSettings,
+  type DraftOrderMethod,
+  type League,
+} from "@/lib/leagues";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { GripVertical, ListOrdered, Lock, Unlock } from "lucide-react";
+
+interface OrderTeam {
+  id: string;
+  name: string;
+  owner_id: string;
+  draft_position: number | null;
+}
+
+interface DraftOrderPanelProps {
+  league: League;
+  teams: OrderTeam[];
+  isCommissioner: boolean;
+  userId?: string;
+  onOrderChanged?: () => void;
+}
+
+const METHOD_LABELS: Record<DraftOrderMethod, { label: string; description: string }> = {
+  random: {
+    label: "Random",
+    description: "Shuffle every team into a random slot",
+  },
+  manual: {
+    label: "Manual",
+    description: "Drag teams into the order you want",
+  },
+  reverse_standings: {
+    label: "Reverse standings",
+    description: "Lowest scoring team last season picks first",
+  },
+};
+
+// Teams sorted by draft position, unplaced teams last
+const sortByPosition = (teams: OrderTeam[]) =>
+  [...teams].sort(
+    (a, b) => (a.draft_position ?? Infinity) - (b.draft_position ?? Infinity)
+  );
+
+export function DraftOrderPanel({
+  league,
+  teams,
+  isCommissioner,
+  userId,
+  onOrderChanged,
+}: DraftOrderPanelProps) {
+  const [method, setMethod] = useState<DraftOrderMethod>(
+    getLeagueSettings(league).draft_order_method
+  );
+  const [orderedTeams, setOrderedTeams] = useState<OrderTeam[]>(() =>
+    sortByPosition(teams)
+  );
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const isLocked = !!league.draft_order_locked_at;
+  const canEdit = isCommissioner && !isLocked && league.draft_status === "pending";
+  const hasOrder = teams.length > 0 && teams.every((t) => t.draft_position != null);
+
+  useEffect(() => {
+    setOrderedTeams(sortByPosition(teams));
+  }, [teams]);
+
+  useEffect(() => {
+    setMethod(getLeagueSettings(league).draft_order_method);
+  }, [league]);
+
+  const runAction = async (
+    action: () => Promise<{ message: string }>,
+    title: string
+  ) => {
+    try {
+      setLoading(true);
+      const result = await action();
+      toast({
+        title,
+        description: result.message,
+      });
+      onOrderChanged?.();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update draft order",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApply = () =>
+    runAction(
+      () =>
+        setDraftOrder(
+          league.id,
+          method,
+          method === "manual" ? orderedTeams.map((t) => t.id) : undefined
+        ),
+      "Draft Order Saved"
+    );
+
+  // Native drag and drop: move the dragged team to the hovered slot
+  const handleDragOver = (event: React.DragEvent, index: number) => {
+    event.preventDefault();
+    if (dragIndex === null || dragIndex === index) return;
+
+    setOrderedTeams((current) => {
+      const next = [...current];
+      const [moved] = next.splice(dragIndex, 1);
+      next.splice(index, 0, moved);
+      return next;
+    });
+    setDragIndex(index);
+  };
+
+  // Everyone but the commissioner only sees the order once it is published
+  if (!isCommissioner && !isLocked) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between flex-wrap gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ListOrdered className="h-5 w-5" />
+              Draft Order
+            </CardTitle>
+            <CardDescription>
+              {isLocked
+                ? `Published ${new Date(league.draft_order_locked_at!).toLocaleDateString()}`
+                : "Set and lock the order before draft day"}
+            </CardDescription>
+          </div>
+          <Badge variant={isLocked ? "default" : "outline"}>
+            {isLocked ? (
+              <Lock className="h-3 w-3 mr-1" />
+            ) : (
+              <Unlock className="h-3 w-3 mr-1" />
+            )}
+            {isLocked ? "Locked" : "Not locked"}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canEdit && (
+          <RadioGroup
+            value={method}
+            onValueChange={(value) => setMethod(value as DraftOrderMethod)}
+            className="space-y-2"
+          >
+            {(Object.keys(METHOD_LABELS) as DraftOrderMethod[]).map((key) => (
+              <div key={key} className="flex items-start gap-2">
+                <RadioGroupItem value={key} id={`draftOrder-${key}`} className="mt-1" />
+                <Label htmlFor={`draftOrder-${key}`} className="font-normal">
+                  <span className="font-medium">{METHOD_LABELS[key].label}</span>
+                  <span className="block text-xs text-muted-foreground">
+                    {METHOD_LABELS[key].description}
+                  </span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        )}
+
+        {teams.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-2">
+            No teams have joined yet.
+          </p>
+        ) : (
+          <ol className="space-y-1">
+            {orderedTeams.map((team, index) => {
+              const draggable = canEdit && method === "manual";
+              return (
+                <li
+                  key={team.id}
+                  draggable={draggable}
+                  onDragStart={() => setDragIndex(index)}
+                  onDragOver={(event) => handleDragOver(event, index)}
+                  onDragEnd={() => setDragIndex(null)}
+                  className={cn(
+                    "flex items-center gap-2 px-3 py-2 rounded border text-sm bg-white",
+                    draggable && "cursor-move",
+                    dragIndex === index && "opacity-50",
+                    team.owner_id === userId && "border-blue-500 bg-blue-50"
+                  )}
+                >
+                  {draggable && <GripVertical className="h-4 w-4 text-gray-400" />}
+                  <span className="font-mono text-xs text-gray-500 w-6">
+                    {method === "manual" || hasOrder ? index + 1 : "–"}
+                  </span>
+                  <span className="flex-1 truncate font-medium">{team.name}</span>
+                  {team.owner_id === userId && (
+                    <Badge variant="secondary" className="text-xs">
+                      You
+                    </Badge>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+
+        {isCommissioner && league.draft_status === "pending" && (
+          <div className="flex flex-wrap gap-2">
+            {canEdit && (
+              <Button
+                size="sm"
+                onClick={handleApply}
+                disabled={loading || teams.length === 0}
+              >
+                {method === "manual" ? "Save Order" : "Generate Order"}
+              </Button>
+            )}
+            {isLocked ? (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => runAction(() => unlockDraftOrder(league.id), "Draft Order Unlocked")}
+                disabled={loading}
+              >
+                <Unlock className="mr-2 h-4 w-4" />
+                Unlock
+              </Button>
+            ) : (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => runAction(() => lockDraftOrder(league.id), "Draft Order Locked")}
+                disabled={loading || !hasOrder}
+              >
+                <Lock className="mr-2 h-4 w-4" />
+                Lock &amp; Publish
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
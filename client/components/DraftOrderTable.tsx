@@ -10,6 +10,13 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { cn } from "@/lib/utils";
+import { formatCountdown, useCountdown } from "@/hooks/use-countdown";
+import {
+  DEFAULT_DRAFT_FORMAT,
+  DRAFT_FORMAT_LABELS,
+  getRoundOrder,
+  type DraftFormat,
+} from "@shared/draftOrder";
 import { ArrowRight, CheckCircle2, Clock, Users, Bot } from "lucide-react";
 
 interface Team {
@@ -25,6 +32,7 @@ interface DraftOrderTableProps {
   currentPick: number; // 0-indexed current pick number
   currentRound: number;
   totalRounds: number;
+  format?: DraftFormat;
   myTeamName?: string | null;
   userId?: string;
   picks?: Array<{
@@ -34,8 +42,11 @@ interface DraftOrderTableProps {
     team_name?: string;
     player_name?: string;
     playerName?: string;
+    is_keeper?: boolean;
   }>;
   compact?: boolean; // Compact mode for sidebar display
+  pickDeadline?: string | null; // When the current pick is auto-made
+  preview?: boolean; // Published order before the draft starts; no pick is on the clock
 }
 
 interface PickSlot {
@@ -45,6 +56,7 @@ interface PickSlot {
   teamId?: string;
   isCurrentPick: boolean;
   isPicked: boolean;
+  isKeeper: boolean; // Filled by a keeper when the draft started
   playerName?: string;
   isMyTeam: boolean;
   isBot: boolean;
@@ -56,12 +68,19 @@ export function DraftOrderTable({
   currentPick,
   currentRound,
   totalRounds,
+  format = DEFAULT_DRAFT_FORMAT,
   myTeamName,
   userId,
   picks = [],
   compact = false,
+  pickDeadline,
+  preview = false,
 }: DraftOrderTableProps) {
-  // Generate full draft schedule using snake draft logic
+  const secondsLeft = useCountdown(pickDeadline);
+  const clockLabel =
+    secondsLeft === null ? null : formatCountdown(secondsLeft);
+
+  // Generate full draft schedule from the shared pick order rules
   const draftSchedule = useMemo(() => {
     const schedule: PickSlot[] = [];
     const numTeams = draftOrder.length;
@@ -69,9 +88,9 @@ export function DraftOrderTable({
     if (numTeams === 0) return schedule;
 
     for (let round = 1; round <= totalRounds; round++) {
-      // Snake draft: odd rounds go forward, even rounds go backward
-      const isReversed = round % 2 === 0;
-      const roundOrder = isReversed ? [...draftOrder].reverse() : draftOrder;
+      const roundOrder = getRoundOrder(numTeams, round, format).map(
+        (teamIndex) => draftOrder[teamIndex]
+      );
 
       for (let i = 0; i < numTeams; i++) {
         const pickNumber = (round - 1) * numTeams + i + 1; // 1-indexed
@@ -91,8 +110,9 @@ export function DraftOrderTable({
           round,
           teamName,
           teamId: team?.id,
-          isCurrentPick: pickNumber === currentPick + 1, // currentPick is 0-indexed
+          isCurrentPick: !preview && pickNumber === currentPick + 1, // currentPick is 0-indexed
           isPicked: !!pick,
+          isKeeper: !!pick?.is_keeper,
           playerName,
           isMyTeam,
           isBot: team?.is_bot ?? false,
@@ -101,7 +121,7 @@ export function DraftOrderTable({
     }
 
     return schedule;
-  }, [teams, draftOrder, currentPick, totalRounds, myTeamName, userId, picks]);
+  }, [teams, draftOrder, currentPick, totalRounds, format, myTeamName, userId, picks, preview]);
 
   // Find next pick for user's team
   const myNextPick = useMemo(() => {
@@ -141,7 +161,12 @@ export function DraftOrderTable({
       <CardHeader className={cn("pb-3", compact && "pb-2")}>
         <div className="flex items-center justify-between flex-wrap gap-2">
           <CardTitle className={compact ? "text-base" : "text-lg"}>Draft Order</CardTitle>
-          {myNextPick && picksUntilMyTurn !== null && picksUntilMyTurn > 0 && (
+          {preview && (
+            <Badge variant="outline" className="text-xs">
+              Not started
+            </Badge>
+          )}
+          {!preview && myNextPick && picksUntilMyTurn !== null && picksUntilMyTurn > 0 && (
             <Badge variant="outline" className="text-xs">
               <Clock className="h-3 w-3 mr-1" />
               {picksUntilMyTurn === 1
@@ -149,7 +174,7 @@ export function DraftOrderTable({
                 : `${picksUntilMyTurn} picks`}
             </Badge>
           )}
-          {picksUntilMyTurn === 0 && (
+          {!preview && picksUntilMyTurn === 0 && (
             <Badge className="bg-green-500 hover:bg-green-600 text-xs">
               <ArrowRight className="h-3 w-3 mr-1" />
               Your turn!
@@ -191,6 +216,21 @@ export function DraftOrderTable({
                 {slot.isBot && (
                   <Bot className="h-3 w-3 text-gray-400" />
                 )}
+                {slot.isKeeper && (
+                  <Badge variant="outline" className="text-[10px] px-1 py-0">
+                    K
+                  </Badge>
+                )}
+                {slot.isCurrentPick && clockLabel && (
+                  <span
+                    className={cn(
+                      "font-mono text-xs text-yellow-700",
+                      secondsLeft !== null && secondsLeft <= 10 && "text-red-600"
+                    )}
+                  >
+                    {clockLabel}
+                  </span>
+                )}
                 {slot.isCurrentPick && (
                   <Clock className="h-3 w-3 text-yellow-600 animate-pulse" />
                 )}
@@ -267,11 +307,19 @@ export function DraftOrderTable({
                         <div className="flex items-center gap-2 text-sm text-gray-600">
                           <CheckCircle2 className="h-4 w-4 text-green-500" />
                           {slot.playerName}
+                          {slot.isKeeper && (
+                            <Badge variant="outline" className="text-xs">
+                              Keeper
+                            </Badge>
+                          )}
                         </div>
                       ) : slot.isCurrentPick ? (
                         <Badge className="bg-yellow-500 hover:bg-yellow-600">
                           <Clock className="h-3 w-3 mr-1 animate-pulse" />
                           On the clock
+                          {clockLabel && (
+                            <span className="ml-1 font-mono">{clockLabel}</span>
+                          )}
                         </Badge>
                       ) : (
                         <span className="text-sm text-gray-400">—</span>
@@ -287,7 +335,7 @@ export function DraftOrderTable({
         {/* Summary section showing draft order pattern */}
         <div className={cn("mt-4 pt-4 border-t", compact && "mt-3 pt-3")}>
           <div className="text-xs text-gray-500 mb-2">
-            Snake Draft Order
+            {DRAFT_FORMAT_LABELS[format]} Draft Order
           </div>
           <div className="flex flex-wrap gap-1">
             {draftOrder.map((teamName, index) => {
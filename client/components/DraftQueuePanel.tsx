@@ -0,0 +1,231 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  fetchDraftQueue,
+  setDraftQueue,
+  setTeamAutodraft,
+  type DraftPlayer,
+} from "@/lib/draft";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowDown, ArrowUp, ListOrdered, Plus, X } from "lucide-react";
+
+interface DraftQueuePanelProps {
+  team: { id: string; autodraft: boolean };
+  availablePlayers: DraftPlayer[]; // Players not yet taken in the league
+  onAutodraftChange?: (enabled: boolean) => void;
+}
+
+// Search results shown at once when adding to the queue
+const MAX_SEARCH_RESULTS = 5;
+
+const playerName = (player: DraftPlayer) =>
+  player.name || `${player.first_name} ${player.last_name}`.trim();
+
+export function DraftQueuePanel({
+  team,
+  availablePlayers,
+  onAutodraftChange,
+}: DraftQueuePanelProps) {
+  const [queue, setQueue] = useState<string[]>([]);
+  const [autodraft, setAutodraft] = useState(team.autodraft);
+  const [search, setSearch] = useState("");
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const playersById = useMemo(
+    () => new Map(availablePlayers.map((player) => [player.id, player])),
+    [availablePlayers]
+  );
+
+  // Drafted players drop out of the queue; the server skips them anyway
+  const queuedPlayers = queue
+    .map((playerId) => playersById.get(playerId))
+    .filter((player): player is DraftPlayer => !!player);
+
+  const searchResults = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return [];
+    return availablePlayers
+      .filter((player) => !queue.includes(player.id))
+      .filter((player) => playerName(player).toLowerCase().includes(term))
+      .slice(0, MAX_SEARCH_RESULTS);
+  }, [search, availablePlayers, queue]);
+
+  useEffect(() => {
+    fetchDraftQueue(team.id)
+      .then(setQueue)
+      .catch((error) => console.error("Failed to load draft queue:", error));
+  }, [team.id]);
+
+  useEffect(() => {
+    setAutodraft(team.autodraft);
+  }, [team.autodraft]);
+
+  const saveQueue = async (next: string[]) => {
+    const previous = queue;
+    setQueue(next);
+    try {
+      setLoading(true);
+      await setDraftQueue(team.id, next);
+    } catch (error: any) {
+      setQueue(previous);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save draft queue",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdd = (playerId: string) => {
+    setSearch("");
+    saveQueue([...queuedPlayers.map((player) => player.id), playerId]);
+  };
+
+  const handleRemove = (playerId: string) =>
+    saveQueue(queuedPlayers.map((player) => player.id).filter((id) => id !== playerId));
+
+  const handleMove = (index: number, offset: number) => {
+    const next = queuedPlayers.map((player) => player.id);
+    const target = index + offset;
+    if (target < 0 || target >= next.length) return;
+    [next[index], next[target]] = [next[target], next[index]];
+    saveQueue(next);
+  };
+
+  const handleAutodraftChange = async (enabled: boolean) => {
+    setAutodraft(enabled);
+    try {
+      const result = await setTeamAutodraft(team.id, enabled);
+      toast({
+        title: result.message,
+        description: enabled
+          ? "Picks will be made for you from your queue, then by position need."
+          : "You'll make your own picks again.",
+      });
+      onAutodraftChange?.(enabled);
+    } catch (error: any) {
+      setAutodraft(!enabled);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update autodraft",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListOrdered className="h-5 w-5" />
+          My Queue
+        </CardTitle>
+        <CardDescription>
+          Players you want, in order. Used when your pick clock runs out or
+          autodraft is on.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between rounded-lg border p-3">
+          <div>
+            <Label htmlFor={`autodraft-${team.id}`}>Autodraft</Label>
+            <p className="text-xs text-muted-foreground">
+              Pick for me as soon as I'm on the clock
+            </p>
+          </div>
+          <Switch
+            id={`autodraft-${team.id}`}
+            checked={autodraft}
+            onCheckedChange={handleAutodraftChange}
+          />
+        </div>
+
+        <div className="relative">
+          <Input
+            placeholder="Add a player..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            disabled={loading}
+          />
+          {searchResults.length > 0 && (
+            <div className="absolute z-10 mt-1 w-full rounded-md border bg-white shadow-md">
+              {searchResults.map((player) => (
+                <button
+                  key={player.id}
+                  type="button"
+                  className="flex w-full items-center justify-between px-3 py-2 text-sm hover:bg-gray-50"
+                  onClick={() => handleAdd(player.id)}
+                >
+                  {playerName(player)}
+                  <Plus className="h-4 w-4 text-gray-400" />
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {queuedPlayers.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">
+            Your queue is empty. Without one, autodraft takes the best
+            available player at a position you still need.
+          </p>
+        ) : (
+          <ol className="space-y-1">
+            {queuedPlayers.map((player, index) => (
+              <li
+                key={player.id}
+                className="flex items-center gap-2 rounded-md border px-2 py-1 text-sm"
+              >
+                <span className="w-5 text-right text-gray-500">{index + 1}</span>
+                <span className="flex-1 truncate">{playerName(player)}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => handleMove(index, -1)}
+                  disabled={loading || index === 0}
+                  title="Move up"
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => handleMove(index, 1)}
+                  disabled={loading || index === queuedPlayers.length - 1}
+                  title="Move down"
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 text-red-500 hover:text-red-700 hover:bg-red-50"
+                  onClick={() => handleRemove(player.id)}
+                  disabled={loading}
+                  title="Remove from queue"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,433 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  getLeagueSettings,
+  updateLeagueSettings,
+  type DraftType,
+  type League,
+} from "@/lib/leagues";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DRAFT_FORMATS,
+  DRAFT_FORMAT_DESCRIPTIONS,
+  DRAFT_FORMAT_LABELS,
+  type DraftFormat,
+} from "@shared/draftOrder";
+
+interface DraftSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  league: League;
+  onSettingsSaved?: (league: League) => void;
+}
+
+interface DraftSettingsFormData {
+  minTeams: number;
+  draftRounds: number;
+  pickTimeLimit: number;
+  draftFormat: DraftFormat;
+  draftType: DraftType;
+  auctionBudget: number;
+  auctionMinBid: number;
+  auctionBidTime: number;
+  keepersEnabled: boolean;
+  maxKeepers: number;
+  keeperRoundPenalty: number;
+  keeperDeadline: string; // datetime-local value; empty for no deadline
+}
+
+// datetime-local inputs work in local time without a zone
+const toLocalInputValue = (iso: string | null) => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+    .toISOString()
+    .slice(0, 16);
+};
+
+export function DraftSettingsDialog({
+  open,
+  onOpenChange,
+  league,
+  onSettingsSaved,
+}: DraftSettingsDialogProps) {
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+  const {
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    setValue,
+    formState: { errors },
+  } = useForm<DraftSettingsFormData>();
+  const draftFormat = watch("draftFormat");
+  const draftType = watch("draftType");
+  const isAuction = draftType === "auction";
+  const keepersEnabled = watch("keepersEnabled");
+
+  // Start from the league's current values each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    const settings = getLeagueSettings(league);
+    reset({
+      minTeams: settings.min_teams,
+      draftRounds: settings.draft_rounds,
+      pickTimeLimit: settings.pick_time_limit,
+      draftFormat: settings.draft_format,
+      draftType: settings.draft_type,
+      auctionBudget: settings.auction_budget,
+      auctionMinBid: settings.auction_min_bid,
+      auctionBidTime: settings.auction_bid_time,
+      keepersEnabled: settings.keepers_enabled,
+      maxKeepers: settings.max_keepers,
+      keeperRoundPenalty: settings.keeper_round_penalty,
+      keeperDeadline: toLocalInputValue(settings.keeper_deadline),
+    });
+  }, [open, league, reset]);
+
+  const onSubmit = async (data: DraftSettingsFormData) => {
+    try {
+      setLoading(true);
+      const updated = await updateLeagueSettings(league, {
+        min_teams: data.minTeams,
+        draft_rounds: data.draftRounds,
+        pick_time_limit: data.pickTimeLimit,
+        draft_format: data.draftFormat,
+        draft_type: data.draftType,
+        auction_budget: data.auctionBudget,
+        auction_min_bid: data.auctionMinBid,
+        auction_bid_time: data.auctionBidTime,
+        keepers_enabled: data.keepersEnabled,
+        max_keepers: data.maxKeepers,
+        keeper_round_penalty: data.keeperRoundPenalty,
+        keeper_deadline: data.keeperDeadline
+          ? new Date(data.keeperDeadline).toISOString()
+          : null,
+      });
+      toast({
+        title: "Settings Saved",
+        description: "Draft settings have been updated.",
+      });
+      onOpenChange(false);
+      onSettingsSaved?.(updated);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save draft settings",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Draft Settings</DialogTitle>
+          <DialogDescription>
+            These settings apply when the draft starts and can't be changed
+            once it is in progress.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="settingsMinTeams">Min Teams to Draft</Label>
+            <Input
+              id="settingsMinTeams"
+              type="number"
+              min="2"
+              max={league.max_teams}
+              {...register("minTeams", {
+                required: true,
+                valueAsNumber: true,
+                min: { value: 2, message: "Minimum 2 teams" },
+                max: {
+                  value: league.max_teams,
+                  message: `Cannot exceed ${league.max_teams} teams`,
+                },
+              })}
+            />
+            {errors.minTeams && (
+              <p className="text-sm text-destructive">
+                {errors.minTeams.message}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="settingsDraftType">Draft Type</Label>
+            <Select
+              value={draftType}
+              onValueChange={(value) => setValue("draftType", value as DraftType)}
+            >
+              <SelectTrigger id="settingsDraftType">
+                <SelectValue placeholder="Select type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="standard">Standard</SelectItem>
+                <SelectItem value="auction">Auction</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {isAuction
+                ? "Teams take turns nominating players and bid against a budget"
+                : "Teams pick one player at a time in draft order"}
+            </p>
+          </div>
+
+          {!isAuction && (
+            <div className="space-y-2">
+              <Label htmlFor="settingsDraftFormat">Draft Format</Label>
+              <Select
+                value={draftFormat}
+                onValueChange={(value) => setValue("draftFormat", value as DraftFormat)}
+              >
+                <SelectTrigger id="settingsDraftFormat">
+                  <SelectValue placeholder="Select format" />
+                </SelectTrigger>
+                <SelectContent>
+                  {DRAFT_FORMATS.map((format) => (
+                    <SelectItem key={format} value={format}>
+                      {DRAFT_FORMAT_LABELS[format]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {draftFormat && (
+                <p className="text-xs text-muted-foreground">
+                  {DRAFT_FORMAT_DESCRIPTIONS[draftFormat]}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="settingsDraftRounds">
+              {isAuction ? "Roster Spots" : "Draft Rounds"}
+            </Label>
+            <Input
+              id="settingsDraftRounds"
+              type="number"
+              min="1"
+              max="30"
+              {...register("draftRounds", {
+                required: true,
+                valueAsNumber: true,
+                min: { value: 1, message: "Minimum 1 round" },
+                max: { value: 30, message: "Maximum 30 rounds" },
+              })}
+            />
+            {errors.draftRounds && (
+              <p className="text-sm text-destructive">
+                {errors.draftRounds.message}
+              </p>
+            )}
+          </div>
+
+          {!isAuction && (
+            <div className="space-y-2">
+              <Label htmlFor="settingsPickTimeLimit">Seconds per Pick</Label>
+              <Input
+                id="settingsPickTimeLimit"
+                type="number"
+                min="10"
+                max="600"
+                {...register("pickTimeLimit", {
+                  required: true,
+                  valueAsNumber: true,
+                  min: { value: 10, message: "Minimum 10 seconds" },
+                  max: { value: 600, message: "Maximum 600 seconds" },
+                })}
+              />
+              <p className="text-xs text-muted-foreground">
+                When time runs out, the best available player is picked
+                automatically.
+              </p>
+              {errors.pickTimeLimit && (
+                <p className="text-sm text-destructive">
+                  {errors.pickTimeLimit.message}
+                </p>
+              )}
+            </div>
+          )}
+
+          {isAuction && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="settingsAuctionBudget">Budget per Team</Label>
+                  <Input
+                    id="settingsAuctionBudget"
+                    type="number"
+                    min="1"
+                    {...register("auctionBudget", {
+                      required: true,
+                      valueAsNumber: true,
+                      validate: (value, form) =>
+                        value >= form.draftRounds * form.auctionMinBid ||
+                        "Budget must cover the minimum bid for every roster spot",
+                    })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="settingsAuctionMinBid">Minimum Bid</Label>
+                  <Input
+                    id="settingsAuctionMinBid"
+                    type="number"
+                    min="1"
+                    {...register("auctionMinBid", {
+                      required: true,
+                      valueAsNumber: true,
+                      min: { value: 1, message: "Minimum bid is at least 1" },
+                    })}
+                  />
+                </div>
+              </div>
+              {(errors.auctionBudget || errors.auctionMinBid) && (
+                <p className="text-sm text-destructive">
+                  {errors.auctionBudget?.message || errors.auctionMinBid?.message}
+                </p>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="settingsAuctionBidTime">Seconds per Bid</Label>
+                <Input
+                  id="settingsAuctionBidTime"
+                  type="number"
+                  min="10"
+                  max="600"
+                  {...register("auctionBidTime", {
+                    required: true,
+                    valueAsNumber: true,
+                    min: { value: 10, message: "Minimum 10 seconds" },
+                    max: { value: 600, message: "Maximum 600 seconds" },
+                  })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Each bid restarts the countdown. When it runs out, the high
+                  bidder wins the player.
+                </p>
+                {errors.auctionBidTime && (
+                  <p className="text-sm text-destructive">
+                    {errors.auctionBidTime.message}
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+
+          {!isAuction && (
+            <>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="settingsKeepersEnabled">Keepers</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Teams can keep players from last season's draft
+                  </p>
+                </div>
+                <Switch
+                  id="settingsKeepersEnabled"
+                  checked={!!keepersEnabled}
+                  onCheckedChange={(checked) => setValue("keepersEnabled", checked)}
+                />
+              </div>
+
+              {keepersEnabled && (
+                <>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="settingsMaxKeepers">Keepers per Team</Label>
+                      <Input
+                        id="settingsMaxKeepers"
+                        type="number"
+                        min="1"
+                        {...register("maxKeepers", {
+                          required: true,
+                          valueAsNumber: true,
+                          min: { value: 1, message: "At least 1 keeper" },
+                          validate: (value, form) =>
+                            value <= form.draftRounds ||
+                            "Keepers can't outnumber draft rounds",
+                        })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="settingsKeeperRoundPenalty">Round Cost</Label>
+                      <Input
+                        id="settingsKeeperRoundPenalty"
+                        type="number"
+                        min="0"
+                        {...register("keeperRoundPenalty", {
+                          required: true,
+                          valueAsNumber: true,
+                          min: { value: 0, message: "Round cost can't be negative" },
+                        })}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    A keeper uses the team's pick this many rounds before the
+                    round they were drafted in (never earlier than round 1).
+                  </p>
+                  {(errors.maxKeepers || errors.keeperRoundPenalty) && (
+                    <p className="text-sm text-destructive">
+                      {errors.maxKeepers?.message || errors.keeperRoundPenalty?.message}
+                    </p>
+                  )}
+
+                  <div className="space-y-2">
+                    <Label htmlFor="settingsKeeperDeadline">Declaration Deadline</Label>
+                    <Input
+                      id="settingsKeeperDeadline"
+                      type="datetime-local"
+                      {...register("keeperDeadline")}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Leave empty to allow changes until the draft starts.
+                    </p>
+                  </div>
+                </>
+              )}
+            </>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? "Saving..." : "Save Settings"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
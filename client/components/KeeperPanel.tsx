@@ -0,0 +1,191 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  declareKeeper,
+  fetchKeeperData,
+  removeKeeper,
+  type KeeperData,
+} from "@/lib/keepers";
+import { getLeagueSettings, type League } from "@/lib/leagues";
+import { useToast } from "@/hooks/use-toast";
+import { getKeeperRound, isKeeperDeadlinePassed } from "@shared/keepers";
+import { Lock, Plus, ShieldCheck, X } from "lucide-react";
+
+interface KeeperPanelProps {
+  league: League;
+  team?: { id: string; name: string }; // The user's team; omit to only view
+}
+
+// Declare keepers for the next draft and see every team's choices
+export function KeeperPanel({ league, team }: KeeperPanelProps) {
+  const [data, setData] = useState<KeeperData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const settings = getLeagueSettings(league);
+  const deadlinePassed = isKeeperDeadlinePassed(settings.keeper_deadline);
+
+  const loadKeepers = () =>
+    fetchKeeperData(league.id, team?.id)
+      .then(setData)
+      .catch((error) => console.error("Failed to load keepers:", error));
+
+  useEffect(() => {
+    loadKeepers();
+  }, [league.id, team?.id]);
+
+  // Nothing to keep until the league has finished a draft
+  if (!data?.sourceDraftId) return null;
+
+  const myKeepers = data.keepers.filter((keeper) => keeper.team_id === team?.id);
+  const keptPlayerIds = new Set(myKeepers.map((keeper) => keeper.player_id));
+  const usedRounds = new Set(myKeepers.map((keeper) => keeper.round));
+  const atLimit = myKeepers.length >= settings.max_keepers;
+
+  const runAction = async (action: () => Promise<{ message: string }>) => {
+    try {
+      setLoading(true);
+      const result = await action();
+      toast({ title: result.message });
+      await loadKeepers();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update keepers",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Keepers
+        </CardTitle>
+        <CardDescription>
+          Keep up to {settings.max_keepers} player
+          {settings.max_keepers === 1 ? "" : "s"} from last season's draft. Each
+          keeper costs your pick {settings.keeper_round_penalty} round
+          {settings.keeper_round_penalty === 1 ? "" : "s"} before the round they
+          were drafted in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {settings.keeper_deadline && (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <Lock className="h-4 w-4" />
+            {deadlinePassed ? "Declarations closed " : "Declare by "}
+            {new Date(settings.keeper_deadline).toLocaleString()}
+          </div>
+        )}
+
+        {/* The user's drafted players, with what each would cost */}
+        {team && (
+          <div className="space-y-1">
+            <h4 className="text-sm font-medium text-gray-700">{team.name}</h4>
+            {data.candidates.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                Your team has no picks from last season's draft.
+              </p>
+            ) : (
+              data.candidates.map((candidate) => {
+                const keeper = myKeepers.find((k) => k.player_id === candidate.player_id);
+                const cost = getKeeperRound(
+                  candidate.drafted_round,
+                  settings.keeper_round_penalty
+                );
+                const unavailable =
+                  !keeper &&
+                  (atLimit ||
+                    usedRounds.has(cost) ||
+                    cost > settings.draft_rounds ||
+                    data.keepers.some((k) => k.player_id === candidate.player_id));
+
+                return (
+                  <div
+                    key={candidate.player_id}
+                    className="flex items-center gap-2 rounded-md border px-2 py-1 text-sm"
+                  >
+                    <span className="flex-1 truncate">
+                      {candidate.player_name}
+                      {candidate.position && (
+                        <span className="ml-1 text-xs text-gray-500">
+                          {candidate.position}
+                        </span>
+                      )}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      R{candidate.drafted_round} → R{cost}
+                    </span>
+                    {keeper ? (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-red-500 hover:text-red-700 hover:bg-red-50"
+                        onClick={() => runAction(() => removeKeeper(keeper.id))}
+                        disabled={loading || deadlinePassed}
+                        title="Stop keeping"
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2"
+                        onClick={() =>
+                          runAction(() => declareKeeper(team.id, candidate.player_id))
+                        }
+                        disabled={loading || deadlinePassed || unavailable}
+                        title="Keep"
+                      >
+                        <Plus className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </div>
+        )}
+
+        {/* Every team's declarations */}
+        <div className="space-y-1">
+          <h4 className="text-sm font-medium text-gray-700">League Keepers</h4>
+          {data.keepers.length === 0 ? (
+            <p className="text-sm text-gray-500">No keepers declared yet.</p>
+          ) : (
+            data.keepers.map((keeper) => (
+              <div key={keeper.id} className="flex items-center gap-2 text-sm">
+                <Badge variant="outline" className="text-xs">
+                  R{keeper.round}
+                </Badge>
+                <span className="flex-1 truncate">
+                  {keeper.player_name}
+                  {keptPlayerIds.has(keeper.player_id) && (
+                    <Badge variant="secondary" className="ml-2 text-xs">
+                      You
+                    </Badge>
+                  )}
+                </span>
+                <span className="text-xs text-gray-500">{keeper.team_name}</span>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Bot, Loader2, LogOut, Play, UserPlus, Users } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import {
+  claimMockDraftSeat,
+  leaveMockDraftSeat,
+  startMockDraft,
+  type MockDraftState,
+} from "@/lib/mockDraft";
+
+interface MockDraftLobbyProps {
+  draftState: MockDraftState;
+  userId: string | undefined;
+}
+
+// Seats for a mock draft that hasn't started; league-mates claim bot seats
+// and the creator starts the draft. Changes arrive through the page's
+// mock draft subscription.
+export function MockDraftLobby({ draftState, userId }: MockDraftLobbyProps) {
+  const { toast } = useToast();
+  const [busy, setBusy] = useState(false);
+
+  const isCreator = draftState.creator_id === userId;
+  const mySeat = draftState.teams.find((team) => team.owner_id === userId);
+  const openSeats = draftState.teams.filter((team) => team.is_bot).length;
+
+  const run = async (action: () => Promise<{ message?: string }>) => {
+    try {
+      setBusy(true);
+      const result = await action();
+      if (result?.message) {
+        toast({ title: "Mock Draft Lobby", description: result.message });
+      }
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Lobby
+        </CardTitle>
+        <CardDescription>
+          {openSeats === 0
+            ? "Every seat is taken."
+            : `${openSeats} open seat${openSeats === 1 ? "" : "s"}. Seats nobody claims are drafted by bots.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {draftState.teams.map((team) => (
+            <div
+              key={team.id}
+              className={cn(
+                "flex items-center gap-2 border rounded-lg p-3",
+                team.owner_id === userId && "border-blue-500 bg-blue-50"
+              )}
+            >
+              {team.is_bot ? (
+                <Bot className="h-4 w-4 text-gray-500" />
+              ) : (
+                <Users className="h-4 w-4" />
+              )}
+              <span className="font-medium">{team.name}</span>
+              {team.owner_id === draftState.creator_id && (
+                <Badge variant="secondary">Host</Badge>
+              )}
+              {team.is_bot && (
+                <Badge variant="outline" className="text-xs">
+                  Open
+                </Badge>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          {!mySeat && (
+            <Button
+              onClick={() => run(() => claimMockDraftSeat(draftState.id))}
+              disabled={busy || openSeats === 0}
+            >
+              <UserPlus className="mr-2 h-4 w-4" />
+              Join Draft
+            </Button>
+          )}
+          {mySeat && !isCreator && (
+            <Button
+              variant="outline"
+              onClick={() => run(() => leaveMockDraftSeat(draftState.id))}
+              disabled={busy}
+            >
+              <LogOut className="mr-2 h-4 w-4" />
+              Leave Seat
+            </Button>
+          )}
+          {isCreator ? (
+            <Button
+              onClick={() => run(() => startMockDraft(draftState.id))}
+              disabled={busy}
+            >
+              {busy ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Play className="mr-2 h-4 w-4" />
+              )}
+              Start Draft
+            </Button>
+          ) : (
+            <p className="text-sm text-gray-500 self-center">
+              Waiting for the host to start the draft...
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,193 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  getLeagueSettings,
+  updateLeagueSettings,
+  type League,
+} from "@/lib/leagues";
+import { fetchScheduleTeams, saveLeagueSchedule, type ScheduleTeam } from "@/lib/schedule";
+import { useToast } from "@/hooks/use-toast";
+import { MAX_REGULAR_SEASON_WEEKS, generateSchedule } from "@shared/schedule";
+
+interface ScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  league: League;
+  season: number;
+  onScheduleSaved?: (league: League) => void;
+}
+
+export function ScheduleDialog({
+  open,
+  onOpenChange,
+  league,
+  season,
+  onScheduleSaved,
+}: ScheduleDialogProps) {
+  const [teams, setTeams] = useState<ScheduleTeam[]>([]);
+  const [weeks, setWeeks] = useState(1);
+  const [divisions, setDivisions] = useState<Record<string, string>>({});
+  const [weightDivisions, setWeightDivisions] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  // Start from the league's current values each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    const settings = getLeagueSettings(league);
+    setWeeks(settings.regular_season_weeks);
+    setWeightDivisions(settings.division_weighting);
+
+    fetchScheduleTeams(league.id)
+      .then((data) => {
+        setTeams(data);
+        setDivisions(Object.fromEntries(data.map((team) => [team.id, team.division ?? ""])));
+      })
+      .catch((error) =>
+        toast({
+          title: "Error",
+          description: error.message || "Failed to load teams",
+          variant: "destructive",
+        })
+      );
+  }, [open, league]);
+
+  const hasDivisions = Object.values(divisions).some((division) => division.trim());
+
+  const handleSave = async () => {
+    if (!Number.isInteger(weeks) || weeks < 1 || weeks > MAX_REGULAR_SEASON_WEEKS) {
+      toast({
+        title: "Invalid Schedule",
+        description: `The regular season must be 1 to ${MAX_REGULAR_SEASON_WEEKS} weeks.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const teamDivisions = Object.fromEntries(
+        teams.map((team) => [team.id, divisions[team.id]?.trim() || null])
+      );
+      const matchups = generateSchedule(
+        teams.map((team) => team.id),
+        weeks,
+        { divisions: teamDivisions, weightDivisions: weightDivisions && hasDivisions }
+      );
+
+      const updated = await updateLeagueSettings(league, {
+        regular_season_weeks: weeks,
+        division_weighting: weightDivisions,
+      });
+      const result = await saveLeagueSchedule(league.id, season, matchups, teamDivisions);
+      toast({
+        title: result.message,
+        description: `${weeks} weeks of games for the ${season} season.`,
+      });
+      onOpenChange(false);
+      onScheduleSaved?.(updated);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save the schedule",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Generate Schedule</DialogTitle>
+          <DialogDescription>
+            Every team plays every other before anyone meets twice. This
+            replaces the {season} schedule; it can't change once a week has
+            been scored.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="scheduleWeeks">Regular Season Weeks</Label>
+            <Input
+              id="scheduleWeeks"
+              type="number"
+              min="1"
+              max={MAX_REGULAR_SEASON_WEEKS}
+              value={weeks}
+              onChange={(e) => setWeeks(parseInt(e.target.value, 10) || 0)}
+            />
+            {teams.length % 2 === 1 && (
+              <p className="text-xs text-muted-foreground">
+                With an odd number of teams, one team has a bye each week
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Divisions</Label>
+            <p className="text-xs text-muted-foreground">
+              Optional. Teams with the same division name are rivals.
+            </p>
+            {teams.map((team) => (
+              <div key={team.id} className="grid grid-cols-[1fr_8rem] items-center gap-2">
+                <Label htmlFor={`division-${team.id}`} className="text-sm font-normal">
+                  {team.name}
+                </Label>
+                <Input
+                  id={`division-${team.id}`}
+                  value={divisions[team.id] ?? ""}
+                  onChange={(e) =>
+                    setDivisions((prev) => ({ ...prev, [team.id]: e.target.value }))
+                  }
+                  placeholder="None"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="scheduleWeightDivisions">Weight Division Games</Label>
+              <p className="text-xs text-muted-foreground">
+                Play division rivals first, and again when the season runs long
+              </p>
+            </div>
+            <Switch
+              id="scheduleWeightDivisions"
+              checked={weightDivisions}
+              onCheckedChange={setWeightDivisions}
+              disabled={!hasDivisions}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={loading}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={loading || teams.length < 2}>
+            {loading ? "Saving..." : "Save Schedule"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
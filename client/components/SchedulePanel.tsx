@@ -0,0 +1,145 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ScheduleDialog } from "@/components/ScheduleDialog";
+import { fetchLeagueSchedule, type Matchup } from "@/lib/schedule";
+import type { League } from "@/lib/leagues";
+import { CalendarDays, ChevronRight } from "lucide-react";
+
+interface SchedulePanelProps {
+  league: League;
+  season: number;
+  userTeamId?: string;
+  isCommissioner: boolean;
+  onLeagueUpdated?: (league: League) => void;
+}
+
+const formatPoints = (points: number | null) => (points === null ? "-" : points.toFixed(2));
+
+// A season's head-to-head schedule, week by week
+export function SchedulePanel({
+  league,
+  season,
+  userTeamId,
+  isCommissioner,
+  onLeagueUpdated,
+}: SchedulePanelProps) {
+  const navigate = useNavigate();
+  const [matchups, setMatchups] = useState<Matchup[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const loadSchedule = () =>
+    fetchLeagueSchedule(league.id, season)
+      .then(setMatchups)
+      .catch((error) => console.error("Failed to load schedule:", error))
+      .finally(() => setLoaded(true));
+
+  useEffect(() => {
+    loadSchedule();
+  }, [league.id, season]);
+
+  const weeks = [...new Set(matchups.map((matchup) => matchup.week))];
+
+  const handleScheduleSaved = (updated: League) => {
+    onLeagueUpdated?.(updated);
+    loadSchedule();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarDays className="h-5 w-5" />
+              {season} Schedule
+            </CardTitle>
+            <CardDescription>
+              {weeks.length
+                ? `${weeks.length} week regular season`
+                : "No games scheduled yet"}
+            </CardDescription>
+          </div>
+          {isCommissioner && (
+            <Button variant="outline" size="sm" onClick={() => setDialogOpen(true)}>
+              {weeks.length ? "Regenerate Schedule" : "Generate Schedule"}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loaded && weeks.length === 0 && (
+          <p className="text-sm text-gray-500">
+            {isCommissioner
+              ? "Generate a schedule once every team has joined."
+              : "The commissioner hasn't set the schedule yet."}
+          </p>
+        )}
+
+        {weeks.map((week) => (
+          <div key={week} className="space-y-2">
+            <h4 className="text-sm font-medium text-gray-700">Week {week}</h4>
+            {matchups
+              .filter((matchup) => matchup.week === week)
+              .map((matchup) =>
+                matchup.away_team_id ? (
+                  <button
+                    key={matchup.id}
+                    type="button"
+                    onClick={() => navigate(`/league/${league.id}/matchup/${matchup.id}`)}
+                    className="flex w-full items-center gap-3 rounded-md border px-3 py-2 text-left text-sm hover:bg-gray-50"
+                  >
+                    <span
+                      className={`flex-1 truncate ${
+                        matchup.home_team_id === userTeamId ? "font-semibold" : ""
+                      }`}
+                    >
+                      {matchup.home_team_name}
+                    </span>
+                    <span className="tabular-nums">{formatPoints(matchup.home_points)}</span>
+                    <span className="text-gray-400">vs</span>
+                    <span className="tabular-nums">{formatPoints(matchup.away_points)}</span>
+                    <span
+                      className={`flex-1 truncate text-right ${
+                        matchup.away_team_id === userTeamId ? "font-semibold" : ""
+                      }`}
+                    >
+                      {matchup.away_team_name}
+                    </span>
+                    <ChevronRight className="h-4 w-4 text-gray-400" />
+                  </button>
+                ) : (
+                  <div
+                    key={matchup.id}
+                    className="flex items-center gap-3 rounded-md border border-dashed px-3 py-2 text-sm text-gray-500"
+                  >
+                    <span className="flex-1 truncate">{matchup.home_team_name}</span>
+                    <Badge variant="outline">Bye</Badge>
+                  </div>
+                )
+              )}
+          </div>
+        ))}
+      </CardContent>
+
+      {isCommissioner && (
+        <ScheduleDialog
+          open={dialogOpen}
+          onOpenChange={setDialogOpen}
+          league={league}
+          season={season}
+          onScheduleSaved={handleScheduleSaved}
+        />
+      )}
+    </Card>
+  );
+}
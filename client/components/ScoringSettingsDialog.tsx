@@ -0,0 +1,206 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  getLeagueSettings,
+  updateLeagueSettings,
+  type League,
+} from "@/lib/leagues";
+import { useToast } from "@/hooks/use-toast";
+import {
+  SCORING_PRESETS,
+  SCORING_PRESET_LABELS,
+  STAT_KEYS,
+  STAT_LABELS,
+  resolveScoringRules,
+  scoreStatLine,
+  type ScoringPreset,
+  type ScoringRules,
+  type StatKey,
+} from "@shared/scoring";
+
+interface ScoringSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  league: League;
+  onSettingsSaved?: (league: League) => void;
+}
+
+// A typical WR1 week, shown so commissioners can see what their rules mean
+const SAMPLE_STAT_LINE = { rec: 7, rec_yds: 96, rec_td: 1 };
+
+// Yardage stats score per chunk of yards rather than per unit
+const isYardage = (key: StatKey) => key.endsWith("_yds");
+
+export function ScoringSettingsDialog({
+  open,
+  onOpenChange,
+  league,
+  onSettingsSaved,
+}: ScoringSettingsDialogProps) {
+  const [preset, setPreset] = useState<ScoringPreset>("standard");
+  const [rules, setRules] = useState<ScoringRules>(resolveScoringRules());
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  // Start from the league's current values each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    const { scoring } = getLeagueSettings(league);
+    setPreset(scoring.preset);
+    setRules(resolveScoringRules(scoring));
+  }, [open, league]);
+
+  const handlePresetChange = (value: ScoringPreset) => {
+    setPreset(value);
+    // Custom starts from whatever was showing, so tweaks build on a preset
+    if (value !== "custom") setRules(resolveScoringRules({ preset: value }));
+  };
+
+  const updateRule = (key: StatKey, field: "points" | "per", value: string) => {
+    const number = parseFloat(value);
+    setRules((prev) => ({
+      ...prev,
+      [key]: { ...prev[key], [field]: Number.isNaN(number) ? 0 : number },
+    }));
+  };
+
+  const samplePoints = useMemo(
+    () => scoreStatLine(SAMPLE_STAT_LINE, rules).points,
+    [rules]
+  );
+
+  const handleSave = async () => {
+    if (preset === "custom" && STAT_KEYS.some((key) => isYardage(key) && !(rules[key].per > 0))) {
+      toast({
+        title: "Invalid Rules",
+        description: "Yardage stats need a positive number of yards per point.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const updated = await updateLeagueSettings(league, {
+        scoring: preset === "custom" ? { preset, rules } : { preset },
+      });
+      toast({
+        title: "Settings Saved",
+        description: `Scoring is now ${SCORING_PRESET_LABELS[preset]}.`,
+      });
+      onOpenChange(false);
+      onSettingsSaved?.(updated);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save scoring settings",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Scoring Settings</DialogTitle>
+          <DialogDescription>
+            How players earn fantasy points each week. Changes apply the next
+            time a week is scored.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="scoringPreset">Scoring</Label>
+            <Select
+              value={preset}
+              onValueChange={(value) => handlePresetChange(value as ScoringPreset)}
+            >
+              <SelectTrigger id="scoringPreset">
+                <SelectValue placeholder="Select scoring" />
+              </SelectTrigger>
+              <SelectContent>
+                {SCORING_PRESETS.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {SCORING_PRESET_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              7 catches, 96 yards and a touchdown scores {samplePoints} points
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_5rem_5rem] gap-2 text-xs font-medium text-muted-foreground">
+              <span>Stat</span>
+              <span>Points</span>
+              <span>Per</span>
+            </div>
+            {STAT_KEYS.map((key) => (
+              <div key={key} className="grid grid-cols-[1fr_5rem_5rem] items-center gap-2">
+                <Label htmlFor={`rule-${key}`} className="text-sm font-normal">
+                  {STAT_LABELS[key]}
+                </Label>
+                <Input
+                  id={`rule-${key}`}
+                  type="number"
+                  step="0.1"
+                  value={rules[key].points}
+                  onChange={(e) => updateRule(key, "points", e.target.value)}
+                  disabled={preset !== "custom"}
+                  title="Points"
+                />
+                {isYardage(key) ? (
+                  <Input
+                    type="number"
+                    min="1"
+                    value={rules[key].per ?? 1}
+                    onChange={(e) => updateRule(key, "per", e.target.value)}
+                    disabled={preset !== "custom"}
+                    title="Yards"
+                  />
+                ) : (
+                  <span className="text-xs text-muted-foreground">each</span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={loading}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={loading}>
+            {loading ? "Saving..." : "Save Settings"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
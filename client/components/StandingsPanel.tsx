@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TiebreakerSettingsDialog } from "@/components/TiebreakerSettingsDialog";
+import { fetchLeagueStandings } from "@/lib/standings";
+import { getLeagueSettings, type League } from "@/lib/leagues";
+import { cn } from "@/lib/utils";
+import { TIEBREAKER_LABELS, formatRecord, type TeamStanding } from "@shared/standings";
+import { ListOrdered } from "lucide-react";
+
+interface StandingsPanelProps {
+  league: League;
+  season: number;
+  userTeamId?: string;
+  isCommissioner: boolean;
+  onLeagueUpdated?: (league: League) => void;
+}
+
+// A season's standings, with division records when the league has divisions
+export function StandingsPanel({
+  league,
+  season,
+  userTeamId,
+  isCommissioner,
+  onLeagueUpdated,
+}: StandingsPanelProps) {
+  const [standings, setStandings] = useState<TeamStanding[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const { tiebreakers } = getLeagueSettings(league);
+  const hasDivisions = standings.some((team) => team.division);
+
+  useEffect(() => {
+    fetchLeagueStandings(league, season)
+      .then(setStandings)
+      .catch((error) => console.error("Failed to load standings:", error));
+  }, [league, season]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ListOrdered className="h-5 w-5" />
+              {season} Standings
+            </CardTitle>
+            <CardDescription>
+              Ties go to{" "}
+              {[...tiebreakers.map((t) => TIEBREAKER_LABELS[t].toLowerCase()), "a coin flip"].join(
+                ", then "
+              )}
+            </CardDescription>
+          </div>
+          {isCommissioner && (
+            <Button variant="outline" size="sm" onClick={() => setDialogOpen(true)}>
+              Tiebreakers
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">#</TableHead>
+              <TableHead>Team</TableHead>
+              <TableHead className="text-center">W-L-T</TableHead>
+              {hasDivisions && <TableHead className="text-center">Div</TableHead>}
+              <TableHead className="text-right">PF</TableHead>
+              <TableHead className="text-right">PA</TableHead>
+              <TableHead className="text-center">Streak</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {standings.map((team) => (
+              <TableRow
+                key={team.teamId}
+                className={cn(team.teamId === userTeamId && "bg-primary/5 font-semibold")}
+              >
+                <TableCell>{team.rank}</TableCell>
+                <TableCell>
+                  <div>{team.name}</div>
+                  {team.division && (
+                    <div className="text-xs font-normal text-gray-500">{team.division}</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-center tabular-nums">
+                  {team.wins}-{team.losses}-{team.ties}
+                </TableCell>
+                {hasDivisions && (
+                  <TableCell className="text-center tabular-nums">
+                    {team.division
+                      ? formatRecord(team.divisionWins, team.divisionLosses, team.divisionTies)
+                      : "-"}
+                  </TableCell>
+                )}
+                <TableCell className="text-right tabular-nums">
+                  {team.pointsFor.toFixed(2)}
+                </TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {team.pointsAgainst.toFixed(2)}
+                </TableCell>
+                <TableCell className="text-center">{team.streak || "-"}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      {isCommissioner && (
+        <TiebreakerSettingsDialog
+          open={dialogOpen}
+          onOpenChange={setDialogOpen}
+          league={league}
+          onSettingsSaved={onLeagueUpdated}
+        />
+      )}
+    </Card>
+  );
+}
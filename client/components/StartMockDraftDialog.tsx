@@ -16,15 +16,43 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
-import { createLeagueMockDraft, type MockDraftConfig } from "@/lib/mockDraft";
+import {
+  BOT_SPEEDS,
+  BOT_SPEED_LABELS,
+  BOT_STRATEGIES,
+  BOT_STRATEGY_DESCRIPTIONS,
+  BOT_STRATEGY_LABELS,
+  createLeagueMockDraft,
+  type BotSpeed,
+  type BotStrategy,
+  type MockDraftConfig,
+} from "@/lib/mockDraft";
+import { DEFAULT_LEAGUE_SETTINGS, type LeagueSettings } from "@/lib/leagues";
 import { Bot, Loader2, Users } from "lucide-react";
+import {
+  DRAFT_FORMATS,
+  DRAFT_FORMAT_DESCRIPTIONS,
+  DRAFT_FORMAT_LABELS,
+  type DraftFormat,
+} from "@shared/draftOrder";
+
+// "mixed" gives each bot the next personality in turn
+type BotPersonality = BotStrategy | "mixed";
+
+const getBotStrategies = (personality: BotPersonality, numBots: number): BotStrategy[] =>
+  Array.from({ length: numBots }, (_, i) =>
+    personality === "mixed" ? BOT_STRATEGIES[i % BOT_STRATEGIES.length] : personality
+  );
 
 interface StartMockDraftDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   leagueId: string;
   userTeamName: string;
+  leagueSettings: Required<LeagueSettings>; // Copied when mirroring the league
   onMockDraftCreated: (mockDraftId: string) => void;
 }
 
@@ -33,17 +61,58 @@ export function StartMockDraftDialog({
   onOpenChange,
   leagueId,
   userTeamName,
+  leagueSettings,
   onMockDraftCreated,
 }: StartMockDraftDialogProps) {
   const { toast } = useToast();
   const [numBots, setNumBots] = useState("3");
+  const [botPersonality, setBotPersonality] = useState<BotPersonality>("mixed");
+  const [draftSlot, setDraftSlot] = useState("random");
+  const [mirrorLeague, setMirrorLeague] = useState(true);
+  const [totalRounds, setTotalRounds] = useState(
+    String(DEFAULT_LEAGUE_SETTINGS.draft_rounds)
+  );
+  const [draftFormat, setDraftFormat] = useState<DraftFormat>(
+    DEFAULT_LEAGUE_SETTINGS.draft_format
+  );
+  const [botSpeed, setBotSpeed] = useState<BotSpeed>("normal");
+  const [lobby, setLobby] = useState(false);
   const [loading, setLoading] = useState(false);
 
+  const totalTeams = parseInt(numBots, 10) + 1;
+  const rounds = mirrorLeague ? leagueSettings.draft_rounds : parseInt(totalRounds, 10);
+  const format = mirrorLeague ? leagueSettings.draft_format : draftFormat;
+
+  const handleNumBotsChange = (value: string) => {
+    setNumBots(value);
+    // A slot past the new team count falls back to random
+    if (draftSlot !== "random" && parseInt(draftSlot, 10) > parseInt(value, 10) + 1) {
+      setDraftSlot("random");
+    }
+  };
+
   const handleStartMockDraft = async () => {
+    if (!Number.isInteger(rounds) || rounds < 1 || rounds > 30) {
+      toast({
+        title: "Error",
+        description: "Rounds must be between 1 and 30",
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       setLoading(true);
       const config: Partial<MockDraftConfig> = {
         numBots: parseInt(numBots, 10),
+        botPickDelay: BOT_SPEEDS[botSpeed],
+        totalRounds: rounds,
+        draftFormat: format,
+        botStrategies: getBotStrategies(botPersonality, parseInt(numBots, 10)),
+        userDraftSlot: draftSlot === "random" ? null : parseInt(draftSlot, 10),
+        mirrorLeagueSettings: mirrorLeague,
+        lineup: mirrorLeague ? leagueSettings.lineup : DEFAULT_LEAGUE_SETTINGS.lineup,
+        lobby,
       };
 
       const result = await createLeagueMockDraft(
@@ -52,10 +121,20 @@ export function StartMockDraftDialog({
         config
       );
 
-      toast({
-        title: "Mock Draft Started!",
-        description: "Good luck! Draft order has been randomized.",
-      });
+      toast(
+        lobby
+          ? {
+              title: "Lobby Open!",
+              description: "League-mates can now join. Start the draft when everyone's in.",
+            }
+          : {
+              title: "Mock Draft Started!",
+              description:
+                draftSlot === "random"
+                  ? "Good luck! Draft order has been randomized."
+                  : `Good luck! You're picking from slot ${draftSlot}.`,
+            }
+      );
 
       onOpenChange(false);
 
@@ -74,7 +153,7 @@ export function StartMockDraftDialog({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Bot className="h-5 w-5" />
@@ -97,7 +176,7 @@ export function StartMockDraftDialog({
 
           <div className="grid gap-2">
             <Label htmlFor="numBots">Number of Bot Opponents</Label>
-            <Select value={numBots} onValueChange={setNumBots}>
+            <Select value={numBots} onValueChange={handleNumBotsChange}>
               <SelectTrigger id="numBots">
                 <SelectValue placeholder="Select number of bots" />
               </SelectTrigger>
@@ -111,12 +190,125 @@ export function StartMockDraftDialog({
               </SelectContent>
             </Select>
           </div>
+          <div className="grid gap-2">
+            <Label htmlFor="draftSlot">Your Draft Slot</Label>
+            <Select value={draftSlot} onValueChange={setDraftSlot}>
+              <SelectTrigger id="draftSlot">
+                <SelectValue placeholder="Select draft slot" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="random">Random</SelectItem>
+                {Array.from({ length: totalTeams }, (_, i) => (
+                  <SelectItem key={i + 1} value={String(i + 1)}>
+                    Pick {i + 1}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="lobby">Draft with League-mates</Label>
+              <p className="text-xs text-muted-foreground">
+                Open a lobby where league members can take bot seats
+              </p>
+            </div>
+            <Switch id="lobby" checked={lobby} onCheckedChange={setLobby} />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="mirrorLeague">Use League Settings</Label>
+              <p className="text-xs text-muted-foreground">
+                Same rounds, format and starting lineup as your league draft
+              </p>
+            </div>
+            <Switch
+              id="mirrorLeague"
+              checked={mirrorLeague}
+              onCheckedChange={setMirrorLeague}
+            />
+          </div>
+          {!mirrorLeague && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="totalRounds">Rounds</Label>
+                <Input
+                  id="totalRounds"
+                  type="number"
+                  min="1"
+                  max="30"
+                  value={totalRounds}
+                  onChange={(e) => setTotalRounds(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="draftFormat">Format</Label>
+                <Select
+                  value={draftFormat}
+                  onValueChange={(value) => setDraftFormat(value as DraftFormat)}
+                >
+                  <SelectTrigger id="draftFormat">
+                    <SelectValue placeholder="Select format" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DRAFT_FORMATS.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {DRAFT_FORMAT_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+          <div className="grid gap-2">
+            <Label htmlFor="botSpeed">Bot Speed</Label>
+            <Select value={botSpeed} onValueChange={(value) => setBotSpeed(value as BotSpeed)}>
+              <SelectTrigger id="botSpeed">
+                <SelectValue placeholder="Select bot speed" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(BOT_SPEEDS) as BotSpeed[]).map((speed) => (
+                  <SelectItem key={speed} value={speed}>
+                    {BOT_SPEED_LABELS[speed]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="botPersonality">Bot Personality</Label>
+            <Select
+              value={botPersonality}
+              onValueChange={(value) => setBotPersonality(value as BotPersonality)}
+            >
+              <SelectTrigger id="botPersonality">
+                <SelectValue placeholder="Select personality" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="mixed">Mixed</SelectItem>
+                {BOT_STRATEGIES.map((strategy) => (
+                  <SelectItem key={strategy} value={strategy}>
+                    {BOT_STRATEGY_LABELS[strategy]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {botPersonality === "mixed"
+                ? "Each bot gets a different personality"
+                : BOT_STRATEGY_DESCRIPTIONS[botPersonality]}
+            </p>
+          </div>
           <div className="rounded-lg bg-muted p-3 text-sm text-muted-foreground">
             <p className="font-medium mb-1">How it works:</p>
             <ul className="list-disc list-inside space-y-1">
-              <li>Bots will automatically make picks when it's their turn</li>
-              <li>Snake draft format (order reverses each round)</li>
-              <li>5 rounds total, pick the best players!</li>
+              <li>Bots draft from player rankings and fill their roster needs</li>
+              <li>
+                {DRAFT_FORMAT_LABELS[format]} draft format (
+                {DRAFT_FORMAT_DESCRIPTIONS[format].toLowerCase()})
+              </li>
+              <li>{rounds} rounds total, pick the best players!</li>
               <li>This won't affect your real league draft</li>
             </ul>
           </div>
@@ -129,12 +321,12 @@ export function StartMockDraftDialog({
             {loading ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Starting...
+                {lobby ? "Opening..." : "Starting..."}
               </>
             ) : (
               <>
                 <Bot className="mr-2 h-4 w-4" />
-                Start Draft
+                {lobby ? "Open Lobby" : "Start Draft"}
               </>
             )}
           </Button>
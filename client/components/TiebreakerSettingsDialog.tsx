@@ -0,0 +1,139 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  getLeagueSettings,
+  updateLeagueSettings,
+  type League,
+} from "@/lib/leagues";
+import { useToast } from "@/hooks/use-toast";
+import { TIEBREAKERS, TIEBREAKER_LABELS, type Tiebreaker } from "@shared/standings";
+
+interface TiebreakerSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  league: League;
+  onSettingsSaved?: (league: League) => void;
+}
+
+const NONE = "none";
+
+export function TiebreakerSettingsDialog({
+  open,
+  onOpenChange,
+  league,
+  onSettingsSaved,
+}: TiebreakerSettingsDialogProps) {
+  const [tiebreakers, setTiebreakers] = useState<Tiebreaker[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  // Start from the league's current values each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setTiebreakers(getLeagueSettings(league).tiebreakers);
+  }, [open, league]);
+
+  // Picking "None" drops that tiebreaker and every one after it
+  const updateTiebreaker = (index: number, value: string) => {
+    setTiebreakers((prev) =>
+      value === NONE
+        ? prev.slice(0, index)
+        : [...prev.slice(0, index), value as Tiebreaker, ...prev.slice(index + 1)].filter(
+            (tiebreaker, i, list) => list.indexOf(tiebreaker) === i
+          )
+    );
+  };
+
+  const handleSave = async () => {
+    try {
+      setLoading(true);
+      const updated = await updateLeagueSettings(league, { tiebreakers });
+      toast({
+        title: "Settings Saved",
+        description: "Standings now use the new tiebreakers.",
+      });
+      onOpenChange(false);
+      onSettingsSaved?.(updated);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save tiebreakers",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // One more select than there are tiebreakers, up to one per option
+  const slots = Math.min(tiebreakers.length + 1, TIEBREAKERS.length);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Tiebreakers</DialogTitle>
+          <DialogDescription>
+            Teams with the same record are ordered by these, in turn. A coin
+            flip drawn once per season settles anything still tied.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {Array.from({ length: slots }, (_, index) => (
+            <div key={index} className="space-y-2">
+              <Label htmlFor={`tiebreaker-${index}`}>Tiebreaker {index + 1}</Label>
+              <Select
+                value={tiebreakers[index] ?? NONE}
+                onValueChange={(value) => updateTiebreaker(index, value)}
+              >
+                <SelectTrigger id={`tiebreaker-${index}`}>
+                  <SelectValue placeholder="Select tiebreaker" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>None</SelectItem>
+                  {TIEBREAKERS.filter(
+                    (tiebreaker) =>
+                      tiebreaker === tiebreakers[index] || !tiebreakers.includes(tiebreaker)
+                  ).map((tiebreaker) => (
+                    <SelectItem key={tiebreaker} value={tiebreaker}>
+                      {TIEBREAKER_LABELS[tiebreaker]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={loading}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={loading}>
+            {loading ? "Saving..." : "Save Settings"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
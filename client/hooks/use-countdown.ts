@@ -0,0 +1,28 @@
+import * as React from "react";
+
+const TICK_MS = 250;
+
+// Seconds left until a deadline (ISO timestamp), or null with no deadline.
+// Re-renders a few times a second while the deadline is in the future.
+export function useCountdown(deadline: string | null | undefined) {
+  const deadlineMs = deadline ? new Date(deadline).getTime() : null;
+  const [now, setNow] = React.useState(() => Date.now());
+
+  React.useEffect(() => {
+    if (deadlineMs === null) return;
+
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, [deadlineMs]);
+
+  if (deadlineMs === null) return null;
+  return Math.max(0, Math.ceil((deadlineMs - now) / 1000));
+}
+
+// Format a number of seconds as m:ss
+export function formatCountdown(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return `${minutes}:${rest.toString().padStart(2, "0")}`;
+}
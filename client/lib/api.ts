@@ -0,0 +1,70 @@
+import { supabase } from "./supabase";
+import type { DraftExportFormat } from "@shared/api";
+
+// Call the app's Express API as the signed-in user
+// Throws with the server's error message when the response isn't OK
+export const apiFetch = async (path: string, init: RequestInit = {}): Promise<Response> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error("Not authenticated");
+
+  const response = await fetch(path, {
+    ...init,
+    headers: {
+      ...init.headers,
+      Authorization: `Bearer ${session.access_token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Request failed (${response.status})`);
+  }
+
+  return response;
+};
+
+// Save a response body as a file, using the server's file name when it sent one
+const saveResponse = async (response: Response, fallbackName: string) => {
+  const disposition = response.headers.get("Content-Disposition") || "";
+  const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || fallbackName;
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Download a draft export; the printable HTML recap opens in a new tab instead
+const exportDraft = async (path: string, format: DraftExportFormat) => {
+  // Open the tab before awaiting so popup blockers treat it as user-initiated
+  const recapTab = format === "html" ? window.open("", "_blank") : null;
+
+  try {
+    const response = await apiFetch(`${path}?format=${format}`);
+
+    if (format === "html") {
+      const url = URL.createObjectURL(await response.blob());
+      if (recapTab) {
+        recapTab.location.href = url;
+      } else {
+        window.open(url, "_blank");
+      }
+      return;
+    }
+
+    await saveResponse(response, `draft.${format}`);
+  } catch (error) {
+    recapTab?.close();
+    throw error;
+  }
+};
+
+// Export a league's completed draft
+export const exportLeagueDraft = (leagueId: string, format: DraftExportFormat) =>
+  exportDraft(`/api/leagues/${leagueId}/draft/export`, format);
+
+// Export a completed mock draft
+export const exportMockDraft = (mockDraftId: string, format: DraftExportFormat) =>
+  exportDraft(`/api/mock-drafts/${mockDraftId}/export`, format);
@@ -0,0 +1,153 @@
+import { supabase } from "./supabase";
+
+// Types
+export interface AuctionTeam {
+  id: string;
+  name: string;
+  owner_id: string;
+  spent: number;
+  players_won: number;
+  budget_remaining: number;
+  open_spots: number;
+  max_bid: number; // Highest bid that still leaves min_bid for every other open spot
+}
+
+export interface AuctionLot {
+  id: string;
+  player_id: string;
+  player_name: string;
+  position: string;
+  nfl_team: string | null;
+  nominated_by: string;
+  current_bid: number;
+  current_bidder: string;
+  bid_deadline: string; // Sold to current_bidder when this passes
+}
+
+export interface AuctionSale {
+  id: string;
+  player_id: string;
+  player_name: string;
+  position: string;
+  team_id: string;
+  amount: number;
+  sold_at: string;
+}
+
+export interface AuctionState {
+  id: string;
+  league_id: string;
+  draft_id: string;
+  status: "in_progress" | "completed";
+  budget: number;
+  min_bid: number;
+  bid_time_limit: number; // Seconds a lot stays open after each bid
+  roster_size: number;
+  nomination_order: string[]; // Team IDs
+  nominator_id: string | null; // Team whose turn it is to nominate
+  nomination_deadline: string | null; // Best available is nominated when this passes
+  teams: AuctionTeam[];
+  current_lot: AuctionLot | null;
+  sold: AuctionSale[]; // Most recent first
+}
+
+// Error codes raised by nominate_player and place_auction_bid
+export const AUCTION_ERRORS = {
+  NOT_STARTED: "DRF01",
+  NOT_YOUR_TURN: "DRF02",
+  STALE_BOARD: "DRF03",
+  PLAYER_UNAVAILABLE: "DRF04",
+  BID_REJECTED: "DRF06",
+} as const;
+
+// Fetch a league's auction, or null before it starts
+export const fetchAuctionState = async (leagueId: string): Promise<AuctionState | null> => {
+  const { data, error } = await supabase.rpc("get_auction_state", {
+    p_league_id: leagueId,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// Start the auction draft (commissioner only)
+export const startAuctionDraft = async (
+  leagueId: string
+): Promise<{ message: string; auction_id: string; draft_id: string }> => {
+  const { data, error } = await supabase.rpc("start_auction_draft", {
+    p_league_id: leagueId,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// Nominate a player with an opening bid when it's the user's turn
+export const nominatePlayer = async (
+  leagueId: string,
+  playerId: string,
+  openingBid: number
+): Promise<{ message: string; lot_id: string }> => {
+  const { data, error } = await supabase.rpc("nominate_player", {
+    p_league_id: leagueId,
+    p_player_id: playerId,
+    p_opening_bid: openingBid,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// Bid on the player currently up for auction
+export const placeBid = async (
+  leagueId: string,
+  lotId: string,
+  amount: number
+): Promise<{ message: string; amount: number }> => {
+  const { data, error } = await supabase.rpc("place_auction_bid", {
+    p_league_id: leagueId,
+    p_lot_id: lotId,
+    p_amount: amount,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// Subscribe to changes in one league's auction
+export const subscribeToAuction = (
+  leagueId: string,
+  auctionId: string | null,
+  callback: (state: AuctionState | null) => void
+) => {
+  const refresh = (source: string) => async () => {
+    try {
+      callback(await fetchAuctionState(leagueId));
+    } catch (error) {
+      console.error(`Error fetching auction state after ${source} change:`, error);
+    }
+  };
+
+  let channel = supabase
+    .channel(`auction:${leagueId}`)
+    .on(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "auction_drafts", filter: `league_id=eq.${leagueId}` },
+      refresh("auction")
+    );
+
+  // Lots only carry an auction_id, so they can be scoped once the auction exists
+  if (auctionId) {
+    channel = channel.on(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "auction_lots", filter: `auction_id=eq.${auctionId}` },
+      refresh("lots")
+    );
+  }
+
+  channel.subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
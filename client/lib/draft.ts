@@ -1,4 +1,7 @@
 import { supabase } from "./supabase";
+import { apiFetch } from "./api";
+import type { DraftOrderMethod } from "./leagues";
+import type { DraftFormat } from "@shared/draftOrder";
 
 // Types
 export interface DraftTeam {
@@ -6,6 +9,8 @@ export interface DraftTeam {
   name: string;
   league_id: string;
   owner_id: string;
+  draft_position: number | null; // 1-indexed slot in the published draft order
+  autodraft: boolean; // The server picks from the queue whenever this team is up
   created_at: string;
 }
 
@@ -14,17 +19,23 @@ export interface DraftPlayer {
   name?: string;
   first_name: string;
   last_name: string;
-  is_available?: boolean;
+  position?: string;
 }
 
 export interface DraftState {
-  id: number;
+  league_id: string;
+  draft_id: string | null;
   started: boolean;
   current_round: number;
   current_pick: number;
   draft_order: string[];
   max_teams: number;
   total_rounds: number;
+  pick_deadline: string | null; // When the clock auto-picks for the team up
+  paused: boolean;
+  paused_time_remaining: number | null; // Seconds left on the clock when paused
+  draft_format: DraftFormat;
+  pick_sequence: number[] | null; // Index into draft_order for every pick
 }
 
 export interface DraftPick {
@@ -33,12 +44,30 @@ export interface DraftPick {
   player_id: string;
   round: number;
   pick_number: number;
+  auto_picked?: boolean; // Made by the pick clock after the deadline passed
+  is_keeper?: boolean; // Filled by a declared keeper when the draft started
+  created_at: string;
+}
+
+export interface DraftAction {
+  id: string;
+  league_id: string;
+  draft_id: string | null;
+  actor_id: string | null;
+  action: "pause" | "resume" | "undo_pick" | "pick_on_behalf";
+  details: {
+    pick_number?: number;
+    seconds_remaining?: number | null;
+    team_name?: string;
+    player_name?: string;
+  };
   created_at: string;
 }
 
 export interface DraftData {
   teams: DraftTeam[];
   players: DraftPlayer[];
+  availablePlayers: DraftPlayer[]; // Players not yet taken in this league
   state: DraftState | null;
   picks: DraftPick[];
 }
@@ -48,51 +77,28 @@ export const initSupabase = () => {
   return supabase;
 };
 
-// Fetch current draft state
-export const fetchDraftState = async (leagueId?: string): Promise<DraftData> => {
-  let targetLeagueId: string | null = leagueId || null;
-
-  // If leagueId not provided, try to find it from draft state
-  if (!targetLeagueId) {
-    const { data: stateData } = await supabase
-      .from("draft_state")
-      .select("draft_id")
-      .eq("id", 1)
-      .single();
-
-    // If there's a draft, get its league
-    if (stateData?.draft_id) {
-      const { data: draftData } = await supabase
-        .from("drafts")
-        .select("league_id")
-        .eq("id", stateData.draft_id)
-        .single();
-      targetLeagueId = draftData?.league_id || null;
-    }
-  }
-
-  // Get draft_id if available
-  const { data: stateData } = await supabase
+// Fetch a league's draft state
+export const fetchDraftState = async (leagueId: string): Promise<DraftData> => {
+  const { data: stateData, error: stateError } = await supabase
     .from("draft_state")
-    .select("draft_id")
-    .eq("id", 1)
-    .single();
+    .select("*")
+    .eq("league_id", leagueId)
+    .maybeSingle();
+
+  if (stateError) throw stateError;
 
   const draftId = stateData?.draft_id;
 
-  const [teamsRes, playersRes, stateRes, picksRes] = await Promise.all([
-    targetLeagueId
-      ? supabase
-          .from("teams")
-          .select("*")
-          .eq("league_id", targetLeagueId)
-          .order("created_at")
-      : { data: [], error: null },
+  const [teamsRes, playersRes, picksRes, availablePlayers] = await Promise.all([
+    supabase
+      .from("teams")
+      .select("*")
+      .eq("league_id", leagueId)
+      .order("created_at"),
     supabase
       .from("players")
       .select("*")
       .order("first_name, last_name"),
-    supabase.from("draft_state").select("*").eq("id", 1).single(),
     draftId
       ? supabase
           .from("draft_picks")
@@ -100,21 +106,36 @@ export const fetchDraftState = async (leagueId?: string): Promise<DraftData> =>
           .eq("draft_id", draftId)
           .order("pick_number")
       : { data: [], error: null },
+    getDraftAvailablePlayers(leagueId),
   ]);
 
   if (teamsRes.error) throw teamsRes.error;
   if (playersRes.error) throw playersRes.error;
-  if (stateRes.error && stateRes.error.code !== "PGRST116") throw stateRes.error;
   if (picksRes.error) throw picksRes.error;
 
   return {
     teams: teamsRes.data || [],
     players: playersRes.data || [],
-    state: stateRes.data || null,
+    availablePlayers,
+    state: stateData || null,
     picks: picksRes.data || [],
   };
 };
 
+// Get players still available in a league's draft
+// A player is taken once drafted in the league's current draft or rostered
+// by one of its teams; other leagues' drafts don't affect the list
+export const getDraftAvailablePlayers = async (
+  leagueId: string
+): Promise<DraftPlayer[]> => {
+  const { data, error } = await supabase.rpc("get_draft_available_players", {
+    p_league_id: leagueId,
+  });
+
+  if (error) throw error;
+  return data || [];
+};
+
 // Register a team
 export const registerTeam = async (name: string, leagueId: string): Promise<DraftTeam> => {
   const { data, error } = await supabase.rpc("register_team", {
@@ -137,8 +158,35 @@ export const registerTeam = async (name: string, leagueId: string): Promise<Draf
 };
 
 // Start the draft
-export const startDraft = async (leagueId: string): Promise<{ message: string; order: string[] }> => {
-  const { data, error } = await supabase.rpc("start_draft", {
+// The server builds the pick sequence from the league's format, team count
+// and rounds
+export const startDraft = async (
+  leagueId: string
+): Promise<{ message: string; order: string[] }> => {
+  const response = await apiFetch(`/api/leagues/${leagueId}/draft/start`, { method: "POST" });
+  return response.json();
+};
+
+// Set the draft order before the draft (commissioner only)
+// teamIds lists every team in pick order and is only used for "manual"
+export const setDraftOrder = async (
+  leagueId: string,
+  method: DraftOrderMethod,
+  teamIds?: string[]
+): Promise<{ message: string; method: DraftOrderMethod; order: string[] }> => {
+  const { data, error } = await supabase.rpc("set_draft_order", {
+    p_league_id: leagueId,
+    p_method: method,
+    p_team_ids: teamIds ?? null,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// Lock and publish the draft order (commissioner only)
+export const lockDraftOrder = async (leagueId: string): Promise<{ message: string }> => {
+  const { data, error } = await supabase.rpc("lock_draft_order", {
     p_league_id: leagueId,
   });
 
@@ -146,14 +194,49 @@ export const startDraft = async (leagueId: string): Promise<{ message: string; o
   return data;
 };
 
-// Make a pick
+// Unlock the draft order so it can be changed (commissioner only)
+export const unlockDraftOrder = async (leagueId: string): Promise<{ message: string }> => {
+  const { data, error } = await supabase.rpc("unlock_draft_order", {
+    p_league_id: leagueId,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// Team names in published draft order, or null until the order is locked
+export const getPublishedDraftOrder = (
+  teams: Array<{ name: string; draft_position?: number | null }>,
+  lockedAt: string | null | undefined
+): string[] | null => {
+  if (!lockedAt) return null;
+  return [...teams]
+    .filter((team) => team.draft_position != null)
+    .sort((a, b) => a.draft_position! - b.draft_position!)
+    .map((team) => team.name);
+};
+
+// Error codes raised by make_pick_by_id
+export const DRAFT_PICK_ERRORS = {
+  NOT_STARTED: "DRF01",
+  NOT_YOUR_TURN: "DRF02",
+  STALE_PICK: "DRF03",
+  PLAYER_UNAVAILABLE: "DRF04",
+  PAUSED: "DRF05",
+} as const;
+
+// Make a pick for the current user's team
+// pickNumber is the 1-indexed pick the user was looking at; the server
+// rejects the pick with DRF03 if the draft has already moved past it
 export const makePick = async (
-  teamName: string,
-  playerName: string
+  leagueId: string,
+  playerId: string,
+  pickNumber: number
 ): Promise<{ message: string; pick_number: number; round: number }> => {
-  const { data, error } = await supabase.rpc("make_pick", {
-    p_team_name: teamName,
-    p_player_name: playerName,
+  const { data, error } = await supabase.rpc("make_pick_by_id", {
+    p_league_id: leagueId,
+    p_player_id: playerId,
+    p_pick_number: pickNumber,
   });
 
   if (error) throw error;
@@ -161,16 +244,20 @@ export const makePick = async (
 };
 
 // Get next team to pick
-export const getNextTeam = async (): Promise<string | null> => {
-  const { data, error } = await supabase.rpc("get_next_team");
+export const getNextTeam = async (leagueId: string): Promise<string | null> => {
+  const { data, error } = await supabase.rpc("get_next_team", {
+    p_league_id: leagueId,
+  });
 
   if (error) throw error;
   return data;
 };
 
-// Reset draft (for testing)
-export const resetDraft = async (): Promise<void> => {
-  const { error } = await supabase.rpc("reset_draft");
+// Reset draft (for testing, commissioner only)
+export const resetDraft = async (leagueId: string): Promise<void> => {
+  const { error } = await supabase.rpc("reset_draft", {
+    p_league_id: leagueId,
+  });
   if (error) throw error;
 };
 
@@ -186,61 +273,153 @@ export const removeTeamFromDraft = async (
   return data;
 };
 
-// Subscribe to draft changes
+// Pause the draft clock (commissioner only)
+export const pauseDraft = async (
+  leagueId: string
+): Promise<{ message: string; seconds_remaining: number | null }> => {
+  const { data, error } = await supabase.rpc("pause_draft", {
+    p_league_id: leagueId,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// Resume a paused draft (commissioner only)
+export const resumeDraft = async (
+  leagueId: string
+): Promise<{ message: string; seconds_remaining: number }> => {
+  const { data, error } = await supabase.rpc("resume_draft", {
+    p_league_id: leagueId,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// Undo the most recent pick (commissioner only)
+export const undoLastPick = async (
+  leagueId: string
+): Promise<{ message: string; pick_number: number; round: number }> => {
+  const { data, error } = await supabase.rpc("undo_last_pick", {
+    p_league_id: leagueId,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// Make a pick for the team on the clock (commissioner only)
+export const commissionerMakePick = async (
+  leagueId: string,
+  playerId: string,
+  pickNumber: number
+): Promise<{ message: string; pick_number: number; round: number }> => {
+  const { data, error } = await supabase.rpc("commissioner_make_pick", {
+    p_league_id: leagueId,
+    p_player_id: playerId,
+    p_pick_number: pickNumber,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// Fetch recent commissioner actions for a league's draft
+export const fetchDraftActions = async (
+  leagueId: string,
+  limit: number = 10
+): Promise<DraftAction[]> => {
+  const { data, error } = await supabase
+    .from("draft_actions")
+    .select("*")
+    .eq("league_id", leagueId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Fetch a team's draft queue as player IDs in ranked order (owner only)
+export const fetchDraftQueue = async (teamId: string): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from("draft_queues")
+    .select("player_id")
+    .eq("team_id", teamId)
+    .order("rank");
+
+  if (error) throw error;
+  return (data || []).map((entry) => entry.player_id);
+};
+
+// Replace a team's draft queue with players in ranked order (owner only)
+export const setDraftQueue = async (
+  teamId: string,
+  playerIds: string[]
+): Promise<{ message: string; queued: number }> => {
+  const { data, error } = await supabase.rpc("set_draft_queue", {
+    p_team_id: teamId,
+    p_player_ids: playerIds,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// Turn autodraft on or off for a team (owner only)
+// While on, the server picks for the team as soon as it is on the clock
+export const setTeamAutodraft = async (
+  teamId: string,
+  enabled: boolean
+): Promise<{ message: string; autodraft: boolean }> => {
+  const { data, error } = await supabase.rpc("set_team_autodraft", {
+    p_team_id: teamId,
+    p_enabled: enabled,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// Subscribe to changes in one league's draft
 export const subscribeToChanges = (
+  leagueId: string,
+  draftId: string | null,
   callback: (data: DraftData) => void
 ) => {
-  const channel = supabase
-    .channel("draft")
-    .on(
-      "postgres_changes",
-      { event: "*", schema: "public", table: "teams" },
-      async () => {
-        try {
-          const data = await fetchDraftState();
-          callback(data);
-        } catch (error) {
-          console.error("Error fetching draft state after teams change:", error);
-        }
-      }
-    )
+  const refresh = (source: string) => async () => {
+    try {
+      const data = await fetchDraftState(leagueId);
+      callback(data);
+    } catch (error) {
+      console.error(`Error fetching draft state after ${source} change:`, error);
+    }
+  };
+
+  let channel = supabase
+    .channel(`draft:${leagueId}`)
     .on(
       "postgres_changes",
-      { event: "*", schema: "public", table: "draft_state" },
-      async () => {
-        try {
-          const data = await fetchDraftState();
-          callback(data);
-        } catch (error) {
-          console.error("Error fetching draft state after state change:", error);
-        }
-      }
+      { event: "*", schema: "public", table: "teams", filter: `league_id=eq.${leagueId}` },
+      refresh("teams")
     )
     .on(
       "postgres_changes",
-      { event: "*", schema: "public", table: "draft_picks" },
-      async () => {
-        try {
-          const data = await fetchDraftState();
-          callback(data);
-        } catch (error) {
-          console.error("Error fetching draft state after picks change:", error);
-        }
-      }
-    )
-    .on(
+      { event: "*", schema: "public", table: "draft_state", filter: `league_id=eq.${leagueId}` },
+      refresh("state")
+    );
+
+  // Picks only carry a draft_id, so they can be scoped once the draft exists
+  if (draftId) {
+    channel = channel.on(
       "postgres_changes",
-      { event: "*", schema: "public", table: "players" },
-      async () => {
-        try {
-          const data = await fetchDraftState();
-          callback(data);
-        } catch (error) {
-          console.error("Error fetching draft state after players change:", error);
-        }
-      }
-    )
-    .subscribe();
+      { event: "*", schema: "public", table: "draft_picks", filter: `draft_id=eq.${draftId}` },
+      refresh("picks")
+    );
+  }
+
+  channel.subscribe();
 
   return () => {
     supabase.removeChannel(channel);
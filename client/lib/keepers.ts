@@ -0,0 +1,120 @@
+import { supabase } from "./supabase";
+
+export interface Keeper {
+  id: string;
+  league_id: string;
+  team_id: string;
+  player_id: string;
+  source_draft_id: string; // Completed draft the player is kept from
+  round: number; // Round whose pick the team forfeits
+  team_name: string;
+  player_name: string;
+  position: string | null;
+  created_at: string;
+}
+
+// A player a team drafted last season and could keep
+export interface KeeperCandidate {
+  player_id: string;
+  player_name: string;
+  position: string | null;
+  drafted_round: number;
+}
+
+export interface KeeperData {
+  sourceDraftId: string | null; // null until the league has finished a draft
+  keepers: Keeper[]; // Every team's declared keepers, earliest round first
+  candidates: KeeperCandidate[]; // The given team's picks from the source draft
+}
+
+// A draft pick as fetchKeeperData selects it, with its player embedded
+interface KeeperPickRow {
+  player_id: string;
+  round: number;
+  players: { first_name: string; last_name: string; position: string | null } | null;
+}
+
+const fullName = (player: { first_name: string; last_name: string } | null) =>
+  player ? `${player.first_name} ${player.last_name}`.trim() : "Unknown";
+
+// Fetch a league's keepers and the players a team may keep
+// Keepers always come from the league's most recently completed draft
+export const fetchKeeperData = async (
+  leagueId: string,
+  teamId?: string
+): Promise<KeeperData> => {
+  const { data: source, error: sourceError } = await supabase
+    .from("drafts")
+    .select("id")
+    .eq("league_id", leagueId)
+    .eq("status", "completed")
+    .order("completed_at", { ascending: false, nullsFirst: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (sourceError) throw sourceError;
+  if (!source) return { sourceDraftId: null, keepers: [], candidates: [] };
+
+  const [keepersRes, picksRes] = await Promise.all([
+    supabase
+      .from("keepers")
+      .select("*, teams(name), players(first_name, last_name, position)")
+      .eq("source_draft_id", source.id)
+      .order("round"),
+    teamId
+      ? supabase
+          .from("draft_picks")
+          .select("player_id, round, players(first_name, last_name, position)")
+          .eq("draft_id", source.id)
+          .eq("team_id", teamId)
+          .order("pick_number")
+          .overrideTypes<KeeperPickRow[], { merge: false }>()
+      : { data: [] as KeeperPickRow[], error: null },
+  ]);
+
+  if (keepersRes.error) throw keepersRes.error;
+  if (picksRes.error) throw picksRes.error;
+
+  return {
+    sourceDraftId: source.id,
+    keepers: (keepersRes.data || []).map(({ teams, players, ...keeper }) => ({
+      ...keeper,
+      team_name: teams?.name ?? "Unknown",
+      player_name: fullName(players),
+      position: players?.position ?? null,
+    })),
+    candidates: (picksRes.data || []).map((pick) => ({
+      player_id: pick.player_id,
+      player_name: fullName(pick.players),
+      position: pick.players?.position ?? null,
+      drafted_round: pick.round,
+    })),
+  };
+};
+
+// Keep a player for the next draft (team owner only)
+// The server works out the round it costs and rejects conflicts
+export const declareKeeper = async (
+  teamId: string,
+  playerId: string
+): Promise<{ message: string; keeper_id: string; round: number }> => {
+  const { data, error } = await supabase.rpc("declare_keeper", {
+    p_team_id: teamId,
+    p_player_id: playerId,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// Drop a declared keeper (team owner only, before the deadline)
+export const removeKeeper = async (
+  keeperId: string
+): Promise<{ message: string; keeper_id: string }> => {
+  const { data, error } = await supabase.rpc("remove_keeper", {
+    p_keeper_id: keeperId,
+  });
+
+  if (error) throw error;
+  return data;
+};
@@ -1,4 +1,63 @@
 import { supabase } from "./supabase";
+import { DEFAULT_DRAFT_FORMAT, type DraftFormat } from "@shared/draftOrder";
+import {
+  DEFAULT_AUCTION_BID_TIME,
+  DEFAULT_AUCTION_BUDGET,
+  DEFAULT_AUCTION_MIN_BID,
+} from "@shared/auction";
+import { DEFAULT_KEEPER_ROUND_PENALTY, DEFAULT_MAX_KEEPERS } from "@shared/keepers";
+import { DEFAULT_SCORING_SETTINGS, type ScoringSettings } from "@shared/scoring";
+import { DEFAULT_REGULAR_SEASON_WEEKS } from "@shared/schedule";
+import { DEFAULT_TIEBREAKERS, type Tiebreaker } from "@shared/standings";
+
+// How the commissioner builds the draft order
+export type DraftOrderMethod = "random" | "manual" | "reverse_standings";
+
+// Pick-order draft, or an auction where teams bid against a budget
+export type DraftType = "standard" | "auction";
+
+// Commissioner-controlled options stored in leagues.settings
+export interface LeagueSettings {
+  min_teams?: number; // Fewest teams allowed to start the draft
+  draft_rounds?: number;
+  pick_time_limit?: number; // Seconds per pick before the clock auto-picks
+  lineup?: Record<string, number>; // Starter slots filled when the draft completes
+  draft_order_method?: DraftOrderMethod;
+  draft_format?: DraftFormat; // Round-by-round pick order (snake, linear, ...)
+  draft_type?: DraftType;
+  auction_budget?: number; // Starting budget per team
+  auction_min_bid?: number;
+  auction_bid_time?: number; // Seconds a player stays up after each bid
+  keepers_enabled?: boolean; // Teams may keep players from the last completed draft
+  max_keepers?: number; // Keepers allowed per team
+  keeper_round_penalty?: number; // A keeper costs the pick N rounds before where it was drafted
+  keeper_deadline?: string | null; // ISO time declarations close; null keeps them open
+  scoring?: ScoringSettings; // Preset, plus per-stat overrides for custom scoring
+  regular_season_weeks?: number; // Weeks of head-to-head games in the schedule
+  division_weighting?: boolean; // Schedule extra division games
+  tiebreakers?: Tiebreaker[]; // Applied in order to teams with the same record
+}
+
+export const DEFAULT_LEAGUE_SETTINGS: Required<LeagueSettings> = {
+  min_teams: 2,
+  draft_rounds: 5,
+  pick_time_limit: 120,
+  lineup: { QB: 1, RB: 2, WR: 2, TE: 1, FLEX: 1, K: 1, DEF: 1 },
+  draft_order_method: "random",
+  draft_format: DEFAULT_DRAFT_FORMAT,
+  draft_type: "standard",
+  auction_budget: DEFAULT_AUCTION_BUDGET,
+  auction_min_bid: DEFAULT_AUCTION_MIN_BID,
+  auction_bid_time: DEFAULT_AUCTION_BID_TIME,
+  keepers_enabled: false,
+  max_keepers: DEFAULT_MAX_KEEPERS,
+  keeper_round_penalty: DEFAULT_KEEPER_ROUND_PENALTY,
+  keeper_deadline: null,
+  scoring: DEFAULT_SCORING_SETTINGS,
+  regular_season_weeks: DEFAULT_REGULAR_SEASON_WEEKS,
+  division_weighting: false,
+  tiebreakers: DEFAULT_TIEBREAKERS,
+};
 
 export interface League {
   id: string;
@@ -9,17 +68,26 @@ export interface League {
   draft_date: string | null;
   draft_status: "pending" | "in_progress" | "completed";
   invite_code: string | null;
+  draft_order_locked_at: string | null; // Set once the commissioner publishes the order
   is_mock: boolean;
-  settings: Record<string, any>;
+  settings: LeagueSettings;
   created_at: string;
   updated_at: string;
 }
 
+// Resolve a league's settings, filling in defaults for anything unset
+export const getLeagueSettings = (
+  league: Pick<League, "settings"> | null | undefined
+): Required<LeagueSettings> => {
+  return { ...DEFAULT_LEAGUE_SETTINGS, ...(league?.settings || {}) };
+};
+
 // Create a new league
 export const createLeague = async (
   name: string,
   description?: string,
-  maxTeams: number = 12
+  maxTeams: number = 12,
+  settings: LeagueSettings = {}
 ): Promise<League> => {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) throw new Error("Not authenticated");
@@ -31,6 +99,7 @@ export const createLeague = async (
       description: description || null,
       commissioner_id: user.id,
       max_teams: maxTeams,
+      settings,
     })
     .select()
     .single();
@@ -90,6 +159,29 @@ export const updateLeague = async (
   return data;
 };
 
+// Merge new values into a league's settings (commissioner only, via RLS)
+export const updateLeagueSettings = async (
+  league: League,
+  settings: LeagueSettings
+): Promise<League> => {
+  return updateLeague(league.id, {
+    settings: { ...league.settings, ...settings },
+  });
+};
+
+// Close out a completed draft so the league can draft again (commissioner only)
+// Rosters are cleared; teams, past drafts and declared keepers are kept
+export const startNewSeason = async (
+  leagueId: string
+): Promise<{ message: string; cleared_roster_spots: number }> => {
+  const { data, error } = await supabase.rpc("start_new_season", {
+    p_league_id: leagueId,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
 // Delete league
 export const deleteLeague = async (leagueId: string): Promise<void> => {
   const { error } = await supabase
@@ -1,4 +1,7 @@
 import { supabase } from "./supabase";
+import { apiFetch } from "./api";
+import { DEFAULT_DRAFT_FORMAT, type DraftFormat } from "@shared/draftOrder";
+import type { MockHistoryDraft } from "@shared/mockAnalytics";
 
 // Bot team names for mock drafts
 const BOT_TEAM_NAMES = [
@@ -15,10 +18,57 @@ const BOT_TEAM_NAMES = [
   "Neural Knights",
 ];
 
+// How a bot weighs the player ranking against its roster
+export type BotStrategy = "balanced" | "rb_heavy" | "zero_rb" | "best_available";
+
+export const BOT_STRATEGIES: BotStrategy[] = [
+  "balanced",
+  "rb_heavy",
+  "zero_rb",
+  "best_available",
+];
+
+export const BOT_STRATEGY_LABELS: Record<BotStrategy, string> = {
+  balanced: "Balanced",
+  rb_heavy: "RB-Heavy",
+  zero_rb: "Zero-RB",
+  best_available: "Best Available",
+};
+
+export const BOT_STRATEGY_DESCRIPTIONS: Record<BotStrategy, string> = {
+  balanced: "Takes the best ranked player at a position it still needs",
+  rb_heavy: "Loads up on running backs early",
+  zero_rb: "Waits on running backs until round 5",
+  best_available: "Takes the best ranked player, whatever the position",
+};
+
+// How long bots take to pick, in ms
+export type BotSpeed = "instant" | "fast" | "normal" | "slow";
+
+export const BOT_SPEEDS: Record<BotSpeed, number> = {
+  instant: 0,
+  fast: 500,
+  normal: 1500,
+  slow: 3000,
+};
+
+export const BOT_SPEED_LABELS: Record<BotSpeed, string> = {
+  instant: "Instant",
+  fast: "Fast (0.5s)",
+  normal: "Normal (1.5s)",
+  slow: "Slow (3s)",
+};
+
 export interface MockDraftConfig {
   numBots: number; // Number of bot teams (1-11)
   botPickDelay: number; // Delay in ms before bots make picks
   totalRounds: number;
+  draftFormat: DraftFormat;
+  botStrategies: BotStrategy[]; // One per bot; missing bots draft balanced
+  userDraftSlot: number | null; // 1-based; null for a random slot
+  mirrorLeagueSettings: boolean; // Rounds, format and lineup came from the league
+  lineup: Record<string, number> | null; // Starter slots bots draft for; null uses the league's
+  lobby: boolean; // Wait for league-mates to claim bot seats before starting
 }
 
 export interface MockDraftTeam {
@@ -27,6 +77,7 @@ export interface MockDraftTeam {
   name: string;
   is_bot: boolean;
   owner_id: string | null;
+  bot_strategy?: BotStrategy | null; // Null for human teams
   created_at: string;
 }
 
@@ -39,13 +90,18 @@ export interface MockDraftPick {
   pick_number: number;
   team_name: string;
   player_name: string;
+  position?: string;
 }
 
+// "lobby" until the creator starts a draft league-mates can join
+export type MockDraftStatus = "lobby" | "in_progress" | "completed" | "cancelled";
+
 export interface MockDraft {
   id: string;
   league_id: string;
   creator_id: string;
-  status: "in_progress" | "completed" | "cancelled";
+  status: MockDraftStatus;
+  human_teams: number;
   num_bots: number;
   total_rounds: number;
   current_round: number;
@@ -59,22 +115,68 @@ export interface MockDraftState {
   id: string;
   league_id: string;
   creator_id: string;
-  status: "in_progress" | "completed" | "cancelled";
+  status: MockDraftStatus;
   num_bots: number;
   total_rounds: number;
   current_round: number;
   current_pick: number;
   draft_order: string[];
+  draft_format: DraftFormat;
+  user_draft_slot: number | null;
+  bot_pick_delay: number;
+  mirror_league_settings: boolean;
+  lineup: Record<string, number> | null;
   teams: MockDraftTeam[];
   picks: MockDraftPick[];
   next_team: string | null;
   total_picks: number;
 }
 
+// Ranking data for the players picked in a mock draft
+export interface MockDraftReportPlayer {
+  id: string;
+  position: string;
+  adp: number | null;
+  projected_points: number | null;
+}
+
+export interface MockDraftReport {
+  state: MockDraftState;
+  players: Record<string, MockDraftReportPlayer>; // Keyed by player ID
+  slotValues: number[]; // Best projections in the player pool, high to low, one per pick
+}
+
+// A user's completed mock drafts in a league, with the players they include
+export interface MockDraftHistory {
+  drafts: MockHistoryDraft[];
+  players: Record<string, { name: string; position: string }>; // Keyed by player ID
+}
+
+// A completed mock draft as getMockDraftHistory selects it: the user's seat,
+// and every pick with its player embedded
+interface MockHistoryRow {
+  id: string;
+  created_at: string;
+  mock_draft_teams: Array<{ id: string; owner_id: string | null }>;
+  mock_draft_picks: Array<{
+    pick_number: number;
+    round: number;
+    mock_team_id: string;
+    player_id: string;
+    players: { first_name: string; last_name: string; position: string | null } | null;
+  }>;
+}
+
 const DEFAULT_CONFIG: MockDraftConfig = {
   numBots: 3,
-  botPickDelay: 1500, // 1.5 seconds
+  botPickDelay: BOT_SPEEDS.normal,
   totalRounds: 5,
+  draftFormat: DEFAULT_DRAFT_FORMAT,
+  botStrategies: [],
+  userDraftSlot: null,
+  mirrorLeagueSettings: false,
+  lineup: null,
+  lobby: false,
 };
 
 // Create a mock draft within an existing league
@@ -83,16 +185,13 @@ export const createLeagueMockDraft = async (
   userTeamName: string,
   config: Partial<MockDraftConfig> = {}
 ): Promise<{ mockDraftId: string; userTeamId: string; draftOrder: string[] }> => {
-  const { numBots, totalRounds } = { ...DEFAULT_CONFIG, ...config };
-
-  const { data, error } = await supabase.rpc("create_league_mock_draft", {
-    p_league_id: leagueId,
-    p_user_team_name: userTeamName,
-    p_num_bots: numBots,
-    p_total_rounds: totalRounds,
+  // The server builds the pick sequence from the format, teams and rounds
+  const response = await apiFetch(`/api/leagues/${leagueId}/mock-drafts`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ userTeamName, ...DEFAULT_CONFIG, ...config }),
   });
-
-  if (error) throw error;
+  const data = await response.json();
 
   return {
     mockDraftId: data.mock_draft_id,
@@ -113,6 +212,120 @@ export const getMockDraftState = async (
   return data;
 };
 
+// Get everything the post-draft report grades a mock draft with
+export const getMockDraftReport = async (
+  mockDraftId: string
+): Promise<MockDraftReport> => {
+  const state = await getMockDraftState(mockDraftId);
+
+  const [playersRes, slotRes] = await Promise.all([
+    supabase
+      .from("players")
+      .select("id, position, adp, projected_points")
+      .in("id", state.picks.map((pick) => pick.player_id)),
+    supabase
+      .from("players")
+      .select("projected_points")
+      .not("projected_points", "is", null)
+      .order("projected_points", { ascending: false })
+      .limit(state.total_picks),
+  ]);
+
+  if (playersRes.error) throw playersRes.error;
+  if (slotRes.error) throw slotRes.error;
+
+  return {
+    state,
+    players: Object.fromEntries(
+      (playersRes.data || []).map((player) => [player.id, player])
+    ),
+    slotValues: (slotRes.data || []).map((player) => Number(player.projected_points)),
+  };
+};
+
+// Claim an open bot seat in a mock draft lobby
+export const claimMockDraftSeat = async (mockDraftId: string) => {
+  const { data, error } = await supabase.rpc("claim_mock_draft_seat", {
+    p_mock_draft_id: mockDraftId,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// Hand your seat in a mock draft lobby back to a bot
+export const leaveMockDraftSeat = async (mockDraftId: string) => {
+  const { data, error } = await supabase.rpc("leave_mock_draft_seat", {
+    p_mock_draft_id: mockDraftId,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// Start a mock draft lobby (creator only)
+export const startMockDraft = async (mockDraftId: string) => {
+  const { data, error } = await supabase.rpc("start_mock_draft", {
+    p_mock_draft_id: mockDraftId,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// Get the current user's completed mock drafts in a league, newest first
+export const getMockDraftHistory = async (
+  leagueId: string,
+  limit = 50
+): Promise<MockDraftHistory> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { drafts: [], players: {} };
+
+  // The inner join keeps only drafts the user had a seat in, and only their
+  // seat. Players come embedded in the picks: looking them up separately
+  // meant a URL with every drafted player's ID in it, too long for the API
+  // after a few dozen drafts.
+  const { data, error } = await supabase
+    .from("mock_drafts")
+    .select(
+      "id, created_at, mock_draft_teams!inner(id, owner_id), mock_draft_picks(pick_number, round, mock_team_id, player_id, players(first_name, last_name, position))"
+    )
+    .eq("league_id", leagueId)
+    .eq("status", "completed")
+    .eq("mock_draft_teams.owner_id", user.id)
+    .order("created_at", { ascending: false })
+    .limit(limit)
+    .overrideTypes<MockHistoryRow[], { merge: false }>();
+
+  if (error) throw error;
+
+  const playerMap: MockDraftHistory["players"] = {};
+  for (const pick of (data || []).flatMap((draft) => draft.mock_draft_picks)) {
+    if (pick.players) {
+      playerMap[pick.player_id] = {
+        name: `${pick.players.first_name} ${pick.players.last_name}`,
+        position: pick.players.position ?? "",
+      };
+    }
+  }
+
+  return {
+    drafts: (data || []).map((draft) => ({
+      id: draft.id,
+      createdAt: draft.created_at,
+      myTeamId: draft.mock_draft_teams[0].id,
+      picks: draft.mock_draft_picks.map((pick) => ({
+        pickNumber: pick.pick_number,
+        round: pick.round,
+        teamId: pick.mock_team_id,
+        playerId: pick.player_id,
+        position: playerMap[pick.player_id]?.position ?? "",
+      })),
+    })),
+    players: playerMap,
+  };
+};
+
 // Get all mock drafts for a league
 export const getLeagueMockDrafts = async (
   leagueId: string
@@ -169,72 +382,43 @@ export const makeMockDraftPick = async (
   };
 };
 
-// Make a bot pick
-export const makeMockDraftBotPick = async (
-  mockDraftId: string,
-  config: Partial<MockDraftConfig> = {}
-): Promise<{ success: boolean; message?: string; playerName?: string; isComplete?: boolean }> => {
-  const { botPickDelay } = { ...DEFAULT_CONFIG, ...config };
-
-  // Wait for the delay to simulate "thinking"
-  await new Promise((resolve) => setTimeout(resolve, botPickDelay));
-
-  const { data, error } = await supabase.rpc("make_mock_draft_bot_pick", {
-    p_mock_draft_id: mockDraftId,
-  });
-
-  if (error) {
-    return { success: false, message: error.message };
-  }
-
-  if (!data.success) {
-    return { success: false, message: data.message };
-  }
-
-  return {
-    success: true,
-    message: data.message,
-    playerName: data.player_name,
-    isComplete: data.is_complete === true || data.is_complete === "true",
-  };
-};
-
-// Process all pending bot picks
-export const processAllBotPicks = async (
+// Watch a mock draft for seats and picks, whoever made them
+// Returns a function that unsubscribes
+export const subscribeToMockDraft = (
   mockDraftId: string,
-  config: Partial<MockDraftConfig> = {},
-  onBotPick?: (message: string) => void
-): Promise<MockDraftState> => {
-  let state = await getMockDraftState(mockDraftId);
-
-  while (state.status === "in_progress") {
-    const isBotTurn = isNextPickBot(state);
-
-    if (!isBotTurn) {
-      // It's the user's turn, stop processing
-      break;
-    }
-
-    const result = await makeMockDraftBotPick(mockDraftId, config);
-
-    if (!result.success) {
-      console.error("Bot pick failed:", result.message);
-      break;
-    }
-
-    if (onBotPick && result.message) {
-      onBotPick(result.message);
+  callback: (state: MockDraftState) => void
+) => {
+  const refresh = (source: string) => async () => {
+    try {
+      callback(await getMockDraftState(mockDraftId));
+    } catch (error) {
+      console.error(`Error fetching mock draft state after ${source} change:`, error);
     }
+  };
 
-    // Refresh state for next iteration
-    state = await getMockDraftState(mockDraftId);
-
-    if (result.isComplete) {
-      break;
-    }
-  }
-
-  return state;
+  const channel = supabase
+    .channel(`mock-draft:${mockDraftId}`)
+    .on(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "mock_drafts", filter: `id=eq.${mockDraftId}` },
+      refresh("mock draft")
+    )
+    .on(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "mock_draft_teams", filter: `mock_draft_id=eq.${mockDraftId}` },
+      refresh("seats")
+    )
+    .on(
+      "postgres_changes",
+      { event: "INSERT", schema: "public", table: "mock_draft_picks", filter: `mock_draft_id=eq.${mockDraftId}` },
+      refresh("picks")
+    );
+
+  channel.subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
 };
 
 // Get available players for mock draft (players not yet picked)
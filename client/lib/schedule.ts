@@ -0,0 +1,226 @@
+import { supabase } from "./supabase";
+import type { TeamScoreBreakdown } from "@shared/api";
+import type { ScheduledMatchup } from "@shared/schedule";
+
+export interface ScheduleTeam {
+  id: string;
+  name: string;
+  division: string | null;
+}
+
+// One week's game, with each side's points once the week is scored
+export interface Matchup {
+  id: string;
+  league_id: string;
+  season: number;
+  week: number;
+  home_team_id: string;
+  away_team_id: string | null; // null for a bye
+  home_team_name: string;
+  away_team_name: string | null;
+  home_points: number | null; // null until the week is scored
+  away_points: number | null;
+}
+
+export interface MatchupStarter {
+  player_id: string;
+  player_name: string;
+  position: string | null;
+  slot: string;
+  points: number | null;
+}
+
+export interface MatchupSide {
+  team_id: string;
+  team_name: string;
+  points: number | null;
+  starters: MatchupStarter[]; // The scored lineup, or today's starters before scoring
+}
+
+export interface MatchupDetail {
+  matchup: Matchup;
+  home: MatchupSide;
+  away: MatchupSide | null;
+}
+
+// A starter's roster spot as fetchMatchupSide selects it, with its player embedded
+interface StarterRow {
+  player_id: string;
+  position: string; // Roster slot
+  players: { first_name: string; last_name: string; position: string | null } | null;
+}
+
+const fullName = (player: { first_name: string; last_name: string } | null) =>
+  player ? `${player.first_name} ${player.last_name}`.trim() : "Unknown";
+
+// Fetch a league's teams with their divisions
+export const fetchScheduleTeams = async (leagueId: string): Promise<ScheduleTeam[]> => {
+  const { data, error } = await supabase
+    .from("teams")
+    .select("id, name, division")
+    .eq("league_id", leagueId)
+    .order("created_at");
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Fetch a season's schedule, week by week, with any scores so far
+export const fetchLeagueSchedule = async (
+  leagueId: string,
+  season: number
+): Promise<Matchup[]> => {
+  const [matchupsRes, teamsRes, scoresRes] = await Promise.all([
+    supabase
+      .from("matchups")
+      .select("id, league_id, season, week, home_team_id, away_team_id")
+      .eq("league_id", leagueId)
+      .eq("season", season)
+      .order("week")
+      .order("created_at"),
+    supabase.from("teams").select("id, name").eq("league_id", leagueId),
+    supabase
+      .from("scores")
+      .select("team_id, week, points")
+      .eq("league_id", leagueId)
+      .eq("season", season),
+  ]);
+
+  if (matchupsRes.error) throw matchupsRes.error;
+  if (teamsRes.error) throw teamsRes.error;
+  if (scoresRes.error) throw scoresRes.error;
+
+  const teamNames = new Map((teamsRes.data || []).map((team) => [team.id, team.name]));
+  const points = new Map(
+    (scoresRes.data || []).map((score) => [`${score.team_id}:${score.week}`, Number(score.points)])
+  );
+
+  return (matchupsRes.data || []).map((matchup) => ({
+    ...matchup,
+    home_team_name: teamNames.get(matchup.home_team_id) ?? "Unknown",
+    away_team_name: matchup.away_team_id ? teamNames.get(matchup.away_team_id) ?? "Unknown" : null,
+    home_points: points.get(`${matchup.home_team_id}:${matchup.week}`) ?? null,
+    away_points: matchup.away_team_id
+      ? points.get(`${matchup.away_team_id}:${matchup.week}`) ?? null
+      : null,
+  }));
+};
+
+// Fetch one side of a matchup: the scored lineup if the week has been
+// scored, otherwise the team's current starters
+const fetchMatchupSide = async (
+  matchup: Pick<Matchup, "league_id" | "season" | "week">,
+  teamId: string,
+  teamName: string
+): Promise<MatchupSide> => {
+  const { data: score, error: scoreError } = await supabase
+    .from("scores")
+    .select("points, breakdown")
+    .eq("team_id", teamId)
+    .eq("league_id", matchup.league_id)
+    .eq("season", matchup.season)
+    .eq("week", matchup.week)
+    .maybeSingle();
+
+  if (scoreError) throw scoreError;
+
+  if (score) {
+    const breakdown = (score.breakdown || {}) as Partial<TeamScoreBreakdown>;
+    return {
+      team_id: teamId,
+      team_name: teamName,
+      points: Number(score.points),
+      starters: (breakdown.starters || []).map((starter) => ({
+        player_id: starter.playerId,
+        player_name: starter.playerName,
+        position: starter.position,
+        slot: starter.slot,
+        points: starter.points,
+      })),
+    };
+  }
+
+  const { data: roster, error: rosterError } = await supabase
+    .from("rosters")
+    .select("player_id, position, players(first_name, last_name, position)")
+    .eq("team_id", teamId)
+    .eq("is_starter", true)
+    .overrideTypes<StarterRow[], { merge: false }>();
+
+  if (rosterError) throw rosterError;
+
+  return {
+    team_id: teamId,
+    team_name: teamName,
+    points: null,
+    starters: (roster || []).map((spot) => ({
+      player_id: spot.player_id,
+      player_name: fullName(spot.players),
+      position: spot.players?.position ?? null,
+      slot: spot.position,
+      points: null,
+    })),
+  };
+};
+
+// Fetch a matchup with both teams' lineups and points
+export const fetchMatchupDetail = async (matchupId: string): Promise<MatchupDetail> => {
+  const { data: row, error } = await supabase
+    .from("matchups")
+    .select("id, league_id, season, week, home_team_id, away_team_id")
+    .eq("id", matchupId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!row) throw new Error("Matchup not found");
+
+  const { data: teams, error: teamsError } = await supabase
+    .from("teams")
+    .select("id, name")
+    .in("id", [row.home_team_id, row.away_team_id].filter(Boolean));
+
+  if (teamsError) throw teamsError;
+
+  const teamName = (id: string) => teams?.find((team) => team.id === id)?.name ?? "Unknown";
+  const [home, away] = await Promise.all([
+    fetchMatchupSide(row, row.home_team_id, teamName(row.home_team_id)),
+    row.away_team_id
+      ? fetchMatchupSide(row, row.away_team_id, teamName(row.away_team_id))
+      : Promise.resolve(null),
+  ]);
+
+  return {
+    matchup: {
+      ...row,
+      home_team_name: home.team_name,
+      away_team_name: away?.team_name ?? null,
+      home_points: home.points,
+      away_points: away?.points ?? null,
+    },
+    home,
+    away,
+  };
+};
+
+// Replace a season's schedule and, optionally, team divisions (commissioner only)
+// Rejected once any week of the season has been scored
+export const saveLeagueSchedule = async (
+  leagueId: string,
+  season: number,
+  matchups: ScheduledMatchup[],
+  divisions?: Record<string, string | null>
+): Promise<{ message: string; matchups: number }> => {
+  const { data, error } = await supabase.rpc("save_league_schedule", {
+    p_league_id: leagueId,
+    p_season: season,
+    p_matchups: matchups.map((matchup) => ({
+      week: matchup.week,
+      home_team_id: matchup.homeTeamId,
+      away_team_id: matchup.awayTeamId,
+    })),
+    p_divisions: divisions ?? null,
+  });
+
+  if (error) throw error;
+  return data;
+};
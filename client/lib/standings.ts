@@ -0,0 +1,53 @@
+import { supabase } from "./supabase";
+import { getLeagueSettings, type League } from "./leagues";
+import { computeStandings, type TeamStanding } from "@shared/standings";
+
+// What the get_league_standings RPC returns: every team with its coin flip,
+// and each head-to-head game where both sides have been scored
+interface StandingsRpcResult {
+  teams: Array<{
+    id: string;
+    name: string;
+    division: string | null;
+    coin_flip: number;
+  }>;
+  games: Array<{
+    week: number;
+    home_team_id: string;
+    away_team_id: string;
+    home_points: number;
+    away_points: number;
+  }>;
+}
+
+// Fetch a season's standings, ranked with the league's tiebreakers
+// League members only
+export const fetchLeagueStandings = async (
+  league: Pick<League, "id" | "settings">,
+  season: number
+): Promise<TeamStanding[]> => {
+  const { data, error } = await supabase.rpc("get_league_standings", {
+    p_league_id: league.id,
+    p_season: season,
+  });
+
+  if (error) throw error;
+  const result: StandingsRpcResult | null = data;
+
+  return computeStandings(
+    (result?.teams || []).map((team) => ({
+      id: team.id,
+      name: team.name,
+      division: team.division,
+      coinFlip: Number(team.coin_flip),
+    })),
+    (result?.games || []).map((game) => ({
+      week: game.week,
+      homeTeamId: game.home_team_id,
+      awayTeamId: game.away_team_id,
+      homePoints: Number(game.home_points),
+      awayPoints: Number(game.away_points),
+    })),
+    getLeagueSettings(league).tiebreakers
+  );
+};
@@ -0,0 +1,521 @@
+import { useEffect, useState } from "react";
+import { useSearchParams, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  fetchAuctionState,
+  startAuctionDraft,
+  nominatePlayer,
+  placeBid,
+  subscribeToAuction,
+  AUCTION_ERRORS,
+  type AuctionState,
+  type AuctionTeam,
+} from "@/lib/auction";
+import { getDraftAvailablePlayers, type DraftPlayer } from "@/lib/draft";
+import { getLeague, getLeagueSettings, type League } from "@/lib/leagues";
+import { canBid, getMinNextBid } from "@shared/auction";
+import { AlertCircle, ArrowLeft, Clock, DollarSign, Gavel, Play, Trophy } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { useCountdown, formatCountdown } from "@/hooks/use-countdown";
+import { AvailablePlayersTable } from "@/components/AvailablePlayersTable";
+
+// Budget rules take the team's standing in the shape shared/auction.ts expects
+const toBudget = (team: AuctionTeam, auction: AuctionState) => ({
+  budget: auction.budget,
+  spent: team.spent,
+  rosterSize: auction.roster_size,
+  playersWon: team.players_won,
+});
+
+export default function AuctionDraft() {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const leagueId = searchParams.get("league");
+  const [league, setLeague] = useState<League | null>(null);
+  const [auction, setAuction] = useState<AuctionState | null>(null);
+  const [availablePlayers, setAvailablePlayers] = useState<DraftPlayer[]>([]);
+  const [bidAmount, setBidAmount] = useState("");
+  const [openingBid, setOpeningBid] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const isCommissioner = user && league?.commissioner_id === user.id;
+  const leagueSettings = getLeagueSettings(league);
+  const currentLot = auction?.current_lot ?? null;
+  const bidSecondsLeft = useCountdown(currentLot?.bid_deadline);
+  const nominationSecondsLeft = useCountdown(currentLot ? null : auction?.nomination_deadline);
+
+  useEffect(() => {
+    if (!leagueId) {
+      setError("No league specified. Please select a league from the dashboard.");
+      return;
+    }
+    loadLeague();
+    loadAuction();
+  }, [leagueId]);
+
+  // Subscribe once the auction exists so lot changes are scoped to it
+  useEffect(() => {
+    if (!leagueId || !loaded) return;
+
+    const unsubscribe = subscribeToAuction(leagueId, auction?.id ?? null, (state) => {
+      setAuction(state);
+      loadAvailablePlayers();
+    });
+
+    return unsubscribe;
+  }, [leagueId, loaded, auction?.id]);
+
+  // Suggest the smallest winning bid whenever the lot changes hands
+  useEffect(() => {
+    if (!currentLot || !auction) return;
+    setBidAmount(String(getMinNextBid(currentLot.current_bid, auction.min_bid)));
+  }, [currentLot?.id, currentLot?.current_bid]);
+
+  const loadLeague = async () => {
+    if (!leagueId) return;
+    try {
+      setLeague(await getLeague(leagueId));
+    } catch (err: any) {
+      setError(err.message || "Failed to load league");
+    }
+  };
+
+  const loadAvailablePlayers = async () => {
+    if (!leagueId) return;
+    try {
+      setAvailablePlayers(await getDraftAvailablePlayers(leagueId));
+    } catch (err) {
+      console.error("Failed to load available players:", err);
+    }
+  };
+
+  const loadAuction = async () => {
+    if (!leagueId) return;
+    try {
+      setLoading(true);
+      const [state] = await Promise.all([fetchAuctionState(leagueId), loadAvailablePlayers()]);
+      setAuction(state);
+      setLoaded(true);
+    } catch (err: any) {
+      setError(err.message || "Failed to load auction");
+      toast({
+        title: "Error",
+        description: err.message || "Failed to load auction",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Run an auction RPC, surfacing errors the same way for every action
+  const runAction = async (action: () => Promise<{ message: string }>, title: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await action();
+      toast({ title, description: result.message });
+      await loadAuction();
+    } catch (err: any) {
+      const errorMsg = err.message || "Something went wrong";
+      setError(errorMsg);
+      await loadAuction();
+      toast({
+        title: err.code === AUCTION_ERRORS.STALE_BOARD ? "Auction Moved On" : "Error",
+        description: errorMsg,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStartAuction = () => {
+    if (!leagueId) return;
+    runAction(() => startAuctionDraft(leagueId), "Auction Started!");
+  };
+
+  const handleNominate = (playerId: string) => {
+    if (!leagueId || !auction) return;
+    const amount = Number(openingBid || auction.min_bid);
+    runAction(() => nominatePlayer(leagueId, playerId, amount), "Player Nominated");
+    setOpeningBid("");
+  };
+
+  const handleBid = (amount: number) => {
+    if (!leagueId || !currentLot) return;
+    runAction(() => placeBid(leagueId, currentLot.id, amount), "Bid Placed");
+  };
+
+  if (!leagueId) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Card className="max-w-md">
+          <CardHeader>
+            <CardTitle>No League Selected</CardTitle>
+            <CardDescription>
+              Please select a league from the dashboard to open its auction.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={() => navigate("/dashboard")} className="w-full">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Go to Dashboard
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!loaded) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <Clock className="h-8 w-8 animate-spin mx-auto mb-4" />
+          <p className="text-gray-600">Loading auction...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const teamName = (teamId: string | null | undefined) =>
+    auction?.teams.find((team) => team.id === teamId)?.name ?? "Unknown";
+  const myTeam = auction?.teams.find((team) => team.owner_id === user?.id) ?? null;
+  const isMyNomination = !!myTeam && auction?.nominator_id === myTeam.id;
+  const isComplete = auction?.status === "completed";
+  const isHighBidder = !!myTeam && currentLot?.current_bidder === myTeam.id;
+
+  const bidValue = Number(bidAmount);
+  const canPlaceBid =
+    !!auction &&
+    !!myTeam &&
+    !!currentLot &&
+    !isHighBidder &&
+    bidSecondsLeft !== 0 &&
+    canBid(toBudget(myTeam, auction), bidValue, currentLot.current_bid, auction.min_bid);
+
+  const openingValue = Number(openingBid || auction?.min_bid);
+  const canNominate =
+    !!auction &&
+    !!myTeam &&
+    isMyNomination &&
+    canBid(toBudget(myTeam, auction), openingValue, null, auction.min_bid);
+
+  const getPlayerName = (player: DraftPlayer): string => {
+    if (player.name) return player.name;
+    return `${player.first_name} ${player.last_name}`.trim() || "Unknown";
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h1 className="text-4xl font-bold text-gray-900 mb-2">
+                {league?.name || "Auction Draft"}
+              </h1>
+              <p className="text-gray-600">
+                Auction draft with a ${auction?.budget ?? leagueSettings.auction_budget} budget per team
+              </p>
+            </div>
+            <Button variant="outline" onClick={() => navigate(`/league/${leagueId}`)}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to League
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Not started */}
+        {!auction && (
+          <Card className="max-w-md mx-auto">
+            <CardHeader>
+              <CardTitle>Auction Not Started</CardTitle>
+              <CardDescription>
+                Each team gets ${leagueSettings.auction_budget} to fill{" "}
+                {leagueSettings.draft_rounds} roster spots. Bids stay open for{" "}
+                {leagueSettings.auction_bid_time} seconds after each new bid.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isCommissioner ? (
+                <Button onClick={handleStartAuction} disabled={loading} className="w-full">
+                  <Play className="mr-2 h-4 w-4" />
+                  Start Auction
+                </Button>
+              ) : (
+                <p className="text-center text-gray-500 text-sm">
+                  Waiting for the commissioner to start the auction...
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {auction && (
+          <div className="space-y-6">
+            {isComplete ? (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Trophy className="h-5 w-5 text-yellow-500" />
+                    Auction Complete!
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-gray-600 mb-4">
+                    Every roster is full and has been set, with starters filled
+                    in the order players were won.
+                  </p>
+                  <Button variant="outline" onClick={() => navigate(`/league/${leagueId}`)}>
+                    Go to League
+                  </Button>
+                </CardContent>
+              </Card>
+            ) : currentLot ? (
+              /* Player up for bid */
+              <Card className="border-blue-500">
+                <CardContent className="pt-6">
+                  <div className="flex items-center justify-between flex-wrap gap-4">
+                    <div>
+                      <div className="text-sm text-gray-600">Up for Bid</div>
+                      <div className="text-2xl font-bold flex items-center gap-2">
+                        {currentLot.player_name}
+                        <Badge variant="secondary">{currentLot.position}</Badge>
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        Nominated by {teamName(currentLot.nominated_by)}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-sm text-gray-600">High Bid</div>
+                      <div className="text-2xl font-bold">${currentLot.current_bid}</div>
+                      <div
+                        className={cn(
+                          "text-sm",
+                          isHighBidder ? "text-green-600 font-semibold" : "text-gray-500"
+                        )}
+                      >
+                        {isHighBidder ? "You" : teamName(currentLot.current_bidder)}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-sm text-gray-600">Time Left</div>
+                      <div
+                        className={cn(
+                          "text-2xl font-bold tabular-nums",
+                          bidSecondsLeft !== null && bidSecondsLeft <= 5 && "text-red-600"
+                        )}
+                      >
+                        {bidSecondsLeft !== null ? formatCountdown(bidSecondsLeft) : "--"}
+                      </div>
+                    </div>
+                    {myTeam && (
+                      <div className="flex items-end gap-2">
+                        <div>
+                          <div className="text-sm text-gray-600 mb-1">
+                            Your bid (max ${myTeam.max_bid})
+                          </div>
+                          <Input
+                            type="number"
+                            className="w-28"
+                            min={getMinNextBid(currentLot.current_bid, auction.min_bid)}
+                            max={myTeam.max_bid}
+                            value={bidAmount}
+                            onChange={(e) => setBidAmount(e.target.value)}
+                            onKeyDown={(e) => e.key === "Enter" && canPlaceBid && handleBid(bidValue)}
+                            disabled={loading || isHighBidder}
+                          />
+                        </div>
+                        <Button onClick={() => handleBid(bidValue)} disabled={loading || !canPlaceBid}>
+                          <Gavel className="mr-2 h-4 w-4" />
+                          Bid
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ) : (
+              /* Waiting on a nomination */
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="flex items-center justify-between flex-wrap gap-4">
+                    <div>
+                      <div className="text-sm text-gray-600">Nominating</div>
+                      <div className="flex items-center gap-2">
+                        <Badge
+                          variant={isMyNomination ? "default" : "secondary"}
+                          className={cn(isMyNomination && "bg-green-500 hover:bg-green-600")}
+                        >
+                          {teamName(auction.nominator_id)}
+                        </Badge>
+                        {isMyNomination && (
+                          <span className="text-sm text-green-600 font-semibold">
+                            Your turn to nominate!
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    {nominationSecondsLeft !== null && (
+                      <div>
+                        <div className="text-sm text-gray-600">Time Left</div>
+                        <div className="text-2xl font-bold tabular-nums">
+                          {formatCountdown(nominationSecondsLeft)}
+                        </div>
+                      </div>
+                    )}
+                    {isMyNomination && myTeam && (
+                      <div>
+                        <div className="text-sm text-gray-600 mb-1">
+                          Opening bid (max ${myTeam.max_bid})
+                        </div>
+                        <Input
+                          type="number"
+                          className="w-28"
+                          min={auction.min_bid}
+                          max={myTeam.max_bid}
+                          placeholder={String(auction.min_bid)}
+                          value={openingBid}
+                          onChange={(e) => setOpeningBid(e.target.value)}
+                          disabled={loading}
+                        />
+                      </div>
+                    )}
+                  </div>
+                  {nominationSecondsLeft !== null && (
+                    <p className="text-xs text-gray-500 mt-4">
+                      If time runs out, the best available player is nominated
+                      at the minimum bid.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {!isComplete && !currentLot && (
+              <AvailablePlayersTable
+                players={availablePlayers.map((player) => ({
+                  id: player.id,
+                  name: getPlayerName(player),
+                }))}
+                onDraft={(playerId) => handleNominate(playerId)}
+                disabled={loading || !canNominate}
+                isMyTurn={isMyNomination}
+                actionLabel="Nominate"
+              />
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {/* Budgets */}
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <DollarSign className="h-5 w-5" />
+                    Budgets
+                  </CardTitle>
+                  <CardDescription>
+                    Max bid keeps ${auction.min_bid} back for every other open spot
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Team</TableHead>
+                        <TableHead className="text-right">Spent</TableHead>
+                        <TableHead className="text-right">Remaining</TableHead>
+                        <TableHead className="text-right">Open Spots</TableHead>
+                        <TableHead className="text-right">Max Bid</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {auction.teams.map((team) => (
+                        <TableRow
+                          key={team.id}
+                          className={cn(team.id === myTeam?.id && "bg-blue-50")}
+                        >
+                          <TableCell className="font-medium">
+                            <div className="flex items-center gap-2">
+                              {team.name}
+                              {team.id === myTeam?.id && <Badge variant="secondary">You</Badge>}
+                              {!currentLot && !isComplete && team.id === auction.nominator_id && (
+                                <Badge variant="outline">Nominating</Badge>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">${team.spent}</TableCell>
+                          <TableCell className="text-right">${team.budget_remaining}</TableCell>
+                          <TableCell className="text-right">{team.open_spots}</TableCell>
+                          <TableCell className="text-right font-semibold">${team.max_bid}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              {/* Sold players */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Sold</CardTitle>
+                  <CardDescription>
+                    {auction.sold.length} of {auction.teams.length * auction.roster_size} players
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {auction.sold.length === 0 ? (
+                    <p className="text-sm text-gray-500">No players sold yet</p>
+                  ) : (
+                    <div className="space-y-2 max-h-96 overflow-y-auto">
+                      {auction.sold.map((sale) => (
+                        <div key={sale.id} className="flex items-center justify-between text-sm">
+                          <div className="flex items-center gap-2 min-w-0">
+                            <Badge variant="outline" className="text-xs">
+                              {sale.position}
+                            </Badge>
+                            <span className="truncate">{sale.player_name}</span>
+                          </div>
+                          <div className="text-right shrink-0 ml-2">
+                            <span className="font-semibold">${sale.amount}</span>{" "}
+                            <span className="text-gray-500">{teamName(sale.team_id)}</span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -9,14 +9,24 @@ import { CreateLeagueDialog } from "@/components/CreateLeagueDialog";
 import { JoinLeagueDialog } from "@/components/JoinLeagueDialog";
 import { getUserLeagues, getUserTeams, generateInviteCode, type League, type Team } from "@/lib/leagues";
 import { getActiveMockDraftsCount } from "@/lib/mockDraft";
+import { fetchLeagueStandings } from "@/lib/standings";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/lib/supabase";
+import { getCurrentSeason } from "@shared/schedule";
+import { formatRank, formatRecord } from "@shared/standings";
 
 // League with computed team count
 interface LeagueWithTeamCount extends League {
   team_count: number;
 }
 
+// The user's team's place in a league's standings
+interface LeagueRank {
+  rank: number;
+  teamCount: number;
+  record: string;
+}
+
 export default function Dashboard() {
   const { user, signOut } = useAuth();
   const navigate = useNavigate();
@@ -28,6 +38,7 @@ export default function Dashboard() {
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [joinDialogOpen, setJoinDialogOpen] = useState(false);
   const [copiedCode, setCopiedCode] = useState<string | null>(null);
+  const [ranks, setRanks] = useState<Record<string, LeagueRank>>({});
 
   useEffect(() => {
     loadData();
@@ -70,6 +81,7 @@ export default function Dashboard() {
       
       setLeagues(leaguesWithCounts);
       setTeams(userTeams);
+      loadRanks(realLeagues, userTeams);
     } catch (error: any) {
       toast({
         title: "Error",
@@ -115,13 +127,42 @@ export default function Dashboard() {
     }
   };
 
+  // Look up the user's rank in each league where their team has played; a
+  // league whose standings fail to load just shows no rank
+  const loadRanks = async (leagueList: League[], userTeams: Team[]) => {
+    const season = getCurrentSeason();
+    const entries = await Promise.all(
+      leagueList.map(async (league) => {
+        const team = userTeams.find((t) => t.league_id === league.id);
+        if (!team) return null;
+        try {
+          const standings = await fetchLeagueStandings(league, season);
+          const mine = standings.find((s) => s.teamId === team.id);
+          if (!mine || mine.wins + mine.losses + mine.ties === 0) return null;
+          return [
+            league.id,
+            {
+              rank: mine.rank,
+              teamCount: standings.length,
+              record: formatRecord(mine.wins, mine.losses, mine.ties),
+            },
+          ] as const;
+        } catch (error) {
+          console.error("Failed to load standings:", error);
+          return null;
+        }
+      })
+    );
+    setRanks(Object.fromEntries(entries.filter(Boolean)));
+  };
+
   const handleSignOut = async () => {
     await signOut();
     navigate("/");
   };
 
   const handleLeagueCreated = (league: League) => {
-    setLeagues([league, ...leagues]);
+    setLeagues([{ ...league, team_count: 0 }, ...leagues]);
   };
 
   const handleLeagueJoined = (league: League) => {
@@ -312,6 +353,15 @@ export default function Dashboard() {
                           {league.team_count} / {league.max_teams}
                         </span>
                       </div>
+                      {ranks[league.id] && (
+                        <div className="flex justify-between text-sm">
+                          <span className="text-muted-foreground">My Rank:</span>
+                          <span className="font-medium">
+                            {formatRank(ranks[league.id].rank)} of {ranks[league.id].teamCount} (
+                            {ranks[league.id].record})
+                          </span>
+                        </div>
+                      )}
                       <div className="flex justify-between text-sm">
                         <span className="text-muted-foreground">Status:</span>
                         <Badge 
@@ -13,18 +13,24 @@ import {
   getNextTeam,
   subscribeToChanges,
   removeTeamFromDraft,
+  commissionerMakePick,
+  getPublishedDraftOrder,
+  DRAFT_PICK_ERRORS,
   type DraftData,
   type DraftTeam,
   type DraftPlayer,
   type DraftPick
 } from "@/lib/draft";
-import { getLeague, type League } from "@/lib/leagues";
+import { getLeague, getLeagueSettings, type League } from "@/lib/leagues";
 import { Users, Play, Trophy, AlertCircle, CheckCircle2, Clock, ArrowLeft, Trash2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
 import { DraftOrderTable } from "@/components/DraftOrderTable";
+import { DraftBoardGrid } from "@/components/DraftBoardGrid";
 import { AvailablePlayersTable } from "@/components/AvailablePlayersTable";
+import { CommissionerDraftControls } from "@/components/CommissionerDraftControls";
+import { DraftQueuePanel } from "@/components/DraftQueuePanel";
 
 type ViewState = "registration" | "waiting" | "draft";
 
@@ -41,10 +47,12 @@ export default function Draft() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [viewState, setViewState] = useState<ViewState>("registration");
+  const [pickingOnBehalf, setPickingOnBehalf] = useState(false);
   const { toast } = useToast();
 
   // Check if current user is the commissioner
   const isCommissioner = user && league?.commissioner_id === user.id;
+  const leagueSettings = getLeagueSettings(league);
 
   // Helper to check if a team belongs to the current user
   const isMyTeam = (team: DraftTeam) => user && team.owner_id === user.id;
@@ -71,9 +79,10 @@ export default function Draft() {
 
   // Subscribe to real-time changes
   useEffect(() => {
-    if (!draftData) return;
+    if (!draftData || !leagueId) return;
 
-    const unsubscribe = subscribeToChanges((data) => {
+    const draftId = draftData.state?.draft_id ?? null;
+    const unsubscribe = subscribeToChanges(leagueId, draftId, (data) => {
       setDraftData(data);
       updateViewState(data);
       updateNextTeam(data);
@@ -89,6 +98,11 @@ export default function Draft() {
     }
   }, [draftData?.state?.current_pick, draftData?.state?.current_round]);
 
+  // A pick on behalf only applies to the slot it was started for
+  useEffect(() => {
+    setPickingOnBehalf(false);
+  }, [draftData?.state?.current_pick]);
+
   // Re-evaluate view state when league data is loaded (for max_teams)
   useEffect(() => {
     if (draftData && league) {
@@ -128,13 +142,9 @@ export default function Draft() {
   };
 
   const updateViewState = (data: DraftData) => {
-    if (!data.state) {
-      setViewState("registration");
-      return;
-    }
-
-    const maxTeams = league?.max_teams ?? data.state.max_teams ?? 4;
-    if (data.state.started) {
+    // A league has no draft_state row until its draft starts
+    const maxTeams = league?.max_teams ?? data.state?.max_teams ?? 4;
+    if (data.state?.started) {
       setViewState("draft");
     } else if (data.teams.length >= maxTeams) {
       setViewState("waiting");
@@ -144,13 +154,13 @@ export default function Draft() {
   };
 
   const updateNextTeam = async (data: DraftData) => {
-    if (!data.state?.started) {
+    if (!data.state?.started || !leagueId) {
       setNextTeam(null);
       return;
     }
 
     try {
-      const next = await getNextTeam();
+      const next = await getNextTeam(leagueId);
       setNextTeam(next);
     } catch (err) {
       console.error("Failed to get next team:", err);
@@ -197,6 +207,11 @@ export default function Draft() {
       setError("No league selected");
       return;
     }
+    // Auction leagues start and run their draft on the auction board
+    if (leagueSettings.draft_type === "auction") {
+      navigate(`/auction?league=${leagueId}`);
+      return;
+    }
     try {
       setLoading(true);
       setError(null);
@@ -220,14 +235,14 @@ export default function Draft() {
     }
   };
 
-  const handleMakePick = async (playerName: string) => {
-    if (!myTeamName) {
+  const handleMakePick = async (playerId: string) => {
+    if (!myTeamName || !leagueId || !draftData?.state) {
       setError("You must register a team first");
       return;
     }
 
     // Re-check whose turn it is from the database before making pick
-    const currentNextTeam = await getNextTeam();
+    const currentNextTeam = await getNextTeam(leagueId);
     if (currentNextTeam !== myTeamName) {
       setError("It's not your turn!");
       setNextTeam(currentNextTeam); // Update UI to reflect actual state
@@ -238,7 +253,11 @@ export default function Draft() {
     try {
       setLoading(true);
       setError(null);
-      const result = await makePick(myTeamName, playerName);
+      const result = await makePick(
+        leagueId,
+        playerId,
+        draftData.state.current_pick + 1
+      );
       toast({
         title: "Pick Made!",
         description: result.message,
@@ -251,7 +270,40 @@ export default function Draft() {
       // Refresh state to get current turn
       await loadDraftState();
       toast({
-        title: "Error",
+        title:
+          err.code === DRAFT_PICK_ERRORS.STALE_PICK ? "Pick Already Made" : "Error",
+        description: errorMsg,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCommissionerPick = async (playerId: string) => {
+    if (!leagueId || !draftData?.state) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await commissionerMakePick(
+        leagueId,
+        playerId,
+        draftData.state.current_pick + 1
+      );
+      toast({
+        title: "Pick Made!",
+        description: result.message,
+      });
+      setPickingOnBehalf(false);
+      await loadDraftState();
+    } catch (err: any) {
+      const errorMsg = err.message || "Failed to make pick";
+      setError(errorMsg);
+      await loadDraftState();
+      toast({
+        title:
+          err.code === DRAFT_PICK_ERRORS.STALE_PICK ? "Pick Already Made" : "Error",
         description: errorMsg,
         variant: "destructive",
       });
@@ -311,8 +363,13 @@ export default function Draft() {
     );
   }
 
-  const availablePlayers = draftData.players.filter((p) => p.is_available !== false);
+  const availablePlayers = draftData.availablePlayers;
+  const publishedOrder = getPublishedDraftOrder(
+    draftData.teams,
+    league?.draft_order_locked_at
+  );
   const isMyTurn = nextTeam === myTeamName;
+  const myTeam = draftData.teams.find((team) => isMyTeam(team)) ?? null;
   const isDraftComplete = draftData.state?.started && 
     (draftData.state.current_round > draftData.state.total_rounds ||
      draftData.picks.length >= (draftData.state.max_teams * draftData.state.total_rounds));
@@ -388,7 +445,8 @@ export default function Draft() {
             <CardHeader>
               <CardTitle>Register Your Team</CardTitle>
               <CardDescription>
-                Enter your team name to join the draft (max {league?.max_teams ?? 12} teams)
+                Enter your team name to join the draft (max {league?.max_teams ?? 12} teams,{" "}
+                {leagueSettings.draft_rounds} rounds)
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -445,6 +503,16 @@ export default function Draft() {
                   </div>
                 </div>
               )}
+              {isCommissioner && draftData.teams.length >= leagueSettings.min_teams && (
+                <Button
+                  onClick={handleStartDraft}
+                  disabled={loading}
+                  className="w-full"
+                >
+                  <Play className="mr-2 h-4 w-4" />
+                  Start Draft with {draftData.teams.length} Teams
+                </Button>
+              )}
             </CardContent>
           </Card>
         )}
@@ -492,6 +560,24 @@ export default function Draft() {
                   </div>
                 ))}
               </div>
+              {publishedOrder ? (
+                <DraftOrderTable
+                  teams={draftData.teams}
+                  draftOrder={publishedOrder}
+                  currentPick={0}
+                  currentRound={1}
+                  totalRounds={leagueSettings.draft_rounds}
+                  format={leagueSettings.draft_format}
+                  myTeamName={myTeamName}
+                  userId={user?.id}
+                  preview
+                  compact
+                />
+              ) : (
+                <p className="text-center text-gray-500 text-sm">
+                  The draft order will be set at random when the draft starts.
+                </p>
+              )}
               {isCommissioner ? (
                 <Button
                   onClick={handleStartDraft}
@@ -551,9 +637,14 @@ export default function Draft() {
                             </Badge>
                             {isMyTurn && (
                               <span className="text-sm text-green-600 font-semibold">
-                                Your turn!
+                                {myTeam?.autodraft ? "Autodrafting..." : "Your turn!"}
                               </span>
                             )}
+                            {draftData.state.paused && (
+                              <Badge variant="outline" className="border-orange-400 text-orange-600">
+                                Paused by commissioner
+                              </Badge>
+                            )}
                           </>
                         ) : (
                           <span className="text-gray-500">Calculating...</span>
@@ -574,33 +665,93 @@ export default function Draft() {
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <p className="text-gray-600">
-                    All picks have been made. Check the draft board below.
+                  <p className="text-gray-600 mb-4">
+                    All picks have been made and every team's roster has been
+                    set, with starters filled in pick order. Check the draft
+                    board below.
                   </p>
+                  <Button variant="outline" onClick={() => navigate(`/league/${leagueId}`)}>
+                    Go to League
+                  </Button>
                 </CardContent>
               </Card>
             )}
 
-            {/* Available Players - Full width, primary focus (only show if draft not complete) */}
+            {isCommissioner && leagueId && (
+              <CommissionerDraftControls
+                leagueId={leagueId}
+                state={draftData.state}
+                nextTeam={nextTeam}
+                hasPicks={draftData.picks.length > 0}
+                isDraftComplete={!!isDraftComplete}
+                pickingOnBehalf={pickingOnBehalf}
+                onPickingOnBehalfChange={setPickingOnBehalf}
+                onActionComplete={loadDraftState}
+              />
+            )}
+
+            {/* Available Players - primary focus, with the user's queue alongside (only show if draft not complete) */}
             {!isDraftComplete && (
-              <AvailablePlayersTable
-                players={availablePlayers.map((player) => ({
-                  id: player.id,
-                  name: getPlayerName(player),
-                  position: undefined, // DraftPlayer doesn't have position field exposed
-                }))}
-                onDraft={(_playerId, playerName) => handleMakePick(playerName)}
-                disabled={loading}
-                isMyTurn={isMyTurn}
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className={myTeam ? "lg:col-span-2" : "lg:col-span-3"}>
+                  <AvailablePlayersTable
+                    players={availablePlayers.map((player) => ({
+                      id: player.id,
+                      name: getPlayerName(player),
+                      position: undefined, // DraftPlayer doesn't have position field exposed
+                    }))}
+                    onDraft={(playerId) =>
+                      pickingOnBehalf
+                        ? handleCommissionerPick(playerId)
+                        : handleMakePick(playerId)
+                    }
+                    disabled={
+                      loading ||
+                      (draftData.state.paused && !pickingOnBehalf) ||
+                      (!!myTeam?.autodraft && !pickingOnBehalf)
+                    }
+                    isMyTurn={isMyTurn || pickingOnBehalf}
+                  />
+                </div>
+                {myTeam && (
+                  <DraftQueuePanel
+                    team={myTeam}
+                    availablePlayers={availablePlayers}
+                    onAutodraftChange={() => loadDraftState()}
+                  />
+                )}
+              </div>
+            )}
+
+            {/* Draft Board - teams by rounds, with a full-screen TV mode */}
+            {draftData.state.draft_order && draftData.state.draft_order.length > 0 && (
+              <DraftBoardGrid
+                teams={draftData.teams}
+                draftOrder={draftData.state.draft_order}
+                currentPick={draftData.state.current_pick}
+                totalRounds={draftData.state.total_rounds}
+                format={draftData.state.draft_format}
+                userId={user?.id}
+                picks={draftData.picks.map((pick) => {
+                  const player = draftData.players.find((p) => p.id === pick.player_id);
+                  return {
+                    pick_number: pick.pick_number,
+                    player_name: player ? getPlayerName(player) : "Unknown",
+                    position: player?.position,
+                    is_keeper: pick.is_keeper,
+                  };
+                })}
+                pickDeadline={draftData.state.pick_deadline}
+                isComplete={!!isDraftComplete}
               />
             )}
 
-            {/* Bottom row: Draft Board (larger) + Draft Order (smaller) */}
+            {/* Bottom row: Picks by Team (larger) + Draft Order (smaller) */}
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-              {/* Draft Board - takes 2/3 width */}
+              {/* Picks by Team - takes 2/3 width */}
               <Card className={isDraftComplete ? "lg:col-span-3" : "lg:col-span-2"}>
                 <CardHeader>
-                  <CardTitle>Draft Board</CardTitle>
+                  <CardTitle>Picks by Team</CardTitle>
                   <CardDescription>All picks by team</CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -637,6 +788,16 @@ export default function Draft() {
                                       R{pick.round} P{pick.pick_number}
                                     </Badge>
                                     {pick.playerName}
+                                    {pick.auto_picked && (
+                                      <Badge variant="outline" className="text-xs text-gray-500">
+                                        Auto
+                                      </Badge>
+                                    )}
+                                    {pick.is_keeper && (
+                                      <Badge variant="outline" className="text-xs text-gray-500">
+                                        Keeper
+                                      </Badge>
+                                    )}
                                   </div>
                                 ))
                             )}
@@ -656,6 +817,7 @@ export default function Draft() {
                   currentPick={draftData.state.current_pick}
                   currentRound={draftData.state.current_round}
                   totalRounds={draftData.state.total_rounds}
+                  format={draftData.state.draft_format}
                   myTeamName={myTeamName}
                   userId={user?.id}
                   picks={draftData.picks.map((pick) => {
@@ -665,6 +827,7 @@ export default function Draft() {
                       player_name: player ? getPlayerName(player) : "Unknown",
                     };
                   })}
+                  pickDeadline={draftData.state.pick_deadline}
                   compact
                 />
               )}
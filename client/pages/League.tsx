@@ -11,6 +11,17 @@ import {
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Trophy,
   Users,
@@ -21,21 +32,45 @@ import {
   AlertCircle,
   Copy,
   CheckCircle2,
+  Settings,
+  BarChart3,
+  RotateCcw,
+  Calculator,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { getLeague, generateInviteCode, type League } from "@/lib/leagues";
+import {
+  getLeague,
+  getLeagueSettings,
+  generateInviteCode,
+  startNewSeason,
+  type League,
+} from "@/lib/leagues";
 import {
   getLeagueMockDrafts,
   type MockDraft,
 } from "@/lib/mockDraft";
 import { StartMockDraftDialog } from "@/components/StartMockDraftDialog";
+import { DraftExportMenu } from "@/components/DraftExportMenu";
+import { exportLeagueDraft } from "@/lib/api";
+import { DraftSettingsDialog } from "@/components/DraftSettingsDialog";
+import { DraftOrderPanel } from "@/components/DraftOrderPanel";
+import { DraftQueuePanel } from "@/components/DraftQueuePanel";
+import { KeeperPanel } from "@/components/KeeperPanel";
+import { ScoringSettingsDialog } from "@/components/ScoringSettingsDialog";
+import { SchedulePanel } from "@/components/SchedulePanel";
+import { StandingsPanel } from "@/components/StandingsPanel";
+import { getDraftAvailablePlayers, type DraftPlayer } from "@/lib/draft";
 import { supabase } from "@/lib/supabase";
+import { SCORING_PRESET_LABELS } from "@shared/scoring";
+import { getCurrentSeason } from "@shared/schedule";
 
 interface Team {
   id: string;
   name: string;
   owner_id: string;
   is_bot: boolean;
+  draft_position: number | null;
+  autodraft: boolean;
 }
 
 export default function LeaguePage() {
@@ -47,17 +82,24 @@ export default function LeaguePage() {
   const [league, setLeague] = useState<League | null>(null);
   const [teams, setTeams] = useState<Team[]>([]);
   const [mockDrafts, setMockDrafts] = useState<MockDraft[]>([]);
+  const [availablePlayers, setAvailablePlayers] = useState<DraftPlayer[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [mockDraftDialogOpen, setMockDraftDialogOpen] = useState(false);
+  const [settingsDialogOpen, setSettingsDialogOpen] = useState(false);
   const [copiedCode, setCopiedCode] = useState(false);
+  const [newSeasonDialogOpen, setNewSeasonDialogOpen] = useState(false);
+  const [scoringDialogOpen, setScoringDialogOpen] = useState(false);
 
   const isCommissioner = user && league?.commissioner_id === user.id;
   const userTeam = teams.find((t) => t.owner_id === user?.id);
+  const leagueSettings = getLeagueSettings(league);
+  const season = getCurrentSeason();
+  const teamsNeeded = Math.max(leagueSettings.min_teams - teams.length, 0);
   const canStartDraft =
     isCommissioner &&
     league?.draft_status === "pending" &&
-    teams.length === league?.max_teams;
+    teamsNeeded === 0;
 
   useEffect(() => {
     if (leagueId) {
@@ -72,18 +114,20 @@ export default function LeaguePage() {
       setLoading(true);
       setError(null);
 
-      const [leagueData, teamsData, mockDraftsData] = await Promise.all([
+      const [leagueData, teamsData, mockDraftsData, availableData] = await Promise.all([
         getLeague(leagueId),
         supabase
           .from("teams")
-          .select("id, name, owner_id, is_bot")
+          .select("id, name, owner_id, is_bot, draft_position, autodraft")
           .eq("league_id", leagueId),
         getLeagueMockDrafts(leagueId),
+        getDraftAvailablePlayers(leagueId),
       ]);
 
       setLeague(leagueData);
       setTeams(teamsData.data || []);
       setMockDrafts(mockDraftsData);
+      setAvailablePlayers(availableData);
     } catch (err: any) {
       setError(err.message || "Failed to load league");
     } finally {
@@ -141,7 +185,32 @@ export default function LeaguePage() {
 
   const handleStartDraft = () => {
     if (!leagueId) return;
-    navigate(`/draft?league=${leagueId}`);
+    navigate(
+      leagueSettings.draft_type === "auction"
+        ? `/auction?league=${leagueId}`
+        : `/draft?league=${leagueId}`
+    );
+  };
+
+  const handleStartNewSeason = async () => {
+    if (!leagueId) return;
+
+    try {
+      const result = await startNewSeason(leagueId);
+      toast({
+        title: result.message,
+        description: leagueSettings.keepers_enabled
+          ? "Teams can now declare their keepers."
+          : "Rosters were cleared for the next draft.",
+      });
+      loadLeagueData();
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || "Failed to start a new season",
+        variant: "destructive",
+      });
+    }
   };
 
   const handleMockDraftCreated = (mockDraftId: string) => {
@@ -234,287 +303,478 @@ export default function LeaguePage() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          {/* Left Column - League Info */}
-          <div className="lg:col-span-2 space-y-6">
-            {/* League Status Card */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Trophy className="h-5 w-5" />
-                  League Status
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                  <div className="text-center p-4 bg-gray-50 rounded-lg">
-                    <div className="text-2xl font-bold">
-                      {teams.length}
+        <Tabs defaultValue="overview" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="schedule">Schedule</TabsTrigger>
+            <TabsTrigger value="standings">Standings</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="overview">
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {/* Left Column - League Info */}
+              <div className="lg:col-span-2 space-y-6">
+                {/* League Status Card */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Trophy className="h-5 w-5" />
+                      League Status
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                      <div className="text-center p-4 bg-gray-50 rounded-lg">
+                        <div className="text-2xl font-bold">
+                          {teams.length}
+                        </div>
+                        <div className="text-sm text-gray-600">/ {league.max_teams} Teams</div>
+                      </div>
+                      <div className="text-center p-4 bg-gray-50 rounded-lg">
+                        <div className="text-2xl font-bold capitalize">
+                          {league.draft_status}
+                        </div>
+                        <div className="text-sm text-gray-600">Draft Status</div>
+                      </div>
+                      <div className="text-center p-4 bg-gray-50 rounded-lg">
+                        <div className="text-2xl font-bold">
+                          {leagueSettings.draft_rounds}
+                        </div>
+                        <div className="text-sm text-gray-600">
+                          {leagueSettings.draft_type === "auction" ? "Roster Spots" : "Draft Rounds"}
+                        </div>
+                      </div>
+                      {league.draft_date && (
+                        <div className="text-center p-4 bg-gray-50 rounded-lg col-span-2">
+                          <div className="text-lg font-bold">
+                            {new Date(league.draft_date).toLocaleDateString()}
+                          </div>
+                          <div className="text-sm text-gray-600">Draft Date</div>
+                        </div>
+                      )}
                     </div>
-                    <div className="text-sm text-gray-600">/ {league.max_teams} Teams</div>
-                  </div>
-                  <div className="text-center p-4 bg-gray-50 rounded-lg">
-                    <div className="text-2xl font-bold capitalize">
-                      {league.draft_status}
+
+                    {/* Draft Actions */}
+                    <div className="mt-6 space-y-3">
+                      {league.draft_status === "completed" && (
+                        <DraftExportMenu
+                          onExport={(format) => exportLeagueDraft(league.id, format)}
+                          className="w-full"
+                        />
+                      )}
+
+                      {isCommissioner &&
+                        league.draft_status === "completed" &&
+                        leagueSettings.draft_type !== "auction" && (
+                          <Button
+                            variant="outline"
+                            onClick={() => setNewSeasonDialogOpen(true)}
+                            className="w-full"
+                          >
+                            <RotateCcw className="mr-2 h-4 w-4" />
+                            Start New Season
+                          </Button>
+                        )}
+
+                      {league.draft_status === "in_progress" && (
+                        <Button onClick={handleStartDraft} className="w-full">
+                          <Play className="mr-2 h-4 w-4" />
+                          Continue Draft
+                        </Button>
+                      )}
+
+                      {canStartDraft && (
+                        <Button onClick={handleStartDraft} className="w-full">
+                          <Play className="mr-2 h-4 w-4" />
+                          {leagueSettings.draft_type === "auction" ? "Start Auction" : "Start Draft"}
+                        </Button>
+                      )}
+
+                      {league.draft_status === "pending" && teamsNeeded > 0 && (
+                        <Alert>
+                          <AlertCircle className="h-4 w-4" />
+                          <AlertDescription>
+                            Waiting for {teamsNeeded} more team
+                            {teamsNeeded !== 1 ? "s" : ""} to join before the
+                            draft can start.
+                          </AlertDescription>
+                        </Alert>
+                      )}
+
+                      {isCommissioner && league.draft_status === "pending" && (
+                        <Button
+                          variant="outline"
+                          onClick={() => setSettingsDialogOpen(true)}
+                          className="w-full"
+                        >
+                          <Settings className="mr-2 h-4 w-4" />
+                          Draft Settings
+                        </Button>
+                      )}
+
+                      {isCommissioner && (
+                        <Button
+                          variant="outline"
+                          onClick={() => setScoringDialogOpen(true)}
+                          className="w-full"
+                        >
+                          <Calculator className="mr-2 h-4 w-4" />
+                          Scoring Settings ({SCORING_PRESET_LABELS[leagueSettings.scoring.preset]})
+                        </Button>
+                      )}
                     </div>
-                    <div className="text-sm text-gray-600">Draft Status</div>
-                  </div>
-                  {league.draft_date && (
-                    <div className="text-center p-4 bg-gray-50 rounded-lg col-span-2">
-                      <div className="text-lg font-bold">
-                        {new Date(league.draft_date).toLocaleDateString()}
+                  </CardContent>
+                </Card>
+
+                {/* Teams Card */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Users className="h-5 w-5" />
+                      Teams ({teams.length}/{league.max_teams})
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {teams.length === 0 ? (
+                      <p className="text-gray-500 text-center py-4">
+                        No teams have joined yet.
+                      </p>
+                    ) : (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        {teams.map((team) => (
+                          <div
+                            key={team.id}
+                            className={`p-3 rounded-lg border ${
+                              team.owner_id === user?.id
+                                ? "border-blue-500 bg-blue-50"
+                                : "border-gray-200"
+                            }`}
+                          >
+                            <div className="flex items-center justify-between">
+                              <span className="font-medium">{team.name}</span>
+                              {team.owner_id === user?.id && (
+                                <Badge variant="secondary">Your Team</Badge>
+                              )}
+                            </div>
+                          </div>
+                        ))}
                       </div>
-                      <div className="text-sm text-gray-600">Draft Date</div>
-                    </div>
-                  )}
-                </div>
-
-                {/* Draft Actions */}
-                <div className="mt-6 space-y-3">
-                  {league.draft_status === "in_progress" && (
-                    <Button onClick={handleStartDraft} className="w-full">
-                      <Play className="mr-2 h-4 w-4" />
-                      Continue Draft
-                    </Button>
-                  )}
+                    )}
+                  </CardContent>
+                </Card>
+
+                {/* Draft Order Panel */}
+                {league.draft_status === "pending" && (
+                  <DraftOrderPanel
+                    league={league}
+                    teams={teams}
+                    isCommissioner={!!isCommissioner}
+                    userId={user?.id}
+                    onOrderChanged={loadLeagueData}
+                  />
+                )}
 
-                  {canStartDraft && (
-                    <Button onClick={handleStartDraft} className="w-full">
-                      <Play className="mr-2 h-4 w-4" />
-                      Start Draft
-                    </Button>
+                {/* Keepers - declared between seasons, before the draft starts */}
+                {leagueSettings.keepers_enabled &&
+                  league.draft_status === "pending" &&
+                  leagueSettings.draft_type !== "auction" && (
+                    <KeeperPanel league={league} team={userTeam} />
                   )}
 
-                  {league.draft_status === "pending" &&
-                    teams.length < league.max_teams && (
-                      <Alert>
-                        <AlertCircle className="h-4 w-4" />
-                        <AlertDescription>
-                          Waiting for {league.max_teams - teams.length}{" "}
-                          more team{league.max_teams - teams.length !== 1 ? "s" : ""} to join
-                          before the draft can start.
-                        </AlertDescription>
-                      </Alert>
-                    )}
-                </div>
-              </CardContent>
-            </Card>
-
-            {/* Teams Card */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Users className="h-5 w-5" />
-                  Teams ({teams.length}/{league.max_teams})
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                {teams.length === 0 ? (
-                  <p className="text-gray-500 text-center py-4">
-                    No teams have joined yet.
-                  </p>
-                ) : (
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                    {teams.map((team) => (
-                      <div
-                        key={team.id}
-                        className={`p-3 rounded-lg border ${
-                          team.owner_id === user?.id
-                            ? "border-blue-500 bg-blue-50"
-                            : "border-gray-200"
-                        }`}
+                {/* Mock Drafts Section */}
+                {userTeam && league.draft_status === "pending" && (
+                  <Card className="border-2 border-dashed border-primary/30 bg-primary/5">
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <Bot className="h-5 w-5 text-primary" />
+                        Mock Drafts
+                      </CardTitle>
+                      <CardDescription>
+                        Practice your draft strategy against bots or league-mates while
+                        waiting for the real draft
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <Button
+                        onClick={() => setMockDraftDialogOpen(true)}
+                        className="w-full"
                       >
-                        <div className="flex items-center justify-between">
-                          <span className="font-medium">{team.name}</span>
-                          {team.owner_id === user?.id && (
-                            <Badge variant="secondary">Your Team</Badge>
-                          )}
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-
-            {/* Mock Drafts Section */}
-            {userTeam && league.draft_status === "pending" && (
-              <Card className="border-2 border-dashed border-primary/30 bg-primary/5">
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <Bot className="h-5 w-5 text-primary" />
-                    Mock Drafts
-                  </CardTitle>
-                  <CardDescription>
-                    Practice your draft strategy against bot opponents while
-                    waiting for the real draft
-                  </CardDescription>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <Button
-                    onClick={() => setMockDraftDialogOpen(true)}
-                    className="w-full"
-                  >
-                    <Bot className="mr-2 h-4 w-4" />
-                    Start New Mock Draft
-                  </Button>
-
-                  {/* Previous Mock Drafts */}
-                  {mockDrafts.length > 0 && (
-                    <div className="space-y-2">
-                      <h4 className="text-sm font-medium text-gray-700">
-                        Your Mock Drafts
-                      </h4>
-                      {mockDrafts.slice(0, 5).map((mockDraft) => (
-                        <div
-                          key={mockDraft.id}
-                          className="flex items-center justify-between p-3 bg-white rounded-lg border"
+                        <Bot className="mr-2 h-4 w-4" />
+                        Start New Mock Draft
+                      </Button>
+
+                      {mockDrafts.some((mockDraft) => mockDraft.status === "completed") && (
+                        <Button
+                          variant="outline"
+                          onClick={() => navigate(`/league/${leagueId}/mock-analytics`)}
+                          className="w-full"
                         >
-                          <div className="flex items-center gap-3">
-                            <Badge
-                              variant={
-                                mockDraft.status === "completed"
-                                  ? "default"
-                                  : mockDraft.status === "in_progress"
-                                  ? "destructive"
-                                  : "secondary"
-                              }
-                            >
-                              {mockDraft.status === "in_progress"
-                                ? "In Progress"
-                                : mockDraft.status === "completed"
-                                ? "Completed"
-                                : "Cancelled"}
-                            </Badge>
-                            <span className="text-sm text-gray-600">
-                              {new Date(
-                                mockDraft.created_at
-                              ).toLocaleDateString()}{" "}
-                              - Round {mockDraft.current_round}/
-                              {mockDraft.total_rounds}
-                            </span>
-                          </div>
-                          {mockDraft.status === "in_progress" && (
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() =>
-                                handleContinueMockDraft(mockDraft.id)
-                              }
+                          <BarChart3 className="mr-2 h-4 w-4" />
+                          View Mock Draft Analytics
+                        </Button>
+                      )}
+
+                      {/* Previous Mock Drafts */}
+                      {mockDrafts.length > 0 && (
+                        <div className="space-y-2">
+                          <h4 className="text-sm font-medium text-gray-700">
+                            Recent Mock Drafts
+                          </h4>
+                          {mockDrafts.slice(0, 5).map((mockDraft) => (
+                            <div
+                              key={mockDraft.id}
+                              className="flex items-center justify-between p-3 bg-white rounded-lg border"
                             >
-                              Continue
-                            </Button>
-                          )}
-                          {mockDraft.status === "completed" && (
+                              <div className="flex items-center gap-3">
+                                <Badge
+                                  variant={
+                                    mockDraft.status === "completed"
+                                      ? "default"
+                                      : mockDraft.status === "in_progress"
+                                      ? "destructive"
+                                      : mockDraft.status === "lobby"
+                                      ? "outline"
+                                      : "secondary"
+                                  }
+                                >
+                                  {mockDraft.status === "in_progress"
+                                    ? "In Progress"
+                                    : mockDraft.status === "completed"
+                                    ? "Completed"
+                                    : mockDraft.status === "lobby"
+                                    ? "Lobby"
+                                    : "Cancelled"}
+                                </Badge>
+                                <span className="text-sm text-gray-600">
+                                  {new Date(
+                                    mockDraft.created_at
+                                  ).toLocaleDateString()}{" "}
+                                  {mockDraft.status === "lobby" ? (
+                                    <>
+                                      - {mockDraft.human_teams}/
+                                      {mockDraft.human_teams + mockDraft.num_bots} seats taken
+                                    </>
+                                  ) : (
+                                    <>
+                                      - Round {mockDraft.current_round}/
+                                      {mockDraft.total_rounds}
+                                    </>
+                                  )}
+                                </span>
+                              </div>
+                              {mockDraft.status === "lobby" && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() =>
+                                    handleContinueMockDraft(mockDraft.id)
+                                  }
+                                >
+                                  Open Lobby
+                                </Button>
+                              )}
+                              {mockDraft.status === "in_progress" && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() =>
+                                    handleContinueMockDraft(mockDraft.id)
+                                  }
+                                >
+                                  Continue
+                                </Button>
+                              )}
+                              {mockDraft.status === "completed" && (
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() =>
+                                    handleContinueMockDraft(mockDraft.id)
+                                  }
+                                >
+                                  View Results
+                                </Button>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+
+              {/* Right Column - Invite & Info */}
+              <div className="space-y-6">
+                {/* Invite Card */}
+                {isCommissioner && teams.length < league.max_teams && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Invite Players</CardTitle>
+                      <CardDescription>
+                        Share this code with friends to join your league
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      {league.invite_code ? (
+                        <div className="space-y-3">
+                          <div className="flex items-center gap-2 p-3 bg-gray-100 rounded-lg">
+                            <code className="flex-1 text-lg font-mono font-bold text-center">
+                              {league.invite_code}
+                            </code>
                             <Button
-                              size="sm"
                               variant="ghost"
-                              onClick={() =>
-                                handleContinueMockDraft(mockDraft.id)
-                              }
+                              size="sm"
+                              onClick={handleCopyInviteCode}
                             >
-                              View Results
+                              {copiedCode ? (
+                                <CheckCircle2 className="h-4 w-4 text-green-500" />
+                              ) : (
+                                <Copy className="h-4 w-4" />
+                              )}
                             </Button>
-                          )}
+                          </div>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="w-full"
+                            onClick={handleGenerateInviteCode}
+                          >
+                            Generate New Code
+                          </Button>
                         </div>
-                      ))}
-                    </div>
-                  )}
-                </CardContent>
-              </Card>
-            )}
-          </div>
-
-          {/* Right Column - Invite & Info */}
-          <div className="space-y-6">
-            {/* Invite Card */}
-            {isCommissioner && teams.length < league.max_teams && (
-              <Card>
-                <CardHeader>
-                  <CardTitle>Invite Players</CardTitle>
-                  <CardDescription>
-                    Share this code with friends to join your league
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  {league.invite_code ? (
-                    <div className="space-y-3">
-                      <div className="flex items-center gap-2 p-3 bg-gray-100 rounded-lg">
-                        <code className="flex-1 text-lg font-mono font-bold text-center">
-                          {league.invite_code}
-                        </code>
+                      ) : (
                         <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={handleCopyInviteCode}
+                          onClick={handleGenerateInviteCode}
+                          className="w-full"
                         >
-                          {copiedCode ? (
-                            <CheckCircle2 className="h-4 w-4 text-green-500" />
-                          ) : (
-                            <Copy className="h-4 w-4" />
-                          )}
+                          Generate Invite Code
                         </Button>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Your Team Card */}
+                {userTeam && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Your Team</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="text-center p-4 bg-blue-50 rounded-lg border border-blue-200">
+                        <Users className="h-8 w-8 mx-auto mb-2 text-blue-600" />
+                        <div className="font-bold text-lg">{userTeam.name}</div>
                       </div>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Draft Queue - line up picks before and during a standard draft */}
+                {userTeam &&
+                  league.draft_status !== "completed" &&
+                  leagueSettings.draft_type !== "auction" && (
+                    <DraftQueuePanel
+                      team={userTeam}
+                      availablePlayers={availablePlayers}
+                      onAutodraftChange={(enabled) =>
+                        setTeams((prev) =>
+                          prev.map((team) =>
+                            team.id === userTeam.id ? { ...team, autodraft: enabled } : team
+                          )
+                        )
+                      }
+                    />
+                  )}
+
+                {/* Join Team Card - if user doesn't have a team */}
+                {!userTeam && teams.length < league.max_teams && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Join This League</CardTitle>
+                      <CardDescription>
+                        Create your team to participate in this league
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
                       <Button
-                        variant="outline"
-                        size="sm"
+                        onClick={() => navigate(`/draft?league=${leagueId}`)}
                         className="w-full"
-                        onClick={handleGenerateInviteCode}
                       >
-                        Generate New Code
+                        <Users className="mr-2 h-4 w-4" />
+                        Register Team
                       </Button>
-                    </div>
-                  ) : (
-                    <Button
-                      onClick={handleGenerateInviteCode}
-                      className="w-full"
-                    >
-                      Generate Invite Code
-                    </Button>
-                  )}
-                </CardContent>
-              </Card>
-            )}
-
-            {/* Your Team Card */}
-            {userTeam && (
-              <Card>
-                <CardHeader>
-                  <CardTitle>Your Team</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-center p-4 bg-blue-50 rounded-lg border border-blue-200">
-                    <Users className="h-8 w-8 mx-auto mb-2 text-blue-600" />
-                    <div className="font-bold text-lg">{userTeam.name}</div>
-                  </div>
-                </CardContent>
-              </Card>
-            )}
-
-            {/* Join Team Card - if user doesn't have a team */}
-            {!userTeam && teams.length < league.max_teams && (
-              <Card>
-                <CardHeader>
-                  <CardTitle>Join This League</CardTitle>
-                  <CardDescription>
-                    Create your team to participate in this league
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <Button
-                    onClick={() => navigate(`/draft?league=${leagueId}`)}
-                    className="w-full"
-                  >
-                    <Users className="mr-2 h-4 w-4" />
-                    Register Team
-                  </Button>
-                </CardContent>
-              </Card>
-            )}
-          </div>
-        </div>
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="schedule">
+            <SchedulePanel
+              league={league}
+              season={season}
+              userTeamId={userTeam?.id}
+              isCommissioner={!!isCommissioner}
+              onLeagueUpdated={setLeague}
+            />
+          </TabsContent>
+
+          <TabsContent value="standings">
+            <StandingsPanel
+              league={league}
+              season={season}
+              userTeamId={userTeam?.id}
+              isCommissioner={!!isCommissioner}
+              onLeagueUpdated={setLeague}
+            />
+          </TabsContent>
+        </Tabs>
       </main>
 
+      {/* Draft Settings Dialog */}
+      {isCommissioner && (
+        <DraftSettingsDialog
+          open={settingsDialogOpen}
+          onOpenChange={setSettingsDialogOpen}
+          league={league}
+          onSettingsSaved={setLeague}
+        />
+      )}
+
+      {/* Scoring Settings Dialog */}
+      {isCommissioner && (
+        <ScoringSettingsDialog
+          open={scoringDialogOpen}
+          onOpenChange={setScoringDialogOpen}
+          league={league}
+          onSettingsSaved={setLeague}
+        />
+      )}
+
+      {/* New Season Confirmation */}
+      {isCommissioner && (
+        <AlertDialog open={newSeasonDialogOpen} onOpenChange={setNewSeasonDialogOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Start a new season?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Every roster is cleared and the league goes back to a pending
+                draft. Teams stay, and this season's draft is kept for keeper
+                eligibility.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleStartNewSeason}>
+                Start New Season
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
+
       {/* Mock Draft Dialog */}
       {leagueId && userTeam && (
         <StartMockDraftDialog
@@ -522,6 +782,7 @@ export default function LeaguePage() {
           onOpenChange={setMockDraftDialogOpen}
           leagueId={leagueId}
           userTeamName={userTeam.name}
+          leagueSettings={leagueSettings}
           onMockDraftCreated={handleMockDraftCreated}
         />
       )}
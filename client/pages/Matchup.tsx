@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertCircle, ArrowLeft, Clock, Swords } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { fetchMatchupDetail, type MatchupDetail, type MatchupSide } from "@/lib/schedule";
+
+const formatPoints = (points: number | null) => (points === null ? "-" : points.toFixed(2));
+
+export default function MatchupPage() {
+  const { leagueId, matchupId } = useParams<{ leagueId: string; matchupId: string }>();
+  const navigate = useNavigate();
+
+  const [detail, setDetail] = useState<MatchupDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!matchupId) return;
+
+    fetchMatchupDetail(matchupId)
+      .then(setDetail)
+      .catch((err: any) => setError(err.message || "Failed to load matchup"))
+      .finally(() => setLoading(false));
+  }, [matchupId]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <Clock className="h-8 w-8 animate-spin mx-auto mb-4" />
+          <p className="text-gray-600">Loading matchup...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !detail) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Card className="max-w-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-red-600">
+              <AlertCircle className="h-5 w-5" />
+              Error Loading Matchup
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-gray-600">{error || "Matchup not found"}</p>
+            <Button onClick={() => navigate(`/league/${leagueId}`)} className="w-full">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to League
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { matchup, home, away } = detail;
+  const scored = home.points !== null && (!away || away.points !== null);
+  const winner =
+    scored && away && home.points !== away.points
+      ? home.points! > away.points!
+        ? home.team_id
+        : away.team_id
+      : null;
+
+  const renderSide = (side: MatchupSide) => (
+    <Card key={side.team_id}>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="truncate">{side.team_name}</CardTitle>
+          <span
+            className={cn(
+              "text-3xl font-bold tabular-nums",
+              winner === side.team_id ? "text-green-600" : "text-gray-900"
+            )}
+          >
+            {formatPoints(side.points)}
+          </span>
+        </div>
+        <CardDescription>
+          {side.points === null ? "Current starters" : "Starting lineup"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {side.starters.length === 0 ? (
+          <p className="text-sm text-gray-500">No starters set.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">Slot</TableHead>
+                <TableHead>Player</TableHead>
+                <TableHead className="text-right">Points</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {side.starters.map((starter) => (
+                <TableRow key={starter.player_id}>
+                  <TableCell>
+                    <Badge variant="outline">{starter.slot}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">{starter.player_name}</div>
+                    {starter.position && (
+                      <div className="text-xs text-gray-500">{starter.position}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {formatPoints(starter.points)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8 flex items-center gap-4">
+          <Button variant="ghost" size="sm" onClick={() => navigate(`/league/${leagueId}`)}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <div className="flex items-center gap-2">
+              <Swords className="h-6 w-6 text-primary" />
+              <h1 className="text-3xl font-bold text-gray-900">
+                {home.team_name} vs {away?.team_name ?? "Bye"}
+              </h1>
+            </div>
+            <p className="text-gray-600">
+              {matchup.season} season, week {matchup.week}
+              {scored ? "" : " - not scored yet"}
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {renderSide(home)}
+          {away && renderSide(away)}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -19,6 +19,7 @@ import {
   Clock,
   AlertCircle,
   CheckCircle2,
+  BarChart3,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
@@ -26,12 +27,16 @@ import {
   getMockDraftState,
   getMockDraftAvailablePlayers,
   makeMockDraftPick,
-  makeMockDraftBotPick,
   isNextPickBot,
+  subscribeToMockDraft,
   type MockDraftState,
 } from "@/lib/mockDraft";
 import { getLeague, type League } from "@/lib/leagues";
 import { DraftOrderTable } from "@/components/DraftOrderTable";
+import { DraftBoardGrid } from "@/components/DraftBoardGrid";
+import { DraftExportMenu } from "@/components/DraftExportMenu";
+import { exportMockDraft } from "@/lib/api";
+import { MockDraftLobby } from "@/components/MockDraftLobby";
 import {
   AvailablePlayersTable,
   type Player as AvailablePlayer,
@@ -50,7 +55,6 @@ export default function MockDraftPage() {
   );
   const [loading, setLoading] = useState(true);
   const [makingPick, setMakingPick] = useState(false);
-  const [botProcessing, setBotProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Get user's team name in this mock draft
@@ -58,6 +62,9 @@ export default function MockDraftPage() {
   const myTeamName = myTeam?.name;
   const isMyTurn = draftState?.next_team === myTeamName;
   const isDraftComplete = draftState?.status === "completed";
+  const isLobby = draftState?.status === "lobby";
+  const botProcessing =
+    draftState?.status === "in_progress" && isNextPickBot(draftState);
 
   // Load mock draft data
   const loadDraftData = useCallback(async () => {
@@ -88,42 +95,17 @@ export default function MockDraftPage() {
     loadDraftData();
   }, [loadDraftData]);
 
-  // Process bot picks automatically
+  // Bots pick on the server; refresh whenever the draft changes
   useEffect(() => {
-    if (!draftState || draftState.status !== "in_progress" || botProcessing) {
-      return;
-    }
-
-    const processBotPicks = async () => {
-      if (!isNextPickBot(draftState)) {
-        return;
-      }
-
-      setBotProcessing(true);
-
-      try {
-        const result = await makeMockDraftBotPick(mockDraftId!, {
-          botPickDelay: 1500,
-        });
-
-        if (result.success && result.message) {
-          toast({
-            title: "Bot Pick",
-            description: result.message,
-          });
-        }
-
-        // Refresh data after bot pick
-        await loadDraftData();
-      } catch (err) {
-        console.error("Bot pick error:", err);
-      } finally {
-        setBotProcessing(false);
-      }
-    };
+    if (!mockDraftId) return;
 
-    processBotPicks();
-  }, [draftState, botProcessing, mockDraftId, toast, loadDraftData]);
+    return subscribeToMockDraft(mockDraftId, (state) => {
+      setDraftState(state);
+      getMockDraftAvailablePlayers(mockDraftId)
+        .then(setAvailablePlayers)
+        .catch((err) => console.error("Error refreshing available players:", err));
+    });
+  }, [mockDraftId]);
 
   const handleMakePick = async (playerId: string, playerName: string) => {
     if (!myTeamName || !mockDraftId) return;
@@ -227,6 +209,8 @@ export default function MockDraftPage() {
                 </div>
                 <p className="text-gray-600">
                   {league?.name || "Practice Draft"} - Practice against bots
+                  {draftState.teams.filter((t) => !t.is_bot).length > 1 &&
+                    " and league-mates"}
                 </p>
               </div>
             </div>
@@ -243,6 +227,8 @@ export default function MockDraftPage() {
                 ? "Complete"
                 : draftState.status === "in_progress"
                 ? "In Progress"
+                : isLobby
+                ? "Lobby"
                 : draftState.status}
             </Badge>
           </div>
@@ -255,8 +241,11 @@ export default function MockDraftPage() {
           </Alert>
         )}
 
+        {/* Lobby - seats until the creator starts the draft */}
+        {isLobby && <MockDraftLobby draftState={draftState} userId={user?.id} />}
+
         {/* Draft Status Bar */}
-        {!isDraftComplete && (
+        {draftState.status === "in_progress" && (
           <Card className="mb-6">
             <CardContent className="pt-6">
               <div className="flex items-center justify-between flex-wrap gap-4">
@@ -326,19 +315,29 @@ export default function MockDraftPage() {
             </CardHeader>
             <CardContent>
               <p className="text-gray-600 mb-4">
-                Great practice! Review your picks below, then try another mock
-                draft or prepare for the real thing.
+                Great practice! See how your draft graded out and replay it
+                pick by pick, then try another mock or prepare for the real
+                thing.
               </p>
-              <Button onClick={handleBackToLeague}>
-                <ArrowLeft className="mr-2 h-4 w-4" />
-                Back to League
-              </Button>
+              <div className="flex gap-2">
+                <Button onClick={() => navigate(`/mock-draft/${mockDraftId}/report`)}>
+                  <BarChart3 className="mr-2 h-4 w-4" />
+                  View Report
+                </Button>
+                <DraftExportMenu
+                  onExport={(format) => exportMockDraft(mockDraftId!, format)}
+                />
+                <Button variant="outline" onClick={handleBackToLeague}>
+                  <ArrowLeft className="mr-2 h-4 w-4" />
+                  Back to League
+                </Button>
+              </div>
             </CardContent>
           </Card>
         )}
 
         {/* Available Players - Full width, primary focus (only show if draft not complete) */}
-        {!isDraftComplete && (
+        {draftState.status === "in_progress" && (
           <div className="mb-6">
             <AvailablePlayersTable
               players={availablePlayers}
@@ -349,90 +348,109 @@ export default function MockDraftPage() {
           </div>
         )}
 
-        {/* Bottom row: Draft Board (larger) + Draft Order (smaller) */}
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          {/* Draft Board - takes 2/3 width */}
-          <Card className={isDraftComplete ? "lg:col-span-3" : "lg:col-span-2"}>
-            <CardHeader>
-              <CardTitle>Draft Board</CardTitle>
-              <CardDescription>All picks by team</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {draftState.teams.map((team) => {
-                  const teamPicks = picksByTeam[team.name] || [];
-                  const isUserTeam = team.owner_id === user?.id;
-
-                  return (
-                    <div
-                      key={team.id}
-                      className={cn(
-                        "border rounded-lg p-4",
-                        isUserTeam && "border-blue-500 bg-blue-50"
-                      )}
-                    >
-                      <div className="flex items-center gap-2 mb-3">
-                        {team.is_bot ? (
-                          <Bot className="h-4 w-4 text-gray-500" />
-                        ) : (
-                          <Users className="h-4 w-4" />
-                        )}
-                        <span className="font-semibold">{team.name}</span>
-                        {isUserTeam && (
-                          <Badge variant="secondary">You</Badge>
-                        )}
-                        {team.is_bot && (
-                          <Badge variant="outline" className="text-xs">
-                            Bot
-                          </Badge>
-                        )}
-                      </div>
-                      <div className="space-y-1">
-                        {teamPicks.length === 0 ? (
-                          <p className="text-sm text-gray-500">No picks yet</p>
-                        ) : (
-                          teamPicks
-                            .sort((a, b) => a.pick_number - b.pick_number)
-                            .map((pick) => (
-                              <div
-                                key={pick.id}
-                                className="text-sm flex items-center gap-2"
-                              >
-                                <Badge variant="outline" className="text-xs">
-                                  R{pick.round} P{pick.pick_number}
-                                </Badge>
-                                {pick.player_name}
-                              </div>
-                            ))
-                        )}
-                      </div>
-                    </div>
-                  );
-                })}
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Draft Order - Compact, takes 1/3 width */}
-          {!isDraftComplete && draftState.draft_order && draftState.draft_order.length > 0 && (
-            <DraftOrderTable
+        {/* Draft Board - teams by rounds, with a full-screen TV mode */}
+        {!isLobby && draftState.draft_order && draftState.draft_order.length > 0 && (
+          <div className="mb-6">
+            <DraftBoardGrid
               teams={draftState.teams}
               draftOrder={draftState.draft_order}
               currentPick={draftState.current_pick}
-              currentRound={draftState.current_round}
               totalRounds={draftState.total_rounds}
-              myTeamName={myTeamName}
+              format={draftState.draft_format}
               userId={user?.id}
-              picks={draftState.picks.map((pick) => ({
-                pick_number: pick.pick_number,
-                round: pick.round,
-                team_name: pick.team_name,
-                player_name: pick.player_name,
-              }))}
-              compact
+              picks={draftState.picks}
+              isComplete={isDraftComplete}
             />
-          )}
-        </div>
+          </div>
+        )}
+
+        {/* Bottom row: Picks by Team (larger) + Draft Order (smaller) */}
+        {!isLobby && (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Picks by Team - takes 2/3 width */}
+            <Card className={isDraftComplete ? "lg:col-span-3" : "lg:col-span-2"}>
+              <CardHeader>
+                <CardTitle>Picks by Team</CardTitle>
+                <CardDescription>All picks by team</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {draftState.teams.map((team) => {
+                    const teamPicks = picksByTeam[team.name] || [];
+                    const isUserTeam = team.owner_id === user?.id;
+
+                    return (
+                      <div
+                        key={team.id}
+                        className={cn(
+                          "border rounded-lg p-4",
+                          isUserTeam && "border-blue-500 bg-blue-50"
+                        )}
+                      >
+                        <div className="flex items-center gap-2 mb-3">
+                          {team.is_bot ? (
+                            <Bot className="h-4 w-4 text-gray-500" />
+                          ) : (
+                            <Users className="h-4 w-4" />
+                          )}
+                          <span className="font-semibold">{team.name}</span>
+                          {isUserTeam && (
+                            <Badge variant="secondary">You</Badge>
+                          )}
+                          {team.is_bot && (
+                            <Badge variant="outline" className="text-xs">
+                              Bot
+                            </Badge>
+                          )}
+                        </div>
+                        <div className="space-y-1">
+                          {teamPicks.length === 0 ? (
+                            <p className="text-sm text-gray-500">No picks yet</p>
+                          ) : (
+                            teamPicks
+                              .sort((a, b) => a.pick_number - b.pick_number)
+                              .map((pick) => (
+                                <div
+                                  key={pick.id}
+                                  className="text-sm flex items-center gap-2"
+                                >
+                                  <Badge variant="outline" className="text-xs">
+                                    R{pick.round} P{pick.pick_number}
+                                  </Badge>
+                                  {pick.player_name}
+                                </div>
+                              ))
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Draft Order - Compact, takes 1/3 width */}
+            {!isDraftComplete && draftState.draft_order && draftState.draft_order.length > 0 && (
+              <DraftOrderTable
+                teams={draftState.teams}
+                draftOrder={draftState.draft_order}
+                currentPick={draftState.current_pick}
+                currentRound={draftState.current_round}
+                totalRounds={draftState.total_rounds}
+                format={draftState.draft_format}
+                myTeamName={myTeamName}
+                userId={user?.id}
+                picks={draftState.picks.map((pick) => ({
+                  pick_number: pick.pick_number,
+                  round: pick.round,
+                  team_name: pick.team_name,
+                  player_name: pick.player_name,
+                }))}
+                compact
+              />
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,310 @@
+import { useEffect, useMemo, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertCircle, ArrowLeft, BarChart3, Clock } from "lucide-react";
+import { getMockDraftHistory, type MockDraftHistory } from "@/lib/mockDraft";
+import { getLeague, type League } from "@/lib/leagues";
+import {
+  getAvailabilityAtMyPick,
+  getDraftFrequency,
+  getMyPositionsByRound,
+  getRecentDrafts,
+} from "@shared/mockAnalytics";
+
+// How many of the newest mocks to include; "all" for every one loaded
+const HISTORY_WINDOWS = ["5", "10", "20", "all"];
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export default function MockDraftAnalyticsPage() {
+  const { leagueId } = useParams<{ leagueId: string }>();
+  const navigate = useNavigate();
+
+  const [history, setHistory] = useState<MockDraftHistory | null>(null);
+  const [league, setLeague] = useState<League | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [historyWindow, setHistoryWindow] = useState("10");
+  const [round, setRound] = useState("1");
+
+  useEffect(() => {
+    if (!leagueId) return;
+
+    const load = async () => {
+      try {
+        const [historyData, leagueData] = await Promise.all([
+          getMockDraftHistory(leagueId),
+          getLeague(leagueId),
+        ]);
+        setHistory(historyData);
+        setLeague(leagueData);
+      } catch (err: any) {
+        setError(err.message || "Failed to load mock draft history");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [leagueId]);
+
+  const drafts = useMemo(
+    () =>
+      getRecentDrafts(
+        history?.drafts ?? [],
+        historyWindow === "all" ? null : parseInt(historyWindow, 10)
+      ),
+    [history, historyWindow]
+  );
+  const frequency = useMemo(() => getDraftFrequency(drafts).slice(0, 15), [drafts]);
+  const availability = useMemo(
+    () =>
+      getAvailabilityAtMyPick(drafts, parseInt(round, 10))
+        .filter((player) => player.availableRate > 0)
+        .slice(0, 15),
+    [drafts, round]
+  );
+  const positionsByRound = useMemo(() => getMyPositionsByRound(drafts), [drafts]);
+
+  const rounds = Object.keys(positionsByRound).map(Number).sort((a, b) => a - b);
+  const positions = [
+    ...new Set(rounds.flatMap((r) => Object.keys(positionsByRound[r]))),
+  ].sort();
+  const playerName = (playerId: string) => history?.players[playerId]?.name ?? "Unknown";
+  const playerPosition = (playerId: string) => history?.players[playerId]?.position ?? "";
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <Clock className="h-8 w-8 animate-spin mx-auto mb-4" />
+          <p className="text-gray-600">Loading mock draft history...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Card className="max-w-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-red-600">
+              <AlertCircle className="h-5 w-5" />
+              Error Loading Analytics
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-gray-600">{error}</p>
+            <Button onClick={() => navigate(`/league/${leagueId}`)} className="w-full">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to League
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8 flex items-center justify-between gap-4 flex-wrap">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" onClick={() => navigate(`/league/${leagueId}`)}>
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div>
+              <div className="flex items-center gap-2">
+                <BarChart3 className="h-6 w-6 text-primary" />
+                <h1 className="text-3xl font-bold text-gray-900">Mock Draft Analytics</h1>
+              </div>
+              <p className="text-gray-600">
+                {league?.name} - {drafts.length} completed mock
+                {drafts.length === 1 ? "" : "s"}
+              </p>
+            </div>
+          </div>
+          <Select value={historyWindow} onValueChange={setHistoryWindow}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="Mocks to include" />
+            </SelectTrigger>
+            <SelectContent>
+              {HISTORY_WINDOWS.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {value === "all" ? "All mocks" : `Last ${value} mocks`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {drafts.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-gray-500">
+              Finish a mock draft in this league to see your tendencies here.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Most drafted */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Your Most Drafted Players</CardTitle>
+                <CardDescription>Who you keep coming back to, and where</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Player</TableHead>
+                      <TableHead className="text-right">Drafted</TableHead>
+                      <TableHead className="text-right">Avg. Pick</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {frequency.map((player) => (
+                      <TableRow key={player.playerId}>
+                        <TableCell className="font-medium">
+                          {playerName(player.playerId)}{" "}
+                          <Badge variant="outline" className="text-xs">
+                            {playerPosition(player.playerId)}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {player.timesDrafted} ({percent(player.draftRate)})
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {player.averagePick.toFixed(1)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {/* Availability at my pick */}
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle>Still on the Board</CardTitle>
+                  <CardDescription>
+                    How often players were available when you picked
+                  </CardDescription>
+                </div>
+                <Select value={round} onValueChange={setRound}>
+                  <SelectTrigger className="w-[120px]">
+                    <SelectValue placeholder="Round" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {rounds.map((r) => (
+                      <SelectItem key={r} value={String(r)}>
+                        Round {r}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardHeader>
+              <CardContent>
+                {availability.length === 0 ? (
+                  <p className="text-sm text-gray-500">No picks in this round yet</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Player</TableHead>
+                        <TableHead className="text-right">Avg. Pick</TableHead>
+                        <TableHead className="text-right">Available</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {availability.map((player) => (
+                        <TableRow key={player.playerId}>
+                          <TableCell className="font-medium">
+                            {playerName(player.playerId)}{" "}
+                            <Badge variant="outline" className="text-xs">
+                              {playerPosition(player.playerId)}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {player.averagePick.toFixed(1)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {percent(player.availableRate)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Positions by round */}
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Your Positions by Round</CardTitle>
+                <CardDescription>
+                  Share of your picks at each position, round by round
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Round</TableHead>
+                      {positions.map((position) => (
+                        <TableHead key={position} className="text-right">
+                          {position}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rounds.map((r) => (
+                      <TableRow key={r}>
+                        <TableCell className="font-medium">{r}</TableCell>
+                        {positions.map((position) => (
+                          <TableCell key={position} className="text-right">
+                            {positionsByRound[r][position]
+                              ? percent(positionsByRound[r][position])
+                              : "-"}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,447 @@
+import { useEffect, useMemo, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertCircle,
+  ArrowLeft,
+  Bot,
+  ChevronLeft,
+  ChevronRight,
+  Clock,
+  Pause,
+  Play,
+  TrendingDown,
+  TrendingUp,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getMockDraftReport, type MockDraftReport } from "@/lib/mockDraft";
+import { getLeague, getLeagueSettings, type League } from "@/lib/leagues";
+import { DraftOrderTable } from "@/components/DraftOrderTable";
+import {
+  getPositionBalance,
+  getReaches,
+  getSteals,
+  gradeTeams,
+  type GradedPick,
+  type PickValue,
+} from "@shared/draftGrades";
+
+// Time between picks while the replay is playing
+const REPLAY_STEP_MS = 800;
+
+const gradeColor = (grade: string | null) => {
+  if (!grade) return "text-gray-400";
+  if (grade.startsWith("A")) return "text-green-600";
+  if (grade.startsWith("B")) return "text-blue-600";
+  if (grade.startsWith("C")) return "text-yellow-600";
+  return "text-red-600";
+};
+
+export default function MockDraftReportPage() {
+  const { mockDraftId } = useParams<{ mockDraftId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+
+  const [report, setReport] = useState<MockDraftReport | null>(null);
+  const [league, setLeague] = useState<League | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [replayStep, setReplayStep] = useState(0);
+  const [playing, setPlaying] = useState(false);
+
+  useEffect(() => {
+    if (!mockDraftId) return;
+
+    const load = async () => {
+      try {
+        const data = await getMockDraftReport(mockDraftId);
+        setReport(data);
+        setReplayStep(data.state.picks.length);
+        setLeague(await getLeague(data.state.league_id));
+      } catch (err: any) {
+        setError(err.message || "Failed to load mock draft report");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [mockDraftId]);
+
+  const picks = report?.state.picks ?? [];
+  const totalSteps = picks.length;
+
+  // Step through the picks while playing, stopping at the end
+  useEffect(() => {
+    if (!playing) return;
+    if (replayStep >= totalSteps) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setReplayStep((step) => step + 1), REPLAY_STEP_MS);
+    return () => clearTimeout(timer);
+  }, [playing, replayStep, totalSteps]);
+
+  const gradedPicks: GradedPick[] = useMemo(() => {
+    if (!report) return [];
+    return report.state.picks.map((pick) => {
+      const player = report.players[pick.player_id];
+      return {
+        pickNumber: pick.pick_number,
+        teamId: pick.mock_team_id,
+        playerId: pick.player_id,
+        position: player?.position ?? "",
+        adp: player?.adp != null ? Number(player.adp) : null,
+        projectedPoints: player?.projected_points != null ? Number(player.projected_points) : null,
+      };
+    });
+  }, [report]);
+
+  const handleBackToLeague = () => {
+    if (report) {
+      navigate(`/league/${report.state.league_id}`);
+    } else {
+      navigate("/dashboard");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <Clock className="h-8 w-8 animate-spin mx-auto mb-4" />
+          <p className="text-gray-600">Loading report...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !report) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Card className="max-w-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-red-600">
+              <AlertCircle className="h-5 w-5" />
+              Error Loading Report
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-gray-600">{error || "Mock draft not found"}</p>
+            <Button onClick={() => navigate("/dashboard")} className="w-full">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Dashboard
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { state } = report;
+
+  if (state.status !== "completed") {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Card className="max-w-md">
+          <CardHeader>
+            <CardTitle>Draft Still in Progress</CardTitle>
+            <CardDescription>
+              The report is ready once every pick has been made.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={() => navigate(`/mock-draft/${state.id}`)} className="w-full">
+              Back to Mock Draft
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const myTeam = state.teams.find((team) => team.owner_id === user?.id);
+  const teamName = (teamId: string) =>
+    state.teams.find((team) => team.id === teamId)?.name ?? "Unknown";
+  const playerName = (pickNumber: number) =>
+    picks.find((pick) => pick.pick_number === pickNumber)?.player_name ?? "Unknown";
+
+  const grades = gradeTeams(
+    state.teams.map((team) => team.id),
+    gradedPicks,
+    report.slotValues
+  );
+  const myGrade = grades.find((grade) => grade.teamId === myTeam?.id);
+  const steals = getSteals(gradedPicks);
+  const reaches = getReaches(gradedPicks);
+  const balance = getPositionBalance(
+    gradedPicks.filter((pick) => pick.teamId === myTeam?.id),
+    getLeagueSettings(league).lineup
+  );
+
+  const replayPicks = picks.filter((pick) => pick.pick_number <= replayStep);
+  const lastReplayPick = replayPicks[replayPicks.length - 1];
+  const teamCount = state.draft_order.length || 1;
+
+  const renderPickValues = (values: PickValue[], emptyText: string) =>
+    values.length === 0 ? (
+      <p className="text-sm text-gray-500">{emptyText}</p>
+    ) : (
+      <div className="space-y-2">
+        {values.map((value) => (
+          <div key={value.pickNumber} className="flex items-center justify-between text-sm">
+            <div className="min-w-0">
+              <div className="font-medium truncate">
+                {playerName(value.pickNumber)}{" "}
+                <Badge variant="outline" className="text-xs">
+                  {value.position}
+                </Badge>
+              </div>
+              <div className="text-xs text-gray-500">
+                {teamName(value.teamId)} - pick {value.pickNumber}, ADP {value.adp}
+              </div>
+            </div>
+            <span
+              className={cn(
+                "font-semibold shrink-0 ml-2",
+                value.adpDelta > 0 ? "text-green-600" : "text-red-600"
+              )}
+            >
+              {value.adpDelta > 0 ? "+" : ""}
+              {Math.round(value.adpDelta)}
+            </span>
+          </div>
+        ))}
+      </div>
+    );
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" onClick={() => navigate(`/mock-draft/${state.id}`)}>
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div>
+              <div className="flex items-center gap-2">
+                <Bot className="h-6 w-6 text-primary" />
+                <h1 className="text-3xl font-bold text-gray-900">Mock Draft Report</h1>
+              </div>
+              <p className="text-gray-600">
+                {league?.name || "Practice Draft"} - {state.teams.length} teams,{" "}
+                {state.total_rounds} rounds
+              </p>
+            </div>
+          </div>
+          <Button variant="outline" onClick={handleBackToLeague}>
+            Back to League
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+          {/* Your grade */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Your Grade</CardTitle>
+              <CardDescription>
+                Projected points against what each of your pick slots usually returns
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {myGrade ? (
+                <div className="text-center">
+                  <div className={cn("text-6xl font-bold", gradeColor(myGrade.grade))}>
+                    {myGrade.grade ?? "N/A"}
+                  </div>
+                  <p className="text-sm text-gray-600 mt-2">
+                    {Math.round(myGrade.projectedPoints)} projected points (
+                    {myGrade.valueOverSlot >= 0 ? "+" : ""}
+                    {Math.round(myGrade.valueOverSlot)} over slot)
+                  </p>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">You didn't have a team in this mock.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Positional balance */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Positional Balance</CardTitle>
+              <CardDescription>Your picks against the league's starting lineup</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {balance.map((row) => (
+                  <div key={row.position} className="flex items-center justify-between text-sm">
+                    <Badge variant="secondary">{row.position}</Badge>
+                    <span
+                      className={cn(
+                        row.drafted < row.starters && "text-red-600 font-semibold"
+                      )}
+                    >
+                      {row.drafted} drafted / {row.starters} starting
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Team grades */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Team Grades</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Team</TableHead>
+                    <TableHead className="text-right">Proj.</TableHead>
+                    <TableHead className="text-right">Grade</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {grades.map((grade) => (
+                    <TableRow
+                      key={grade.teamId}
+                      className={cn(grade.teamId === myTeam?.id && "bg-blue-50")}
+                    >
+                      <TableCell className="font-medium">{teamName(grade.teamId)}</TableCell>
+                      <TableCell className="text-right">
+                        {Math.round(grade.projectedPoints)}
+                      </TableCell>
+                      <TableCell className={cn("text-right font-bold", gradeColor(grade.grade))}>
+                        {grade.grade ?? "N/A"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <TrendingUp className="h-5 w-5 text-green-600" />
+                Biggest Steals
+              </CardTitle>
+              <CardDescription>Picks made furthest after their ADP</CardDescription>
+            </CardHeader>
+            <CardContent>{renderPickValues(steals, "No steals in this draft")}</CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <TrendingDown className="h-5 w-5 text-red-600" />
+                Biggest Reaches
+              </CardTitle>
+              <CardDescription>Picks made furthest ahead of their ADP</CardDescription>
+            </CardHeader>
+            <CardContent>{renderPickValues(reaches, "No reaches in this draft")}</CardContent>
+          </Card>
+        </div>
+
+        {/* Replay */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Replay</CardTitle>
+            <CardDescription>
+              {lastReplayPick
+                ? `Pick ${lastReplayPick.pick_number}: ${lastReplayPick.team_name} took ${lastReplayPick.player_name}`
+                : "Before the first pick"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setReplayStep((step) => Math.max(step - 1, 0))}
+                disabled={replayStep === 0}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  if (replayStep >= totalSteps) setReplayStep(0);
+                  setPlaying((value) => !value);
+                }}
+              >
+                {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setReplayStep((step) => Math.min(step + 1, totalSteps))}
+                disabled={replayStep >= totalSteps}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <Slider
+                className="flex-1 mx-4"
+                min={0}
+                max={totalSteps}
+                step={1}
+                value={[replayStep]}
+                onValueChange={([step]) => {
+                  setPlaying(false);
+                  setReplayStep(step);
+                }}
+              />
+              <span className="text-sm text-gray-600 tabular-nums">
+                {replayStep} / {totalSteps}
+              </span>
+            </div>
+            <DraftOrderTable
+              teams={state.teams}
+              draftOrder={state.draft_order}
+              currentPick={replayStep}
+              currentRound={Math.min(
+                Math.floor(replayStep / teamCount) + 1,
+                state.total_rounds
+              )}
+              totalRounds={state.total_rounds}
+              format={state.draft_format}
+              myTeamName={myTeam?.name}
+              userId={user?.id}
+              picks={replayPicks.map((pick) => ({
+                pick_number: pick.pick_number,
+                round: pick.round,
+                team_name: pick.team_name,
+                player_name: pick.player_name,
+              }))}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
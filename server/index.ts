@@ -2,6 +2,12 @@ import "dotenv/config";
 import express from "express";
 import cors from "cors";
 import { handleDemo } from "./routes/demo";
+import { handleLeagueDraftExport, handleMockDraftExport } from "./routes/draftExport";
+import { handleCreateMockDraft, handleStartDraft } from "./routes/draft";
+import { handleLeagueScoring, handleLineupLockImport, handleStatIngest } from "./routes/admin";
+import { isSupabaseAdminConfigured } from "./lib/supabase";
+import { startDraftClock } from "./jobs/draftClock";
+import { startMockDraftBots } from "./jobs/mockDraftBots";
 
 export function createServer() {
   const app = express();
@@ -19,5 +25,42 @@ export function createServer() {
 
   app.get("/api/demo", handleDemo);
 
+  // Drafts: pick sequences are built here from shared/draftOrder.ts
+  app.post("/api/leagues/:leagueId/draft/start", handleStartDraft);
+  app.post("/api/leagues/:leagueId/mock-drafts", handleCreateMockDraft);
+
+  // Draft recap exports (CSV, JSON, printable HTML)
+  app.get("/api/leagues/:leagueId/draft/export", handleLeagueDraftExport);
+  app.get("/api/mock-drafts/:mockDraftId/export", handleMockDraftExport);
+
+  // Admin: import players and weekly stats from the stat provider
+  app.post("/api/admin/ingest", handleStatIngest);
+  // Admin: import when each week's lineups lock
+  app.post("/api/admin/lineup-locks", handleLineupLockImport);
+  // Admin: score a league's week into scores
+  app.post("/api/admin/score", handleLeagueScoring);
+
   return app;
 }
+
+// Start long-running background jobs (draft clock, mock draft bots)
+// Only call this from a long-lived process, not from serverless handlers.
+// pg_cron runs the same sweeps in the database, so deploys without a
+// long-lived process (Netlify) don't depend on these
+// Returns a function that stops every job it started
+export function startBackgroundJobs() {
+  if (!isSupabaseAdminConfigured()) {
+    console.warn(
+      "⚠️ SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY not set, background jobs disabled"
+    );
+    return () => {};
+  }
+
+  const stopDraftClock = startDraftClock();
+  const stopMockDraftBots = startMockDraftBots();
+
+  return () => {
+    stopDraftClock();
+    stopMockDraftBots();
+  };
+}
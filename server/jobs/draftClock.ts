@@ -0,0 +1,57 @@
+import { getSupabaseAdmin } from "../lib/supabase";
+
+// How often the server checks for expired pick deadlines
+const DRAFT_CLOCK_INTERVAL_MS = 1000;
+
+// Make the best available pick for every live draft whose pick deadline
+// has passed, and sell or auto-nominate in auctions whose countdown ran out.
+// Deadlines live in the database, so this is safe to run from more than one
+// server at once.
+export const runDraftClockTick = async (): Promise<{
+  auto_picks: number;
+  sold_lots: number;
+  auto_nominations: number;
+}> => {
+  const supabase = getSupabaseAdmin();
+
+  const { data: picks, error: picksError } = await supabase.rpc("process_expired_picks");
+  if (picksError) throw picksError;
+
+  const { data: lots, error: lotsError } = await supabase.rpc("process_expired_auction_lots");
+  if (lotsError) throw lotsError;
+
+  return {
+    auto_picks: picks?.auto_picks ?? 0,
+    sold_lots: lots?.sold_lots ?? 0,
+    auto_nominations: lots?.auto_nominations ?? 0,
+  };
+};
+
+// Start ticking the draft clock; returns a function that stops it
+export function startDraftClock(intervalMs = DRAFT_CLOCK_INTERVAL_MS) {
+  let ticking = false;
+
+  const timer = setInterval(async () => {
+    // Skip this tick if the previous one is still waiting on the database
+    if (ticking) return;
+    ticking = true;
+
+    try {
+      const result = await runDraftClockTick();
+      if (result?.auto_picks > 0) {
+        console.log(`⏱️ Draft clock made ${result.auto_picks} auto-pick(s)`);
+      }
+      if (result?.sold_lots > 0 || result?.auto_nominations > 0) {
+        console.log(
+          `⏱️ Auction clock sold ${result.sold_lots} player(s), auto-nominated ${result.auto_nominations}`
+        );
+      }
+    } catch (error) {
+      console.error("Draft clock tick failed:", error);
+    } finally {
+      ticking = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
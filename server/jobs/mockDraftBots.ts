@@ -0,0 +1,38 @@
+import { getSupabaseAdmin } from "../lib/supabase";
+
+// How often the server checks for mock draft bots that are due to pick.
+// Short enough that the fastest bot speed still feels responsive
+const MOCK_DRAFT_BOT_INTERVAL_MS = 250;
+
+// Make every mock draft bot pick whose delay has passed since the last pick.
+// The database locks each mock draft while it picks, so this is safe to run
+// from more than one server at once.
+export const runMockDraftBotTick = async (): Promise<{ bot_picks: number }> => {
+  const supabase = getSupabaseAdmin();
+
+  const { data, error } = await supabase.rpc("process_mock_draft_bot_picks");
+  if (error) throw error;
+
+  return { bot_picks: data?.bot_picks ?? 0 };
+};
+
+// Start picking for mock draft bots; returns a function that stops it
+export function startMockDraftBots(intervalMs = MOCK_DRAFT_BOT_INTERVAL_MS) {
+  let ticking = false;
+
+  const timer = setInterval(async () => {
+    // Skip this tick if the previous one is still waiting on the database
+    if (ticking) return;
+    ticking = true;
+
+    try {
+      await runMockDraftBotTick();
+    } catch (error) {
+      console.error("Mock draft bot tick failed:", error);
+    } finally {
+      ticking = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,46 @@
+import type { Request } from "express";
+import type { User } from "@supabase/supabase-js";
+import { getSupabaseAdmin } from "./supabase";
+
+// The signed-in user behind a request's "Authorization: Bearer <access token>"
+// header, or null when the header is missing or the token isn't valid
+export const getRequestUser = async (req: Request): Promise<User | null> => {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ")) return null;
+
+  const { data, error } = await getSupabaseAdmin().auth.getUser(header.slice("Bearer ".length));
+  if (error) return null;
+  return data.user;
+};
+
+// Whether a user runs a league or has a team in it
+export const isLeagueMember = async (leagueId: string, userId: string): Promise<boolean> => {
+  const supabase = getSupabaseAdmin();
+
+  const [leagueRes, teamRes] = await Promise.all([
+    supabase.from("leagues").select("commissioner_id").eq("id", leagueId).maybeSingle(),
+    supabase
+      .from("teams")
+      .select("id")
+      .eq("league_id", leagueId)
+      .eq("owner_id", userId)
+      .maybeSingle(),
+  ]);
+
+  if (leagueRes.error) throw leagueRes.error;
+  if (teamRes.error) throw teamRes.error;
+
+  return leagueRes.data?.commissioner_id === userId || !!teamRes.data;
+};
+
+// Whether a user is a site admin (profiles.is_admin)
+export const isAdmin = async (userId: string): Promise<boolean> => {
+  const { data, error } = await getSupabaseAdmin()
+    .from("profiles")
+    .select("is_admin")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data?.is_admin;
+};
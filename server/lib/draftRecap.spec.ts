@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import type { DraftRecap } from "@shared/api";
+import { getExportFilename, toCsv, toHtml } from "./draftRecap";
+
+const recap: DraftRecap = {
+  title: "Sunday League Draft",
+  leagueName: "Sunday League",
+  completedAt: "2026-09-01T20:00:00Z",
+  teams: ["Gridiron Gang", "The \"Best\" Team"],
+  picks: [
+    {
+      pickNumber: 1,
+      round: 1,
+      teamName: "Gridiron Gang",
+      playerName: "Christian McCaffrey",
+      position: "RB",
+      nflTeam: "SF",
+    },
+    {
+      pickNumber: 2,
+      round: 1,
+      teamName: "The \"Best\" Team",
+      playerName: "Ja'Marr Chase",
+      position: "WR",
+      nflTeam: null,
+    },
+  ],
+};
+
+describe("toCsv", () => {
+  it("writes a header and one row per pick, quoting where needed", () => {
+    expect(toCsv(recap)).toBe(
+      "Pick,Round,Team,Player,Position,NFL Team\r\n" +
+        "1,1,Gridiron Gang,Christian McCaffrey,RB,SF\r\n" +
+        '2,1,"The ""Best"" Team",Ja\'Marr Chase,WR,\r\n'
+    );
+  });
+});
+
+describe("toHtml", () => {
+  it("escapes names and lists every team's roster", () => {
+    const html = toHtml(recap);
+
+    expect(html).toContain("<title>Sunday League Draft</title>");
+    expect(html).toContain("The &quot;Best&quot; Team");
+    expect(html).toContain("Ja&#39;Marr Chase");
+    expect(html).not.toContain('The "Best" Team');
+    expect(html.match(/class="roster"/g)).toHaveLength(2);
+  });
+});
+
+describe("getExportFilename", () => {
+  it("slugs the title", () => {
+    expect(getExportFilename(recap, "csv")).toBe("sunday-league-draft.csv");
+  });
+});
@@ -0,0 +1,117 @@
+import type { DraftExportFormat, DraftRecap } from "@shared/api";
+
+const CSV_HEADER = ["Pick", "Round", "Team", "Player", "Position", "NFL Team"];
+
+// Quote a CSV field when it holds a comma, quote or line break
+const csvField = (value: string | number | null) => {
+  const text = value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const escapeHtml = (value: string | number | null) =>
+  (value === null ? "" : String(value))
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// One row per pick, in pick order
+export const toCsv = (recap: DraftRecap): string =>
+  [
+    CSV_HEADER,
+    ...recap.picks.map((pick) => [
+      pick.pickNumber,
+      pick.round,
+      pick.teamName,
+      pick.playerName,
+      pick.position,
+      pick.nflTeam,
+    ]),
+  ]
+    .map((row) => row.map(csvField).join(","))
+    .join("\r\n") + "\r\n";
+
+// Standalone page with every pick and each team's roster, laid out to print
+// (or save as PDF) straight from the browser
+export const toHtml = (recap: DraftRecap): string => {
+  const pickRows = recap.picks
+    .map(
+      (pick) => `<tr>
+        <td>${pick.pickNumber}</td>
+        <td>${pick.round}</td>
+        <td>${escapeHtml(pick.teamName)}</td>
+        <td>${escapeHtml(pick.playerName)}</td>
+        <td>${escapeHtml(pick.position)}</td>
+        <td>${escapeHtml(pick.nflTeam)}</td>
+      </tr>`
+    )
+    .join("\n");
+
+  const rosters = recap.teams
+    .map((team) => {
+      const players = recap.picks
+        .filter((pick) => pick.teamName === team)
+        .map(
+          (pick) =>
+            `<li><span class="pick">#${pick.pickNumber}</span> ${escapeHtml(pick.playerName)} <span class="pos">${escapeHtml(pick.position)}</span></li>`
+        )
+        .join("\n");
+      return `<section class="roster"><h3>${escapeHtml(team)}</h3><ol>${players}</ol></section>`;
+    })
+    .join("\n");
+
+  const completed = recap.completedAt
+    ? `Completed ${new Date(recap.completedAt).toLocaleString("en-US", { dateStyle: "long", timeStyle: "short" })}`
+    : "";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(recap.title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111; margin: 2rem; }
+  h1 { margin-bottom: 0.25rem; }
+  .meta { color: #555; margin-top: 0; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 2rem; font-size: 0.9rem; }
+  th, td { border: 1px solid #ddd; padding: 0.3rem 0.5rem; text-align: left; }
+  th { background: #f3f4f6; }
+  .rosters { display: grid; grid-template-columns: repeat(auto-fill, minmax(14rem, 1fr)); gap: 1rem; }
+  .roster { border: 1px solid #ddd; border-radius: 0.5rem; padding: 0.5rem 1rem; break-inside: avoid; }
+  .roster h3 { margin: 0.25rem 0 0.5rem; }
+  .roster ol { list-style: none; padding: 0; margin: 0; font-size: 0.85rem; }
+  .pick, .pos { color: #666; }
+  @media print {
+    body { margin: 0.5in; }
+    .rosters-heading { break-before: page; }
+  }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(recap.title)}</h1>
+<p class="meta">${escapeHtml(recap.leagueName)}${completed ? ` &middot; ${escapeHtml(completed)}` : ""}</p>
+<h2>Picks</h2>
+<table>
+  <thead><tr>${CSV_HEADER.map((column) => `<th>${column}</th>`).join("")}</tr></thead>
+  <tbody>
+${pickRows}
+  </tbody>
+</table>
+<h2 class="rosters-heading">Rosters</h2>
+<div class="rosters">
+${rosters}
+</div>
+</body>
+</html>
+`;
+};
+
+// File name for a download, e.g. "sunday-league-draft.csv"
+export const getExportFilename = (recap: DraftRecap, format: DraftExportFormat): string => {
+  const slug = recap.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${slug || "draft"}.${format}`;
+};
@@ -0,0 +1,33 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import type { ProviderPlayer, ProviderStatLine, ProviderWeek, StatProvider } from "./statIngestion";
+
+// Sample data shipped with the repo: one 2025 week for a handful of players
+const DEFAULT_FIXTURE_DIR = path.resolve(process.cwd(), "server/fixtures/stats");
+
+const readJson = async <T>(file: string): Promise<T> => {
+  try {
+    return JSON.parse(await readFile(file, "utf-8")) as T;
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      throw new Error(`No stat fixture at ${file}`);
+    }
+    throw error;
+  }
+};
+
+// Reads stats from JSON files, for local development and tests:
+//   <dir>/<season>/players.json  - ProviderPlayer[]
+//   <dir>/<season>/weeks.json    - ProviderWeek[]
+//   <dir>/<season>/week-<n>.json - ProviderStatLine[]
+export const createFixtureStatProvider = (dir: string = DEFAULT_FIXTURE_DIR): StatProvider => ({
+  name: "fixture",
+
+  fetchPlayers: (season) =>
+    readJson<ProviderPlayer[]>(path.join(dir, String(season), "players.json")),
+
+  fetchWeeks: (season) => readJson<ProviderWeek[]>(path.join(dir, String(season), "weeks.json")),
+
+  fetchWeeklyStats: (season, week) =>
+    readJson<ProviderStatLine[]>(path.join(dir, String(season), `week-${week}.json`)),
+});
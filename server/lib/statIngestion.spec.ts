@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import { createFixtureStatProvider } from "./fixtureStatProvider";
+import { deriveRankings, normalizeStatLine, toPlayerRows, toStatRows } from "./statIngestion";
+
+describe("createFixtureStatProvider", () => {
+  const provider = createFixtureStatProvider();
+
+  it("reads the sample players and weeks", async () => {
+    const players = await provider.fetchPlayers(2025);
+    const week = await provider.fetchWeeklyStats(2025, 1);
+
+    expect(players.length).toBeGreaterThan(0);
+    expect(week.every((line) => players.some((p) => p.externalId === line.externalId))).toBe(true);
+  });
+
+  it("ranks every sample player, so bots have a ranked pool to draft from", async () => {
+    const rows = toPlayerRows(await provider.fetchPlayers(2025));
+
+    expect(rows.every((row) => row.adp !== null && row.projected_points !== null)).toBe(true);
+  });
+
+  it("locks each sample week's lineups at a kickoff after the last", async () => {
+    const weeks = await provider.fetchWeeks(2025);
+    const lockTimes = weeks.map((week) => Date.parse(week.lockAt));
+
+    expect(weeks.map((week) => week.week)).toEqual(weeks.map((_, i) => i + 1));
+    expect(lockTimes.every((time, i) => i === 0 || time > lockTimes[i - 1])).toBe(true);
+  });
+
+  it("explains a missing week", async () => {
+    await expect(provider.fetchWeeklyStats(2025, 99)).rejects.toThrow("No stat fixture");
+  });
+});
+
+describe("toPlayerRows", () => {
+  it("maps provider players and drops positions the table rejects", () => {
+    expect(
+      toPlayerRows([
+        { externalId: "a", firstName: "Josh", lastName: "Allen", position: "qb", team: "BUF" },
+        { externalId: "b", firstName: "Long", lastName: "Snapper", position: "LS" },
+      ])
+    ).toEqual([
+      {
+        external_id: "a",
+        first_name: "Josh",
+        last_name: "Allen",
+        position: "QB",
+        team: "BUF",
+        jersey_number: null,
+        adp: null,
+        projected_points: null,
+      },
+    ]);
+  });
+});
+
+describe("toStatRows", () => {
+  it("matches lines to players and reports the ones it can't", () => {
+    const { rows, skipped } = toStatRows(
+      [
+        { externalId: "a", stats: { pass_yds: 250, pass_td: 0 } },
+        { externalId: "ghost", stats: { rec: 3 } },
+      ],
+      new Map([["a", "player-1"]]),
+      2025,
+      1,
+      "fixture"
+    );
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      player_id: "player-1",
+      season: 2025,
+      week: 1,
+      stats: { pass_yds: 250 },
+      source: "fixture",
+    });
+    expect(skipped).toEqual(["ghost"]);
+  });
+});
+
+describe("normalizeStatLine", () => {
+  it("keeps numeric, non-zero stats", () => {
+    expect(normalizeStatLine({ rec: "4", rec_yds: 51, rec_td: 0, note: "limited" })).toEqual({
+      rec: 4,
+      rec_yds: 51,
+    });
+  });
+});
+
+describe("deriveRankings", () => {
+  it("projects unranked players from their pace and slots them into the pool", () => {
+    const rankings = deriveRankings([
+      { id: "ranked", adp: 3, projectedPoints: 300, totals: {}, games: 0 },
+      // 2 games of 100 rushing yards: 10 points a game, 170 over a season
+      { id: "pace", adp: null, projectedPoints: null, totals: { rush_yds: 200 }, games: 2 },
+      { id: "projected", adp: null, projectedPoints: 250, totals: {}, games: 0 },
+      { id: "unplayed", adp: null, projectedPoints: null, totals: {}, games: 0 },
+    ]);
+
+    expect(rankings).toEqual([
+      { id: "projected", adp: 2, projectedPoints: 250 },
+      { id: "pace", adp: 3, projectedPoints: 170 },
+    ]);
+  });
+});
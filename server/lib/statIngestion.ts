@@ -0,0 +1,300 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { StatLine } from "@shared/scoring";
+// Relative rather than @shared: the Vite config loads the server before the
+// alias exists, so only type imports can go through it
+import { resolveScoringRules, scoreStatLine } from "../../shared/scoring";
+import { getSupabaseAdmin } from "./supabase";
+import { createFixtureStatProvider } from "./fixtureStatProvider";
+
+// Positions the players table accepts
+const POSITIONS = ["QB", "RB", "WR", "TE", "K", "DEF"];
+
+// Regular season games, for projecting a full season from a per-game pace
+const SEASON_GAMES = 17;
+
+// Rows per request when reading the season's player pool
+const PAGE_SIZE = 1000;
+
+// A player as a stat provider describes them
+export interface ProviderPlayer {
+  externalId: string; // The provider's ID, stored in players.external_id
+  firstName: string;
+  lastName: string;
+  position: string;
+  team?: string | null; // NFL team abbreviation
+  jerseyNumber?: number | null;
+  adp?: number | null; // Average draft position, when the provider ranks players
+  projectedPoints?: number | null; // Season projection
+}
+
+// One player's stats for one week
+export interface ProviderStatLine {
+  externalId: string;
+  stats: StatLine;
+}
+
+// One week of the NFL season and when its lineups lock
+export interface ProviderWeek {
+  week: number;
+  lockAt: string; // ISO timestamp of the week's first kickoff
+}
+
+// Where players and weekly stats come from. Implementations only fetch;
+// ingestWeek does all of the writing.
+export interface StatProvider {
+  name: string;
+  fetchPlayers(season: number): Promise<ProviderPlayer[]>;
+  fetchWeeks(season: number): Promise<ProviderWeek[]>;
+  fetchWeeklyStats(season: number, week: number): Promise<ProviderStatLine[]>;
+}
+
+export interface IngestResult {
+  provider: string;
+  season: number;
+  week: number;
+  players: number; // Players inserted or updated
+  statLines: number; // Weekly lines inserted or updated
+  rankings: number; // Players whose ADP or projection was derived from their stats
+  skipped: string[]; // External IDs of lines with no matching player
+}
+
+// The provider named by STAT_PROVIDER; "fixture" (the default) reads JSON
+// files from STAT_FIXTURE_DIR, or the bundled sample week
+export const getStatProvider = (): StatProvider => {
+  const name = process.env.STAT_PROVIDER ?? "fixture";
+
+  switch (name) {
+    case "fixture":
+      return createFixtureStatProvider(process.env.STAT_FIXTURE_DIR);
+    default:
+      throw new Error(`Unknown STAT_PROVIDER "${name}"`);
+  }
+};
+
+// Rows for players.upsert; players with a position the table doesn't allow
+// are left out
+export const toPlayerRows = (players: ProviderPlayer[]) =>
+  players
+    .filter((player) => POSITIONS.includes(player.position.toUpperCase()))
+    .map((player) => ({
+      external_id: player.externalId,
+      first_name: player.firstName,
+      last_name: player.lastName,
+      position: player.position.toUpperCase(),
+      team: player.team ?? null,
+      jersey_number: player.jerseyNumber ?? null,
+      adp: player.adp ?? null,
+      projected_points: player.projectedPoints ?? null,
+    }));
+
+// A player as deriveRankings reads them: their stored ranking and the season
+// totals refresh_player_season_stats wrote
+export interface RankingInput {
+  id: string;
+  adp: number | null;
+  projectedPoints: number | null;
+  totals: StatLine;
+  games: number;
+}
+
+export interface PlayerRanking {
+  id: string;
+  adp: number;
+  projectedPoints: number;
+}
+
+// Fill in the rankings mock draft bots and draft grades read (players.adp and
+// players.projected_points) for players the provider didn't rank. A missing
+// projection is the player's standard-scoring pace over a full season; a
+// missing ADP is the player's place in the pool by projected points. Only
+// players that gained a value are returned.
+export const deriveRankings = (players: RankingInput[]): PlayerRanking[] => {
+  const rules = resolveScoringRules();
+  const pace = (player: RankingInput) =>
+    player.games
+      ? Math.round((scoreStatLine(player.totals, rules).points / player.games) * SEASON_GAMES * 100) /
+        100
+      : null;
+
+  return players
+    .map((player) => ({ player, projectedPoints: player.projectedPoints ?? pace(player) }))
+    .filter((entry): entry is { player: RankingInput; projectedPoints: number } =>
+      entry.projectedPoints !== null
+    )
+    .sort((a, b) => b.projectedPoints - a.projectedPoints)
+    .map(({ player, projectedPoints }, index) => ({
+      player,
+      ranking: { id: player.id, adp: player.adp ?? index + 1, projectedPoints },
+    }))
+    .filter(({ player }) => player.adp === null || player.projectedPoints === null)
+    .map(({ ranking }) => ranking);
+};
+
+// Keep only numeric, non-zero stats so every stored line is clean
+export const normalizeStatLine = (stats: Record<string, unknown>): StatLine => {
+  const line: Record<string, number> = {};
+  for (const [key, value] of Object.entries(stats)) {
+    const number = typeof value === "number" ? value : Number(value);
+    if (Number.isFinite(number) && number !== 0) line[key] = number;
+  }
+  return line as StatLine;
+};
+
+// Rows for player_stats.upsert, split from the lines whose player is unknown
+export const toStatRows = (
+  lines: ProviderStatLine[],
+  playerIds: Map<string, string>, // external_id -> players.id
+  season: number,
+  week: number,
+  source: string
+) => {
+  const rows: Array<{
+    player_id: string;
+    season: number;
+    week: number;
+    stats: StatLine;
+    source: string;
+    updated_at: string;
+  }> = [];
+  const skipped: string[] = [];
+  const updatedAt = new Date().toISOString();
+
+  for (const line of lines) {
+    const playerId = playerIds.get(line.externalId);
+    if (!playerId) {
+      skipped.push(line.externalId);
+      continue;
+    }
+    rows.push({
+      player_id: playerId,
+      season,
+      week,
+      stats: normalizeStatLine(line.stats),
+      source,
+      updated_at: updatedAt,
+    });
+  }
+
+  return { rows, skipped };
+};
+
+// Import one week: upsert the provider's players by external_id, upsert their
+// stat lines for the week, then refresh season totals in players.stats.
+// Safe to rerun; stat corrections overwrite the earlier line.
+export const ingestWeek = async (
+  provider: StatProvider,
+  season: number,
+  week: number,
+  supabase: SupabaseClient = getSupabaseAdmin()
+): Promise<IngestResult> => {
+  const [players, lines] = await Promise.all([
+    provider.fetchPlayers(season),
+    provider.fetchWeeklyStats(season, week),
+  ]);
+
+  const playerRows = toPlayerRows(players);
+  const { data: upserted, error: playersError } = playerRows.length
+    ? await supabase
+        .from("players")
+        .upsert(playerRows, { onConflict: "external_id" })
+        .select("id, external_id")
+    : { data: [], error: null };
+
+  if (playersError) throw playersError;
+
+  // Lines can reference players imported in earlier runs, too
+  const missing = lines
+    .map((line) => line.externalId)
+    .filter((id) => !(upserted || []).some((player) => player.external_id === id));
+  const { data: existing, error: existingError } = missing.length
+    ? await supabase.from("players").select("id, external_id").in("external_id", missing)
+    : { data: [], error: null };
+
+  if (existingError) throw existingError;
+
+  const playerIds = new Map(
+    [...(upserted || []), ...(existing || [])].map((player) => [player.external_id, player.id])
+  );
+  const { rows, skipped } = toStatRows(lines, playerIds, season, week, provider.name);
+
+  if (rows.length) {
+    const { error: statsError } = await supabase
+      .from("player_stats")
+      .upsert(rows, { onConflict: "player_id,season,week" });
+    if (statsError) throw statsError;
+  }
+
+  const { error: refreshError } = await supabase.rpc("refresh_player_season_stats", {
+    p_season: season,
+  });
+  if (refreshError) throw refreshError;
+
+  // Rank everyone with stats this season that the provider didn't rank
+  const pool: RankingInput[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page, error: poolError } = await supabase
+      .from("players")
+      .select("id, adp, projected_points, stats")
+      .eq("stats->>season", String(season))
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+    if (poolError) throw poolError;
+
+    pool.push(
+      ...(page || []).map((player) => ({
+        id: player.id,
+        adp: player.adp === null ? null : Number(player.adp),
+        projectedPoints: player.projected_points === null ? null : Number(player.projected_points),
+        totals: player.stats?.totals ?? {},
+        games: Number(player.stats?.games ?? 0),
+      }))
+    );
+    if (!page || page.length < PAGE_SIZE) break;
+  }
+
+  const rankings = deriveRankings(pool);
+  if (rankings.length) {
+    const { error: rankingsError } = await supabase.rpc("set_player_rankings", {
+      p_rankings: rankings.map((ranking) => ({
+        id: ranking.id,
+        adp: ranking.adp,
+        projected_points: ranking.projectedPoints,
+      })),
+    });
+    if (rankingsError) throw rankingsError;
+  }
+
+  return {
+    provider: provider.name,
+    season,
+    week,
+    players: playerRows.length,
+    statLines: rows.length,
+    rankings: rankings.length,
+    skipped,
+  };
+};
+
+// Import a season's lineup lock times (each week's first kickoff) into
+// lineup_locks. Run it before the season: lineups lock when a week's time
+// passes, and a week can't be scored until they have. Weeks that already
+// locked keep their lineups even if their time changes.
+export const importLineupLocks = async (
+  provider: StatProvider,
+  season: number,
+  supabase: SupabaseClient = getSupabaseAdmin()
+): Promise<number> => {
+  const weeks = await provider.fetchWeeks(season);
+  const rows = weeks.map((week) => ({
+    season,
+    week: week.week,
+    lock_at: new Date(week.lockAt).toISOString(),
+  }));
+
+  if (rows.length) {
+    const { error } = await supabase.from("lineup_locks").upsert(rows, { onConflict: "season,week" });
+    if (error) throw error;
+  }
+
+  return rows.length;
+};
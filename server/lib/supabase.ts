@@ -1,27 +1,45 @@
-import { createClient } from "@supabase/supabase-js";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+let adminClient: SupabaseClient | null = null;
+let anonClient: SupabaseClient | null = null;
+
+// Whether the server has what it needs to talk to Supabase as an admin
+export const isSupabaseAdminConfigured = () =>
+  !!process.env.SUPABASE_URL && !!process.env.SUPABASE_SERVICE_ROLE_KEY;
 
 // Supabase client for server-side operations
 // Uses service role key for admin operations (server-side only)
-export const supabaseAdmin = createClient(
-  process.env.SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY!,
-  {
-    auth: {
-      autoRefreshToken: false,
-      persistSession: false,
-    },
+// Created on first use so the server can boot without Supabase configured
+export const getSupabaseAdmin = (): SupabaseClient => {
+  if (!adminClient) {
+    adminClient = createClient(
+      process.env.SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
   }
-);
+  return adminClient;
+};
 
 // Supabase client for user operations (uses anon key)
 // This can be used for operations that should respect RLS policies
-export const supabase = createClient(
-  process.env.SUPABASE_URL!,
-  process.env.SUPABASE_ANON_KEY!,
-  {
-    auth: {
-      autoRefreshToken: true,
-      persistSession: false,
-    },
+export const getSupabase = (): SupabaseClient => {
+  if (!anonClient) {
+    anonClient = createClient(
+      process.env.SUPABASE_URL!,
+      process.env.SUPABASE_ANON_KEY!,
+      {
+        auth: {
+          autoRefreshToken: true,
+          persistSession: false,
+        },
+      }
+    );
   }
-);
+  return anonClient;
+};
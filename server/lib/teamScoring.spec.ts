@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { resolveScoringRules } from "@shared/scoring";
+import { scoreTeamWeek, type LineupPlayer } from "./teamScoring";
+
+const starters: LineupPlayer[] = [
+  { playerId: "qb", playerName: "Josh Allen", position: "QB", slot: "QB" },
+  { playerId: "wr", playerName: "Justin Jefferson", position: "WR", slot: "FLEX" },
+  { playerId: "rb", playerName: "Bye Week", position: "RB", slot: "RB" },
+];
+
+const stats = new Map([
+  ["qb", { pass_yds: 250, pass_td: 2, rush_yds: 30 }],
+  ["wr", { rec: 6, rec_yds: 80, rec_td: 1 }],
+]);
+
+describe("scoreTeamWeek", () => {
+  it("sums the starters under the league's rules", () => {
+    const standard = scoreTeamWeek("team-1", starters, stats, resolveScoringRules(), "standard");
+    const ppr = scoreTeamWeek(
+      "team-1",
+      starters,
+      stats,
+      resolveScoringRules({ preset: "ppr" }),
+      "ppr"
+    );
+
+    expect(standard.points).toBe(35);
+    expect(ppr.points).toBe(41);
+    expect(ppr.breakdown.scoring).toBe("ppr");
+  });
+
+  it("keeps starters without a stat line in the breakdown at zero", () => {
+    const score = scoreTeamWeek("team-1", starters, stats, resolveScoringRules(), "standard");
+    const rb = score.breakdown.starters.find((starter) => starter.playerId === "rb");
+
+    expect(score.breakdown.starters).toHaveLength(3);
+    expect(rb).toMatchObject({ slot: "RB", points: 0, stats: {} });
+    expect(score.breakdown.starters[0].stats.pass_td).toEqual({ value: 2, points: 8 });
+  });
+
+  it("scores an empty lineup as zero", () => {
+    expect(scoreTeamWeek("team-2", [], stats, resolveScoringRules(), "standard").points).toBe(0);
+  });
+});
@@ -0,0 +1,167 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { StarterScore, TeamScoreBreakdown } from "@shared/api";
+import type { ScoringRules, ScoringSettings, StatLine } from "@shared/scoring";
+// Relative rather than @shared: the Vite config loads the server before the
+// alias exists, so only type imports can go through it
+import { resolveScoringRules, scoreStatLine } from "../../shared/scoring";
+import { getSupabaseAdmin } from "./supabase";
+
+// A player in a team's locked lineup for the week
+export interface LineupPlayer {
+  playerId: string;
+  playerName: string;
+  position: string | null;
+  slot: string;
+}
+
+// A weekly_lineups row as scoreLeagueWeek selects it, with its player embedded
+interface LineupRow {
+  team_id: string;
+  player_id: string;
+  slot: string;
+  players: { first_name: string; last_name: string; position: string | null } | null;
+}
+
+export interface TeamWeekScore {
+  teamId: string;
+  points: number;
+  breakdown: TeamScoreBreakdown;
+}
+
+export interface ScoreWeekResult {
+  leagueId: string;
+  season: number;
+  week: number;
+  teams: number; // Score rows written
+  lockedAt: string; // When the week's lineups were snapshotted
+}
+
+const roundPoints = (points: number) => Math.round(points * 100) / 100;
+
+// Score one team's starters. Starters with no stat line for the week (bye,
+// inactive, not yet imported) score zero but stay in the breakdown.
+export const scoreTeamWeek = (
+  teamId: string,
+  starters: LineupPlayer[],
+  statsByPlayer: Map<string, StatLine>,
+  rules: ScoringRules,
+  preset: string
+): TeamWeekScore => {
+  const scored: StarterScore[] = starters.map((starter) => {
+    const { points, breakdown } = scoreStatLine(statsByPlayer.get(starter.playerId) ?? {}, rules);
+    return { ...starter, points, stats: breakdown };
+  });
+
+  return {
+    teamId,
+    points: roundPoints(scored.reduce((total, starter) => total + starter.points, 0)),
+    breakdown: { scoring: preset, starters: scored },
+  };
+};
+
+// Score every team in a league for one week and upsert the scores rows.
+// Starters come from weekly_lineups, which lock_due_lineups fills at the
+// week's lock time (lineup_locks), so a week that hasn't locked can't be
+// scored and reruns after stat corrections score the same lineups.
+export const scoreLeagueWeek = async (
+  leagueId: string,
+  season: number,
+  week: number,
+  supabase: SupabaseClient = getSupabaseAdmin()
+): Promise<ScoreWeekResult> => {
+  const { data: league, error: leagueError } = await supabase
+    .from("leagues")
+    .select("id, settings")
+    .eq("id", leagueId)
+    .maybeSingle();
+
+  if (leagueError) throw leagueError;
+  if (!league) throw new Error("League not found");
+
+  const { data: lock, error: lockError } = await supabase
+    .from("lineup_locks")
+    .select("locked_at")
+    .eq("season", season)
+    .eq("week", week)
+    .maybeSingle();
+
+  if (lockError) throw lockError;
+  if (!lock?.locked_at) {
+    throw new Error(`Lineups for ${season} week ${week} haven't locked yet`);
+  }
+
+  const [teamsResult, lineupResult] = await Promise.all([
+    supabase.from("teams").select("id").eq("league_id", leagueId),
+    supabase
+      .from("weekly_lineups")
+      .select("team_id, player_id, slot, players(first_name, last_name, position)")
+      .eq("league_id", leagueId)
+      .eq("season", season)
+      .eq("week", week)
+      .overrideTypes<LineupRow[], { merge: false }>(),
+  ]);
+
+  if (teamsResult.error) throw teamsResult.error;
+  if (lineupResult.error) throw lineupResult.error;
+
+  const lineups = new Map<string, LineupPlayer[]>();
+  for (const row of lineupResult.data || []) {
+    const player = row.players;
+    const starters = lineups.get(row.team_id) || [];
+    starters.push({
+      playerId: row.player_id,
+      playerName: player ? `${player.first_name} ${player.last_name}` : "Unknown player",
+      position: player?.position ?? null,
+      slot: row.slot,
+    });
+    lineups.set(row.team_id, starters);
+  }
+
+  const playerIds = [...new Set((lineupResult.data || []).map((row) => row.player_id))];
+  const { data: statRows, error: statsError } = playerIds.length
+    ? await supabase
+        .from("player_stats")
+        .select("player_id, stats")
+        .eq("season", season)
+        .eq("week", week)
+        .in("player_id", playerIds)
+    : { data: [], error: null };
+
+  if (statsError) throw statsError;
+
+  const statsByPlayer = new Map<string, StatLine>(
+    (statRows || []).map((row) => [row.player_id, row.stats as StatLine])
+  );
+  const scoring: ScoringSettings | undefined = league.settings?.scoring;
+  const rules = resolveScoringRules(scoring);
+  const preset = scoring?.preset ?? "standard";
+  const updatedAt = new Date().toISOString();
+
+  const rows = (teamsResult.data || []).map((team) => {
+    const score = scoreTeamWeek(team.id, lineups.get(team.id) || [], statsByPlayer, rules, preset);
+    return {
+      team_id: team.id,
+      league_id: leagueId,
+      season,
+      week,
+      points: score.points,
+      breakdown: score.breakdown,
+      updated_at: updatedAt,
+    };
+  });
+
+  if (rows.length) {
+    const { error: scoresError } = await supabase
+      .from("scores")
+      .upsert(rows, { onConflict: "team_id,league_id,week,season" });
+    if (scoresError) throw scoresError;
+  }
+
+  return {
+    leagueId,
+    season,
+    week,
+    teams: rows.length,
+    lockedAt: lock.locked_at,
+  };
+};
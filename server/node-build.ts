@@ -1,5 +1,5 @@
 import path from "path";
-import { createServer } from "./index";
+import { createServer, startBackgroundJobs } from "./index";
 import * as express from "express";
 
 const app = createServer();
@@ -28,13 +28,18 @@ app.listen(port, () => {
   console.log(`🔧 API: http://localhost:${port}/api`);
 });
 
+// Draft clock and other jobs run alongside the API in this process
+const stopBackgroundJobs = startBackgroundJobs();
+
 // Graceful shutdown
 process.on("SIGTERM", () => {
   console.log("🛑 Received SIGTERM, shutting down gracefully");
+  stopBackgroundJobs();
   process.exit(0);
 });
 
 process.on("SIGINT", () => {
   console.log("🛑 Received SIGINT, shutting down gracefully");
+  stopBackgroundJobs();
   process.exit(0);
 });
@@ -0,0 +1,103 @@
+import { RequestHandler } from "express";
+import { getRequestUser, isAdmin } from "../lib/auth";
+import { getStatProvider, importLineupLocks, ingestWeek } from "../lib/statIngestion";
+import { scoreLeagueWeek } from "../lib/teamScoring";
+
+// A positive whole number from a JSON body, or null
+const parsePositiveInt = (value: unknown): number | null => {
+  const number = typeof value === "string" ? Number(value) : value;
+  return Number.isInteger(number) && (number as number) > 0 ? (number as number) : null;
+};
+
+// POST /api/admin/ingest { season, week }
+// Import players and one week of stat lines from the configured provider
+export const handleStatIngest: RequestHandler = async (req, res) => {
+  const season = parsePositiveInt(req.body?.season);
+  const week = parsePositiveInt(req.body?.week);
+  if (!season || !week) {
+    return res.status(400).json({ error: "season and week must be positive whole numbers" });
+  }
+
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    if (!(await isAdmin(user.id))) {
+      return res.status(403).json({ error: "Only admins can import stats" });
+    }
+
+    const result = await ingestWeek(getStatProvider(), season, week);
+    console.log(
+      `📥 Imported ${result.statLines} stat lines for ${season} week ${week} from ${result.provider}`
+    );
+    res.status(200).json(result);
+  } catch (error: any) {
+    console.error("Stat ingestion failed:", error);
+    res.status(500).json({ error: error.message || "Failed to import stats" });
+  }
+};
+
+// POST /api/admin/lineup-locks { season }
+// Import a season's lineup lock times from the configured provider
+export const handleLineupLockImport: RequestHandler = async (req, res) => {
+  const season = parsePositiveInt(req.body?.season);
+  if (!season) {
+    return res.status(400).json({ error: "season must be a positive whole number" });
+  }
+
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    if (!(await isAdmin(user.id))) {
+      return res.status(403).json({ error: "Only admins can import lineup locks" });
+    }
+
+    const weeks = await importLineupLocks(getStatProvider(), season);
+    console.log(`🔒 Imported lineup locks for ${weeks} weeks of ${season}`);
+    res.status(200).json({ season, weeks });
+  } catch (error: any) {
+    console.error("Lineup lock import failed:", error);
+    res.status(500).json({ error: error.message || "Failed to import lineup locks" });
+  }
+};
+
+// POST /api/admin/score { leagueId, season, week }
+// Score every team in a league for a week from the imported stat lines.
+// Rerun after stat corrections to refresh the scores.
+export const handleLeagueScoring: RequestHandler = async (req, res) => {
+  const leagueId = typeof req.body?.leagueId === "string" ? req.body.leagueId : null;
+  const season = parsePositiveInt(req.body?.season);
+  const week = parsePositiveInt(req.body?.week);
+  if (!leagueId) {
+    return res.status(400).json({ error: "leagueId is required" });
+  }
+  if (!season || !week) {
+    return res.status(400).json({ error: "season and week must be positive whole numbers" });
+  }
+
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    if (!(await isAdmin(user.id))) {
+      return res.status(403).json({ error: "Only admins can score leagues" });
+    }
+
+    const result = await scoreLeagueWeek(leagueId, season, week);
+    console.log(`🧮 Scored ${result.teams} teams in league ${leagueId} for ${season} week ${week}`);
+    res.status(200).json(result);
+  } catch (error: any) {
+    if (error.message === "League not found") {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message?.endsWith("haven't locked yet")) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error("League scoring failed:", error);
+    res.status(500).json({ error: error.message || "Failed to score league" });
+  }
+};
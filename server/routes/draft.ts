@@ -0,0 +1,115 @@
+import { RequestHandler, Response } from "express";
+import { getSupabaseAdmin } from "../lib/supabase";
+import { getRequestUser } from "../lib/auth";
+// Relative rather than @shared: the Vite config loads the server before the
+// alias exists, so only type imports can go through it
+import { DRAFT_FORMATS, buildPickSequence, toDraftFormat } from "../../shared/draftOrder";
+import type { DraftFormat } from "@shared/draftOrder";
+
+// Exceptions the draft functions raise on purpose (bad input, wrong user)
+// go back to the client as 400s with their message
+const sendRpcError = (res: Response, error: { code?: string; message: string }) => {
+  if (error.code === "P0001") {
+    return res.status(400).json({ error: error.message });
+  }
+  throw error;
+};
+
+// POST /api/leagues/:leagueId/draft/start
+// Start a league's draft. The pick sequence comes from shared/draftOrder.ts,
+// the same code the client renders the board with; start_draft checks the
+// commissioner and everything else.
+export const handleStartDraft: RequestHandler = async (req, res) => {
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const { leagueId } = req.params;
+    const supabase = getSupabaseAdmin();
+
+    const [leagueRes, teamsRes] = await Promise.all([
+      supabase.from("leagues").select("settings").eq("id", leagueId).maybeSingle(),
+      supabase.from("teams").select("id", { count: "exact", head: true }).eq("league_id", leagueId),
+    ]);
+
+    if (leagueRes.error) throw leagueRes.error;
+    if (teamsRes.error) throw teamsRes.error;
+
+    if (!leagueRes.data) {
+      return res.status(404).json({ error: "League not found" });
+    }
+
+    const settings = leagueRes.data.settings ?? {};
+    const pickSequence = buildPickSequence(
+      teamsRes.count ?? 0,
+      Number(settings.draft_rounds ?? 5),
+      toDraftFormat(settings.draft_format)
+    );
+
+    const { data, error } = await supabase.rpc("start_draft", {
+      p_league_id: leagueId,
+      p_user_id: user.id,
+      p_pick_sequence: pickSequence,
+    });
+    if (error) return sendRpcError(res, error);
+
+    res.status(200).json(data);
+  } catch (error: any) {
+    console.error("Starting draft failed:", error);
+    res.status(500).json({ error: error.message || "Failed to start draft" });
+  }
+};
+
+// POST /api/leagues/:leagueId/mock-drafts
+// { userTeamName, numBots, totalRounds, draftFormat, botStrategies,
+//   userDraftSlot, botPickDelay, mirrorLeagueSettings, lineup, lobby }
+// Create a mock draft with its pick sequence built from shared/draftOrder.ts
+export const handleCreateMockDraft: RequestHandler = async (req, res) => {
+  const body = req.body ?? {};
+  const numBots = Number(body.numBots);
+  const totalRounds = Number(body.totalRounds);
+
+  if (typeof body.userTeamName !== "string" || !body.userTeamName.trim()) {
+    return res.status(400).json({ error: "userTeamName is required" });
+  }
+  if (!Number.isInteger(numBots) || numBots < 1) {
+    return res.status(400).json({ error: "numBots must be a positive whole number" });
+  }
+  if (!Number.isInteger(totalRounds) || totalRounds < 1) {
+    return res.status(400).json({ error: "totalRounds must be a positive whole number" });
+  }
+  if (!DRAFT_FORMATS.includes(body.draftFormat as DraftFormat)) {
+    return res.status(400).json({ error: `Unknown draft format: ${body.draftFormat}` });
+  }
+
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const { data, error } = await getSupabaseAdmin().rpc("create_league_mock_draft", {
+      p_league_id: req.params.leagueId,
+      p_user_id: user.id,
+      p_pick_sequence: buildPickSequence(numBots + 1, totalRounds, body.draftFormat),
+      p_user_team_name: body.userTeamName,
+      p_num_bots: numBots,
+      p_total_rounds: totalRounds,
+      p_draft_format: body.draftFormat,
+      p_bot_strategies: body.botStrategies ?? null,
+      p_user_draft_slot: body.userDraftSlot ?? null,
+      p_bot_pick_delay: body.botPickDelay ?? 1500,
+      p_mirror_league_settings: !!body.mirrorLeagueSettings,
+      p_lineup: body.lineup ?? null,
+      p_lobby: !!body.lobby,
+    });
+    if (error) return sendRpcError(res, error);
+
+    res.status(200).json(data);
+  } catch (error: any) {
+    console.error("Creating mock draft failed:", error);
+    res.status(500).json({ error: error.message || "Failed to create mock draft" });
+  }
+};
@@ -0,0 +1,221 @@
+import { RequestHandler, Response } from "express";
+import type { DraftExportFormat, DraftRecap, DraftRecapPick } from "@shared/api";
+import { getSupabaseAdmin } from "../lib/supabase";
+import { getRequestUser, isLeagueMember } from "../lib/auth";
+import { getExportFilename, toCsv, toHtml } from "../lib/draftRecap";
+
+interface PlayerRow {
+  first_name: string;
+  last_name: string;
+  position: string | null;
+  team: string | null;
+}
+
+// Rows as selected below, with their embedded teams and players
+interface DraftPickRow {
+  pick_number: number;
+  round: number;
+  teams: { name: string } | null;
+  players: PlayerRow | null;
+}
+
+interface MockDraftPickRow {
+  pick_number: number;
+  round: number;
+  mock_draft_teams: { name: string } | null;
+  players: PlayerRow | null;
+}
+
+interface MockDraftRow {
+  id: string;
+  league_id: string;
+  status: string;
+  draft_order: string[] | null;
+  completed_at: string | null;
+  leagues: { name: string } | null;
+}
+
+const EXPORT_FORMATS: DraftExportFormat[] = ["csv", "json", "html"];
+
+const CONTENT_TYPES: Record<DraftExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  html: "text/html; charset=utf-8",
+};
+
+const toRecapPick = (
+  pick: { pick_number: number; round: number },
+  teamName: string,
+  player: PlayerRow | null
+): DraftRecapPick => ({
+  pickNumber: pick.pick_number,
+  round: pick.round,
+  teamName,
+  playerName: player ? `${player.first_name} ${player.last_name}` : "Unknown",
+  position: player?.position ?? null,
+  nflTeam: player?.team ?? null,
+});
+
+// Send a recap in the requested format; CSV and JSON download as files,
+// HTML opens in the browser ready to print
+const sendRecap = (res: Response, recap: DraftRecap, format: DraftExportFormat) => {
+  res.setHeader("Content-Type", CONTENT_TYPES[format]);
+
+  if (format === "html") {
+    res.status(200).send(toHtml(recap));
+    return;
+  }
+
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="${getExportFilename(recap, format)}"`
+  );
+  res.status(200).send(format === "csv" ? toCsv(recap) : JSON.stringify(recap, null, 2));
+};
+
+const parseFormat = (value: unknown): DraftExportFormat | null =>
+  EXPORT_FORMATS.includes(value as DraftExportFormat)
+    ? (value as DraftExportFormat)
+    : null;
+
+// GET /api/leagues/:leagueId/draft/export?format=csv|json|html
+// Results of a league's completed draft, for league members
+export const handleLeagueDraftExport: RequestHandler = async (req, res) => {
+  const format = parseFormat(req.query.format ?? "csv");
+  if (!format) {
+    return res.status(400).json({ error: "format must be csv, json or html" });
+  }
+
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const { leagueId } = req.params;
+    if (!(await isLeagueMember(leagueId, user.id))) {
+      return res.status(403).json({ error: "You are not a member of this league" });
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    const [leagueRes, draftRes] = await Promise.all([
+      supabase.from("leagues").select("name").eq("id", leagueId).maybeSingle(),
+      supabase
+        .from("drafts")
+        .select("id, completed_at")
+        .eq("league_id", leagueId)
+        .eq("status", "completed")
+        .order("completed_at", { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+    ]);
+
+    if (leagueRes.error) throw leagueRes.error;
+    if (draftRes.error) throw draftRes.error;
+
+    if (!leagueRes.data) {
+      return res.status(404).json({ error: "League not found" });
+    }
+    if (!draftRes.data) {
+      return res.status(409).json({ error: "This league's draft isn't complete yet" });
+    }
+
+    const picksRes = await supabase
+      .from("draft_picks")
+      .select("pick_number, round, teams(name), players(first_name, last_name, position, team)")
+      .eq("draft_id", draftRes.data.id)
+      .order("pick_number")
+      .overrideTypes<DraftPickRow[], { merge: false }>();
+
+    if (picksRes.error) throw picksRes.error;
+
+    const picks = (picksRes.data || []).map((pick) =>
+      toRecapPick(pick, pick.teams?.name ?? "Unknown", pick.players)
+    );
+
+    sendRecap(
+      res,
+      {
+        title: `${leagueRes.data.name} Draft`,
+        leagueName: leagueRes.data.name,
+        completedAt: draftRes.data.completed_at,
+        // Round 1 of this draft gives its order; draft_state is replaced
+        // when the next season's draft starts
+        teams: picks.filter((pick) => pick.round === 1).map((pick) => pick.teamName),
+        picks,
+      },
+      format
+    );
+  } catch (error) {
+    console.error("League draft export failed:", error);
+    res.status(500).json({ error: "Failed to export draft" });
+  }
+};
+
+// GET /api/mock-drafts/:mockDraftId/export?format=csv|json|html
+// Results of a completed mock draft, for members of its league
+export const handleMockDraftExport: RequestHandler = async (req, res) => {
+  const format = parseFormat(req.query.format ?? "csv");
+  if (!format) {
+    return res.status(400).json({ error: "format must be csv, json or html" });
+  }
+
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    const { data: mockDraft, error: mockDraftError } = await supabase
+      .from("mock_drafts")
+      .select("id, league_id, status, draft_order, completed_at, leagues(name)")
+      .eq("id", req.params.mockDraftId)
+      .maybeSingle()
+      .overrideTypes<MockDraftRow, { merge: false }>();
+
+    if (mockDraftError) throw mockDraftError;
+
+    if (!mockDraft) {
+      return res.status(404).json({ error: "Mock draft not found" });
+    }
+    if (!(await isLeagueMember(mockDraft.league_id, user.id))) {
+      return res.status(403).json({ error: "You are not a member of this league" });
+    }
+    if (mockDraft.status !== "completed") {
+      return res.status(409).json({ error: "This mock draft isn't complete yet" });
+    }
+
+    const { data: picks, error: picksError } = await supabase
+      .from("mock_draft_picks")
+      .select(
+        "pick_number, round, mock_draft_teams(name), players(first_name, last_name, position, team)"
+      )
+      .eq("mock_draft_id", mockDraft.id)
+      .order("pick_number")
+      .overrideTypes<MockDraftPickRow[], { merge: false }>();
+
+    if (picksError) throw picksError;
+
+    const leagueName = mockDraft.leagues?.name ?? "League";
+
+    sendRecap(
+      res,
+      {
+        title: `${leagueName} Mock Draft`,
+        leagueName,
+        completedAt: mockDraft.completed_at,
+        teams: mockDraft.draft_order || [],
+        picks: (picks || []).map((pick) =>
+          toRecapPick(pick, pick.mock_draft_teams?.name ?? "Unknown", pick.players)
+        ),
+      },
+      format
+    );
+  } catch (error) {
+    console.error("Mock draft export failed:", error);
+    res.status(500).json({ error: "Failed to export mock draft" });
+  }
+};
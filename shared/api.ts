@@ -10,3 +10,50 @@
 export interface DemoResponse {
   message: string;
 }
+
+/**
+ * Formats the draft export endpoints can return
+ * GET /api/leagues/:leagueId/draft/export?format=...
+ * GET /api/mock-drafts/:mockDraftId/export?format=...
+ */
+export type DraftExportFormat = "csv" | "json" | "html";
+
+export interface DraftRecapPick {
+  pickNumber: number;
+  round: number;
+  teamName: string;
+  playerName: string;
+  position: string | null;
+  nflTeam: string | null;
+}
+
+/**
+ * JSON export of a completed draft or mock draft
+ */
+export interface DraftRecap {
+  title: string; // e.g. "Sunday League Draft" or "Sunday League Mock Draft"
+  leagueName: string;
+  completedAt: string | null;
+  teams: string[]; // Team names in draft order
+  picks: DraftRecapPick[];
+}
+
+/**
+ * One starter's contribution to a team's weekly score
+ */
+export interface StarterScore {
+  playerId: string;
+  playerName: string;
+  position: string | null;
+  slot: string; // Lineup slot they started in
+  points: number;
+  stats: Record<string, { value: number; points: number }>; // Per-stat breakdown
+}
+
+/**
+ * scores.breakdown for a team's week, written by the weekly scoring job
+ */
+export interface TeamScoreBreakdown {
+  scoring: string; // Scoring preset used, e.g. "ppr"
+  starters: StarterScore[];
+}
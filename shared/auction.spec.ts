@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { canBid, getMaxBid, getMinNextBid, getOpenRosterSpots } from "./auction";
+
+const team = (spent: number, playersWon: number) => ({
+  budget: 200,
+  spent,
+  rosterSize: 15,
+  playersWon,
+});
+
+describe("getMaxBid", () => {
+  it("holds back the minimum bid for every other open spot", () => {
+    // 15 open spots: keep $14 back for the other 14
+    expect(getMaxBid(team(0, 0))).toBe(186);
+  });
+
+  it("lets the last open spot use the whole remaining budget", () => {
+    expect(getMaxBid(team(180, 14))).toBe(20);
+  });
+
+  it("is zero once the roster is full", () => {
+    expect(getMaxBid(team(190, 15))).toBe(0);
+    expect(getOpenRosterSpots(team(190, 15))).toBe(0);
+  });
+
+  it("respects a larger minimum bid", () => {
+    expect(getMaxBid(team(100, 10), 2)).toBe(92);
+  });
+
+  it("never goes negative", () => {
+    expect(getMaxBid(team(199, 10))).toBe(0);
+  });
+});
+
+describe("getMinNextBid", () => {
+  it("opens at the minimum bid", () => {
+    expect(getMinNextBid(null)).toBe(1);
+    expect(getMinNextBid(null, 5)).toBe(5);
+  });
+
+  it("must beat the current bid by a dollar", () => {
+    expect(getMinNextBid(12)).toBe(13);
+  });
+});
+
+describe("canBid", () => {
+  it("accepts whole-dollar bids between the next bid and the max bid", () => {
+    expect(canBid(team(0, 0), 25, 24)).toBe(true);
+    expect(canBid(team(0, 0), 24, 24)).toBe(false);
+    expect(canBid(team(0, 0), 187, 24)).toBe(false);
+    expect(canBid(team(0, 0), 25.5, 24)).toBe(false);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Auction draft budget rules
+ * Every team must be able to fill its roster, so a bid may never leave a team
+ * with less than the minimum bid for each roster spot still open after it.
+ * The auction RPCs enforce the same rule in the database.
+ */
+
+export interface AuctionBudget {
+  budget: number; // Starting budget per team
+  spent: number; // Total of winning bids so far
+  rosterSize: number; // Players each team must end with
+  playersWon: number;
+}
+
+export const DEFAULT_AUCTION_BUDGET = 200;
+export const DEFAULT_AUCTION_MIN_BID = 1;
+export const DEFAULT_AUCTION_BID_TIME = 30; // Seconds a lot stays open after each bid
+
+/**
+ * Roster spots a team still has to fill
+ */
+export function getOpenRosterSpots(team: AuctionBudget): number {
+  return Math.max(team.rosterSize - team.playersWon, 0);
+}
+
+/**
+ * Highest bid a team can make without leaving other open spots unaffordable
+ * Returns 0 when the team has no open spots (it can't bid at all)
+ */
+export function getMaxBid(team: AuctionBudget, minBid = DEFAULT_AUCTION_MIN_BID): number {
+  const openSpots = getOpenRosterSpots(team);
+  if (openSpots === 0) return 0;
+
+  const remaining = team.budget - team.spent;
+  return Math.max(remaining - (openSpots - 1) * minBid, 0);
+}
+
+/**
+ * Smallest bid that beats the current one
+ */
+export function getMinNextBid(currentBid: number | null, minBid = DEFAULT_AUCTION_MIN_BID): number {
+  return currentBid === null ? minBid : currentBid + 1;
+}
+
+/**
+ * Whether a team can place a bid of this amount
+ */
+export function canBid(
+  team: AuctionBudget,
+  amount: number,
+  currentBid: number | null,
+  minBid = DEFAULT_AUCTION_MIN_BID
+): boolean {
+  return (
+    Number.isInteger(amount) &&
+    amount >= getMinNextBid(currentBid, minBid) &&
+    amount <= getMaxBid(team, minBid)
+  );
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import {
+  getExpectedPoints,
+  getLetterGrade,
+  getPositionBalance,
+  getReaches,
+  getSteals,
+  gradeTeams,
+  type GradedPick,
+} from "./draftGrades";
+
+const pick = (
+  pickNumber: number,
+  teamId: string,
+  position: string,
+  adp: number | null,
+  projectedPoints: number | null
+): GradedPick => ({
+  pickNumber,
+  teamId,
+  playerId: `p${pickNumber}`,
+  position,
+  adp,
+  projectedPoints,
+});
+
+// 2 teams, 2 rounds, snake: A, B, B, A
+const picks = [
+  pick(1, "A", "RB", 1, 300),
+  pick(2, "B", "WR", 6, 200),
+  pick(3, "B", "QB", 2, 290),
+  pick(4, "A", "K", null, 100),
+];
+const slotValues = [300, 290, 280, 270];
+
+describe("getLetterGrade", () => {
+  it("grades by percent over expected", () => {
+    expect(getLetterGrade(110, 100)).toBe("A+");
+    expect(getLetterGrade(100, 100)).toBe("B+");
+    expect(getLetterGrade(93, 100)).toBe("C+");
+    expect(getLetterGrade(50, 100)).toBe("F");
+  });
+
+  it("has no grade without projections", () => {
+    expect(getLetterGrade(0, 0)).toBeNull();
+  });
+});
+
+describe("getExpectedPoints", () => {
+  it("uses the Nth best projection for pick N", () => {
+    expect(getExpectedPoints(2, slotValues)).toBe(290);
+  });
+
+  it("uses the last value past the end of the pool", () => {
+    expect(getExpectedPoints(10, slotValues)).toBe(270);
+    expect(getExpectedPoints(1, [])).toBe(0);
+  });
+});
+
+describe("gradeTeams", () => {
+  it("sums projected and expected points per team", () => {
+    const [a, b] = gradeTeams(["A", "B"], picks, slotValues);
+
+    expect(a).toMatchObject({ projectedPoints: 400, expectedPoints: 570, valueOverSlot: -170 });
+    expect(b).toMatchObject({ projectedPoints: 490, expectedPoints: 570, valueOverSlot: -80 });
+    expect(a.grade).toBe("F");
+    expect(b.grade).toBe("C-");
+  });
+});
+
+describe("getSteals and getReaches", () => {
+  it("ranks picks by distance from ADP and skips picks without ADP", () => {
+    expect(getSteals(picks).map((p) => p.pickNumber)).toEqual([3]);
+    expect(getReaches(picks).map((p) => [p.pickNumber, p.adpDelta])).toEqual([[2, -4]]);
+  });
+});
+
+describe("getPositionBalance", () => {
+  it("lists lineup positions, then anything else drafted", () => {
+    const lineup = { QB: 1, RB: 2, FLEX: 1 };
+    expect(getPositionBalance(picks.filter((p) => p.teamId === "A"), lineup)).toEqual([
+      { position: "QB", drafted: 0, starters: 1 },
+      { position: "RB", drafted: 1, starters: 2 },
+      { position: "K", drafted: 1, starters: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Post-draft grades
+ * Grades a finished draft by comparing each pick's projected points with
+ * what a pick in that slot is expected to return, and flags the picks that
+ * went furthest from ADP. Used by the mock draft report.
+ */
+
+export interface GradedPick {
+  pickNumber: number; // 1-indexed overall pick
+  teamId: string;
+  playerId: string;
+  position: string;
+  adp: number | null;
+  projectedPoints: number | null;
+}
+
+export interface TeamGrade {
+  teamId: string;
+  grade: string | null; // Null when nothing was projected
+  projectedPoints: number;
+  expectedPoints: number;
+  valueOverSlot: number; // projectedPoints - expectedPoints
+}
+
+export interface PickValue extends GradedPick {
+  adpDelta: number; // Positive: went later than ADP (steal); negative: reach
+}
+
+export interface PositionBalance {
+  position: string;
+  drafted: number;
+  starters: number; // Lineup slots for the position, not counting FLEX
+}
+
+/**
+ * Percent over expected needed for each letter, best first
+ */
+const GRADE_THRESHOLDS: Array<[number, string]> = [
+  [10, "A+"],
+  [5, "A"],
+  [2, "A-"],
+  [0, "B+"],
+  [-2, "B"],
+  [-5, "B-"],
+  [-8, "C+"],
+  [-12, "C"],
+  [-16, "C-"],
+  [-20, "D"],
+];
+
+/**
+ * Letter grade for a team's projected points against what its slots were
+ * expected to return
+ */
+export function getLetterGrade(projected: number, expected: number): string | null {
+  if (expected <= 0) return null;
+
+  const percentOver = ((projected - expected) / expected) * 100;
+  const match = GRADE_THRESHOLDS.find(([minimum]) => percentOver >= minimum);
+  return match ? match[1] : "F";
+}
+
+/**
+ * Expected points for a 1-indexed pick slot
+ * slotValues is the player pool's projected points sorted high to low, so the
+ * Nth pick is expected to return the Nth best projection
+ */
+export function getExpectedPoints(pickNumber: number, slotValues: number[]): number {
+  if (slotValues.length === 0) return 0;
+  return slotValues[Math.min(pickNumber, slotValues.length) - 1];
+}
+
+/**
+ * Grade every team, in the order teams are given
+ */
+export function gradeTeams(
+  teamIds: string[],
+  picks: GradedPick[],
+  slotValues: number[]
+): TeamGrade[] {
+  return teamIds.map((teamId) => {
+    const teamPicks = picks.filter((pick) => pick.teamId === teamId);
+    const projectedPoints = teamPicks.reduce(
+      (total, pick) => total + (pick.projectedPoints ?? 0),
+      0
+    );
+    const expectedPoints = teamPicks.reduce(
+      (total, pick) => total + getExpectedPoints(pick.pickNumber, slotValues),
+      0
+    );
+
+    return {
+      teamId,
+      grade: getLetterGrade(projectedPoints, expectedPoints),
+      projectedPoints,
+      expectedPoints,
+      valueOverSlot: projectedPoints - expectedPoints,
+    };
+  });
+}
+
+/**
+ * How far each pick went from its ADP; picks without ADP are left out
+ */
+export function getPickValues(picks: GradedPick[]): PickValue[] {
+  return picks
+    .filter((pick): pick is GradedPick & { adp: number } => pick.adp !== null)
+    .map((pick) => ({ ...pick, adpDelta: pick.pickNumber - pick.adp }));
+}
+
+/**
+ * Picks that went furthest after their ADP, biggest steal first
+ */
+export function getSteals(picks: GradedPick[], limit = 5): PickValue[] {
+  return getPickValues(picks)
+    .filter((pick) => pick.adpDelta > 0)
+    .sort((a, b) => b.adpDelta - a.adpDelta)
+    .slice(0, limit);
+}
+
+/**
+ * Picks taken furthest ahead of their ADP, biggest reach first
+ */
+export function getReaches(picks: GradedPick[], limit = 5): PickValue[] {
+  return getPickValues(picks)
+    .filter((pick) => pick.adpDelta < 0)
+    .sort((a, b) => a.adpDelta - b.adpDelta)
+    .slice(0, limit);
+}
+
+/**
+ * Players drafted at each lineup position against the starters it needs
+ * Positions outside the lineup (except FLEX) are listed after it
+ */
+export function getPositionBalance(
+  picks: GradedPick[],
+  lineup: Record<string, number>
+): PositionBalance[] {
+  const drafted = new Map<string, number>();
+  for (const pick of picks) {
+    const position = pick.position.toUpperCase();
+    drafted.set(position, (drafted.get(position) ?? 0) + 1);
+  }
+
+  const positions = Object.keys(lineup).filter((position) => position !== "FLEX");
+  for (const position of drafted.keys()) {
+    if (!positions.includes(position)) positions.push(position);
+  }
+
+  return positions.map((position) => ({
+    position,
+    drafted: drafted.get(position) ?? 0,
+    starters: lineup[position] ?? 0,
+  }));
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildPickSequence,
+  getRoundOrder,
+  getTeamIndexForPick,
+  isRoundReversed,
+  toDraftFormat,
+} from "./draftOrder";
+
+describe("isRoundReversed", () => {
+  it("reverses even rounds in a snake draft", () => {
+    expect([1, 2, 3, 4, 5].map((r) => isRoundReversed(r, "snake"))).toEqual([
+      false,
+      true,
+      false,
+      true,
+      false,
+    ]);
+  });
+
+  it("never reverses a linear draft", () => {
+    expect([1, 2, 3, 4].map((r) => isRoundReversed(r, "linear"))).toEqual([
+      false,
+      false,
+      false,
+      false,
+    ]);
+  });
+
+  it("reverses rounds 2 and 3 in a third-round reversal draft", () => {
+    expect(
+      [1, 2, 3, 4, 5, 6].map((r) => isRoundReversed(r, "third_round_reversal"))
+    ).toEqual([false, true, true, false, true, false]);
+  });
+});
+
+describe("buildPickSequence", () => {
+  it("builds a snake sequence", () => {
+    expect(buildPickSequence(3, 3, "snake")).toEqual([
+      0, 1, 2, 2, 1, 0, 0, 1, 2,
+    ]);
+  });
+
+  it("builds a linear sequence", () => {
+    expect(buildPickSequence(3, 2, "linear")).toEqual([0, 1, 2, 0, 1, 2]);
+  });
+
+  it("builds a third-round reversal sequence", () => {
+    expect(buildPickSequence(2, 4, "third_round_reversal")).toEqual([
+      0, 1, 1, 0, 1, 0, 0, 1,
+    ]);
+  });
+
+  it("gives every team exactly one pick per round", () => {
+    const sequence = buildPickSequence(10, 15, "third_round_reversal");
+    for (let round = 0; round < 15; round++) {
+      const picks = sequence.slice(round * 10, round * 10 + 10);
+      expect([...picks].sort((a, b) => a - b)).toEqual(getRoundOrder(10, 1, "linear"));
+    }
+  });
+});
+
+describe("getTeamIndexForPick", () => {
+  it("matches the full sequence", () => {
+    const sequence = buildPickSequence(4, 6, "third_round_reversal");
+    sequence.forEach((teamIndex, pickIndex) => {
+      expect(getTeamIndexForPick(pickIndex, 4, "third_round_reversal")).toBe(teamIndex);
+    });
+  });
+});
+
+describe("toDraftFormat", () => {
+  it("falls back to snake for unknown values", () => {
+    expect(toDraftFormat("linear")).toBe("linear");
+    expect(toDraftFormat("auction")).toBe("snake");
+    expect(toDraftFormat(undefined)).toBe("snake");
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Draft pick order
+ * Which team picks at each slot. The client renders the board from it, and
+ * the server's draft routes (server/routes/draft.ts) build the sequence the
+ * start_draft / create_league_mock_draft RPCs store and look up the team on
+ * the clock from, so there is one copy of the rules.
+ */
+
+export type DraftFormat = "snake" | "linear" | "third_round_reversal";
+
+export const DRAFT_FORMATS: DraftFormat[] = [
+  "snake",
+  "linear",
+  "third_round_reversal",
+];
+
+export const DEFAULT_DRAFT_FORMAT: DraftFormat = "snake";
+
+export const DRAFT_FORMAT_LABELS: Record<DraftFormat, string> = {
+  snake: "Snake",
+  linear: "Linear",
+  third_round_reversal: "Third-Round Reversal",
+};
+
+export const DRAFT_FORMAT_DESCRIPTIONS: Record<DraftFormat, string> = {
+  snake: "Order reverses every round",
+  linear: "Same order every round",
+  third_round_reversal:
+    "Snake, but rounds 2 and 3 both run in reverse so the last pick of round 1 also picks first in round 3",
+};
+
+/**
+ * Whether a round (1-indexed) runs in reverse draft order
+ */
+export function isRoundReversed(round: number, format: DraftFormat): boolean {
+  switch (format) {
+    case "linear":
+      return false;
+    case "third_round_reversal":
+      // 1 forward, 2 reverse, 3 reverse, then alternate: 4 forward, 5 reverse...
+      return round === 2 || (round >= 3 && round % 2 === 1);
+    case "snake":
+    default:
+      return round % 2 === 0;
+  }
+}
+
+/**
+ * Team indexes (0-based, into the draft order) picking in one round
+ */
+export function getRoundOrder(
+  teamCount: number,
+  round: number,
+  format: DraftFormat
+): number[] {
+  const order = Array.from({ length: teamCount }, (_, i) => i);
+  return isRoundReversed(round, format) ? order.reverse() : order;
+}
+
+/**
+ * Team index (0-based, into the draft order) for every pick in the draft,
+ * in pick order. Its length is teamCount * totalRounds.
+ */
+export function buildPickSequence(
+  teamCount: number,
+  totalRounds: number,
+  format: DraftFormat
+): number[] {
+  const sequence: number[] = [];
+  for (let round = 1; round <= totalRounds; round++) {
+    sequence.push(...getRoundOrder(teamCount, round, format));
+  }
+  return sequence;
+}
+
+/**
+ * Team index for a 0-indexed overall pick
+ */
+export function getTeamIndexForPick(
+  pickIndex: number,
+  teamCount: number,
+  format: DraftFormat
+): number {
+  const round = Math.floor(pickIndex / teamCount) + 1;
+  return getRoundOrder(teamCount, round, format)[pickIndex % teamCount];
+}
+
+/**
+ * Parse a stored format, falling back to snake for unknown values
+ */
+export function toDraftFormat(value: unknown): DraftFormat {
+  return DRAFT_FORMATS.includes(value as DraftFormat)
+    ? (value as DraftFormat)
+    : DEFAULT_DRAFT_FORMAT;
+}
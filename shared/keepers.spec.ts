@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { getKeeperRound, isKeeperDeadlinePassed } from "./keepers";
+
+describe("getKeeperRound", () => {
+  it("moves the keeper up by the penalty", () => {
+    expect(getKeeperRound(5, 1)).toBe(4);
+    expect(getKeeperRound(8, 3)).toBe(5);
+  });
+
+  it("never costs a pick before round 1", () => {
+    expect(getKeeperRound(1, 1)).toBe(1);
+    expect(getKeeperRound(2, 4)).toBe(1);
+  });
+});
+
+describe("isKeeperDeadlinePassed", () => {
+  const now = new Date("2026-08-15T12:00:00Z");
+
+  it("closes declarations once the deadline is behind us", () => {
+    expect(isKeeperDeadlinePassed("2026-08-15T11:59:00Z", now)).toBe(true);
+    expect(isKeeperDeadlinePassed("2026-08-16T00:00:00Z", now)).toBe(false);
+  });
+
+  it("stays open without a deadline", () => {
+    expect(isKeeperDeadlinePassed(null, now)).toBe(false);
+  });
+});
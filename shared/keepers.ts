@@ -0,0 +1,27 @@
+/**
+ * Keeper rules
+ * A keeper costs its team the pick `penalty` rounds before the round the
+ * player was drafted in, but never earlier than round 1. The server applies
+ * the same rule in declare_keeper; this copy lets the UI show the cost first.
+ */
+
+export const DEFAULT_MAX_KEEPERS = 1;
+export const DEFAULT_KEEPER_ROUND_PENALTY = 1;
+
+/**
+ * Round whose pick a team forfeits to keep a player drafted in `draftedRound`
+ */
+export function getKeeperRound(draftedRound: number, penalty: number): number {
+  return Math.max(draftedRound - penalty, 1);
+}
+
+/**
+ * Whether declarations have closed; a missing deadline never closes them
+ */
+export function isKeeperDeadlinePassed(
+  deadline: string | null | undefined,
+  now: Date = new Date()
+): boolean {
+  if (!deadline) return false;
+  return now.getTime() > new Date(deadline).getTime();
+}
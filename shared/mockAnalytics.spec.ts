@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import {
+  getAvailabilityAtMyPick,
+  getDraftFrequency,
+  getMyPositionsByRound,
+  getRecentDrafts,
+  type MockHistoryDraft,
+  type MockHistoryPick,
+} from "./mockAnalytics";
+
+const pick = (
+  pickNumber: number,
+  teamId: string,
+  playerId: string,
+  position: string
+): MockHistoryPick => ({
+  pickNumber,
+  round: Math.ceil(pickNumber / 2),
+  teamId,
+  playerId,
+  position,
+});
+
+// Two-team snake drafts; "me" picks 2nd in the first and 1st in the second
+const drafts: MockHistoryDraft[] = [
+  {
+    id: "d1",
+    createdAt: "2026-09-01T00:00:00Z",
+    myTeamId: "me",
+    picks: [
+      pick(1, "bot", "cmc", "RB"),
+      pick(2, "me", "jefferson", "WR"),
+      pick(3, "me", "kelce", "TE"),
+      pick(4, "bot", "allen", "QB"),
+    ],
+  },
+  {
+    id: "d2",
+    createdAt: "2026-09-02T00:00:00Z",
+    myTeamId: "me",
+    picks: [
+      pick(1, "me", "cmc", "RB"),
+      pick(2, "bot", "jefferson", "WR"),
+      pick(3, "bot", "allen", "QB"),
+      pick(4, "me", "kelce", "TE"),
+    ],
+  },
+];
+
+describe("getRecentDrafts", () => {
+  it("keeps the newest drafts first", () => {
+    expect(getRecentDrafts(drafts, 1).map((d) => d.id)).toEqual(["d2"]);
+    expect(getRecentDrafts(drafts, null).map((d) => d.id)).toEqual(["d2", "d1"]);
+  });
+});
+
+describe("getDraftFrequency", () => {
+  it("counts the user's picks and averages where they were made", () => {
+    expect(getDraftFrequency(drafts)).toEqual([
+      { playerId: "kelce", timesDrafted: 2, draftRate: 1, averagePick: 3.5 },
+      { playerId: "cmc", timesDrafted: 1, draftRate: 0.5, averagePick: 1 },
+      { playerId: "jefferson", timesDrafted: 1, draftRate: 0.5, averagePick: 2 },
+    ]);
+  });
+});
+
+describe("getAvailabilityAtMyPick", () => {
+  it("checks who was still on the board at the user's pick in a round", () => {
+    const availability = getAvailabilityAtMyPick(drafts, 1);
+
+    expect(availability.map((a) => a.playerId)).toEqual(["cmc", "jefferson", "kelce", "allen"]);
+    expect(availability.find((a) => a.playerId === "cmc")?.availableRate).toBe(0.5);
+    expect(availability.find((a) => a.playerId === "jefferson")?.availableRate).toBe(1);
+  });
+
+  it("counts a player as available in drafts where nobody took them", () => {
+    const availability = getAvailabilityAtMyPick(
+      [
+        {
+          id: "a",
+          createdAt: "2026-09-01T00:00:00Z",
+          myTeamId: "me",
+          picks: [pick(1, "bot", "x", "RB"), pick(2, "me", "y", "WR")],
+        },
+        {
+          id: "b",
+          createdAt: "2026-09-02T00:00:00Z",
+          myTeamId: "me",
+          picks: [pick(1, "bot", "z", "QB"), pick(2, "me", "y", "WR")],
+        },
+      ],
+      1
+    );
+
+    expect(availability.find((a) => a.playerId === "x")?.availableRate).toBe(0.5);
+    expect(availability.find((a) => a.playerId === "z")?.availableRate).toBe(0.5);
+    expect(availability.find((a) => a.playerId === "y")?.availableRate).toBe(1);
+  });
+
+  it("is empty when the user never picked in the round", () => {
+    expect(getAvailabilityAtMyPick(drafts, 5)).toEqual([]);
+  });
+});
+
+describe("getMyPositionsByRound", () => {
+  it("gives the share of each position per round", () => {
+    expect(getMyPositionsByRound(drafts)).toEqual({
+      1: { WR: 0.5, RB: 0.5 },
+      2: { TE: 1 },
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Mock draft history analytics
+ * Aggregates a user's completed mock drafts: who they take most often, where
+ * they take them, which players tend to still be there at their pick, and
+ * how their positional approach changes round by round.
+ */
+
+export interface MockHistoryPick {
+  pickNumber: number; // 1-indexed overall pick
+  round: number;
+  teamId: string;
+  playerId: string;
+  position: string;
+}
+
+export interface MockHistoryDraft {
+  id: string;
+  createdAt: string;
+  myTeamId: string;
+  picks: MockHistoryPick[];
+}
+
+export interface PlayerDraftFrequency {
+  playerId: string;
+  timesDrafted: number;
+  draftRate: number; // Share of drafts (0-1) the user took this player in
+  averagePick: number; // Average overall pick the user took them at
+}
+
+export interface PlayerAvailability {
+  playerId: string;
+  averagePick: number; // Average overall pick across every team, when drafted
+  availableRate: number; // Share of drafts (0-1) still on the board at the user's pick
+}
+
+/**
+ * The newest `limit` drafts, newest first; every draft when limit is null
+ */
+export function getRecentDrafts(
+  drafts: MockHistoryDraft[],
+  limit: number | null
+): MockHistoryDraft[] {
+  const sorted = [...drafts].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return limit === null ? sorted : sorted.slice(0, limit);
+}
+
+/**
+ * Players the user drafts most often, most frequent first; ties go to the
+ * player taken earlier on average
+ */
+export function getDraftFrequency(drafts: MockHistoryDraft[]): PlayerDraftFrequency[] {
+  const picksByPlayer = new Map<string, number[]>();
+  for (const draft of drafts) {
+    for (const pick of draft.picks) {
+      if (pick.teamId !== draft.myTeamId) continue;
+      const picks = picksByPlayer.get(pick.playerId) ?? [];
+      picks.push(pick.pickNumber);
+      picksByPlayer.set(pick.playerId, picks);
+    }
+  }
+
+  return [...picksByPlayer.entries()]
+    .map(([playerId, picks]) => ({
+      playerId,
+      timesDrafted: picks.length,
+      draftRate: picks.length / drafts.length,
+      averagePick: average(picks),
+    }))
+    .sort((a, b) => b.timesDrafted - a.timesDrafted || a.averagePick - b.averagePick);
+}
+
+/**
+ * How often each player was still available when the user picked in a round
+ * (1-indexed), earliest average pick first. Drafts where the user had no pick
+ * in that round are left out.
+ */
+export function getAvailabilityAtMyPick(
+  drafts: MockHistoryDraft[],
+  round: number
+): PlayerAvailability[] {
+  const positions = new Map<string, number[]>();
+  for (const draft of drafts) {
+    for (const pick of draft.picks) {
+      const picks = positions.get(pick.playerId) ?? [];
+      picks.push(pick.pickNumber);
+      positions.set(pick.playerId, picks);
+    }
+  }
+
+  // Only players someone drafted somewhere are worth listing, but in each
+  // draft every one of them not taken before the user's pick was on the
+  // board, including those nobody took in that draft
+  const available = new Map<string, number>();
+  let draftsCounted = 0;
+
+  for (const draft of drafts) {
+    const myPick = draft.picks.find(
+      (pick) => pick.teamId === draft.myTeamId && pick.round === round
+    );
+    if (!myPick) continue;
+    draftsCounted += 1;
+
+    const takenBefore = new Set(
+      draft.picks
+        .filter((pick) => pick.pickNumber < myPick.pickNumber)
+        .map((pick) => pick.playerId)
+    );
+    for (const playerId of positions.keys()) {
+      if (!takenBefore.has(playerId)) {
+        available.set(playerId, (available.get(playerId) ?? 0) + 1);
+      }
+    }
+  }
+
+  if (draftsCounted === 0) return [];
+
+  return [...positions.entries()]
+    .map(([playerId, picks]) => ({
+      playerId,
+      averagePick: average(picks),
+      availableRate: (available.get(playerId) ?? 0) / draftsCounted,
+    }))
+    .sort((a, b) => a.averagePick - b.averagePick);
+}
+
+/**
+ * Share of the user's picks at each position, per round: result[round][position]
+ */
+export function getMyPositionsByRound(
+  drafts: MockHistoryDraft[]
+): Record<number, Record<string, number>> {
+  const counts: Record<number, Record<string, number>> = {};
+  const totals: Record<number, number> = {};
+
+  for (const draft of drafts) {
+    for (const pick of draft.picks) {
+      if (pick.teamId !== draft.myTeamId) continue;
+      const position = pick.position.toUpperCase();
+      counts[pick.round] = counts[pick.round] ?? {};
+      counts[pick.round][position] = (counts[pick.round][position] ?? 0) + 1;
+      totals[pick.round] = (totals[pick.round] ?? 0) + 1;
+    }
+  }
+
+  for (const round of Object.keys(counts)) {
+    for (const position of Object.keys(counts[Number(round)])) {
+      counts[Number(round)][position] /= totals[Number(round)];
+    }
+  }
+
+  return counts;
+}
+
+function average(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0) / values.length;
+}
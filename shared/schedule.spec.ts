@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import {
+  countDivisionGames,
+  generateSchedule,
+  getCurrentSeason,
+  getRoundRobinRounds,
+  type ScheduledMatchup,
+} from "./schedule";
+
+const teams = (count: number) => Array.from({ length: count }, (_, i) => `t${i + 1}`);
+
+const opponents = (matchups: ScheduledMatchup[], teamId: string) =>
+  matchups
+    .filter((m) => m.awayTeamId && (m.homeTeamId === teamId || m.awayTeamId === teamId))
+    .map((m) => (m.homeTeamId === teamId ? m.awayTeamId : m.homeTeamId));
+
+describe("getRoundRobinRounds", () => {
+  it("pairs every team with every other exactly once", () => {
+    const ids = teams(6);
+    const rounds = getRoundRobinRounds(ids);
+    const games = rounds.flat().map(([home, away]) => [home, away].sort().join("-"));
+
+    expect(rounds).toHaveLength(5);
+    expect(new Set(games).size).toBe(15);
+  });
+});
+
+describe("generateSchedule", () => {
+  it("has every team play once a week", () => {
+    const schedule = generateSchedule(teams(8), 7);
+
+    for (let week = 1; week <= 7; week++) {
+      const playing = schedule
+        .filter((m) => m.week === week)
+        .flatMap((m) => [m.homeTeamId, m.awayTeamId]);
+      expect(playing.sort()).toEqual(teams(8).sort());
+    }
+    expect(new Set(opponents(schedule, "t1")).size).toBe(7);
+  });
+
+  it("gives each team one bye per round robin with an odd team count", () => {
+    const schedule = generateSchedule(teams(5), 5);
+    const byes = schedule.filter((m) => m.awayTeamId === null);
+
+    expect(byes).toHaveLength(5);
+    expect(new Set(byes.map((m) => m.homeTeamId)).size).toBe(5);
+    expect(schedule.filter((m) => m.week === 1)).toHaveLength(3);
+  });
+
+  it("starts the round robin again with home and away swapped", () => {
+    const schedule = generateSchedule(teams(4), 6);
+    const first = schedule.filter((m) => m.week === 1);
+    const fourth = schedule.filter((m) => m.week === 4);
+
+    expect(fourth.map((m) => [m.awayTeamId, m.homeTeamId])).toEqual(
+      first.map((m) => [m.homeTeamId, m.awayTeamId])
+    );
+  });
+
+  it("plays division-heavy rounds first with division weighting", () => {
+    const ids = teams(8);
+    const divisions = Object.fromEntries(ids.map((id, i) => [id, i % 2 === 0 ? "East" : "West"]));
+    const divisionGames = (schedule: ScheduledMatchup[]) =>
+      schedule.filter(
+        (m) => m.awayTeamId && divisions[m.homeTeamId] === divisions[m.awayTeamId]
+      ).length;
+
+    const plain = generateSchedule(ids, 3, { divisions });
+    const weighted = generateSchedule(ids, 3, { divisions, weightDivisions: true });
+
+    expect(divisionGames(weighted)).toBeGreaterThan(divisionGames(plain));
+  });
+
+  it("rejects too few teams or weeks", () => {
+    expect(() => generateSchedule(["t1"], 14)).toThrow("at least two teams");
+    expect(() => generateSchedule(teams(4), 0)).toThrow("at least one week");
+  });
+});
+
+describe("countDivisionGames", () => {
+  it("ignores byes and teams without a division", () => {
+    expect(
+      countDivisionGames(
+        [
+          ["a", "b"],
+          ["c", null],
+          ["d", "e"],
+        ],
+        { a: "East", b: "East", c: "East", d: "West" }
+      )
+    ).toBe(1);
+  });
+});
+
+describe("getCurrentSeason", () => {
+  it("counts January and February as the previous season", () => {
+    expect(getCurrentSeason(new Date(2026, 0, 15))).toBe(2025);
+    expect(getCurrentSeason(new Date(2026, 8, 10))).toBe(2026);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Head-to-head schedule
+ * Builds a league's regular season from a round robin. The commissioner's
+ * client generates it and sends the matchups to the save_league_schedule
+ * RPC, which stores one matchups row per game (or bye).
+ */
+
+export const DEFAULT_REGULAR_SEASON_WEEKS = 14;
+
+export const MAX_REGULAR_SEASON_WEEKS = 18;
+
+/**
+ * One game in a week; awayTeamId is null when the home team has a bye
+ */
+export interface ScheduledMatchup {
+  week: number;
+  homeTeamId: string;
+  awayTeamId: string | null;
+}
+
+export interface ScheduleOptions {
+  divisions?: Record<string, string | null | undefined>; // Team ID -> division name
+  weightDivisions?: boolean; // Favor division games when not every round fits
+}
+
+type Pairing = [string | null, string | null];
+
+/**
+ * The NFL season a date falls in; January and February games belong to the
+ * season that started the previous fall
+ */
+export function getCurrentSeason(date: Date = new Date()): number {
+  return date.getMonth() < 2 ? date.getFullYear() - 1 : date.getFullYear();
+}
+
+/**
+ * Every round of a single round robin, by the circle method: the first team
+ * stays put and the rest rotate one place each round. An odd team count gets
+ * a null "team", and whoever faces it has a bye.
+ */
+export function getRoundRobinRounds(teamIds: string[]): Pairing[][] {
+  const slots: Array<string | null> = [...teamIds];
+  if (slots.length % 2 === 1) slots.push(null);
+
+  const rounds: Pairing[][] = [];
+  for (let round = 0; round < slots.length - 1; round++) {
+    const pairings: Pairing[] = [];
+    for (let i = 0; i < slots.length / 2; i++) {
+      const pairing: Pairing = [slots[i], slots[slots.length - 1 - i]];
+      // The fixed team would otherwise always be home
+      pairings.push(i === 0 && round % 2 === 1 ? [pairing[1], pairing[0]] : pairing);
+    }
+    rounds.push(pairings);
+    slots.splice(1, 0, slots.pop()!);
+  }
+
+  return rounds;
+}
+
+/**
+ * How many games in a round are between teams in the same division
+ */
+export function countDivisionGames(
+  round: Pairing[],
+  divisions: ScheduleOptions["divisions"] = {}
+): number {
+  return round.filter(
+    ([home, away]) => home && away && divisions[home] && divisions[home] === divisions[away]
+  ).length;
+}
+
+/**
+ * Schedule the regular season. Weeks run through the round robin in order and
+ * start it again once every team has met, with home and away swapped. With
+ * division weighting, each pass plays its most division-heavy rounds first,
+ * so a season shorter (or longer) than a full pass adds division games rather
+ * than arbitrary ones.
+ */
+export function generateSchedule(
+  teamIds: string[],
+  weeks: number,
+  options: ScheduleOptions = {}
+): ScheduledMatchup[] {
+  if (teamIds.length < 2) {
+    throw new Error("A schedule needs at least two teams");
+  }
+  if (!Number.isInteger(weeks) || weeks < 1) {
+    throw new Error("A schedule needs at least one week");
+  }
+
+  let rounds = getRoundRobinRounds(teamIds);
+  if (options.weightDivisions && options.divisions) {
+    rounds = rounds
+      .map((round, index) => ({ round, index, games: countDivisionGames(round, options.divisions) }))
+      .sort((a, b) => b.games - a.games || a.index - b.index)
+      .map(({ round }) => round);
+  }
+
+  const matchups: ScheduledMatchup[] = [];
+  for (let week = 1; week <= weeks; week++) {
+    const pass = Math.floor((week - 1) / rounds.length);
+    const round = rounds[(week - 1) % rounds.length];
+
+    for (const pairing of round) {
+      const [home, away] = pass % 2 === 1 ? [pairing[1], pairing[0]] : pairing;
+      if (home === null && away === null) continue;
+      matchups.push(
+        home === null || away === null
+          ? { week, homeTeamId: (home ?? away)!, awayTeamId: null }
+          : { week, homeTeamId: home, awayTeamId: away }
+      );
+    }
+  }
+
+  return matchups;
+}
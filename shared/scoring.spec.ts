@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { resolveScoringRules, scoreStatLine, type StatLine } from "./scoring";
+
+const receiver: StatLine = { rec: 6, rec_yds: 85, rec_td: 1, fum_lost: 1 };
+
+describe("resolveScoringRules", () => {
+  it("only changes the reception value between presets", () => {
+    expect(resolveScoringRules({ preset: "standard" }).rec.points).toBe(0);
+    expect(resolveScoringRules({ preset: "half_ppr" }).rec.points).toBe(0.5);
+    expect(resolveScoringRules({ preset: "ppr" }).rec.points).toBe(1);
+  });
+
+  it("layers custom rules over the standard preset", () => {
+    const rules = resolveScoringRules({
+      preset: "custom",
+      rules: { pass_td: { points: 6 } },
+    });
+
+    expect(rules.pass_td.points).toBe(6);
+    expect(rules.pass_yds).toEqual({ points: 1, per: 25 });
+  });
+
+  it("falls back to standard without settings", () => {
+    expect(resolveScoringRules(undefined)).toEqual(resolveScoringRules({ preset: "standard" }));
+  });
+});
+
+describe("scoreStatLine", () => {
+  it("scores a stat line under each preset", () => {
+    expect(scoreStatLine(receiver, resolveScoringRules({ preset: "standard" })).points).toBe(12.5);
+    expect(scoreStatLine(receiver, resolveScoringRules({ preset: "half_ppr" })).points).toBe(15.5);
+    expect(scoreStatLine(receiver, resolveScoringRules({ preset: "ppr" })).points).toBe(18.5);
+  });
+
+  it("breaks points down by stat, leaving out stats worth nothing", () => {
+    const { breakdown } = scoreStatLine(
+      { pass_yds: 310, pass_td: 2, pass_int: 1, rec: 1 },
+      resolveScoringRules({ preset: "standard" })
+    );
+
+    expect(breakdown).toEqual({
+      pass_yds: { value: 310, points: 12.4 },
+      pass_td: { value: 2, points: 8 },
+      pass_int: { value: 1, points: -2 },
+    });
+  });
+});
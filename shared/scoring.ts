@@ -0,0 +1,202 @@
+/**
+ * Fantasy scoring rules
+ * Turns a player's weekly stat line into fantasy points plus a per-stat
+ * breakdown. Leagues pick a preset or customize individual values in
+ * leagues.settings.scoring; the server scores weeks with this module and the
+ * client uses it for projections, so both always agree.
+ */
+
+export type StatKey =
+  | "pass_yds"
+  | "pass_td"
+  | "pass_int"
+  | "pass_2pt"
+  | "rush_yds"
+  | "rush_td"
+  | "rush_2pt"
+  | "rec"
+  | "rec_yds"
+  | "rec_td"
+  | "rec_2pt"
+  | "fum_lost"
+  | "fg_made"
+  | "fg_made_40_49"
+  | "fg_made_50_plus"
+  | "fg_missed"
+  | "xp_made"
+  | "xp_missed"
+  | "def_td"
+  | "def_int"
+  | "def_fum_rec"
+  | "def_sack"
+  | "def_safety"
+  | "def_block";
+
+export const STAT_KEYS: StatKey[] = [
+  "pass_yds",
+  "pass_td",
+  "pass_int",
+  "pass_2pt",
+  "rush_yds",
+  "rush_td",
+  "rush_2pt",
+  "rec",
+  "rec_yds",
+  "rec_td",
+  "rec_2pt",
+  "fum_lost",
+  "fg_made",
+  "fg_made_40_49",
+  "fg_made_50_plus",
+  "fg_missed",
+  "xp_made",
+  "xp_missed",
+  "def_td",
+  "def_int",
+  "def_fum_rec",
+  "def_sack",
+  "def_safety",
+  "def_block",
+];
+
+export const STAT_LABELS: Record<StatKey, string> = {
+  pass_yds: "Passing Yards",
+  pass_td: "Passing TD",
+  pass_int: "Interception Thrown",
+  pass_2pt: "Passing 2-Pt Conversion",
+  rush_yds: "Rushing Yards",
+  rush_td: "Rushing TD",
+  rush_2pt: "Rushing 2-Pt Conversion",
+  rec: "Reception",
+  rec_yds: "Receiving Yards",
+  rec_td: "Receiving TD",
+  rec_2pt: "Receiving 2-Pt Conversion",
+  fum_lost: "Fumble Lost",
+  fg_made: "Field Goal (0-39)",
+  fg_made_40_49: "Field Goal (40-49)",
+  fg_made_50_plus: "Field Goal (50+)",
+  fg_missed: "Missed Field Goal",
+  xp_made: "Extra Point",
+  xp_missed: "Missed Extra Point",
+  def_td: "Defensive/Return TD",
+  def_int: "Defensive Interception",
+  def_fum_rec: "Fumble Recovery",
+  def_sack: "Sack",
+  def_safety: "Safety",
+  def_block: "Blocked Kick",
+};
+
+// A stat's raw counts for one player in one week; missing stats count as 0
+export type StatLine = Partial<Record<StatKey, number>>;
+
+// `points` for every `per` units of the stat, e.g. 1 point per 25 passing yards
+export interface ScoringRule {
+  points: number;
+  per?: number; // Defaults to 1
+}
+
+export type ScoringRules = Record<StatKey, ScoringRule>;
+
+export type ScoringPreset = "standard" | "half_ppr" | "ppr" | "custom";
+
+export const SCORING_PRESETS: ScoringPreset[] = ["standard", "half_ppr", "ppr", "custom"];
+
+export const SCORING_PRESET_LABELS: Record<ScoringPreset, string> = {
+  standard: "Standard",
+  half_ppr: "Half PPR",
+  ppr: "PPR",
+  custom: "Custom",
+};
+
+// Stored in leagues.settings.scoring; custom leagues override single rules
+// on top of the standard preset
+export interface ScoringSettings {
+  preset: ScoringPreset;
+  rules?: Partial<Record<StatKey, ScoringRule>>;
+}
+
+export const DEFAULT_SCORING_SETTINGS: ScoringSettings = { preset: "standard" };
+
+const STANDARD_RULES: ScoringRules = {
+  pass_yds: { points: 1, per: 25 },
+  pass_td: { points: 4 },
+  pass_int: { points: -2 },
+  pass_2pt: { points: 2 },
+  rush_yds: { points: 1, per: 10 },
+  rush_td: { points: 6 },
+  rush_2pt: { points: 2 },
+  rec: { points: 0 },
+  rec_yds: { points: 1, per: 10 },
+  rec_td: { points: 6 },
+  rec_2pt: { points: 2 },
+  fum_lost: { points: -2 },
+  fg_made: { points: 3 },
+  fg_made_40_49: { points: 4 },
+  fg_made_50_plus: { points: 5 },
+  fg_missed: { points: -1 },
+  xp_made: { points: 1 },
+  xp_missed: { points: -1 },
+  def_td: { points: 6 },
+  def_int: { points: 2 },
+  def_fum_rec: { points: 2 },
+  def_sack: { points: 1 },
+  def_safety: { points: 2 },
+  def_block: { points: 2 },
+};
+
+export const SCORING_PRESET_RULES: Record<Exclude<ScoringPreset, "custom">, ScoringRules> = {
+  standard: STANDARD_RULES,
+  half_ppr: { ...STANDARD_RULES, rec: { points: 0.5 } },
+  ppr: { ...STANDARD_RULES, rec: { points: 1 } },
+};
+
+/**
+ * The full rule set for a league's scoring settings. Unknown presets fall
+ * back to standard so a bad settings blob never stops scoring.
+ */
+export function resolveScoringRules(
+  settings: ScoringSettings | null | undefined = DEFAULT_SCORING_SETTINGS
+): ScoringRules {
+  const preset = settings?.preset ?? DEFAULT_SCORING_SETTINGS.preset;
+  const base =
+    preset !== "custom" && SCORING_PRESET_RULES[preset]
+      ? SCORING_PRESET_RULES[preset]
+      : STANDARD_RULES;
+
+  return preset === "custom" ? { ...base, ...(settings?.rules ?? {}) } : base;
+}
+
+export interface StatScore {
+  value: number; // The raw stat
+  points: number;
+}
+
+export interface PlayerScore {
+  points: number;
+  breakdown: Partial<Record<StatKey, StatScore>>; // Only stats that scored
+}
+
+/**
+ * Score one stat line. Points are rounded to hundredths, matching the
+ * precision of the scores table.
+ */
+export function scoreStatLine(stats: StatLine, rules: ScoringRules): PlayerScore {
+  const breakdown: Partial<Record<StatKey, StatScore>> = {};
+  let total = 0;
+
+  for (const key of STAT_KEYS) {
+    const value = Number(stats[key] ?? 0);
+    const rule = rules[key];
+    if (!value || !rule || !rule.points) continue;
+
+    const points = roundPoints((value / (rule.per || 1)) * rule.points);
+    breakdown[key] = { value, points };
+    total += points;
+  }
+
+  return { points: roundPoints(total), breakdown };
+}
+
+function roundPoints(points: number): number {
+  return Math.round(points * 100) / 100;
+}
@@ -0,0 +1,182 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeStandings,
+  formatRank,
+  formatRecord,
+  type StandingsGame,
+  type StandingsTeam,
+} from "./standings";
+
+const team = (id: string, coinFlip: number, division: string | null = null): StandingsTeam => ({
+  id,
+  name: id.toUpperCase(),
+  division,
+  coinFlip,
+});
+
+const game = (
+  week: number,
+  homeTeamId: string,
+  homePoints: number,
+  awayTeamId: string,
+  awayPoints: number
+): StandingsGame => ({ week, homeTeamId, awayTeamId, homePoints, awayPoints });
+
+describe("computeStandings", () => {
+  it("tallies records, points, streaks and division records", () => {
+    const teams = [team("a", 0.1, "East"), team("b", 0.2, "East"), team("c", 0.3, "West")];
+    const [first, second, third] = computeStandings(teams, [
+      game(1, "a", 100, "b", 90),
+      game(2, "c", 80, "a", 95.5),
+      game(3, "b", 70, "c", 70),
+    ]);
+
+    expect(first).toMatchObject({
+      rank: 1,
+      teamId: "a",
+      wins: 2,
+      losses: 0,
+      ties: 0,
+      pointsFor: 195.5,
+      pointsAgainst: 170,
+      streak: "W2",
+      divisionWins: 1,
+      divisionLosses: 0,
+    });
+    // b and c are both 0-1-1 and tied head-to-head; b has more points
+    expect(second).toMatchObject({ teamId: "b", ties: 1, streak: "T1", divisionLosses: 1 });
+    expect(third).toMatchObject({ teamId: "c", pointsFor: 150, divisionWins: 0 });
+  });
+
+  it("breaks ties by head-to-head before points", () => {
+    const teams = [team("a", 0.9), team("b", 0.1), team("c", 0.5), team("d", 0.5)];
+    const games = [
+      game(1, "a", 150, "c", 60),
+      game(1, "b", 100, "d", 90),
+      game(2, "b", 80, "a", 70),
+      game(2, "c", 200, "d", 50),
+    ];
+
+    expect(computeStandings(teams, games).map((s) => s.teamId)).toEqual(["b", "a", "c", "d"]);
+    expect(computeStandings(teams, games, ["points_for"]).map((s) => s.teamId)).toEqual([
+      "b",
+      "c",
+      "a",
+      "d",
+    ]);
+  });
+
+  it("skips head-to-head when the tied teams haven't all played each other", () => {
+    const teams = ["a", "b", "c", "d", "e", "f"].map((id) => team(id, 0.5));
+    const games = [
+      game(1, "a", 100, "b", 90),
+      game(1, "c", 125, "d", 80),
+      game(1, "e", 110, "f", 50),
+      game(2, "a", 80, "e", 130),
+      game(2, "b", 140, "f", 60),
+      game(2, "c", 60, "d", 90),
+    ];
+
+    // a, b, c and d are all 1-1, but a and b never played c or d, so
+    // points for decides it
+    expect(computeStandings(teams, games).map((s) => s.teamId)).toEqual([
+      "e",
+      "b",
+      "c",
+      "a",
+      "d",
+      "f",
+    ]);
+  });
+
+  it("starts over from the first tiebreaker for teams a tiebreaker leaves tied", () => {
+    const teams = ["a", "b", "c", "d", "e", "f"].map((id) => team(id, 0.5));
+    const games = [
+      game(1, "a", 100, "b", 90),
+      game(1, "c", 100, "d", 120),
+      game(2, "c", 110, "a", 100),
+      game(2, "d", 130, "b", 90),
+      game(3, "a", 105, "d", 100),
+      game(3, "b", 100, "c", 95),
+      game(4, "b", 100, "e", 50),
+      game(4, "f", 120, "a", 80),
+      game(5, "c", 150, "e", 60),
+      game(5, "f", 140, "d", 90),
+    ];
+
+    // a, b, c and d are 2-2. Among the four, a and d went 2-1 and b and c
+    // 1-2; a beat d and b beat c, which decides each pair before points do
+    expect(computeStandings(teams, games).map((s) => s.teamId)).toEqual([
+      "f",
+      "a",
+      "d",
+      "b",
+      "c",
+      "e",
+    ]);
+  });
+
+  it("only compares division records within a division", () => {
+    const teams = [
+      team("a", 0.1, "East"),
+      team("b", 0.9, "West"),
+      team("c", 0.5, "East"),
+      team("d", 0.5, "West"),
+    ];
+    const games = [
+      game(1, "a", 100, "c", 90),
+      game(1, "d", 100, "b", 90),
+      game(2, "d", 100, "a", 90),
+      game(2, "b", 100, "c", 90),
+    ];
+
+    // a is 1-0 in the East and b 0-1 in the West, but that doesn't rank them
+    expect(computeStandings(teams, games, ["division_record"]).map((s) => s.teamId)).toEqual([
+      "d",
+      "b",
+      "a",
+      "c",
+    ]);
+  });
+
+  it("falls back to the stored coin flip", () => {
+    const teams = [team("a", 0.2), team("b", 0.8)];
+    const games = [game(1, "a", 100, "b", 100)];
+
+    expect(computeStandings(teams, games).map((s) => s.teamId)).toEqual(["b", "a"]);
+    expect(computeStandings(teams, games).map((s) => s.teamId)).toEqual(["b", "a"]);
+  });
+
+  it("includes teams that haven't played", () => {
+    const standings = computeStandings([team("a", 0.5), team("b", 0.4)], []);
+
+    expect(standings.map((s) => [s.teamId, s.rank, s.streak])).toEqual([
+      ["a", 1, ""],
+      ["b", 2, ""],
+    ]);
+  });
+});
+
+describe("formatRecord", () => {
+  it("shows ties only when there are some", () => {
+    expect(formatRecord(5, 3, 0)).toBe("5-3");
+    expect(formatRecord(5, 2, 1)).toBe("5-2-1");
+  });
+});
+
+describe("formatRank", () => {
+  it("adds ordinal suffixes", () => {
+    expect([1, 2, 3, 4, 11, 12, 13, 21, 22, 101].map(formatRank)).toEqual([
+      "1st",
+      "2nd",
+      "3rd",
+      "4th",
+      "11th",
+      "12th",
+      "13th",
+      "21st",
+      "22nd",
+      "101st",
+    ]);
+  });
+});
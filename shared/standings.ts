@@ -0,0 +1,284 @@
+/**
+ * League standings
+ * Records, points and streaks from a season's scored matchups, ordered by
+ * winning percentage and then the league's tiebreakers. Whatever the
+ * tiebreakers leave level is settled by each team's coin flip, a random value
+ * drawn once per team and season when the schedule is saved, so the order
+ * never changes between page loads.
+ */
+
+export type Tiebreaker = "head_to_head" | "points_for" | "points_against" | "division_record";
+
+export const TIEBREAKERS: Tiebreaker[] = [
+  "head_to_head",
+  "points_for",
+  "points_against",
+  "division_record",
+];
+
+export const TIEBREAKER_LABELS: Record<Tiebreaker, string> = {
+  head_to_head: "Head-to-head record",
+  points_for: "Most points for",
+  points_against: "Fewest points against",
+  division_record: "Division record",
+};
+
+export const DEFAULT_TIEBREAKERS: Tiebreaker[] = ["head_to_head", "points_for"];
+
+export interface StandingsTeam {
+  id: string;
+  name: string;
+  division: string | null;
+  coinFlip: number; // Stored random draw; higher wins a tie nothing else breaks
+}
+
+/**
+ * A scored head-to-head game; byes and unscored weeks are left out
+ */
+export interface StandingsGame {
+  week: number;
+  homeTeamId: string;
+  awayTeamId: string;
+  homePoints: number;
+  awayPoints: number;
+}
+
+export interface TeamStanding {
+  rank: number;
+  teamId: string;
+  name: string;
+  division: string | null;
+  wins: number;
+  losses: number;
+  ties: number;
+  pointsFor: number;
+  pointsAgainst: number;
+  streak: string; // "W3", "L1", "T1"; empty before the first game
+  divisionWins: number;
+  divisionLosses: number;
+  divisionTies: number;
+}
+
+type Result = "W" | "L" | "T";
+
+const roundPoints = (points: number) => Math.round(points * 100) / 100;
+
+/**
+ * Share of games won, counting ties as half a win; 0 before any games
+ */
+export function winPercentage(wins: number, losses: number, ties: number): number {
+  const games = wins + losses + ties;
+  return games ? (wins + ties / 2) / games : 0;
+}
+
+/**
+ * "W-L" or "W-L-T" when there have been ties
+ */
+export function formatRecord(wins: number, losses: number, ties: number): string {
+  return ties ? `${wins}-${losses}-${ties}` : `${wins}-${losses}`;
+}
+
+/**
+ * 1st, 2nd, 3rd, 11th, 22nd...
+ */
+export function formatRank(rank: number): string {
+  const suffix =
+    rank % 100 >= 11 && rank % 100 <= 13
+      ? "th"
+      : ({ 1: "st", 2: "nd", 3: "rd" } as Record<number, string>)[rank % 10] ?? "th";
+  return `${rank}${suffix}`;
+}
+
+const resultFor = (teamPoints: number, opponentPoints: number): Result =>
+  teamPoints > opponentPoints ? "W" : teamPoints < opponentPoints ? "L" : "T";
+
+/**
+ * Each team's results in week order, seen from that team
+ */
+function getResults(teams: StandingsTeam[], games: StandingsGame[]) {
+  const results = new Map(
+    teams.map((team) => [
+      team.id,
+      [] as Array<{ opponentId: string; result: Result; pointsFor: number; pointsAgainst: number }>,
+    ])
+  );
+
+  for (const game of [...games].sort((a, b) => a.week - b.week)) {
+    results.get(game.homeTeamId)?.push({
+      opponentId: game.awayTeamId,
+      result: resultFor(game.homePoints, game.awayPoints),
+      pointsFor: game.homePoints,
+      pointsAgainst: game.awayPoints,
+    });
+    results.get(game.awayTeamId)?.push({
+      opponentId: game.homeTeamId,
+      result: resultFor(game.awayPoints, game.homePoints),
+      pointsFor: game.awayPoints,
+      pointsAgainst: game.homePoints,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Order teams within a tied group, one tiebreaker at a time, starting from
+ * tiebreakers[index]. When a tiebreaker splits the group, each smaller group
+ * still tied starts over from the first tiebreaker, so two teams left from a
+ * three-way tie are compared on their own head-to-head game. Teams a
+ * tiebreaker leaves level move on to the next one, and the coin flip settles
+ * the rest.
+ */
+function breakTies(
+  group: TeamStanding[],
+  tiebreakers: Tiebreaker[],
+  index: number,
+  results: ReturnType<typeof getResults>,
+  coinFlips: Map<string, number>
+): TeamStanding[] {
+  if (group.length < 2) return group;
+
+  if (index >= tiebreakers.length) {
+    return [...group].sort(
+      (a, b) =>
+        (coinFlips.get(b.teamId) ?? 0) - (coinFlips.get(a.teamId) ?? 0) ||
+        a.teamId.localeCompare(b.teamId)
+    );
+  }
+
+  const tiebreaker = tiebreakers[index];
+  const groupIds = new Set(group.map((team) => team.teamId));
+  const next = () => breakTies(group, tiebreakers, index + 1, results, coinFlips);
+
+  // Head-to-head only means something when every tied team has played each
+  // of the others equally often; otherwise a team that never met the rest
+  // would rank last on it. Skip to the next tiebreaker instead.
+  if (tiebreaker === "head_to_head" && !playedEachOtherEvenly(group, results)) {
+    return next();
+  }
+
+  // Division records only compare teams in the same division
+  if (
+    tiebreaker === "division_record" &&
+    !group.every((team) => team.division && team.division === group[0].division)
+  ) {
+    return next();
+  }
+
+  const value = (team: TeamStanding): number => {
+    switch (tiebreaker) {
+      case "head_to_head": {
+        // Record in games between the tied teams only
+        const games = results.get(team.teamId)!.filter((r) => groupIds.has(r.opponentId));
+        return winPercentage(
+          games.filter((r) => r.result === "W").length,
+          games.filter((r) => r.result === "L").length,
+          games.filter((r) => r.result === "T").length
+        );
+      }
+      case "points_for":
+        return team.pointsFor;
+      case "points_against":
+        return -team.pointsAgainst;
+      case "division_record":
+        return winPercentage(team.divisionWins, team.divisionLosses, team.divisionTies);
+    }
+  };
+
+  const groups = groupBy(group, value);
+  if (groups.length === 1) return next();
+
+  return groups.flatMap((tied) => breakTies(tied, tiebreakers, 0, results, coinFlips));
+}
+
+/**
+ * Whether every pair of teams in the group has met, and met the same number
+ * of times
+ */
+function playedEachOtherEvenly(
+  group: TeamStanding[],
+  results: ReturnType<typeof getResults>
+): boolean {
+  const counts = group.flatMap((team, i) =>
+    group
+      .slice(i + 1)
+      .map(
+        (opponent) =>
+          results.get(team.teamId)!.filter((r) => r.opponentId === opponent.teamId).length
+      )
+  );
+  return counts[0] > 0 && counts.every((count) => count === counts[0]);
+}
+
+/**
+ * Split teams into groups that share a value, best value first
+ */
+function groupBy(teams: TeamStanding[], value: (team: TeamStanding) => number) {
+  const groups: TeamStanding[][] = [];
+  const sorted = teams
+    .map((team) => ({ team, value: value(team) }))
+    .sort((a, b) => b.value - a.value);
+
+  let last: number | null = null;
+  for (const { team, value: teamValue } of sorted) {
+    if (last !== null && Math.abs(teamValue - last) < 1e-9) {
+      groups[groups.length - 1].push(team);
+    } else {
+      groups.push([team]);
+    }
+    last = teamValue;
+  }
+
+  return groups;
+}
+
+/**
+ * Rank every team in the league. Teams without a game yet are included with
+ * an empty record.
+ */
+export function computeStandings(
+  teams: StandingsTeam[],
+  games: StandingsGame[],
+  tiebreakers: Tiebreaker[] = DEFAULT_TIEBREAKERS
+): TeamStanding[] {
+  const results = getResults(teams, games);
+  const divisions = new Map(teams.map((team) => [team.id, team.division]));
+  const coinFlips = new Map(teams.map((team) => [team.id, team.coinFlip]));
+
+  const standings: TeamStanding[] = teams.map((team) => {
+    const teamResults = results.get(team.id)!;
+    const divisionResults = teamResults.filter(
+      (r) => team.division && divisions.get(r.opponentId) === team.division
+    );
+    const count = (list: typeof teamResults, result: Result) =>
+      list.filter((r) => r.result === result).length;
+
+    // Consecutive matching results, counting back from the latest game
+    const latest = teamResults[teamResults.length - 1];
+    let streakLength = 0;
+    for (let i = teamResults.length - 1; i >= 0 && teamResults[i].result === latest.result; i--) {
+      streakLength++;
+    }
+
+    return {
+      rank: 0,
+      teamId: team.id,
+      name: team.name,
+      division: team.division,
+      wins: count(teamResults, "W"),
+      losses: count(teamResults, "L"),
+      ties: count(teamResults, "T"),
+      pointsFor: roundPoints(teamResults.reduce((total, r) => total + r.pointsFor, 0)),
+      pointsAgainst: roundPoints(teamResults.reduce((total, r) => total + r.pointsAgainst, 0)),
+      streak: latest ? `${latest.result}${streakLength}` : "",
+      divisionWins: count(divisionResults, "W"),
+      divisionLosses: count(divisionResults, "L"),
+      divisionTies: count(divisionResults, "T"),
+    };
+  });
+
+  const uniqueTiebreakers = [...new Set(tiebreakers)];
+  return groupBy(standings, (team) => winPercentage(team.wins, team.losses, team.ties))
+    .flatMap((tied) => breakTies(tied, uniqueTiebreakers, 0, results, coinFlips))
+    .map((team, index) => ({ ...team, rank: index + 1 }));
+}
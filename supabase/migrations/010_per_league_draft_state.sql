@@ -0,0 +1,350 @@
+-- Per-League Draft State Migration
+-- Replaces the draft_state singleton (id = 1) with one row per league so that
+-- several leagues can run their live drafts at the same time
+
+-- Rebuild draft_state keyed by league, carrying over any session in progress
+ALTER TABLE public.draft_state RENAME TO draft_state_legacy;
+
+CREATE TABLE public.draft_state (
+  league_id UUID PRIMARY KEY REFERENCES public.leagues(id) ON DELETE CASCADE,
+  draft_id UUID REFERENCES public.drafts(id) ON DELETE SET NULL,
+  started BOOLEAN DEFAULT FALSE,
+  current_round INTEGER DEFAULT 1,
+  current_pick INTEGER DEFAULT 0,
+  draft_order TEXT[] DEFAULT '{}',
+  max_teams INTEGER DEFAULT 4,
+  total_rounds INTEGER DEFAULT 5,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL
+);
+
+INSERT INTO public.draft_state (
+  league_id, draft_id, started, current_round, current_pick, draft_order, max_teams, total_rounds
+)
+SELECT
+  d.league_id, s.draft_id, s.started, s.current_round, s.current_pick, s.draft_order, s.max_teams, s.total_rounds
+FROM public.draft_state_legacy s
+JOIN public.drafts d ON d.id = s.draft_id;
+
+DROP TABLE public.draft_state_legacy;
+
+ALTER TABLE public.draft_state ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read draft_state" ON public.draft_state FOR SELECT USING (true);
+
+CREATE TRIGGER update_draft_state_updated_at BEFORE UPDATE ON public.draft_state
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Old signatures read the singleton row; drop them so no caller can reach it
+DROP FUNCTION IF EXISTS public.get_next_team();
+DROP FUNCTION IF EXISTS public.make_pick(TEXT, TEXT);
+DROP FUNCTION IF EXISTS public.reset_draft();
+
+-- Superseded by make_mock_draft_bot_pick (008), which keeps mock drafts
+-- out of the live draft state entirely
+DROP FUNCTION IF EXISTS public.make_bot_pick(TEXT);
+
+-- Get next team to pick in a league's draft (snake draft logic)
+CREATE OR REPLACE FUNCTION public.get_next_team(p_league_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  state public.draft_state%ROWTYPE;
+  team_count INTEGER;
+  draft_sequence TEXT[];
+  position_in_round INTEGER;
+BEGIN
+  SELECT * INTO state FROM public.draft_state WHERE league_id = p_league_id;
+  IF state.league_id IS NULL OR NOT state.started THEN RETURN NULL; END IF;
+
+  team_count := array_length(state.draft_order, 1);
+  IF team_count IS NULL OR team_count = 0 THEN RETURN NULL; END IF;
+
+  -- Calculate position within current round (0 to team_count-1)
+  position_in_round := state.current_pick % team_count;
+
+  -- Snake draft: reverse order on even rounds
+  IF state.current_round % 2 = 0 THEN
+    draft_sequence := ARRAY(
+      SELECT state.draft_order[i]
+      FROM generate_series(array_length(state.draft_order, 1), 1, -1) AS i
+    );
+  ELSE
+    draft_sequence := state.draft_order;
+  END IF;
+
+  RETURN draft_sequence[position_in_round + 1];
+END;
+$$ LANGUAGE plpgsql;
+
+-- Start a league's draft
+CREATE OR REPLACE FUNCTION public.start_draft(p_league_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  team_count INTEGER;
+  required_teams INTEGER;
+  shuffled_teams TEXT[];
+  v_draft_id UUID;
+  v_user_id UUID;
+BEGIN
+  -- Get current user ID from auth context
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Verify user is commissioner of the league
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leagues
+    WHERE id = p_league_id AND commissioner_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Only the league commissioner can start the draft';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.draft_state
+    WHERE league_id = p_league_id AND started
+  ) THEN
+    RAISE EXCEPTION 'Draft has already started for this league';
+  END IF;
+
+  -- Get required teams from league settings
+  SELECT max_teams INTO required_teams
+  FROM public.leagues
+  WHERE id = p_league_id;
+
+  -- Count teams in this league
+  SELECT COUNT(*) INTO team_count
+  FROM public.teams
+  WHERE league_id = p_league_id;
+
+  IF team_count != required_teams THEN
+    RAISE EXCEPTION 'Need exactly % teams to start (currently have %)', required_teams, team_count;
+  END IF;
+
+  -- Get team names and shuffle
+  SELECT ARRAY_AGG(name ORDER BY random()) INTO shuffled_teams
+  FROM public.teams
+  WHERE league_id = p_league_id;
+
+  -- Create draft record
+  INSERT INTO public.drafts (league_id, status, current_pick, total_picks, current_round, started_at)
+  VALUES (p_league_id, 'in_progress', 0, required_teams * 5, 1, NOW())
+  RETURNING id INTO v_draft_id;
+
+  -- Create or reset this league's draft state
+  INSERT INTO public.draft_state (
+    league_id, draft_id, started, draft_order, current_round, current_pick, max_teams
+  )
+  VALUES (p_league_id, v_draft_id, TRUE, shuffled_teams, 1, 0, required_teams)
+  ON CONFLICT (league_id) DO UPDATE
+  SET draft_id = EXCLUDED.draft_id,
+      started = TRUE,
+      draft_order = EXCLUDED.draft_order,
+      current_round = 1,
+      current_pick = 0,
+      max_teams = EXCLUDED.max_teams;
+
+  -- Update league draft status
+  UPDATE public.leagues
+  SET draft_status = 'in_progress'
+  WHERE id = p_league_id;
+
+  RETURN json_build_object(
+    'message', 'Draft started',
+    'order', shuffled_teams,
+    'draft_id', v_draft_id,
+    'league_id', p_league_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Make a pick in a league's draft
+CREATE OR REPLACE FUNCTION public.make_pick(p_league_id UUID, p_team_name TEXT, p_player_name TEXT)
+RETURNS JSON AS $$
+DECLARE
+  state public.draft_state%ROWTYPE;
+  v_team_id UUID;
+  v_player_id UUID;
+  next_team TEXT;
+  team_count INTEGER;
+  new_pick_number INTEGER;
+  new_round INTEGER;
+BEGIN
+  SELECT * INTO state FROM public.draft_state WHERE league_id = p_league_id;
+  IF state.league_id IS NULL OR NOT state.started THEN
+    RAISE EXCEPTION 'Draft has not started';
+  END IF;
+
+  next_team := public.get_next_team(p_league_id);
+  IF next_team != p_team_name THEN
+    RAISE EXCEPTION 'Not your turn!';
+  END IF;
+
+  -- Find team by name in this league
+  SELECT id INTO v_team_id
+  FROM public.teams
+  WHERE name = p_team_name
+  AND league_id = p_league_id;
+
+  IF v_team_id IS NULL THEN
+    RAISE EXCEPTION 'Team not found';
+  END IF;
+
+  -- Find available player by name (first_name + last_name only)
+  SELECT id INTO v_player_id
+  FROM public.players
+  WHERE (
+    (first_name || ' ' || last_name = p_player_name) OR
+    (COALESCE(first_name, '') || ' ' || COALESCE(last_name, '') = p_player_name) OR
+    (TRIM(COALESCE(first_name, '') || ' ' || COALESCE(last_name, '')) = p_player_name)
+  )
+  AND (is_available = TRUE OR is_available IS NULL);
+
+  IF v_player_id IS NULL THEN
+    RAISE EXCEPTION 'Player not available!';
+  END IF;
+
+  new_pick_number := state.current_pick + 1;
+  team_count := array_length(state.draft_order, 1);
+  new_round := state.current_round;
+
+  -- Check if we need to move to next round
+  IF new_pick_number % team_count = 0 THEN
+    new_round := state.current_round + 1;
+  END IF;
+
+  -- Insert pick into draft_picks table
+  INSERT INTO public.draft_picks (draft_id, team_id, player_id, round, pick_number)
+  VALUES (state.draft_id, v_team_id, v_player_id, state.current_round, new_pick_number);
+
+  -- Mark player as unavailable
+  UPDATE public.players
+  SET is_available = FALSE
+  WHERE id = v_player_id;
+
+  -- Update draft state
+  UPDATE public.draft_state
+  SET current_pick = new_pick_number,
+      current_round = new_round
+  WHERE league_id = p_league_id;
+
+  -- Update draft record
+  UPDATE public.drafts
+  SET current_pick = new_pick_number,
+      current_round = new_round
+  WHERE id = state.draft_id;
+
+  RETURN json_build_object(
+    'message', p_team_name || ' picked ' || p_player_name,
+    'pick_number', new_pick_number,
+    'round', new_round
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Reset a league's draft (for testing, commissioner only)
+CREATE OR REPLACE FUNCTION public.reset_draft(p_league_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_draft_id UUID;
+  v_user_id UUID;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leagues
+    WHERE id = p_league_id AND commissioner_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Only the league commissioner can reset the draft';
+  END IF;
+
+  SELECT draft_id INTO v_draft_id FROM public.draft_state WHERE league_id = p_league_id;
+
+  IF v_draft_id IS NOT NULL THEN
+    -- Only release the players this draft took
+    UPDATE public.players
+    SET is_available = TRUE
+    WHERE id IN (SELECT player_id FROM public.draft_picks WHERE draft_id = v_draft_id);
+
+    DELETE FROM public.draft_picks WHERE draft_id = v_draft_id;
+    DELETE FROM public.drafts WHERE id = v_draft_id;
+  END IF;
+
+  -- Delete teams in the league
+  DELETE FROM public.teams WHERE league_id = p_league_id;
+
+  DELETE FROM public.draft_state WHERE league_id = p_league_id;
+
+  UPDATE public.leagues
+  SET draft_status = 'pending'
+  WHERE id = p_league_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Remove a team from a league's draft
+-- Only commissioners can remove teams, and only before the draft has started
+CREATE OR REPLACE FUNCTION public.remove_team_from_draft(p_team_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID;
+  v_league_id UUID;
+  v_team_name TEXT;
+  v_draft_status TEXT;
+BEGIN
+  -- Get current user ID from auth context
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Get the team's league and name
+  SELECT t.league_id, t.name INTO v_league_id, v_team_name
+  FROM public.teams t
+  WHERE t.id = p_team_id;
+
+  IF v_league_id IS NULL THEN
+    RAISE EXCEPTION 'Team not found';
+  END IF;
+
+  -- Verify user is commissioner of the league
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leagues
+    WHERE id = v_league_id AND commissioner_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Only the league commissioner can remove teams';
+  END IF;
+
+  -- Check if draft has already started
+  SELECT draft_status INTO v_draft_status
+  FROM public.leagues
+  WHERE id = v_league_id;
+
+  IF v_draft_status = 'in_progress' THEN
+    RAISE EXCEPTION 'Cannot remove teams while draft is in progress';
+  END IF;
+
+  IF v_draft_status = 'completed' THEN
+    RAISE EXCEPTION 'Cannot remove teams after draft is completed';
+  END IF;
+
+  -- Remove the team from this league's draft order if present
+  UPDATE public.draft_state
+  SET draft_order = array_remove(draft_order, v_team_name)
+  WHERE league_id = v_league_id;
+
+  -- Delete the team (this will cascade to delete related records like rosters, draft_picks)
+  DELETE FROM public.teams WHERE id = p_team_id;
+
+  RETURN json_build_object(
+    'message', 'Team removed from draft',
+    'team_id', p_team_id,
+    'team_name', v_team_name,
+    'league_id', v_league_id
+  );
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,104 @@
+-- Configurable Draft Size Migration
+-- Live drafts start with however many teams the league has (at least the
+-- commissioner's minimum) and run for the league's configured round count.
+-- Both values live in leagues.settings:
+--   min_teams    - fewest teams allowed to start the draft (default 2)
+--   draft_rounds - number of rounds in the draft (default 5)
+
+CREATE OR REPLACE FUNCTION public.start_draft(p_league_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  team_count INTEGER;
+  v_max_teams INTEGER;
+  v_min_teams INTEGER;
+  v_total_rounds INTEGER;
+  shuffled_teams TEXT[];
+  v_draft_id UUID;
+  v_user_id UUID;
+BEGIN
+  -- Get current user ID from auth context
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Verify user is commissioner of the league
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leagues
+    WHERE id = p_league_id AND commissioner_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Only the league commissioner can start the draft';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.draft_state
+    WHERE league_id = p_league_id AND started
+  ) THEN
+    RAISE EXCEPTION 'Draft has already started for this league';
+  END IF;
+
+  -- Get team limits and round count from league settings
+  SELECT
+    max_teams,
+    COALESCE((settings->>'min_teams')::INTEGER, 2),
+    COALESCE((settings->>'draft_rounds')::INTEGER, 5)
+  INTO v_max_teams, v_min_teams, v_total_rounds
+  FROM public.leagues
+  WHERE id = p_league_id;
+
+  IF v_total_rounds < 1 THEN
+    RAISE EXCEPTION 'Draft must have at least 1 round';
+  END IF;
+
+  -- Count teams in this league
+  SELECT COUNT(*) INTO team_count
+  FROM public.teams
+  WHERE league_id = p_league_id;
+
+  IF team_count < v_min_teams THEN
+    RAISE EXCEPTION 'Need at least % teams to start (currently have %)', v_min_teams, team_count;
+  END IF;
+
+  IF team_count > v_max_teams THEN
+    RAISE EXCEPTION 'League allows at most % teams (currently have %)', v_max_teams, team_count;
+  END IF;
+
+  -- Get team names and shuffle
+  SELECT ARRAY_AGG(name ORDER BY random()) INTO shuffled_teams
+  FROM public.teams
+  WHERE league_id = p_league_id;
+
+  -- Create draft record
+  INSERT INTO public.drafts (league_id, status, current_pick, total_picks, current_round, started_at)
+  VALUES (p_league_id, 'in_progress', 0, team_count * v_total_rounds, 1, NOW())
+  RETURNING id INTO v_draft_id;
+
+  -- Create or reset this league's draft state
+  INSERT INTO public.draft_state (
+    league_id, draft_id, started, draft_order, current_round, current_pick, max_teams, total_rounds
+  )
+  VALUES (p_league_id, v_draft_id, TRUE, shuffled_teams, 1, 0, team_count, v_total_rounds)
+  ON CONFLICT (league_id) DO UPDATE
+  SET draft_id = EXCLUDED.draft_id,
+      started = TRUE,
+      draft_order = EXCLUDED.draft_order,
+      current_round = 1,
+      current_pick = 0,
+      max_teams = EXCLUDED.max_teams,
+      total_rounds = EXCLUDED.total_rounds;
+
+  -- Update league draft status
+  UPDATE public.leagues
+  SET draft_status = 'in_progress'
+  WHERE id = p_league_id;
+
+  RETURN json_build_object(
+    'message', 'Draft started',
+    'order', shuffled_teams,
+    'draft_id', v_draft_id,
+    'league_id', p_league_id,
+    'total_rounds', v_total_rounds
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
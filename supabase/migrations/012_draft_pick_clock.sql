@@ -0,0 +1,330 @@
+-- Draft Pick Clock Migration
+-- Every pick slot gets a server-side deadline based on drafts.pick_time_limit.
+-- When a deadline passes, process_expired_picks() (run by the Express server's
+-- draft clock job) makes the best available pick for the team on the clock.
+
+-- Deadline for the slot currently on the clock (NULL when no clock is running)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'draft_state'
+    AND column_name = 'pick_deadline'
+  ) THEN
+    ALTER TABLE public.draft_state ADD COLUMN pick_deadline TIMESTAMP WITH TIME ZONE;
+  END IF;
+END $$;
+
+-- Flag picks the clock made on a team's behalf
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'draft_picks'
+    AND column_name = 'auto_picked'
+  ) THEN
+    ALTER TABLE public.draft_picks ADD COLUMN auto_picked BOOLEAN DEFAULT FALSE NOT NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_draft_state_pick_deadline
+  ON public.draft_state(pick_deadline)
+  WHERE started;
+
+-- Best available player for a league's draft
+-- Ranks by ADP when the player's stats carry one, then by name
+CREATE OR REPLACE FUNCTION public.best_available_player(p_league_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_player_id UUID;
+BEGIN
+  SELECT p.id INTO v_player_id
+  FROM public.players p
+  WHERE (p.is_available = TRUE OR p.is_available IS NULL)
+  ORDER BY
+    CASE WHEN p.stats->>'adp' ~ '^[0-9]+(\.[0-9]+)?$' THEN (p.stats->>'adp')::NUMERIC END ASC NULLS LAST,
+    p.last_name,
+    p.first_name
+  LIMIT 1;
+
+  RETURN v_player_id;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Record a pick for the team on the clock and advance the draft
+-- Callers are responsible for validating the team and player first
+CREATE OR REPLACE FUNCTION public.record_draft_pick(
+  p_league_id UUID,
+  p_team_id UUID,
+  p_player_id UUID,
+  p_auto_picked BOOLEAN DEFAULT FALSE
+)
+RETURNS JSON AS $$
+DECLARE
+  state public.draft_state%ROWTYPE;
+  v_time_limit INTEGER;
+  team_count INTEGER;
+  new_pick_number INTEGER;
+  new_round INTEGER;
+  v_is_last_pick BOOLEAN;
+BEGIN
+  -- Lock the state row so a manual pick and the clock can't both take a slot
+  SELECT * INTO state FROM public.draft_state WHERE league_id = p_league_id FOR UPDATE;
+
+  SELECT pick_time_limit INTO v_time_limit FROM public.drafts WHERE id = state.draft_id;
+
+  new_pick_number := state.current_pick + 1;
+  team_count := array_length(state.draft_order, 1);
+  new_round := state.current_round;
+  v_is_last_pick := new_pick_number >= team_count * state.total_rounds;
+
+  -- Check if we need to move to next round
+  IF new_pick_number % team_count = 0 THEN
+    new_round := state.current_round + 1;
+  END IF;
+
+  INSERT INTO public.draft_picks (draft_id, team_id, player_id, round, pick_number, auto_picked)
+  VALUES (state.draft_id, p_team_id, p_player_id, state.current_round, new_pick_number, p_auto_picked);
+
+  -- Mark player as unavailable
+  UPDATE public.players
+  SET is_available = FALSE
+  WHERE id = p_player_id;
+
+  -- Advance the draft and start the clock for the next slot
+  UPDATE public.draft_state
+  SET current_pick = new_pick_number,
+      current_round = new_round,
+      pick_deadline = CASE
+        WHEN v_is_last_pick THEN NULL
+        ELSE NOW() + make_interval(secs => COALESCE(v_time_limit, 120))
+      END
+  WHERE league_id = p_league_id;
+
+  UPDATE public.drafts
+  SET current_pick = new_pick_number,
+      current_round = new_round
+  WHERE id = state.draft_id;
+
+  RETURN json_build_object(
+    'pick_number', new_pick_number,
+    'round', new_round,
+    'auto_picked', p_auto_picked
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Start a league's draft and put the first pick on the clock
+CREATE OR REPLACE FUNCTION public.start_draft(p_league_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  team_count INTEGER;
+  v_max_teams INTEGER;
+  v_min_teams INTEGER;
+  v_total_rounds INTEGER;
+  v_time_limit INTEGER;
+  shuffled_teams TEXT[];
+  v_draft_id UUID;
+  v_user_id UUID;
+BEGIN
+  -- Get current user ID from auth context
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Verify user is commissioner of the league
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leagues
+    WHERE id = p_league_id AND commissioner_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Only the league commissioner can start the draft';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.draft_state
+    WHERE league_id = p_league_id AND started
+  ) THEN
+    RAISE EXCEPTION 'Draft has already started for this league';
+  END IF;
+
+  -- Get team limits, round count and pick clock from league settings
+  SELECT
+    max_teams,
+    COALESCE((settings->>'min_teams')::INTEGER, 2),
+    COALESCE((settings->>'draft_rounds')::INTEGER, 5),
+    COALESCE((settings->>'pick_time_limit')::INTEGER, 120)
+  INTO v_max_teams, v_min_teams, v_total_rounds, v_time_limit
+  FROM public.leagues
+  WHERE id = p_league_id;
+
+  IF v_total_rounds < 1 THEN
+    RAISE EXCEPTION 'Draft must have at least 1 round';
+  END IF;
+
+  IF v_time_limit < 10 THEN
+    RAISE EXCEPTION 'Pick time limit must be at least 10 seconds';
+  END IF;
+
+  -- Count teams in this league
+  SELECT COUNT(*) INTO team_count
+  FROM public.teams
+  WHERE league_id = p_league_id;
+
+  IF team_count < v_min_teams THEN
+    RAISE EXCEPTION 'Need at least % teams to start (currently have %)', v_min_teams, team_count;
+  END IF;
+
+  IF team_count > v_max_teams THEN
+    RAISE EXCEPTION 'League allows at most % teams (currently have %)', v_max_teams, team_count;
+  END IF;
+
+  -- Get team names and shuffle
+  SELECT ARRAY_AGG(name ORDER BY random()) INTO shuffled_teams
+  FROM public.teams
+  WHERE league_id = p_league_id;
+
+  -- Create draft record
+  INSERT INTO public.drafts (
+    league_id, status, current_pick, total_picks, current_round, pick_time_limit, started_at
+  )
+  VALUES (
+    p_league_id, 'in_progress', 0, team_count * v_total_rounds, 1, v_time_limit, NOW()
+  )
+  RETURNING id INTO v_draft_id;
+
+  -- Create or reset this league's draft state
+  INSERT INTO public.draft_state (
+    league_id, draft_id, started, draft_order, current_round, current_pick,
+    max_teams, total_rounds, pick_deadline
+  )
+  VALUES (
+    p_league_id, v_draft_id, TRUE, shuffled_teams, 1, 0,
+    team_count, v_total_rounds, NOW() + make_interval(secs => v_time_limit)
+  )
+  ON CONFLICT (league_id) DO UPDATE
+  SET draft_id = EXCLUDED.draft_id,
+      started = TRUE,
+      draft_order = EXCLUDED.draft_order,
+      current_round = 1,
+      current_pick = 0,
+      max_teams = EXCLUDED.max_teams,
+      total_rounds = EXCLUDED.total_rounds,
+      pick_deadline = EXCLUDED.pick_deadline;
+
+  -- Update league draft status
+  UPDATE public.leagues
+  SET draft_status = 'in_progress'
+  WHERE id = p_league_id;
+
+  RETURN json_build_object(
+    'message', 'Draft started',
+    'order', shuffled_teams,
+    'draft_id', v_draft_id,
+    'league_id', p_league_id,
+    'total_rounds', v_total_rounds
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Make a pick in a league's draft
+CREATE OR REPLACE FUNCTION public.make_pick(p_league_id UUID, p_team_name TEXT, p_player_name TEXT)
+RETURNS JSON AS $$
+DECLARE
+  state public.draft_state%ROWTYPE;
+  v_team_id UUID;
+  v_player_id UUID;
+  next_team TEXT;
+  v_result JSON;
+BEGIN
+  -- Lock the state row up front so the turn check can't go stale under the clock
+  SELECT * INTO state FROM public.draft_state WHERE league_id = p_league_id FOR UPDATE;
+  IF state.league_id IS NULL OR NOT state.started THEN
+    RAISE EXCEPTION 'Draft has not started';
+  END IF;
+
+  next_team := public.get_next_team(p_league_id);
+  IF next_team != p_team_name THEN
+    RAISE EXCEPTION 'Not your turn!';
+  END IF;
+
+  -- Find team by name in this league
+  SELECT id INTO v_team_id
+  FROM public.teams
+  WHERE name = p_team_name
+  AND league_id = p_league_id;
+
+  IF v_team_id IS NULL THEN
+    RAISE EXCEPTION 'Team not found';
+  END IF;
+
+  -- Find available player by name (first_name + last_name only)
+  SELECT id INTO v_player_id
+  FROM public.players
+  WHERE (
+    (first_name || ' ' || last_name = p_player_name) OR
+    (COALESCE(first_name, '') || ' ' || COALESCE(last_name, '') = p_player_name) OR
+    (TRIM(COALESCE(first_name, '') || ' ' || COALESCE(last_name, '')) = p_player_name)
+  )
+  AND (is_available = TRUE OR is_available IS NULL);
+
+  IF v_player_id IS NULL THEN
+    RAISE EXCEPTION 'Player not available!';
+  END IF;
+
+  v_result := public.record_draft_pick(p_league_id, v_team_id, v_player_id, FALSE);
+
+  RETURN json_build_object(
+    'message', p_team_name || ' picked ' || p_player_name,
+    'pick_number', v_result->'pick_number',
+    'round', v_result->'round'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Auto-pick for every live draft whose pick deadline has passed
+-- Called by the server's draft clock job with the service role key
+CREATE OR REPLACE FUNCTION public.process_expired_picks()
+RETURNS JSON AS $$
+DECLARE
+  state public.draft_state%ROWTYPE;
+  v_team_name TEXT;
+  v_team_id UUID;
+  v_player_id UUID;
+  v_auto_picks INTEGER := 0;
+BEGIN
+  FOR state IN
+    SELECT * FROM public.draft_state
+    WHERE started
+    AND pick_deadline IS NOT NULL
+    AND pick_deadline <= NOW()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    v_team_name := public.get_next_team(state.league_id);
+
+    SELECT id INTO v_team_id
+    FROM public.teams
+    WHERE league_id = state.league_id AND name = v_team_name;
+
+    v_player_id := public.best_available_player(state.league_id);
+
+    IF v_team_id IS NULL OR v_player_id IS NULL THEN
+      -- Nothing can be picked; stop the clock rather than retrying every tick
+      UPDATE public.draft_state SET pick_deadline = NULL WHERE league_id = state.league_id;
+      CONTINUE;
+    END IF;
+
+    PERFORM public.record_draft_pick(state.league_id, v_team_id, v_player_id, TRUE);
+    v_auto_picks := v_auto_picks + 1;
+  END LOOP;
+
+  RETURN json_build_object('auto_picks', v_auto_picks);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Internal helpers: only reachable through the RPCs above or the service role
+REVOKE EXECUTE ON FUNCTION public.record_draft_pick(UUID, UUID, UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.process_expired_picks() FROM PUBLIC, anon, authenticated;
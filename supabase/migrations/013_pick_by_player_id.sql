@@ -0,0 +1,83 @@
+-- Pick By Player ID Migration
+-- Replaces make_pick(league, team name, player name) with make_pick_by_id,
+-- which identifies the player by ID, takes the team from the caller's own
+-- team on the clock, and rejects picks made against a stale board.
+--
+-- Errors raised with a custom SQLSTATE so the client can tell them apart:
+--   DRF01 - draft has not started
+--   DRF02 - caller's team is not on the clock
+--   DRF03 - pick number is stale (someone, or the clock, already picked)
+--   DRF04 - player not found or already drafted
+
+DROP FUNCTION IF EXISTS public.make_pick(UUID, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.make_pick_by_id(
+  p_league_id UUID,
+  p_player_id UUID,
+  p_pick_number INTEGER
+)
+RETURNS JSON AS $$
+DECLARE
+  state public.draft_state%ROWTYPE;
+  v_user_id UUID;
+  v_team_id UUID;
+  v_team_name TEXT;
+  v_player_name TEXT;
+  v_result JSON;
+BEGIN
+  -- Get current user ID from auth context
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the state row so the turn and pick checks can't go stale under the clock
+  SELECT * INTO state FROM public.draft_state WHERE league_id = p_league_id FOR UPDATE;
+  IF state.league_id IS NULL OR NOT state.started THEN
+    RAISE EXCEPTION 'Draft has not started' USING ERRCODE = 'DRF01';
+  END IF;
+
+  -- The client sends the pick it was looking at; anything else is a stale board
+  IF p_pick_number IS DISTINCT FROM state.current_pick + 1 THEN
+    RAISE EXCEPTION 'Pick % has already been made; the draft is on pick %',
+      p_pick_number, state.current_pick + 1
+      USING ERRCODE = 'DRF03';
+  END IF;
+
+  -- The team on the clock must belong to the caller
+  v_team_name := public.get_next_team(p_league_id);
+
+  SELECT id INTO v_team_id
+  FROM public.teams
+  WHERE league_id = p_league_id
+  AND name = v_team_name
+  AND owner_id = v_user_id;
+
+  IF v_team_id IS NULL THEN
+    RAISE EXCEPTION 'Not your turn!' USING ERRCODE = 'DRF02';
+  END IF;
+
+  -- The player must exist and not already be taken in this draft
+  SELECT TRIM(COALESCE(first_name, '') || ' ' || COALESCE(last_name, '')) INTO v_player_name
+  FROM public.players
+  WHERE id = p_player_id
+  AND (is_available = TRUE OR is_available IS NULL)
+  AND NOT EXISTS (
+    SELECT 1 FROM public.draft_picks
+    WHERE draft_id = state.draft_id AND player_id = p_player_id
+  );
+
+  IF v_player_name IS NULL THEN
+    RAISE EXCEPTION 'Player not available!' USING ERRCODE = 'DRF04';
+  END IF;
+
+  v_result := public.record_draft_pick(p_league_id, v_team_id, p_player_id, FALSE);
+
+  RETURN json_build_object(
+    'message', v_team_name || ' picked ' || v_player_name,
+    'pick_number', v_result->'pick_number',
+    'round', v_result->'round'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,244 @@
+-- Per-Draft Player Availability Migration
+-- Availability used to be a global players.is_available flag, so a pick in
+-- one league hid the player from every other league. A player is now taken
+-- only within a league: drafted in its current draft or on one of its rosters.
+
+-- Whether a player is already taken in a league
+CREATE OR REPLACE FUNCTION public.is_player_taken(p_league_id UUID, p_player_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.draft_state ds
+    JOIN public.draft_picks dp ON dp.draft_id = ds.draft_id
+    WHERE ds.league_id = p_league_id
+    AND dp.player_id = p_player_id
+  ) OR EXISTS (
+    SELECT 1
+    FROM public.rosters r
+    JOIN public.teams t ON t.id = r.team_id
+    WHERE t.league_id = p_league_id
+    AND r.player_id = p_player_id
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Players still available in a league's draft
+CREATE OR REPLACE FUNCTION public.get_draft_available_players(p_league_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_players JSON;
+BEGIN
+  SELECT json_agg(row_to_json(p) ORDER BY p.first_name, p.last_name) INTO v_players
+  FROM public.players p
+  WHERE NOT public.is_player_taken(p_league_id, p.id);
+
+  RETURN COALESCE(v_players, '[]'::json);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Best available player for a league's draft
+-- Ranks by ADP when the player's stats carry one, then by name
+CREATE OR REPLACE FUNCTION public.best_available_player(p_league_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_player_id UUID;
+BEGIN
+  SELECT p.id INTO v_player_id
+  FROM public.players p
+  WHERE NOT public.is_player_taken(p_league_id, p.id)
+  ORDER BY
+    CASE WHEN p.stats->>'adp' ~ '^[0-9]+(\.[0-9]+)?$' THEN (p.stats->>'adp')::NUMERIC END ASC NULLS LAST,
+    p.last_name,
+    p.first_name
+  LIMIT 1;
+
+  RETURN v_player_id;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Record a pick for the team on the clock and advance the draft
+-- Callers are responsible for validating the team and player first
+CREATE OR REPLACE FUNCTION public.record_draft_pick(
+  p_league_id UUID,
+  p_team_id UUID,
+  p_player_id UUID,
+  p_auto_picked BOOLEAN DEFAULT FALSE
+)
+RETURNS JSON AS $$
+DECLARE
+  state public.draft_state%ROWTYPE;
+  v_time_limit INTEGER;
+  team_count INTEGER;
+  new_pick_number INTEGER;
+  new_round INTEGER;
+  v_is_last_pick BOOLEAN;
+BEGIN
+  -- Lock the state row so a manual pick and the clock can't both take a slot
+  SELECT * INTO state FROM public.draft_state WHERE league_id = p_league_id FOR UPDATE;
+
+  SELECT pick_time_limit INTO v_time_limit FROM public.drafts WHERE id = state.draft_id;
+
+  new_pick_number := state.current_pick + 1;
+  team_count := array_length(state.draft_order, 1);
+  new_round := state.current_round;
+  v_is_last_pick := new_pick_number >= team_count * state.total_rounds;
+
+  -- Check if we need to move to next round
+  IF new_pick_number % team_count = 0 THEN
+    new_round := state.current_round + 1;
+  END IF;
+
+  INSERT INTO public.draft_picks (draft_id, team_id, player_id, round, pick_number, auto_picked)
+  VALUES (state.draft_id, p_team_id, p_player_id, state.current_round, new_pick_number, p_auto_picked);
+
+  -- Advance the draft and start the clock for the next slot
+  UPDATE public.draft_state
+  SET current_pick = new_pick_number,
+      current_round = new_round,
+      pick_deadline = CASE
+        WHEN v_is_last_pick THEN NULL
+        ELSE NOW() + make_interval(secs => COALESCE(v_time_limit, 120))
+      END
+  WHERE league_id = p_league_id;
+
+  UPDATE public.drafts
+  SET current_pick = new_pick_number,
+      current_round = new_round
+  WHERE id = state.draft_id;
+
+  RETURN json_build_object(
+    'pick_number', new_pick_number,
+    'round', new_round,
+    'auto_picked', p_auto_picked
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Make a pick for the caller's team by player ID
+CREATE OR REPLACE FUNCTION public.make_pick_by_id(
+  p_league_id UUID,
+  p_player_id UUID,
+  p_pick_number INTEGER
+)
+RETURNS JSON AS $$
+DECLARE
+  state public.draft_state%ROWTYPE;
+  v_user_id UUID;
+  v_team_id UUID;
+  v_team_name TEXT;
+  v_player_name TEXT;
+  v_result JSON;
+BEGIN
+  -- Get current user ID from auth context
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the state row so the turn and pick checks can't go stale under the clock
+  SELECT * INTO state FROM public.draft_state WHERE league_id = p_league_id FOR UPDATE;
+  IF state.league_id IS NULL OR NOT state.started THEN
+    RAISE EXCEPTION 'Draft has not started' USING ERRCODE = 'DRF01';
+  END IF;
+
+  -- The client sends the pick it was looking at; anything else is a stale board
+  IF p_pick_number IS DISTINCT FROM state.current_pick + 1 THEN
+    RAISE EXCEPTION 'Pick % has already been made; the draft is on pick %',
+      p_pick_number, state.current_pick + 1
+      USING ERRCODE = 'DRF03';
+  END IF;
+
+  -- The team on the clock must belong to the caller
+  v_team_name := public.get_next_team(p_league_id);
+
+  SELECT id INTO v_team_id
+  FROM public.teams
+  WHERE league_id = p_league_id
+  AND name = v_team_name
+  AND owner_id = v_user_id;
+
+  IF v_team_id IS NULL THEN
+    RAISE EXCEPTION 'Not your turn!' USING ERRCODE = 'DRF02';
+  END IF;
+
+  -- The player must exist and not already be taken in this draft
+  SELECT TRIM(COALESCE(first_name, '') || ' ' || COALESCE(last_name, '')) INTO v_player_name
+  FROM public.players
+  WHERE id = p_player_id
+  AND NOT public.is_player_taken(p_league_id, p_player_id);
+
+  IF v_player_name IS NULL THEN
+    RAISE EXCEPTION 'Player not available!' USING ERRCODE = 'DRF04';
+  END IF;
+
+  v_result := public.record_draft_pick(p_league_id, v_team_id, p_player_id, FALSE);
+
+  RETURN json_build_object(
+    'message', v_team_name || ' picked ' || v_player_name,
+    'pick_number', v_result->'pick_number',
+    'round', v_result->'round'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Reset a league's draft (for testing, commissioner only)
+CREATE OR REPLACE FUNCTION public.reset_draft(p_league_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_draft_id UUID;
+  v_user_id UUID;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leagues
+    WHERE id = p_league_id AND commissioner_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Only the league commissioner can reset the draft';
+  END IF;
+
+  SELECT draft_id INTO v_draft_id FROM public.draft_state WHERE league_id = p_league_id;
+
+  IF v_draft_id IS NOT NULL THEN
+    DELETE FROM public.draft_picks WHERE draft_id = v_draft_id;
+    DELETE FROM public.drafts WHERE id = v_draft_id;
+  END IF;
+
+  -- Delete teams in the league
+  DELETE FROM public.teams WHERE league_id = p_league_id;
+
+  DELETE FROM public.draft_state WHERE league_id = p_league_id;
+
+  UPDATE public.leagues
+  SET draft_status = 'pending'
+  WHERE id = p_league_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Seed players without the global flag
+CREATE OR REPLACE FUNCTION public.init_draft_players()
+RETURNS VOID AS $$
+BEGIN
+  -- Insert 20 simple players if they don't exist
+  INSERT INTO public.players (first_name, last_name, position)
+  SELECT
+    'Player',
+    i::TEXT,
+    'QB' -- Default position
+  FROM generate_series(1, 20) AS i
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.players
+    WHERE first_name = 'Player' AND last_name = i::TEXT
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- The global flag is no longer read or written anywhere
+DROP INDEX IF EXISTS public.idx_players_available;
+ALTER TABLE public.players DROP COLUMN IF EXISTS is_available;
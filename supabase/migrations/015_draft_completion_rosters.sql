@@ -0,0 +1,159 @@
+-- Draft Completion Migration
+-- The last pick of a live draft now completes it: the drafts row and the
+-- league are marked completed and every drafted player joins the owning
+-- team's roster. Starters are assigned in pick order against the league's
+-- lineup slots (leagues.settings->'lineup'); everyone else goes to the bench.
+--
+-- Default lineup: QB 1, RB 2, WR 2, TE 1, FLEX 1 (RB/WR/TE), K 1, DEF 1
+
+-- Finish a league's draft and populate rosters from its picks
+CREATE OR REPLACE FUNCTION public.complete_draft(p_league_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_draft_id UUID;
+  v_lineup JSONB;
+  v_open_slots JSONB;
+  v_team_id UUID;
+  v_pick RECORD;
+  v_slot TEXT;
+  v_roster_count INTEGER := 0;
+BEGIN
+  SELECT draft_id INTO v_draft_id FROM public.draft_state WHERE league_id = p_league_id;
+
+  IF v_draft_id IS NULL THEN
+    RAISE EXCEPTION 'Draft has not started';
+  END IF;
+
+  SELECT COALESCE(
+    settings->'lineup',
+    '{"QB": 1, "RB": 2, "WR": 2, "TE": 1, "FLEX": 1, "K": 1, "DEF": 1}'::JSONB
+  ) INTO v_lineup
+  FROM public.leagues
+  WHERE id = p_league_id;
+
+  FOR v_team_id IN
+    SELECT id FROM public.teams WHERE league_id = p_league_id
+  LOOP
+    -- Each team fills its own copy of the lineup, earliest picks first
+    v_open_slots := v_lineup;
+
+    FOR v_pick IN
+      SELECT dp.player_id, UPPER(COALESCE(p.position, '')) AS position
+      FROM public.draft_picks dp
+      JOIN public.players p ON p.id = dp.player_id
+      WHERE dp.draft_id = v_draft_id
+      AND dp.team_id = v_team_id
+      ORDER BY dp.pick_number
+    LOOP
+      IF COALESCE((v_open_slots->>v_pick.position)::INTEGER, 0) > 0 THEN
+        v_slot := v_pick.position;
+      ELSIF v_pick.position IN ('RB', 'WR', 'TE')
+        AND COALESCE((v_open_slots->>'FLEX')::INTEGER, 0) > 0 THEN
+        v_slot := 'FLEX';
+      ELSE
+        v_slot := 'BN';
+      END IF;
+
+      IF v_slot != 'BN' THEN
+        v_open_slots := jsonb_set(
+          v_open_slots,
+          ARRAY[v_slot],
+          to_jsonb((v_open_slots->>v_slot)::INTEGER - 1)
+        );
+      END IF;
+
+      INSERT INTO public.rosters (team_id, player_id, position, is_starter)
+      VALUES (v_team_id, v_pick.player_id, v_slot, v_slot != 'BN')
+      ON CONFLICT (team_id, player_id) DO NOTHING;
+
+      v_roster_count := v_roster_count + 1;
+    END LOOP;
+  END LOOP;
+
+  UPDATE public.drafts
+  SET status = 'completed',
+      completed_at = NOW()
+  WHERE id = v_draft_id;
+
+  UPDATE public.draft_state
+  SET pick_deadline = NULL
+  WHERE league_id = p_league_id;
+
+  UPDATE public.leagues
+  SET draft_status = 'completed'
+  WHERE id = p_league_id;
+
+  RETURN json_build_object(
+    'message', 'Draft completed',
+    'draft_id', v_draft_id,
+    'rostered_players', v_roster_count
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Record a pick for the team on the clock and advance the draft
+-- Callers are responsible for validating the team and player first
+CREATE OR REPLACE FUNCTION public.record_draft_pick(
+  p_league_id UUID,
+  p_team_id UUID,
+  p_player_id UUID,
+  p_auto_picked BOOLEAN DEFAULT FALSE
+)
+RETURNS JSON AS $$
+DECLARE
+  state public.draft_state%ROWTYPE;
+  v_time_limit INTEGER;
+  team_count INTEGER;
+  new_pick_number INTEGER;
+  new_round INTEGER;
+  v_is_last_pick BOOLEAN;
+BEGIN
+  -- Lock the state row so a manual pick and the clock can't both take a slot
+  SELECT * INTO state FROM public.draft_state WHERE league_id = p_league_id FOR UPDATE;
+
+  SELECT pick_time_limit INTO v_time_limit FROM public.drafts WHERE id = state.draft_id;
+
+  new_pick_number := state.current_pick + 1;
+  team_count := array_length(state.draft_order, 1);
+  new_round := state.current_round;
+  v_is_last_pick := new_pick_number >= team_count * state.total_rounds;
+
+  -- Check if we need to move to next round
+  IF new_pick_number % team_count = 0 THEN
+    new_round := state.current_round + 1;
+  END IF;
+
+  INSERT INTO public.draft_picks (draft_id, team_id, player_id, round, pick_number, auto_picked)
+  VALUES (state.draft_id, p_team_id, p_player_id, state.current_round, new_pick_number, p_auto_picked);
+
+  -- Advance the draft and start the clock for the next slot
+  UPDATE public.draft_state
+  SET current_pick = new_pick_number,
+      current_round = new_round,
+      pick_deadline = CASE
+        WHEN v_is_last_pick THEN NULL
+        ELSE NOW() + make_interval(secs => COALESCE(v_time_limit, 120))
+      END
+  WHERE league_id = p_league_id;
+
+  UPDATE public.drafts
+  SET current_pick = new_pick_number,
+      current_round = new_round
+  WHERE id = state.draft_id;
+
+  -- The last pick finishes the draft and fills every team's roster
+  IF v_is_last_pick THEN
+    PERFORM public.complete_draft(p_league_id);
+  END IF;
+
+  RETURN json_build_object(
+    'pick_number', new_pick_number,
+    'round', new_round,
+    'auto_picked', p_auto_picked,
+    'draft_complete', v_is_last_pick
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Internal helper: only reachable through the pick RPCs
+REVOKE EXECUTE ON FUNCTION public.complete_draft(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,494 @@
+-- Commissioner Draft Controls Migration
+-- Lets the commissioner pause and resume the pick clock, undo the most recent
+-- pick, and pick on behalf of the team on the clock. Every action is written
+-- to draft_actions with the commissioner who took it.
+--
+-- make_pick_by_id gains one error code:
+--   DRF05 - draft is paused
+
+-- Paused drafts keep the seconds left on the clock instead of a deadline
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'draft_state'
+    AND column_name = 'paused'
+  ) THEN
+    ALTER TABLE public.draft_state ADD COLUMN paused BOOLEAN DEFAULT FALSE NOT NULL;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'draft_state'
+    AND column_name = 'paused_time_remaining'
+  ) THEN
+    ALTER TABLE public.draft_state ADD COLUMN paused_time_remaining INTEGER;
+  END IF;
+END $$;
+
+-- Audit log of commissioner actions during a draft
+CREATE TABLE IF NOT EXISTS public.draft_actions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  league_id UUID REFERENCES public.leagues(id) ON DELETE CASCADE NOT NULL,
+  draft_id UUID REFERENCES public.drafts(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('pause', 'resume', 'undo_pick', 'pick_on_behalf')),
+  details JSONB DEFAULT '{}'::jsonb NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_draft_actions_league_id ON public.draft_actions(league_id, created_at DESC);
+
+ALTER TABLE public.draft_actions ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the SECURITY DEFINER functions below
+CREATE POLICY "Public read draft_actions" ON public.draft_actions FOR SELECT USING (true);
+
+-- Record a pick for the team on the clock and advance the draft
+-- Callers are responsible for validating the team and player first
+CREATE OR REPLACE FUNCTION public.record_draft_pick(
+  p_league_id UUID,
+  p_team_id UUID,
+  p_player_id UUID,
+  p_auto_picked BOOLEAN DEFAULT FALSE
+)
+RETURNS JSON AS $$
+DECLARE
+  state public.draft_state%ROWTYPE;
+  v_time_limit INTEGER;
+  team_count INTEGER;
+  new_pick_number INTEGER;
+  new_round INTEGER;
+  v_is_last_pick BOOLEAN;
+BEGIN
+  -- Lock the state row so a manual pick and the clock can't both take a slot
+  SELECT * INTO state FROM public.draft_state WHERE league_id = p_league_id FOR UPDATE;
+
+  SELECT pick_time_limit INTO v_time_limit FROM public.drafts WHERE id = state.draft_id;
+
+  new_pick_number := state.current_pick + 1;
+  team_count := array_length(state.draft_order, 1);
+  new_round := state.current_round;
+  v_is_last_pick := new_pick_number >= team_count * state.total_rounds;
+
+  -- Check if we need to move to next round
+  IF new_pick_number % team_count = 0 THEN
+    new_round := state.current_round + 1;
+  END IF;
+
+  INSERT INTO public.draft_picks (draft_id, team_id, player_id, round, pick_number, auto_picked)
+  VALUES (state.draft_id, p_team_id, p_player_id, state.current_round, new_pick_number, p_auto_picked);
+
+  -- Advance the draft and start the clock for the next slot
+  -- While paused, the next slot keeps its full time until the draft resumes
+  UPDATE public.draft_state
+  SET current_pick = new_pick_number,
+      current_round = new_round,
+      pick_deadline = CASE
+        WHEN v_is_last_pick OR state.paused THEN NULL
+        ELSE NOW() + make_interval(secs => COALESCE(v_time_limit, 120))
+      END,
+      paused_time_remaining = CASE
+        WHEN state.paused AND NOT v_is_last_pick THEN COALESCE(v_time_limit, 120)
+        ELSE NULL
+      END
+  WHERE league_id = p_league_id;
+
+  UPDATE public.drafts
+  SET current_pick = new_pick_number,
+      current_round = new_round
+  WHERE id = state.draft_id;
+
+  -- The last pick finishes the draft and fills every team's roster
+  IF v_is_last_pick THEN
+    PERFORM public.complete_draft(p_league_id);
+  END IF;
+
+  RETURN json_build_object(
+    'pick_number', new_pick_number,
+    'round', new_round,
+    'auto_picked', p_auto_picked,
+    'draft_complete', v_is_last_pick
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Make a pick for the caller's team by player ID
+CREATE OR REPLACE FUNCTION public.make_pick_by_id(
+  p_league_id UUID,
+  p_player_id UUID,
+  p_pick_number INTEGER
+)
+RETURNS JSON AS $$
+DECLARE
+  state public.draft_state%ROWTYPE;
+  v_user_id UUID;
+  v_team_id UUID;
+  v_team_name TEXT;
+  v_player_name TEXT;
+  v_result JSON;
+BEGIN
+  -- Get current user ID from auth context
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the state row so the turn and pick checks can't go stale under the clock
+  SELECT * INTO state FROM public.draft_state WHERE league_id = p_league_id FOR UPDATE;
+  IF state.league_id IS NULL OR NOT state.started THEN
+    RAISE EXCEPTION 'Draft has not started' USING ERRCODE = 'DRF01';
+  END IF;
+
+  IF state.paused THEN
+    RAISE EXCEPTION 'Draft is paused' USING ERRCODE = 'DRF05';
+  END IF;
+
+  -- The client sends the pick it was looking at; anything else is a stale board
+  IF p_pick_number IS DISTINCT FROM state.current_pick + 1 THEN
+    RAISE EXCEPTION 'Pick % has already been made; the draft is on pick %',
+      p_pick_number, state.current_pick + 1
+      USING ERRCODE = 'DRF03';
+  END IF;
+
+  -- The team on the clock must belong to the caller
+  v_team_name := public.get_next_team(p_league_id);
+
+  SELECT id INTO v_team_id
+  FROM public.teams
+  WHERE league_id = p_league_id
+  AND name = v_team_name
+  AND owner_id = v_user_id;
+
+  IF v_team_id IS NULL THEN
+    RAISE EXCEPTION 'Not your turn!' USING ERRCODE = 'DRF02';
+  END IF;
+
+  -- The player must exist and not already be taken in this draft
+  SELECT TRIM(COALESCE(first_name, '') || ' ' || COALESCE(last_name, '')) INTO v_player_name
+  FROM public.players
+  WHERE id = p_player_id
+  AND NOT public.is_player_taken(p_league_id, p_player_id);
+
+  IF v_player_name IS NULL THEN
+    RAISE EXCEPTION 'Player not available!' USING ERRCODE = 'DRF04';
+  END IF;
+
+  v_result := public.record_draft_pick(p_league_id, v_team_id, p_player_id, FALSE);
+
+  RETURN json_build_object(
+    'message', v_team_name || ' picked ' || v_player_name,
+    'pick_number', v_result->'pick_number',
+    'round', v_result->'round'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+
+-- Pause a league's draft, stopping the pick clock (commissioner only)
+CREATE OR REPLACE FUNCTION public.pause_draft(p_league_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  state public.draft_state%ROWTYPE;
+  v_user_id UUID;
+  v_remaining INTEGER;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leagues
+    WHERE id = p_league_id AND commissioner_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Only the league commissioner can pause the draft';
+  END IF;
+
+  SELECT * INTO state FROM public.draft_state WHERE league_id = p_league_id FOR UPDATE;
+  IF state.league_id IS NULL OR NOT state.started THEN
+    RAISE EXCEPTION 'Draft has not started';
+  END IF;
+
+  IF state.paused THEN
+    RAISE EXCEPTION 'Draft is already paused';
+  END IF;
+
+  -- No deadline means the clock had already stopped; resume gives full time
+  IF state.pick_deadline IS NOT NULL THEN
+    v_remaining := GREATEST(
+      CEIL(EXTRACT(EPOCH FROM (state.pick_deadline - NOW())))::INTEGER,
+      0
+    );
+  END IF;
+
+  UPDATE public.draft_state
+  SET paused = TRUE,
+      paused_time_remaining = v_remaining,
+      pick_deadline = NULL
+  WHERE league_id = p_league_id;
+
+  INSERT INTO public.draft_actions (league_id, draft_id, actor_id, action, details)
+  VALUES (
+    p_league_id, state.draft_id, v_user_id, 'pause',
+    jsonb_build_object('pick_number', state.current_pick + 1, 'seconds_remaining', v_remaining)
+  );
+
+  RETURN json_build_object(
+    'message', 'Draft paused',
+    'seconds_remaining', v_remaining
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Resume a paused draft, restarting the clock where it stopped (commissioner only)
+CREATE OR REPLACE FUNCTION public.resume_draft(p_league_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  state public.draft_state%ROWTYPE;
+  v_user_id UUID;
+  v_time_limit INTEGER;
+  v_remaining INTEGER;
+  v_is_complete BOOLEAN;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leagues
+    WHERE id = p_league_id AND commissioner_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Only the league commissioner can resume the draft';
+  END IF;
+
+  SELECT * INTO state FROM public.draft_state WHERE league_id = p_league_id FOR UPDATE;
+  IF state.league_id IS NULL OR NOT state.paused THEN
+    RAISE EXCEPTION 'Draft is not paused';
+  END IF;
+
+  SELECT pick_time_limit INTO v_time_limit FROM public.drafts WHERE id = state.draft_id;
+
+  -- A slot with no time left still gets a few seconds so the manager sees it
+  v_remaining := GREATEST(COALESCE(state.paused_time_remaining, v_time_limit, 120), 5);
+  v_is_complete := state.current_pick >= array_length(state.draft_order, 1) * state.total_rounds;
+
+  UPDATE public.draft_state
+  SET paused = FALSE,
+      paused_time_remaining = NULL,
+      pick_deadline = CASE
+        WHEN v_is_complete THEN NULL
+        ELSE NOW() + make_interval(secs => v_remaining)
+      END
+  WHERE league_id = p_league_id;
+
+  INSERT INTO public.draft_actions (league_id, draft_id, actor_id, action, details)
+  VALUES (
+    p_league_id, state.draft_id, v_user_id, 'resume',
+    jsonb_build_object('pick_number', state.current_pick + 1, 'seconds_remaining', v_remaining)
+  );
+
+  RETURN json_build_object(
+    'message', 'Draft resumed',
+    'seconds_remaining', v_remaining
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Roll back the most recent pick in a league's draft (commissioner only)
+-- The player becomes available again and the team is back on the clock
+CREATE OR REPLACE FUNCTION public.undo_last_pick(p_league_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  state public.draft_state%ROWTYPE;
+  v_user_id UUID;
+  v_time_limit INTEGER;
+  v_last_pick public.draft_picks%ROWTYPE;
+  v_team_name TEXT;
+  v_player_name TEXT;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leagues
+    WHERE id = p_league_id AND commissioner_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Only the league commissioner can undo picks';
+  END IF;
+
+  SELECT * INTO state FROM public.draft_state WHERE league_id = p_league_id FOR UPDATE;
+  IF state.league_id IS NULL OR NOT state.started THEN
+    RAISE EXCEPTION 'Draft has not started';
+  END IF;
+
+  SELECT * INTO v_last_pick
+  FROM public.draft_picks
+  WHERE draft_id = state.draft_id
+  ORDER BY pick_number DESC
+  LIMIT 1;
+
+  IF v_last_pick.id IS NULL THEN
+    RAISE EXCEPTION 'No picks to undo';
+  END IF;
+
+  SELECT name INTO v_team_name FROM public.teams WHERE id = v_last_pick.team_id;
+  SELECT TRIM(COALESCE(first_name, '') || ' ' || COALESCE(last_name, '')) INTO v_player_name
+  FROM public.players
+  WHERE id = v_last_pick.player_id;
+
+  -- Undoing the final pick reopens a completed draft, so its rosters go too
+  IF EXISTS (
+    SELECT 1 FROM public.drafts WHERE id = state.draft_id AND status = 'completed'
+  ) THEN
+    DELETE FROM public.rosters r
+    USING public.draft_picks dp
+    WHERE dp.draft_id = state.draft_id
+    AND r.team_id = dp.team_id
+    AND r.player_id = dp.player_id;
+
+    UPDATE public.drafts
+    SET status = 'in_progress',
+        completed_at = NULL
+    WHERE id = state.draft_id;
+
+    UPDATE public.leagues
+    SET draft_status = 'in_progress'
+    WHERE id = p_league_id;
+  END IF;
+
+  DELETE FROM public.draft_picks WHERE id = v_last_pick.id;
+
+  SELECT pick_time_limit INTO v_time_limit FROM public.drafts WHERE id = state.draft_id;
+
+  -- Put the slot back on the clock with its full time
+  UPDATE public.draft_state
+  SET current_pick = v_last_pick.pick_number - 1,
+      current_round = v_last_pick.round,
+      pick_deadline = CASE
+        WHEN state.paused THEN NULL
+        ELSE NOW() + make_interval(secs => COALESCE(v_time_limit, 120))
+      END,
+      paused_time_remaining = CASE
+        WHEN state.paused THEN COALESCE(v_time_limit, 120)
+        ELSE NULL
+      END
+  WHERE league_id = p_league_id;
+
+  UPDATE public.drafts
+  SET current_pick = v_last_pick.pick_number - 1,
+      current_round = v_last_pick.round
+  WHERE id = state.draft_id;
+
+  INSERT INTO public.draft_actions (league_id, draft_id, actor_id, action, details)
+  VALUES (
+    p_league_id, state.draft_id, v_user_id, 'undo_pick',
+    jsonb_build_object(
+      'pick_number', v_last_pick.pick_number,
+      'team_id', v_last_pick.team_id,
+      'team_name', v_team_name,
+      'player_id', v_last_pick.player_id,
+      'player_name', v_player_name
+    )
+  );
+
+  RETURN json_build_object(
+    'message', 'Undid pick ' || v_last_pick.pick_number || ': ' || v_team_name || ' - ' || v_player_name,
+    'pick_number', v_last_pick.pick_number,
+    'round', v_last_pick.round
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Make a pick for whichever team is on the clock (commissioner only)
+-- Used when a manager is absent; works while the draft is paused
+CREATE OR REPLACE FUNCTION public.commissioner_make_pick(
+  p_league_id UUID,
+  p_player_id UUID,
+  p_pick_number INTEGER
+)
+RETURNS JSON AS $$
+DECLARE
+  state public.draft_state%ROWTYPE;
+  v_user_id UUID;
+  v_team_id UUID;
+  v_team_name TEXT;
+  v_player_name TEXT;
+  v_result JSON;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leagues
+    WHERE id = p_league_id AND commissioner_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Only the league commissioner can pick for another team';
+  END IF;
+
+  SELECT * INTO state FROM public.draft_state WHERE league_id = p_league_id FOR UPDATE;
+  IF state.league_id IS NULL OR NOT state.started THEN
+    RAISE EXCEPTION 'Draft has not started' USING ERRCODE = 'DRF01';
+  END IF;
+
+  IF p_pick_number IS DISTINCT FROM state.current_pick + 1 THEN
+    RAISE EXCEPTION 'Pick % has already been made; the draft is on pick %',
+      p_pick_number, state.current_pick + 1
+      USING ERRCODE = 'DRF03';
+  END IF;
+
+  v_team_name := public.get_next_team(p_league_id);
+
+  SELECT id INTO v_team_id
+  FROM public.teams
+  WHERE league_id = p_league_id AND name = v_team_name;
+
+  IF v_team_id IS NULL THEN
+    RAISE EXCEPTION 'Team not found';
+  END IF;
+
+  SELECT TRIM(COALESCE(first_name, '') || ' ' || COALESCE(last_name, '')) INTO v_player_name
+  FROM public.players
+  WHERE id = p_player_id
+  AND NOT public.is_player_taken(p_league_id, p_player_id);
+
+  IF v_player_name IS NULL THEN
+    RAISE EXCEPTION 'Player not available!' USING ERRCODE = 'DRF04';
+  END IF;
+
+  v_result := public.record_draft_pick(p_league_id, v_team_id, p_player_id, FALSE);
+
+  INSERT INTO public.draft_actions (league_id, draft_id, actor_id, action, details)
+  VALUES (
+    p_league_id, state.draft_id, v_user_id, 'pick_on_behalf',
+    jsonb_build_object(
+      'pick_number', p_pick_number,
+      'team_id', v_team_id,
+      'team_name', v_team_name,
+      'player_id', p_player_id,
+      'player_name', v_player_name
+    )
+  );
+
+  RETURN json_build_object(
+    'message', 'Commissioner picked ' || v_player_name || ' for ' || v_team_name,
+    'pick_number', v_result->'pick_number',
+    'round', v_result->'round'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,353 @@
+-- Draft Order Setup Migration
+-- The commissioner sets the draft order before draft day instead of
+-- start_draft shuffling at random. The order lives in teams.draft_position
+-- (1 = first pick) and is published once locked via leagues.draft_order_locked_at.
+--
+-- Order methods (stored in leagues.settings->>'draft_order_method'):
+--   random            - shuffle the league's teams
+--   manual            - the commissioner's own ordering
+--   reverse_standings - lowest points in the league's last scored season first
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'leagues'
+    AND column_name = 'draft_order_locked_at'
+  ) THEN
+    ALTER TABLE public.leagues ADD COLUMN draft_order_locked_at TIMESTAMP WITH TIME ZONE;
+  END IF;
+END $$;
+
+-- Set a league's draft order (commissioner only, before the draft and while unlocked)
+-- p_team_ids is required for the manual method and ignored otherwise
+CREATE OR REPLACE FUNCTION public.set_draft_order(
+  p_league_id UUID,
+  p_method TEXT,
+  p_team_ids UUID[] DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID;
+  v_league public.leagues%ROWTYPE;
+  v_team_count INTEGER;
+  v_last_season INTEGER;
+  v_order UUID[];
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_league FROM public.leagues WHERE id = p_league_id;
+
+  IF v_league.id IS NULL OR v_league.commissioner_id != v_user_id THEN
+    RAISE EXCEPTION 'Only the league commissioner can set the draft order';
+  END IF;
+
+  IF v_league.draft_status != 'pending' THEN
+    RAISE EXCEPTION 'Draft order can only be changed before the draft starts';
+  END IF;
+
+  IF v_league.draft_order_locked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Draft order is locked; unlock it to make changes';
+  END IF;
+
+  SELECT COUNT(*) INTO v_team_count FROM public.teams WHERE league_id = p_league_id;
+
+  IF v_team_count = 0 THEN
+    RAISE EXCEPTION 'League has no teams yet';
+  END IF;
+
+  IF p_method = 'random' THEN
+    SELECT ARRAY_AGG(id ORDER BY random()) INTO v_order
+    FROM public.teams
+    WHERE league_id = p_league_id;
+
+  ELSIF p_method = 'manual' THEN
+    -- Must name every team in the league exactly once
+    IF p_team_ids IS NULL
+      OR array_length(p_team_ids, 1) != v_team_count
+      OR (SELECT COUNT(DISTINCT t) FROM unnest(p_team_ids) AS t) != v_team_count
+      OR EXISTS (
+        SELECT 1 FROM unnest(p_team_ids) AS t
+        WHERE NOT EXISTS (
+          SELECT 1 FROM public.teams WHERE id = t AND league_id = p_league_id
+        )
+      )
+    THEN
+      RAISE EXCEPTION 'Manual order must list every team in the league exactly once';
+    END IF;
+
+    v_order := p_team_ids;
+
+  ELSIF p_method = 'reverse_standings' THEN
+    SELECT MAX(season) INTO v_last_season FROM public.scores WHERE league_id = p_league_id;
+
+    IF v_last_season IS NULL THEN
+      RAISE EXCEPTION 'No scored season to build standings from';
+    END IF;
+
+    -- Teams without scores last season (new owners) pick first; ties are random
+    SELECT ARRAY_AGG(t.id ORDER BY COALESCE(s.total_points, 0), random()) INTO v_order
+    FROM public.teams t
+    LEFT JOIN (
+      SELECT team_id, SUM(points) AS total_points
+      FROM public.scores
+      WHERE league_id = p_league_id AND season = v_last_season
+      GROUP BY team_id
+    ) s ON s.team_id = t.id
+    WHERE t.league_id = p_league_id;
+
+  ELSE
+    RAISE EXCEPTION 'Unknown draft order method: %', p_method;
+  END IF;
+
+  UPDATE public.teams t
+  SET draft_position = o.position
+  FROM unnest(v_order) WITH ORDINALITY AS o(team_id, position)
+  WHERE t.id = o.team_id;
+
+  UPDATE public.leagues
+  SET settings = COALESCE(settings, '{}'::jsonb) || jsonb_build_object('draft_order_method', p_method)
+  WHERE id = p_league_id;
+
+  RETURN json_build_object(
+    'message', 'Draft order updated',
+    'method', p_method,
+    'order', v_order
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Lock and publish a league's draft order (commissioner only)
+CREATE OR REPLACE FUNCTION public.lock_draft_order(p_league_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leagues
+    WHERE id = p_league_id AND commissioner_id = v_user_id AND draft_status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'Only the league commissioner can lock the draft order before the draft';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE league_id = p_league_id AND draft_position IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Every team needs a draft position before the order can be locked';
+  END IF;
+
+  UPDATE public.leagues
+  SET draft_order_locked_at = NOW()
+  WHERE id = p_league_id;
+
+  RETURN json_build_object('message', 'Draft order locked');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Unlock a league's draft order so it can be changed again (commissioner only)
+CREATE OR REPLACE FUNCTION public.unlock_draft_order(p_league_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leagues
+    WHERE id = p_league_id AND commissioner_id = v_user_id AND draft_status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'Only the league commissioner can unlock the draft order before the draft';
+  END IF;
+
+  UPDATE public.leagues
+  SET draft_order_locked_at = NULL
+  WHERE id = p_league_id;
+
+  RETURN json_build_object('message', 'Draft order unlocked');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Start a league's draft in its published order and put the first pick on the clock
+CREATE OR REPLACE FUNCTION public.start_draft(p_league_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  team_count INTEGER;
+  v_max_teams INTEGER;
+  v_min_teams INTEGER;
+  v_total_rounds INTEGER;
+  v_time_limit INTEGER;
+  v_order_locked BOOLEAN;
+  shuffled_teams TEXT[];
+  v_draft_id UUID;
+  v_user_id UUID;
+BEGIN
+  -- Get current user ID from auth context
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Verify user is commissioner of the league
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leagues
+    WHERE id = p_league_id AND commissioner_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Only the league commissioner can start the draft';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.draft_state
+    WHERE league_id = p_league_id AND started
+  ) THEN
+    RAISE EXCEPTION 'Draft has already started for this league';
+  END IF;
+
+  -- Get team limits, round count and pick clock from league settings
+  SELECT
+    max_teams,
+    COALESCE((settings->>'min_teams')::INTEGER, 2),
+    COALESCE((settings->>'draft_rounds')::INTEGER, 5),
+    COALESCE((settings->>'pick_time_limit')::INTEGER, 120),
+    draft_order_locked_at IS NOT NULL
+  INTO v_max_teams, v_min_teams, v_total_rounds, v_time_limit, v_order_locked
+  FROM public.leagues
+  WHERE id = p_league_id;
+
+  IF v_total_rounds < 1 THEN
+    RAISE EXCEPTION 'Draft must have at least 1 round';
+  END IF;
+
+  IF v_time_limit < 10 THEN
+    RAISE EXCEPTION 'Pick time limit must be at least 10 seconds';
+  END IF;
+
+  -- Count teams in this league
+  SELECT COUNT(*) INTO team_count
+  FROM public.teams
+  WHERE league_id = p_league_id;
+
+  IF team_count < v_min_teams THEN
+    RAISE EXCEPTION 'Need at least % teams to start (currently have %)', v_min_teams, team_count;
+  END IF;
+
+  IF team_count > v_max_teams THEN
+    RAISE EXCEPTION 'League allows at most % teams (currently have %)', v_max_teams, team_count;
+  END IF;
+
+  -- Use the published order when there is one, otherwise shuffle
+  IF v_order_locked THEN
+    IF EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE league_id = p_league_id AND draft_position IS NULL
+    ) THEN
+      RAISE EXCEPTION 'A team joined after the draft order was locked; unlock and update the order first';
+    END IF;
+
+    SELECT ARRAY_AGG(name ORDER BY draft_position) INTO shuffled_teams
+    FROM public.teams
+    WHERE league_id = p_league_id;
+  ELSE
+    SELECT ARRAY_AGG(name ORDER BY random()) INTO shuffled_teams
+    FROM public.teams
+    WHERE league_id = p_league_id;
+  END IF;
+
+  -- Create draft record
+  INSERT INTO public.drafts (
+    league_id, status, current_pick, total_picks, current_round, pick_time_limit, started_at
+  )
+  VALUES (
+    p_league_id, 'in_progress', 0, team_count * v_total_rounds, 1, v_time_limit, NOW()
+  )
+  RETURNING id INTO v_draft_id;
+
+  -- Create or reset this league's draft state
+  INSERT INTO public.draft_state (
+    league_id, draft_id, started, draft_order, current_round, current_pick,
+    max_teams, total_rounds, pick_deadline
+  )
+  VALUES (
+    p_league_id, v_draft_id, TRUE, shuffled_teams, 1, 0,
+    team_count, v_total_rounds, NOW() + make_interval(secs => v_time_limit)
+  )
+  ON CONFLICT (league_id) DO UPDATE
+  SET draft_id = EXCLUDED.draft_id,
+      started = TRUE,
+      draft_order = EXCLUDED.draft_order,
+      current_round = 1,
+      current_pick = 0,
+      max_teams = EXCLUDED.max_teams,
+      total_rounds = EXCLUDED.total_rounds,
+      pick_deadline = EXCLUDED.pick_deadline;
+
+  -- Update league draft status
+  UPDATE public.leagues
+  SET draft_status = 'in_progress'
+  WHERE id = p_league_id;
+
+  RETURN json_build_object(
+    'message', 'Draft started',
+    'order', shuffled_teams,
+    'draft_id', v_draft_id,
+    'league_id', p_league_id,
+    'total_rounds', v_total_rounds
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Reset a league's draft (for testing, commissioner only)
+CREATE OR REPLACE FUNCTION public.reset_draft(p_league_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_draft_id UUID;
+  v_user_id UUID;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leagues
+    WHERE id = p_league_id AND commissioner_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Only the league commissioner can reset the draft';
+  END IF;
+
+  SELECT draft_id INTO v_draft_id FROM public.draft_state WHERE league_id = p_league_id;
+
+  IF v_draft_id IS NOT NULL THEN
+    DELETE FROM public.draft_picks WHERE draft_id = v_draft_id;
+    DELETE FROM public.drafts WHERE id = v_draft_id;
+  END IF;
+
+  -- Delete teams in the league
+  DELETE FROM public.teams WHERE league_id = p_league_id;
+
+  DELETE FROM public.draft_state WHERE league_id = p_league_id;
+
+  -- Teams are gone, so their published order goes with them
+  UPDATE public.leagues
+  SET draft_status = 'pending',
+      draft_order_locked_at = NULL
+  WHERE id = p_league_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,615 @@
+-- Draft Formats Migration
+-- The draft format (leagues.settings->>'draft_format': snake, linear or
+-- third_round_reversal) no longer lives in SQL. The client builds the pick
+-- sequence with shared/draftOrder.ts and passes it to start_draft and
+-- create_league_mock_draft; the database checks its shape, stores it, and
+-- every "whose turn is it" lookup reads from it.
+--
+-- A pick sequence holds one 0-based index into draft_order per pick, so
+-- sequence[n] (1-based in SQL) is the team making overall pick n.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'draft_state'
+    AND column_name = 'pick_sequence'
+  ) THEN
+    ALTER TABLE public.draft_state ADD COLUMN pick_sequence INTEGER[];
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'draft_state'
+    AND column_name = 'draft_format'
+  ) THEN
+    ALTER TABLE public.draft_state ADD COLUMN draft_format TEXT DEFAULT 'snake' NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'mock_drafts'
+    AND column_name = 'pick_sequence'
+  ) THEN
+    ALTER TABLE public.mock_drafts ADD COLUMN pick_sequence INTEGER[];
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'mock_drafts'
+    AND column_name = 'draft_format'
+  ) THEN
+    ALTER TABLE public.mock_drafts ADD COLUMN draft_format TEXT DEFAULT 'snake' NOT NULL;
+  END IF;
+END $$;
+
+-- Drafts already under way were snake drafts; give them their sequence
+UPDATE public.draft_state ds
+SET pick_sequence = ARRAY(
+  SELECT CASE WHEN r % 2 = 0 THEN n - 1 - i ELSE i END
+  FROM generate_series(1, ds.total_rounds) AS r,
+       generate_series(0, n - 1) AS i
+  ORDER BY r, i
+)
+FROM (SELECT league_id, array_length(draft_order, 1) AS n FROM public.draft_state) counts
+WHERE counts.league_id = ds.league_id
+AND counts.n > 0
+AND ds.pick_sequence IS NULL;
+
+UPDATE public.mock_drafts md
+SET pick_sequence = ARRAY(
+  SELECT CASE WHEN r % 2 = 0 THEN n - 1 - i ELSE i END
+  FROM generate_series(1, md.total_rounds) AS r,
+       generate_series(0, n - 1) AS i
+  ORDER BY r, i
+)
+FROM (SELECT id, array_length(draft_order, 1) AS n FROM public.mock_drafts) counts
+WHERE counts.id = md.id
+AND counts.n > 0
+AND md.pick_sequence IS NULL;
+
+-- Check a client-built pick sequence: one entry per pick, and every round
+-- gives each team exactly one pick
+CREATE OR REPLACE FUNCTION public.validate_pick_sequence(
+  p_sequence INTEGER[],
+  p_team_count INTEGER,
+  p_total_rounds INTEGER
+)
+RETURNS VOID AS $$
+DECLARE
+  v_round INTEGER;
+BEGIN
+  IF p_sequence IS NULL OR COALESCE(array_length(p_sequence, 1), 0) != p_team_count * p_total_rounds THEN
+    RAISE EXCEPTION 'Pick sequence must have % picks (% teams x % rounds); refresh and try again',
+      p_team_count * p_total_rounds, p_team_count, p_total_rounds;
+  END IF;
+
+  FOR v_round IN 0..p_total_rounds - 1 LOOP
+    IF (
+      SELECT ARRAY_AGG(slot ORDER BY slot)
+      FROM unnest(p_sequence[v_round * p_team_count + 1 : (v_round + 1) * p_team_count]) AS slot
+    ) IS DISTINCT FROM ARRAY(SELECT generate_series(0, p_team_count - 1)) THEN
+      RAISE EXCEPTION 'Round % of the pick sequence must give every team exactly one pick', v_round + 1;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Team on the clock for a 0-indexed pick, from a draft order and pick sequence
+CREATE OR REPLACE FUNCTION public.pick_sequence_team(
+  p_draft_order TEXT[],
+  p_sequence INTEGER[],
+  p_current_pick INTEGER
+)
+RETURNS TEXT AS $$
+BEGIN
+  IF p_sequence IS NULL OR p_current_pick >= COALESCE(array_length(p_sequence, 1), 0) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN p_draft_order[p_sequence[p_current_pick + 1] + 1];
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Get next team to pick in a league's draft
+CREATE OR REPLACE FUNCTION public.get_next_team(p_league_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  state public.draft_state%ROWTYPE;
+BEGIN
+  SELECT * INTO state FROM public.draft_state WHERE league_id = p_league_id;
+  IF state.league_id IS NULL OR NOT state.started THEN RETURN NULL; END IF;
+
+  RETURN public.pick_sequence_team(state.draft_order, state.pick_sequence, state.current_pick);
+END;
+$$ LANGUAGE plpgsql;
+
+-- The sequence is now required, so drop the signature that shuffled without one
+DROP FUNCTION IF EXISTS public.start_draft(UUID);
+DROP FUNCTION IF EXISTS public.create_league_mock_draft(UUID, TEXT, INTEGER, INTEGER);
+
+-- Start a league's draft in its published order and put the first pick on the clock
+-- p_pick_sequence comes from buildPickSequence in shared/draftOrder.ts
+CREATE OR REPLACE FUNCTION public.start_draft(p_league_id UUID, p_pick_sequence INTEGER[])
+RETURNS JSON AS $$
+DECLARE
+  team_count INTEGER;
+  v_max_teams INTEGER;
+  v_min_teams INTEGER;
+  v_total_rounds INTEGER;
+  v_time_limit INTEGER;
+  v_order_locked BOOLEAN;
+  v_draft_format TEXT;
+  shuffled_teams TEXT[];
+  v_draft_id UUID;
+  v_user_id UUID;
+BEGIN
+  -- Get current user ID from auth context
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Verify user is commissioner of the league
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leagues
+    WHERE id = p_league_id AND commissioner_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Only the league commissioner can start the draft';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.draft_state
+    WHERE league_id = p_league_id AND started
+  ) THEN
+    RAISE EXCEPTION 'Draft has already started for this league';
+  END IF;
+
+  -- Get team limits, round count and pick clock from league settings
+  SELECT
+    max_teams,
+    COALESCE((settings->>'min_teams')::INTEGER, 2),
+    COALESCE((settings->>'draft_rounds')::INTEGER, 5),
+    COALESCE((settings->>'pick_time_limit')::INTEGER, 120),
+    draft_order_locked_at IS NOT NULL,
+    COALESCE(settings->>'draft_format', 'snake')
+  INTO v_max_teams, v_min_teams, v_total_rounds, v_time_limit, v_order_locked, v_draft_format
+  FROM public.leagues
+  WHERE id = p_league_id;
+
+  IF v_total_rounds < 1 THEN
+    RAISE EXCEPTION 'Draft must have at least 1 round';
+  END IF;
+
+  IF v_time_limit < 10 THEN
+    RAISE EXCEPTION 'Pick time limit must be at least 10 seconds';
+  END IF;
+
+  -- Count teams in this league
+  SELECT COUNT(*) INTO team_count
+  FROM public.teams
+  WHERE league_id = p_league_id;
+
+  IF team_count < v_min_teams THEN
+    RAISE EXCEPTION 'Need at least % teams to start (currently have %)', v_min_teams, team_count;
+  END IF;
+
+  IF team_count > v_max_teams THEN
+    RAISE EXCEPTION 'League allows at most % teams (currently have %)', v_max_teams, team_count;
+  END IF;
+
+  PERFORM public.validate_pick_sequence(p_pick_sequence, team_count, v_total_rounds);
+
+  -- Use the published order when there is one, otherwise shuffle
+  IF v_order_locked THEN
+    IF EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE league_id = p_league_id AND draft_position IS NULL
+    ) THEN
+      RAISE EXCEPTION 'A team joined after the draft order was locked; unlock and update the order first';
+    END IF;
+
+    SELECT ARRAY_AGG(name ORDER BY draft_position) INTO shuffled_teams
+    FROM public.teams
+    WHERE league_id = p_league_id;
+  ELSE
+    SELECT ARRAY_AGG(name ORDER BY random()) INTO shuffled_teams
+    FROM public.teams
+    WHERE league_id = p_league_id;
+  END IF;
+
+  -- Create draft record
+  INSERT INTO public.drafts (
+    league_id, status, current_pick, total_picks, current_round, pick_time_limit, started_at
+  )
+  VALUES (
+    p_league_id, 'in_progress', 0, team_count * v_total_rounds, 1, v_time_limit, NOW()
+  )
+  RETURNING id INTO v_draft_id;
+
+  -- Create or reset this league's draft state
+  INSERT INTO public.draft_state (
+    league_id, draft_id, started, draft_order, current_round, current_pick,
+    max_teams, total_rounds, pick_deadline, pick_sequence, draft_format
+  )
+  VALUES (
+    p_league_id, v_draft_id, TRUE, shuffled_teams, 1, 0,
+    team_count, v_total_rounds, NOW() + make_interval(secs => v_time_limit),
+    p_pick_sequence, v_draft_format
+  )
+  ON CONFLICT (league_id) DO UPDATE
+  SET draft_id = EXCLUDED.draft_id,
+      started = TRUE,
+      draft_order = EXCLUDED.draft_order,
+      current_round = 1,
+      current_pick = 0,
+      max_teams = EXCLUDED.max_teams,
+      total_rounds = EXCLUDED.total_rounds,
+      pick_deadline = EXCLUDED.pick_deadline,
+      pick_sequence = EXCLUDED.pick_sequence,
+      draft_format = EXCLUDED.draft_format;
+
+  -- Update league draft status
+  UPDATE public.leagues
+  SET draft_status = 'in_progress'
+  WHERE id = p_league_id;
+
+  RETURN json_build_object(
+    'message', 'Draft started',
+    'order', shuffled_teams,
+    'draft_id', v_draft_id,
+    'league_id', p_league_id,
+    'total_rounds', v_total_rounds,
+    'draft_format', v_draft_format
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to create a mock draft within an existing league
+-- p_pick_sequence comes from buildPickSequence in shared/draftOrder.ts
+CREATE OR REPLACE FUNCTION public.create_league_mock_draft(
+  p_league_id UUID,
+  p_user_team_name TEXT,
+  p_num_bots INTEGER DEFAULT 3,
+  p_total_rounds INTEGER DEFAULT 5,
+  p_draft_format TEXT DEFAULT 'snake',
+  p_pick_sequence INTEGER[] DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID;
+  v_mock_draft_id UUID;
+  v_user_team_id UUID;
+  v_total_teams INTEGER;
+  v_bot_names TEXT[] := ARRAY[
+    'Bot Warriors', 'AI Titans', 'Robo Raiders', 'Cyber Crusaders',
+    'Digital Dragons', 'Machine Monsters', 'Virtual Vikings', 'Binary Bears',
+    'Circuit Sharks', 'Data Demons', 'Neural Knights'
+  ];
+  v_bot_name TEXT;
+  v_shuffled_teams TEXT[];
+  i INTEGER;
+BEGIN
+  -- Get current user ID from auth context
+  v_user_id := auth.uid();
+  
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Verify user has a team in this league
+  IF NOT EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE league_id = p_league_id AND owner_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'You must have a team in this league to create a mock draft';
+  END IF;
+
+  -- Verify league exists and is not a mock league
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leagues
+    WHERE id = p_league_id AND (is_mock IS NULL OR is_mock = FALSE)
+  ) THEN
+    RAISE EXCEPTION 'League not found or is already a mock league';
+  END IF;
+
+  v_total_teams := p_num_bots + 1;
+
+  PERFORM public.validate_pick_sequence(p_pick_sequence, v_total_teams, p_total_rounds);
+
+  -- Create the mock draft record
+  INSERT INTO public.mock_drafts (
+    league_id,
+    creator_id,
+    num_bots,
+    total_rounds,
+    status,
+    draft_format,
+    pick_sequence
+  )
+  VALUES (
+    p_league_id,
+    v_user_id,
+    p_num_bots,
+    p_total_rounds,
+    'in_progress',
+    p_draft_format,
+    p_pick_sequence
+  )
+  RETURNING id INTO v_mock_draft_id;
+
+  -- Create user's mock team
+  INSERT INTO public.mock_draft_teams (mock_draft_id, name, is_bot, owner_id)
+  VALUES (v_mock_draft_id, p_user_team_name, FALSE, v_user_id)
+  RETURNING id INTO v_user_team_id;
+
+  -- Create shuffled team order starting with user
+  v_shuffled_teams := ARRAY[p_user_team_name];
+
+  -- Create bot teams
+  FOR i IN 1..p_num_bots LOOP
+    v_bot_name := v_bot_names[(i - 1) % array_length(v_bot_names, 1) + 1];
+    
+    INSERT INTO public.mock_draft_teams (mock_draft_id, name, is_bot, owner_id)
+    VALUES (v_mock_draft_id, v_bot_name, TRUE, NULL);
+    
+    v_shuffled_teams := array_append(v_shuffled_teams, v_bot_name);
+  END LOOP;
+
+  -- Shuffle the draft order
+  SELECT ARRAY_AGG(name ORDER BY random()) INTO v_shuffled_teams
+  FROM public.mock_draft_teams
+  WHERE mock_draft_id = v_mock_draft_id;
+
+  -- Update mock draft with shuffled order
+  UPDATE public.mock_drafts
+  SET draft_order = v_shuffled_teams
+  WHERE id = v_mock_draft_id;
+
+  RETURN json_build_object(
+    'mock_draft_id', v_mock_draft_id,
+    'league_id', p_league_id,
+    'user_team_id', v_user_team_id,
+    'total_teams', v_total_teams,
+    'draft_order', v_shuffled_teams,
+    'message', 'Mock draft created and started successfully'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to make a pick in a mock draft
+CREATE OR REPLACE FUNCTION public.make_mock_draft_pick(
+  p_mock_draft_id UUID,
+  p_team_name TEXT,
+  p_player_id UUID
+)
+RETURNS JSON AS $$
+DECLARE
+  v_mock_draft public.mock_drafts%ROWTYPE;
+  v_team_id UUID;
+  v_player_name TEXT;
+  v_next_team TEXT;
+  v_team_count INTEGER;
+  v_new_pick_number INTEGER;
+  v_new_round INTEGER;
+BEGIN
+  -- Get mock draft state
+  SELECT * INTO v_mock_draft FROM public.mock_drafts WHERE id = p_mock_draft_id;
+  
+  IF v_mock_draft.id IS NULL THEN 
+    RAISE EXCEPTION 'Mock draft not found'; 
+  END IF;
+  
+  IF v_mock_draft.status != 'in_progress' THEN
+    RAISE EXCEPTION 'Mock draft is not in progress';
+  END IF;
+  
+  -- Calculate whose turn it is from the stored pick sequence
+  v_team_count := array_length(v_mock_draft.draft_order, 1);
+  v_next_team := public.pick_sequence_team(
+    v_mock_draft.draft_order, v_mock_draft.pick_sequence, v_mock_draft.current_pick
+  );
+  
+  IF v_next_team != p_team_name THEN 
+    RAISE EXCEPTION 'Not this team''s turn! Current turn: %', v_next_team; 
+  END IF;
+  
+  -- Find team
+  SELECT id INTO v_team_id 
+  FROM public.mock_draft_teams
+  WHERE mock_draft_id = p_mock_draft_id AND name = p_team_name;
+  
+  IF v_team_id IS NULL THEN
+    RAISE EXCEPTION 'Team not found in mock draft';
+  END IF;
+  
+  -- Verify player is not already picked in this mock draft
+  IF EXISTS (
+    SELECT 1 FROM public.mock_draft_picks
+    WHERE mock_draft_id = p_mock_draft_id AND player_id = p_player_id
+  ) THEN
+    RAISE EXCEPTION 'Player already picked in this mock draft';
+  END IF;
+  
+  -- Get player name
+  SELECT first_name || ' ' || last_name INTO v_player_name
+  FROM public.players
+  WHERE id = p_player_id;
+  
+  IF v_player_name IS NULL THEN
+    RAISE EXCEPTION 'Player not found';
+  END IF;
+  
+  v_new_pick_number := v_mock_draft.current_pick + 1;
+  v_new_round := v_mock_draft.current_round;
+  
+  -- Check if we need to move to next round
+  IF v_new_pick_number % v_team_count = 0 THEN
+    v_new_round := v_mock_draft.current_round + 1;
+  END IF;
+  
+  -- Insert pick
+  INSERT INTO public.mock_draft_picks (mock_draft_id, mock_team_id, player_id, round, pick_number) 
+  VALUES (p_mock_draft_id, v_team_id, p_player_id, v_mock_draft.current_round, v_new_pick_number);
+  
+  -- Update mock draft state
+  UPDATE public.mock_drafts 
+  SET current_pick = v_new_pick_number, 
+      current_round = v_new_round,
+      status = CASE 
+        WHEN v_new_round > v_mock_draft.total_rounds THEN 'completed'
+        ELSE 'in_progress'
+      END,
+      completed_at = CASE 
+        WHEN v_new_round > v_mock_draft.total_rounds THEN NOW()
+        ELSE NULL
+      END
+  WHERE id = p_mock_draft_id;
+  
+  RETURN json_build_object(
+    'message', p_team_name || ' picked ' || v_player_name,
+    'pick_number', v_new_pick_number,
+    'round', v_new_round,
+    'player_name', v_player_name,
+    'is_complete', v_new_round > v_mock_draft.total_rounds
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to make a bot pick in mock draft
+CREATE OR REPLACE FUNCTION public.make_mock_draft_bot_pick(p_mock_draft_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_mock_draft public.mock_drafts%ROWTYPE;
+  v_team record;
+  v_next_team TEXT;
+  v_player_id UUID;
+  v_result JSON;
+BEGIN
+  -- Get mock draft state
+  SELECT * INTO v_mock_draft FROM public.mock_drafts WHERE id = p_mock_draft_id;
+  
+  IF v_mock_draft.id IS NULL THEN 
+    RAISE EXCEPTION 'Mock draft not found'; 
+  END IF;
+  
+  IF v_mock_draft.status != 'in_progress' THEN
+    RETURN json_build_object('success', false, 'message', 'Mock draft not in progress');
+  END IF;
+  
+  -- Calculate whose turn it is
+  v_next_team := public.pick_sequence_team(
+    v_mock_draft.draft_order, v_mock_draft.pick_sequence, v_mock_draft.current_pick
+  );
+  
+  -- Get team and verify it's a bot
+  SELECT * INTO v_team
+  FROM public.mock_draft_teams
+  WHERE mock_draft_id = p_mock_draft_id AND name = v_next_team;
+  
+  IF NOT COALESCE(v_team.is_bot, FALSE) THEN
+    RETURN json_build_object('success', false, 'message', 'Not a bot''s turn', 'next_team', v_next_team);
+  END IF;
+  
+  -- Get a random available player (not yet picked in this mock draft)
+  SELECT id INTO v_player_id
+  FROM public.players
+  WHERE id NOT IN (
+    SELECT player_id FROM public.mock_draft_picks WHERE mock_draft_id = p_mock_draft_id
+  )
+  ORDER BY random()
+  LIMIT 1;
+  
+  IF v_player_id IS NULL THEN
+    RETURN json_build_object('success', false, 'message', 'No players available');
+  END IF;
+  
+  -- Make the pick
+  SELECT public.make_mock_draft_pick(p_mock_draft_id, v_next_team, v_player_id) INTO v_result;
+  
+  RETURN json_build_object(
+    'success', true,
+    'team_name', v_next_team,
+    'player_name', v_result->>'player_name',
+    'message', v_result->>'message',
+    'pick_number', v_result->>'pick_number',
+    'round', v_result->>'round',
+    'is_complete', v_result->>'is_complete'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to get mock draft state
+CREATE OR REPLACE FUNCTION public.get_mock_draft_state(p_mock_draft_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_mock_draft public.mock_drafts%ROWTYPE;
+  v_teams JSON;
+  v_picks JSON;
+  v_next_team TEXT;
+  v_team_count INTEGER;
+BEGIN
+  -- Get mock draft
+  SELECT * INTO v_mock_draft FROM public.mock_drafts WHERE id = p_mock_draft_id;
+  
+  IF v_mock_draft.id IS NULL THEN 
+    RAISE EXCEPTION 'Mock draft not found'; 
+  END IF;
+  
+  -- Get teams
+  SELECT json_agg(row_to_json(t)) INTO v_teams
+  FROM (
+    SELECT id, mock_draft_id, name, is_bot, owner_id, created_at
+    FROM public.mock_draft_teams
+    WHERE mock_draft_id = p_mock_draft_id
+    ORDER BY created_at
+  ) t;
+  
+  -- Get picks
+  SELECT json_agg(row_to_json(p)) INTO v_picks
+  FROM (
+    SELECT 
+      mdp.id, 
+      mdp.mock_draft_id, 
+      mdp.mock_team_id, 
+      mdp.player_id, 
+      mdp.round, 
+      mdp.pick_number,
+      mdt.name as team_name,
+      pl.first_name || ' ' || pl.last_name as player_name
+    FROM public.mock_draft_picks mdp
+    JOIN public.mock_draft_teams mdt ON mdt.id = mdp.mock_team_id
+    JOIN public.players pl ON pl.id = mdp.player_id
+    WHERE mdp.mock_draft_id = p_mock_draft_id
+    ORDER BY mdp.pick_number
+  ) p;
+  
+  -- Calculate next team
+  v_team_count := array_length(v_mock_draft.draft_order, 1);
+  v_next_team := public.pick_sequence_team(
+    v_mock_draft.draft_order, v_mock_draft.pick_sequence, v_mock_draft.current_pick
+  );
+  
+  RETURN json_build_object(
+    'id', v_mock_draft.id,
+    'league_id', v_mock_draft.league_id,
+    'creator_id', v_mock_draft.creator_id,
+    'status', v_mock_draft.status,
+    'num_bots', v_mock_draft.num_bots,
+    'total_rounds', v_mock_draft.total_rounds,
+    'current_round', v_mock_draft.current_round,
+    'current_pick', v_mock_draft.current_pick,
+    'draft_order', v_mock_draft.draft_order,
+    'draft_format', v_mock_draft.draft_format,
+    'teams', COALESCE(v_teams, '[]'::json),
+    'picks', COALESCE(v_picks, '[]'::json),
+    'next_team', v_next_team,
+    'total_picks', v_team_count * v_mock_draft.total_rounds
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,824 @@
+-- Auction Draft Migration
+-- Adds an auction (salary cap) draft mode alongside the pick-order draft.
+-- Teams take turns nominating a player; everyone bids against their own
+-- budget and each bid resets the lot's countdown. When a lot's countdown
+-- runs out, the high bidder wins the player. Won players are also written to
+-- draft_picks under a drafts row, so availability, rosters and draft history
+-- work the same way for both modes.
+--
+-- League settings used (leagues.settings):
+--   draft_type       - 'standard' (default) or 'auction'
+--   auction_budget   - starting budget per team (default 200)
+--   auction_min_bid  - smallest bid, also reserved per open roster spot (default 1)
+--   auction_bid_time - seconds a lot stays open after each bid (default 30)
+--   draft_rounds     - roster spots each team must fill
+--
+-- Max bid rule (mirrored by getMaxBid in shared/auction.ts):
+--   remaining budget - (open roster spots - 1) * min bid
+--
+-- nominate_player and place_auction_bid reuse the draft error codes:
+--   DRF01 - auction has not started
+--   DRF02 - not your turn to nominate
+--   DRF03 - stale board (a player is already up, or bidding has closed)
+--   DRF04 - player not available
+--   DRF06 - bid rejected (too low, over max bid, or already the high bid)
+
+CREATE TABLE IF NOT EXISTS public.auction_drafts (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  league_id UUID REFERENCES public.leagues(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  draft_id UUID REFERENCES public.drafts(id) ON DELETE CASCADE NOT NULL,
+  status TEXT DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')) NOT NULL,
+  budget INTEGER NOT NULL,
+  min_bid INTEGER DEFAULT 1 NOT NULL,
+  bid_time_limit INTEGER DEFAULT 30 NOT NULL, -- seconds per lot after each bid
+  roster_size INTEGER NOT NULL,
+  nomination_order UUID[] NOT NULL, -- team IDs
+  nominator_index INTEGER DEFAULT 0 NOT NULL, -- 0-based position in nomination_order
+  nomination_deadline TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS public.auction_lots (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  auction_id UUID REFERENCES public.auction_drafts(id) ON DELETE CASCADE NOT NULL,
+  player_id UUID REFERENCES public.players(id) ON DELETE CASCADE NOT NULL,
+  nominated_by UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL,
+  current_bid INTEGER NOT NULL,
+  current_bidder UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL,
+  bid_deadline TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT DEFAULT 'open' CHECK (status IN ('open', 'sold')) NOT NULL,
+  sold_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+  UNIQUE(auction_id, player_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.auction_bids (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  lot_id UUID REFERENCES public.auction_lots(id) ON DELETE CASCADE NOT NULL,
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL,
+  amount INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL
+);
+
+-- Only one lot can be up for bidding at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_auction_lots_one_open
+  ON public.auction_lots(auction_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_auction_lots_auction_id ON public.auction_lots(auction_id);
+CREATE INDEX IF NOT EXISTS idx_auction_lots_bid_deadline
+  ON public.auction_lots(bid_deadline) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_auction_bids_lot_id ON public.auction_bids(lot_id);
+
+-- Written only by the SECURITY DEFINER functions below
+ALTER TABLE public.auction_drafts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.auction_lots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.auction_bids ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read auction_drafts" ON public.auction_drafts FOR SELECT USING (true);
+CREATE POLICY "Public read auction_lots" ON public.auction_lots FOR SELECT USING (true);
+CREATE POLICY "Public read auction_bids" ON public.auction_bids FOR SELECT USING (true);
+
+-- Players won at auction count as taken, just like drafted players
+CREATE OR REPLACE FUNCTION public.is_player_taken(p_league_id UUID, p_player_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.draft_state ds
+    JOIN public.draft_picks dp ON dp.draft_id = ds.draft_id
+    WHERE ds.league_id = p_league_id
+    AND dp.player_id = p_player_id
+  ) OR EXISTS (
+    SELECT 1
+    FROM public.auction_drafts a
+    JOIN public.auction_lots l ON l.auction_id = a.id
+    WHERE a.league_id = p_league_id
+    AND l.player_id = p_player_id
+  ) OR EXISTS (
+    SELECT 1
+    FROM public.rosters r
+    JOIN public.teams t ON t.id = r.team_id
+    WHERE t.league_id = p_league_id
+    AND r.player_id = p_player_id
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Put every player drafted in a draft onto the owning team's roster
+-- Starters fill the league's lineup slots in pick order; the rest go to the bench
+-- Shared by pick-order and auction drafts
+CREATE OR REPLACE FUNCTION public.fill_rosters_from_draft(p_league_id UUID, p_draft_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_lineup JSONB;
+  v_open_slots JSONB;
+  v_team_id UUID;
+  v_pick RECORD;
+  v_slot TEXT;
+  v_roster_count INTEGER := 0;
+BEGIN
+  SELECT COALESCE(
+    settings->'lineup',
+    '{"QB": 1, "RB": 2, "WR": 2, "TE": 1, "FLEX": 1, "K": 1, "DEF": 1}'::JSONB
+  ) INTO v_lineup
+  FROM public.leagues
+  WHERE id = p_league_id;
+
+  FOR v_team_id IN
+    SELECT id FROM public.teams WHERE league_id = p_league_id
+  LOOP
+    -- Each team fills its own copy of the lineup, earliest picks first
+    v_open_slots := v_lineup;
+
+    FOR v_pick IN
+      SELECT dp.player_id, UPPER(COALESCE(p.position, '')) AS position
+      FROM public.draft_picks dp
+      JOIN public.players p ON p.id = dp.player_id
+      WHERE dp.draft_id = p_draft_id
+      AND dp.team_id = v_team_id
+      ORDER BY dp.pick_number
+    LOOP
+      IF COALESCE((v_open_slots->>v_pick.position)::INTEGER, 0) > 0 THEN
+        v_slot := v_pick.position;
+      ELSIF v_pick.position IN ('RB', 'WR', 'TE')
+        AND COALESCE((v_open_slots->>'FLEX')::INTEGER, 0) > 0 THEN
+        v_slot := 'FLEX';
+      ELSE
+        v_slot := 'BN';
+      END IF;
+
+      IF v_slot != 'BN' THEN
+        v_open_slots := jsonb_set(
+          v_open_slots,
+          ARRAY[v_slot],
+          to_jsonb((v_open_slots->>v_slot)::INTEGER - 1)
+        );
+      END IF;
+
+      INSERT INTO public.rosters (team_id, player_id, position, is_starter)
+      VALUES (v_team_id, v_pick.player_id, v_slot, v_slot != 'BN')
+      ON CONFLICT (team_id, player_id) DO NOTHING;
+
+      v_roster_count := v_roster_count + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_roster_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Finish a league's draft and populate rosters from its picks
+CREATE OR REPLACE FUNCTION public.complete_draft(p_league_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_draft_id UUID;
+  v_roster_count INTEGER;
+BEGIN
+  SELECT draft_id INTO v_draft_id FROM public.draft_state WHERE league_id = p_league_id;
+
+  IF v_draft_id IS NULL THEN
+    RAISE EXCEPTION 'Draft has not started';
+  END IF;
+
+  v_roster_count := public.fill_rosters_from_draft(p_league_id, v_draft_id);
+
+  UPDATE public.drafts
+  SET status = 'completed',
+      completed_at = NOW()
+  WHERE id = v_draft_id;
+
+  UPDATE public.draft_state
+  SET pick_deadline = NULL
+  WHERE league_id = p_league_id;
+
+  UPDATE public.leagues
+  SET draft_status = 'completed'
+  WHERE id = p_league_id;
+
+  RETURN json_build_object(
+    'message', 'Draft completed',
+    'draft_id', v_draft_id,
+    'rostered_players', v_roster_count
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+
+-- Budget standing of one team in an auction
+CREATE OR REPLACE FUNCTION public.auction_team_budget(p_auction_id UUID, p_team_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_auction public.auction_drafts%ROWTYPE;
+  v_spent INTEGER;
+  v_players_won INTEGER;
+  v_open_spots INTEGER;
+  v_max_bid INTEGER;
+BEGIN
+  SELECT * INTO v_auction FROM public.auction_drafts WHERE id = p_auction_id;
+
+  SELECT COALESCE(SUM(current_bid), 0), COUNT(*)
+  INTO v_spent, v_players_won
+  FROM public.auction_lots
+  WHERE auction_id = p_auction_id
+  AND status = 'sold'
+  AND current_bidder = p_team_id;
+
+  v_open_spots := GREATEST(v_auction.roster_size - v_players_won, 0);
+
+  -- Keep the minimum bid back for every other open spot
+  IF v_open_spots = 0 THEN
+    v_max_bid := 0;
+  ELSE
+    v_max_bid := GREATEST(
+      v_auction.budget - v_spent - (v_open_spots - 1) * v_auction.min_bid,
+      0
+    );
+  END IF;
+
+  RETURN json_build_object(
+    'spent', v_spent,
+    'players_won', v_players_won,
+    'budget_remaining', v_auction.budget - v_spent,
+    'open_spots', v_open_spots,
+    'max_bid', v_max_bid
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Start a league's auction draft (commissioner only)
+CREATE OR REPLACE FUNCTION public.start_auction_draft(p_league_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID;
+  v_league public.leagues%ROWTYPE;
+  team_count INTEGER;
+  v_min_teams INTEGER;
+  v_roster_size INTEGER;
+  v_budget INTEGER;
+  v_min_bid INTEGER;
+  v_bid_time INTEGER;
+  v_order UUID[];
+  v_draft_id UUID;
+  v_auction_id UUID;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_league FROM public.leagues WHERE id = p_league_id FOR UPDATE;
+
+  IF v_league.id IS NULL OR v_league.commissioner_id != v_user_id THEN
+    RAISE EXCEPTION 'Only the league commissioner can start the draft';
+  END IF;
+
+  IF COALESCE(v_league.settings->>'draft_type', 'standard') != 'auction' THEN
+    RAISE EXCEPTION 'This league does not use an auction draft';
+  END IF;
+
+  IF v_league.draft_status != 'pending' THEN
+    RAISE EXCEPTION 'Draft has already started for this league';
+  END IF;
+
+  v_min_teams := COALESCE((v_league.settings->>'min_teams')::INTEGER, 2);
+  v_roster_size := COALESCE((v_league.settings->>'draft_rounds')::INTEGER, 5);
+  v_budget := COALESCE((v_league.settings->>'auction_budget')::INTEGER, 200);
+  v_min_bid := COALESCE((v_league.settings->>'auction_min_bid')::INTEGER, 1);
+  v_bid_time := COALESCE((v_league.settings->>'auction_bid_time')::INTEGER, 30);
+
+  IF v_roster_size < 1 THEN
+    RAISE EXCEPTION 'Draft must have at least 1 round';
+  END IF;
+
+  IF v_min_bid < 1 THEN
+    RAISE EXCEPTION 'Minimum bid must be at least 1';
+  END IF;
+
+  IF v_budget < v_roster_size * v_min_bid THEN
+    RAISE EXCEPTION 'Budget of % cannot fill % roster spots at a minimum bid of %',
+      v_budget, v_roster_size, v_min_bid;
+  END IF;
+
+  IF v_bid_time < 10 THEN
+    RAISE EXCEPTION 'Bid time limit must be at least 10 seconds';
+  END IF;
+
+  SELECT COUNT(*) INTO team_count FROM public.teams WHERE league_id = p_league_id;
+
+  IF team_count < v_min_teams THEN
+    RAISE EXCEPTION 'Need at least % teams to start (currently have %)', v_min_teams, team_count;
+  END IF;
+
+  IF team_count > v_league.max_teams THEN
+    RAISE EXCEPTION 'League allows at most % teams (currently have %)', v_league.max_teams, team_count;
+  END IF;
+
+  -- Nominate in the published draft order when there is one, otherwise shuffle
+  IF v_league.draft_order_locked_at IS NOT NULL THEN
+    IF EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE league_id = p_league_id AND draft_position IS NULL
+    ) THEN
+      RAISE EXCEPTION 'A team joined after the draft order was locked; unlock and update the order first';
+    END IF;
+
+    SELECT ARRAY_AGG(id ORDER BY draft_position) INTO v_order
+    FROM public.teams
+    WHERE league_id = p_league_id;
+  ELSE
+    SELECT ARRAY_AGG(id ORDER BY random()) INTO v_order
+    FROM public.teams
+    WHERE league_id = p_league_id;
+  END IF;
+
+  -- The drafts row holds the won players as draft_picks
+  INSERT INTO public.drafts (
+    league_id, status, current_pick, total_picks, current_round, pick_time_limit, started_at
+  )
+  VALUES (
+    p_league_id, 'in_progress', 0, team_count * v_roster_size, 1, v_bid_time, NOW()
+  )
+  RETURNING id INTO v_draft_id;
+
+  DELETE FROM public.auction_drafts WHERE league_id = p_league_id;
+
+  INSERT INTO public.auction_drafts (
+    league_id, draft_id, budget, min_bid, bid_time_limit, roster_size,
+    nomination_order, nominator_index, nomination_deadline
+  )
+  VALUES (
+    p_league_id, v_draft_id, v_budget, v_min_bid, v_bid_time, v_roster_size,
+    v_order, 0, NOW() + make_interval(secs => v_bid_time)
+  )
+  RETURNING id INTO v_auction_id;
+
+  UPDATE public.leagues
+  SET draft_status = 'in_progress'
+  WHERE id = p_league_id;
+
+  RETURN json_build_object(
+    'message', 'Auction draft started',
+    'auction_id', v_auction_id,
+    'draft_id', v_draft_id,
+    'nomination_order', v_order
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Sell an open lot to its high bidder and move on to the next nomination
+-- Callers must hold the auction row lock
+CREATE OR REPLACE FUNCTION public.close_auction_lot(p_lot_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_lot public.auction_lots%ROWTYPE;
+  v_auction public.auction_drafts%ROWTYPE;
+  v_team_count INTEGER;
+  v_pick_number INTEGER;
+  v_players_won INTEGER;
+  v_next_index INTEGER;
+  v_candidate INTEGER;
+  i INTEGER;
+BEGIN
+  UPDATE public.auction_lots
+  SET status = 'sold',
+      sold_at = NOW()
+  WHERE id = p_lot_id AND status = 'open'
+  RETURNING * INTO v_lot;
+
+  IF v_lot.id IS NULL THEN
+    RAISE EXCEPTION 'Lot is not open';
+  END IF;
+
+  SELECT * INTO v_auction FROM public.auction_drafts WHERE id = v_lot.auction_id;
+  v_team_count := array_length(v_auction.nomination_order, 1);
+
+  SELECT COUNT(*) INTO v_pick_number
+  FROM public.auction_lots
+  WHERE auction_id = v_auction.id AND status = 'sold';
+
+  SELECT COUNT(*) INTO v_players_won
+  FROM public.auction_lots
+  WHERE auction_id = v_auction.id AND status = 'sold' AND current_bidder = v_lot.current_bidder;
+
+  -- Won players are draft picks too; the round is the winner's roster spot
+  INSERT INTO public.draft_picks (draft_id, team_id, player_id, round, pick_number, auto_picked)
+  VALUES (v_auction.draft_id, v_lot.current_bidder, v_lot.player_id, v_players_won, v_pick_number, FALSE);
+
+  UPDATE public.drafts
+  SET current_pick = v_pick_number
+  WHERE id = v_auction.draft_id;
+
+  -- Every roster is full: fill rosters and finish the draft
+  IF v_pick_number >= v_team_count * v_auction.roster_size THEN
+    PERFORM public.fill_rosters_from_draft(v_auction.league_id, v_auction.draft_id);
+
+    UPDATE public.drafts
+    SET status = 'completed',
+        completed_at = NOW()
+    WHERE id = v_auction.draft_id;
+
+    UPDATE public.auction_drafts
+    SET status = 'completed',
+        completed_at = NOW(),
+        nomination_deadline = NULL
+    WHERE id = v_auction.id;
+
+    UPDATE public.leagues
+    SET draft_status = 'completed'
+    WHERE id = v_auction.league_id;
+
+    RETURN json_build_object(
+      'lot_id', v_lot.id,
+      'team_id', v_lot.current_bidder,
+      'amount', v_lot.current_bid,
+      'draft_complete', TRUE
+    );
+  END IF;
+
+  -- The next nominator is the next team in order that still has open spots
+  FOR i IN 1..v_team_count LOOP
+    v_candidate := (v_auction.nominator_index + i) % v_team_count;
+
+    IF (
+      SELECT COUNT(*) FROM public.auction_lots
+      WHERE auction_id = v_auction.id
+      AND status = 'sold'
+      AND current_bidder = v_auction.nomination_order[v_candidate + 1]
+    ) < v_auction.roster_size THEN
+      v_next_index := v_candidate;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  UPDATE public.auction_drafts
+  SET nominator_index = COALESCE(v_next_index, nominator_index),
+      nomination_deadline = NOW() + make_interval(secs => bid_time_limit)
+  WHERE id = v_auction.id;
+
+  RETURN json_build_object(
+    'lot_id', v_lot.id,
+    'team_id', v_lot.current_bidder,
+    'amount', v_lot.current_bid,
+    'draft_complete', FALSE
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Put a player up for bid with an opening bid from the nominating team
+-- Callers must hold the auction row lock and validate the team and player first
+CREATE OR REPLACE FUNCTION public.open_auction_lot(
+  p_auction_id UUID,
+  p_team_id UUID,
+  p_player_id UUID,
+  p_opening_bid INTEGER
+)
+RETURNS UUID AS $$
+DECLARE
+  v_lot_id UUID;
+BEGIN
+  INSERT INTO public.auction_lots (
+    auction_id, player_id, nominated_by, current_bid, current_bidder, bid_deadline
+  )
+  SELECT id, p_player_id, p_team_id, p_opening_bid, p_team_id,
+    NOW() + make_interval(secs => bid_time_limit)
+  FROM public.auction_drafts
+  WHERE id = p_auction_id
+  RETURNING id INTO v_lot_id;
+
+  INSERT INTO public.auction_bids (lot_id, team_id, amount)
+  VALUES (v_lot_id, p_team_id, p_opening_bid);
+
+  UPDATE public.auction_drafts
+  SET nomination_deadline = NULL
+  WHERE id = p_auction_id;
+
+  RETURN v_lot_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Nominate a player when it's the caller's team's turn
+CREATE OR REPLACE FUNCTION public.nominate_player(
+  p_league_id UUID,
+  p_player_id UUID,
+  p_opening_bid INTEGER
+)
+RETURNS JSON AS $$
+DECLARE
+  v_auction public.auction_drafts%ROWTYPE;
+  v_user_id UUID;
+  v_team_id UUID;
+  v_team_name TEXT;
+  v_player_name TEXT;
+  v_max_bid INTEGER;
+  v_lot_id UUID;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the auction so nominations, bids and the clock run one at a time
+  SELECT * INTO v_auction FROM public.auction_drafts WHERE league_id = p_league_id FOR UPDATE;
+  IF v_auction.id IS NULL OR v_auction.status != 'in_progress' THEN
+    RAISE EXCEPTION 'Auction has not started' USING ERRCODE = 'DRF01';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.auction_lots
+    WHERE auction_id = v_auction.id AND status = 'open'
+  ) THEN
+    RAISE EXCEPTION 'A player is already up for bid' USING ERRCODE = 'DRF03';
+  END IF;
+
+  SELECT id, name INTO v_team_id, v_team_name
+  FROM public.teams
+  WHERE id = v_auction.nomination_order[v_auction.nominator_index + 1]
+  AND owner_id = v_user_id;
+
+  IF v_team_id IS NULL THEN
+    RAISE EXCEPTION 'Not your turn to nominate!' USING ERRCODE = 'DRF02';
+  END IF;
+
+  SELECT TRIM(COALESCE(first_name, '') || ' ' || COALESCE(last_name, '')) INTO v_player_name
+  FROM public.players
+  WHERE id = p_player_id
+  AND NOT public.is_player_taken(p_league_id, p_player_id);
+
+  IF v_player_name IS NULL THEN
+    RAISE EXCEPTION 'Player not available!' USING ERRCODE = 'DRF04';
+  END IF;
+
+  v_max_bid := (public.auction_team_budget(v_auction.id, v_team_id)->>'max_bid')::INTEGER;
+
+  IF p_opening_bid IS NULL OR p_opening_bid < v_auction.min_bid OR p_opening_bid > v_max_bid THEN
+    RAISE EXCEPTION 'Opening bid must be between % and %', v_auction.min_bid, v_max_bid
+      USING ERRCODE = 'DRF06';
+  END IF;
+
+  v_lot_id := public.open_auction_lot(v_auction.id, v_team_id, p_player_id, p_opening_bid);
+
+  RETURN json_build_object(
+    'message', v_team_name || ' nominated ' || v_player_name || ' for ' || p_opening_bid,
+    'lot_id', v_lot_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Bid on the open lot for the caller's team
+CREATE OR REPLACE FUNCTION public.place_auction_bid(
+  p_league_id UUID,
+  p_lot_id UUID,
+  p_amount INTEGER
+)
+RETURNS JSON AS $$
+DECLARE
+  v_auction public.auction_drafts%ROWTYPE;
+  v_lot public.auction_lots%ROWTYPE;
+  v_user_id UUID;
+  v_team_id UUID;
+  v_team_name TEXT;
+  v_max_bid INTEGER;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_auction FROM public.auction_drafts WHERE league_id = p_league_id FOR UPDATE;
+  IF v_auction.id IS NULL OR v_auction.status != 'in_progress' THEN
+    RAISE EXCEPTION 'Auction has not started' USING ERRCODE = 'DRF01';
+  END IF;
+
+  SELECT * INTO v_lot
+  FROM public.auction_lots
+  WHERE id = p_lot_id AND auction_id = v_auction.id;
+
+  -- The clock may have sold the player between the client's render and this bid
+  IF v_lot.id IS NULL OR v_lot.status != 'open' OR v_lot.bid_deadline <= NOW() THEN
+    RAISE EXCEPTION 'Bidding on this player has closed' USING ERRCODE = 'DRF03';
+  END IF;
+
+  SELECT id, name INTO v_team_id, v_team_name
+  FROM public.teams
+  WHERE league_id = p_league_id AND owner_id = v_user_id;
+
+  IF v_team_id IS NULL THEN
+    RAISE EXCEPTION 'You do not have a team in this league';
+  END IF;
+
+  IF v_lot.current_bidder = v_team_id THEN
+    RAISE EXCEPTION 'You already have the high bid' USING ERRCODE = 'DRF06';
+  END IF;
+
+  v_max_bid := (public.auction_team_budget(v_auction.id, v_team_id)->>'max_bid')::INTEGER;
+
+  IF p_amount IS NULL OR p_amount <= v_lot.current_bid THEN
+    RAISE EXCEPTION 'Bid must be more than %', v_lot.current_bid USING ERRCODE = 'DRF06';
+  END IF;
+
+  IF p_amount > v_max_bid THEN
+    RAISE EXCEPTION 'Your max bid is %', v_max_bid USING ERRCODE = 'DRF06';
+  END IF;
+
+  -- Every bid restarts the countdown
+  UPDATE public.auction_lots
+  SET current_bid = p_amount,
+      current_bidder = v_team_id,
+      bid_deadline = NOW() + make_interval(secs => v_auction.bid_time_limit)
+  WHERE id = v_lot.id;
+
+  INSERT INTO public.auction_bids (lot_id, team_id, amount)
+  VALUES (v_lot.id, v_team_id, p_amount);
+
+  RETURN json_build_object(
+    'message', v_team_name || ' bid ' || p_amount,
+    'amount', p_amount
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Sell lots whose countdown ran out and nominate for teams that let their
+-- nomination clock expire. Run by the server's draft clock.
+CREATE OR REPLACE FUNCTION public.process_expired_auction_lots()
+RETURNS JSON AS $$
+DECLARE
+  v_auction public.auction_drafts%ROWTYPE;
+  v_lot public.auction_lots%ROWTYPE;
+  v_team_id UUID;
+  v_player_id UUID;
+  v_sold INTEGER := 0;
+  v_auto_nominations INTEGER := 0;
+BEGIN
+  FOR v_auction IN
+    SELECT * FROM public.auction_drafts
+    WHERE status = 'in_progress'
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    SELECT * INTO v_lot
+    FROM public.auction_lots
+    WHERE auction_id = v_auction.id AND status = 'open';
+
+    IF v_lot.id IS NOT NULL THEN
+      IF v_lot.bid_deadline <= NOW() THEN
+        PERFORM public.close_auction_lot(v_lot.id);
+        v_sold := v_sold + 1;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF v_auction.nomination_deadline IS NULL OR v_auction.nomination_deadline > NOW() THEN
+      CONTINUE;
+    END IF;
+
+    -- Nominate the best available player at the minimum bid
+    v_team_id := v_auction.nomination_order[v_auction.nominator_index + 1];
+    v_player_id := public.best_available_player(v_auction.league_id);
+
+    IF v_team_id IS NULL OR v_player_id IS NULL THEN
+      -- Nothing can be nominated; stop the clock rather than retrying every tick
+      UPDATE public.auction_drafts SET nomination_deadline = NULL WHERE id = v_auction.id;
+      CONTINUE;
+    END IF;
+
+    PERFORM public.open_auction_lot(v_auction.id, v_team_id, v_player_id, v_auction.min_bid);
+    v_auto_nominations := v_auto_nominations + 1;
+  END LOOP;
+
+  RETURN json_build_object(
+    'sold_lots', v_sold,
+    'auto_nominations', v_auto_nominations
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Everything the auction board needs in one call
+CREATE OR REPLACE FUNCTION public.get_auction_state(p_league_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_auction public.auction_drafts%ROWTYPE;
+  v_teams JSON;
+  v_current_lot JSON;
+  v_sold JSON;
+BEGIN
+  SELECT * INTO v_auction FROM public.auction_drafts WHERE league_id = p_league_id;
+
+  IF v_auction.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT json_agg(
+    json_build_object(
+      'id', t.id,
+      'name', t.name,
+      'owner_id', t.owner_id
+    )::JSONB || public.auction_team_budget(v_auction.id, t.id)::JSONB
+    ORDER BY array_position(v_auction.nomination_order, t.id)
+  ) INTO v_teams
+  FROM public.teams t
+  WHERE t.id = ANY(v_auction.nomination_order);
+
+  SELECT json_build_object(
+    'id', l.id,
+    'player_id', l.player_id,
+    'player_name', TRIM(COALESCE(p.first_name, '') || ' ' || COALESCE(p.last_name, '')),
+    'position', p.position,
+    'nfl_team', p.team,
+    'nominated_by', l.nominated_by,
+    'current_bid', l.current_bid,
+    'current_bidder', l.current_bidder,
+    'bid_deadline', l.bid_deadline
+  ) INTO v_current_lot
+  FROM public.auction_lots l
+  JOIN public.players p ON p.id = l.player_id
+  WHERE l.auction_id = v_auction.id AND l.status = 'open';
+
+  SELECT json_agg(
+    json_build_object(
+      'id', l.id,
+      'player_id', l.player_id,
+      'player_name', TRIM(COALESCE(p.first_name, '') || ' ' || COALESCE(p.last_name, '')),
+      'position', p.position,
+      'team_id', l.current_bidder,
+      'amount', l.current_bid,
+      'sold_at', l.sold_at
+    )
+    ORDER BY l.sold_at DESC
+  ) INTO v_sold
+  FROM public.auction_lots l
+  JOIN public.players p ON p.id = l.player_id
+  WHERE l.auction_id = v_auction.id AND l.status = 'sold';
+
+  RETURN json_build_object(
+    'id', v_auction.id,
+    'league_id', v_auction.league_id,
+    'draft_id', v_auction.draft_id,
+    'status', v_auction.status,
+    'budget', v_auction.budget,
+    'min_bid', v_auction.min_bid,
+    'bid_time_limit', v_auction.bid_time_limit,
+    'roster_size', v_auction.roster_size,
+    'nomination_order', v_auction.nomination_order,
+    'nominator_id', CASE
+      WHEN v_auction.status = 'in_progress'
+      THEN v_auction.nomination_order[v_auction.nominator_index + 1]
+    END,
+    'nomination_deadline', v_auction.nomination_deadline,
+    'teams', COALESCE(v_teams, '[]'::json),
+    'current_lot', v_current_lot,
+    'sold', COALESCE(v_sold, '[]'::json)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Reset also clears the league's auction; its drafts row cascades to the lots
+CREATE OR REPLACE FUNCTION public.reset_draft(p_league_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_draft_id UUID;
+  v_user_id UUID;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leagues
+    WHERE id = p_league_id AND commissioner_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Only the league commissioner can reset the draft';
+  END IF;
+
+  SELECT draft_id INTO v_draft_id FROM public.draft_state WHERE league_id = p_league_id;
+
+  IF v_draft_id IS NOT NULL THEN
+    DELETE FROM public.draft_picks WHERE draft_id = v_draft_id;
+    DELETE FROM public.drafts WHERE id = v_draft_id;
+  END IF;
+
+  DELETE FROM public.drafts
+  WHERE id IN (SELECT draft_id FROM public.auction_drafts WHERE league_id = p_league_id);
+
+  -- Delete teams in the league
+  DELETE FROM public.teams WHERE league_id = p_league_id;
+
+  DELETE FROM public.draft_state WHERE league_id = p_league_id;
+
+  -- Teams are gone, so their published order goes with them
+  UPDATE public.leagues
+  SET draft_status = 'pending',
+      draft_order_locked_at = NULL
+  WHERE id = p_league_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Internal helpers are only called from the functions above
+REVOKE EXECUTE ON FUNCTION public.fill_rosters_from_draft(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_draft(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.close_auction_lot(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.open_auction_lot(UUID, UUID, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.process_expired_auction_lots() FROM PUBLIC, anon, authenticated;
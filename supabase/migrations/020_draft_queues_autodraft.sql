@@ -0,0 +1,223 @@
+-- Draft Queue and Autodraft Migration
+-- Each team keeps a ranked queue of players it wants, and can turn on
+-- autodraft so the server picks for it whenever it is on the clock. Autodraft
+-- picks, and picks made when the pick clock runs out, take the highest-ranked
+-- queued player still available, then the best available player at a
+-- position the team still needs to start.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'teams'
+    AND column_name = 'autodraft'
+  ) THEN
+    ALTER TABLE public.teams ADD COLUMN autodraft BOOLEAN DEFAULT FALSE NOT NULL;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.draft_queues (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL,
+  player_id UUID REFERENCES public.players(id) ON DELETE CASCADE NOT NULL,
+  rank INTEGER NOT NULL, -- 1 is picked first
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+  UNIQUE(team_id, player_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_draft_queues_team_rank ON public.draft_queues(team_id, rank);
+
+ALTER TABLE public.draft_queues ENABLE ROW LEVEL SECURITY;
+
+-- Queues are private to the team's owner; written only by set_draft_queue
+CREATE POLICY "Owners read their draft queue" ON public.draft_queues
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE teams.id = draft_queues.team_id
+      AND teams.owner_id = auth.uid()
+    )
+  );
+
+-- Replace a team's whole queue with players in ranked order (team owner only)
+CREATE OR REPLACE FUNCTION public.set_draft_queue(p_team_id UUID, p_player_ids UUID[])
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE id = p_team_id AND owner_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'You can only edit your own draft queue';
+  END IF;
+
+  DELETE FROM public.draft_queues WHERE team_id = p_team_id;
+
+  -- DISTINCT ON keeps the first (highest) rank if a player is listed twice
+  INSERT INTO public.draft_queues (team_id, player_id, rank)
+  SELECT p_team_id, player_id, ROW_NUMBER() OVER (ORDER BY rank)
+  FROM (
+    SELECT DISTINCT ON (q.player_id) q.player_id, q.rank
+    FROM unnest(COALESCE(p_player_ids, '{}')) WITH ORDINALITY AS q(player_id, rank)
+    ORDER BY q.player_id, q.rank
+  ) queued;
+
+  RETURN json_build_object(
+    'message', 'Draft queue saved',
+    'queued', (SELECT COUNT(*) FROM public.draft_queues WHERE team_id = p_team_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Turn autodraft on or off for a team (team owner only)
+CREATE OR REPLACE FUNCTION public.set_team_autodraft(p_team_id UUID, p_enabled BOOLEAN)
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.teams
+  SET autodraft = COALESCE(p_enabled, FALSE)
+  WHERE id = p_team_id AND owner_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You can only change autodraft for your own team';
+  END IF;
+
+  RETURN json_build_object(
+    'message', CASE WHEN p_enabled THEN 'Autodraft on' ELSE 'Autodraft off' END,
+    'autodraft', COALESCE(p_enabled, FALSE)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Player to pick for a team that isn't picking for itself: its queue first,
+-- then the best available player at a starting position it still needs,
+-- then the best available player overall
+CREATE OR REPLACE FUNCTION public.autodraft_player(p_league_id UUID, p_team_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_player_id UUID;
+  v_draft_id UUID;
+  v_needs JSONB;
+  v_position TEXT;
+BEGIN
+  SELECT q.player_id INTO v_player_id
+  FROM public.draft_queues q
+  WHERE q.team_id = p_team_id
+  AND NOT public.is_player_taken(p_league_id, q.player_id)
+  ORDER BY q.rank
+  LIMIT 1;
+
+  IF v_player_id IS NOT NULL THEN
+    RETURN v_player_id;
+  END IF;
+
+  -- Open starter slots, filled by the team's picks the same way rosters are
+  SELECT draft_id INTO v_draft_id FROM public.draft_state WHERE league_id = p_league_id;
+
+  SELECT COALESCE(
+    settings->'lineup',
+    '{"QB": 1, "RB": 2, "WR": 2, "TE": 1, "FLEX": 1, "K": 1, "DEF": 1}'::JSONB
+  ) INTO v_needs
+  FROM public.leagues
+  WHERE id = p_league_id;
+
+  FOR v_position IN
+    SELECT UPPER(COALESCE(p.position, ''))
+    FROM public.draft_picks dp
+    JOIN public.players p ON p.id = dp.player_id
+    WHERE dp.draft_id = v_draft_id
+    AND dp.team_id = p_team_id
+    ORDER BY dp.pick_number
+  LOOP
+    IF COALESCE((v_needs->>v_position)::INTEGER, 0) > 0 THEN
+      v_needs := jsonb_set(v_needs, ARRAY[v_position], to_jsonb((v_needs->>v_position)::INTEGER - 1));
+    ELSIF v_position IN ('RB', 'WR', 'TE') AND COALESCE((v_needs->>'FLEX')::INTEGER, 0) > 0 THEN
+      v_needs := jsonb_set(v_needs, ARRAY['FLEX'], to_jsonb((v_needs->>'FLEX')::INTEGER - 1));
+    END IF;
+  END LOOP;
+
+  SELECT p.id INTO v_player_id
+  FROM public.players p
+  WHERE NOT public.is_player_taken(p_league_id, p.id)
+  AND (
+    COALESCE((v_needs->>UPPER(p.position))::INTEGER, 0) > 0
+    OR (
+      UPPER(p.position) IN ('RB', 'WR', 'TE')
+      AND COALESCE((v_needs->>'FLEX')::INTEGER, 0) > 0
+    )
+  )
+  ORDER BY
+    CASE WHEN p.stats->>'adp' ~ '^[0-9]+(\.[0-9]+)?$' THEN (p.stats->>'adp')::NUMERIC END ASC NULLS LAST,
+    p.last_name,
+    p.first_name
+  LIMIT 1;
+
+  RETURN COALESCE(v_player_id, public.best_available_player(p_league_id));
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Pick for every live draft whose clock ran out or whose team on the clock
+-- has autodraft on
+CREATE OR REPLACE FUNCTION public.process_expired_picks()
+RETURNS JSON AS $$
+DECLARE
+  state public.draft_state%ROWTYPE;
+  v_team_name TEXT;
+  v_team_id UUID;
+  v_player_id UUID;
+  v_auto_picks INTEGER := 0;
+BEGIN
+  -- Paused and finished drafts have no deadline, so they are skipped here too
+  FOR state IN
+    SELECT ds.* FROM public.draft_state ds
+    WHERE ds.started
+    AND ds.pick_deadline IS NOT NULL
+    AND (
+      ds.pick_deadline <= NOW()
+      OR EXISTS (
+        SELECT 1 FROM public.teams t
+        WHERE t.league_id = ds.league_id
+        AND t.autodraft
+        AND t.name = public.get_next_team(ds.league_id)
+      )
+    )
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    v_team_name := public.get_next_team(state.league_id);
+
+    SELECT id INTO v_team_id
+    FROM public.teams
+    WHERE league_id = state.league_id AND name = v_team_name;
+
+    v_player_id := public.autodraft_player(state.league_id, v_team_id);
+
+    IF v_team_id IS NULL OR v_player_id IS NULL THEN
+      -- Nothing can be picked; stop the clock rather than retrying every tick
+      UPDATE public.draft_state SET pick_deadline = NULL WHERE league_id = state.league_id;
+      CONTINUE;
+    END IF;
+
+    PERFORM public.record_draft_pick(state.league_id, v_team_id, v_player_id, TRUE);
+    v_auto_picks := v_auto_picks + 1;
+  END LOOP;
+
+  RETURN json_build_object('auto_picks', v_auto_picks);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.process_expired_picks() FROM PUBLIC, anon, authenticated;
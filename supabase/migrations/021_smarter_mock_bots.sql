@@ -0,0 +1,433 @@
+-- Smarter Mock Draft Bots Migration
+-- Players get a draft ranking (ADP, then projected points), and mock draft
+-- bots draft from it instead of at random. Each bot has a personality stored
+-- on mock_draft_teams.bot_strategy:
+--   balanced       - best ranked player at a position it still needs to start
+--   rb_heavy       - leans on running backs in the first four rounds
+--   zero_rb        - avoids running backs in the first four rounds
+--   best_available - best ranked player regardless of need
+-- Every personality leaves kickers and defenses until the picks it has left
+-- are only enough to fill those slots, and doesn't take a second one while
+-- other players are left.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'players'
+    AND column_name = 'adp'
+  ) THEN
+    ALTER TABLE public.players ADD COLUMN adp NUMERIC; -- Average draft position; lower goes earlier
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'players'
+    AND column_name = 'projected_points'
+  ) THEN
+    ALTER TABLE public.players ADD COLUMN projected_points NUMERIC; -- Season projection
+  END IF;
+END $$;
+
+-- ADP used to live in the stats blob
+UPDATE public.players
+SET adp = (stats->>'adp')::NUMERIC
+WHERE adp IS NULL
+AND stats->>'adp' ~ '^[0-9]+(\.[0-9]+)?$';
+
+CREATE INDEX IF NOT EXISTS idx_players_adp ON public.players(adp);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'mock_draft_teams'
+    AND column_name = 'bot_strategy'
+  ) THEN
+    ALTER TABLE public.mock_draft_teams ADD COLUMN bot_strategy TEXT
+      CHECK (bot_strategy IN ('balanced', 'rb_heavy', 'zero_rb', 'best_available'));
+  END IF;
+END $$;
+
+UPDATE public.mock_draft_teams
+SET bot_strategy = 'balanced'
+WHERE is_bot AND bot_strategy IS NULL;
+
+-- Best available now reads the ranking columns
+CREATE OR REPLACE FUNCTION public.best_available_player(p_league_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_player_id UUID;
+BEGIN
+  SELECT p.id INTO v_player_id
+  FROM public.players p
+  WHERE NOT public.is_player_taken(p_league_id, p.id)
+  ORDER BY
+    p.adp ASC NULLS LAST,
+    p.projected_points DESC NULLS LAST,
+    p.last_name,
+    p.first_name
+  LIMIT 1;
+
+  RETURN v_player_id;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Autodraft's need-based fallback uses the same ranking
+CREATE OR REPLACE FUNCTION public.autodraft_player(p_league_id UUID, p_team_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_player_id UUID;
+  v_draft_id UUID;
+  v_needs JSONB;
+  v_position TEXT;
+BEGIN
+  SELECT q.player_id INTO v_player_id
+  FROM public.draft_queues q
+  WHERE q.team_id = p_team_id
+  AND NOT public.is_player_taken(p_league_id, q.player_id)
+  ORDER BY q.rank
+  LIMIT 1;
+
+  IF v_player_id IS NOT NULL THEN
+    RETURN v_player_id;
+  END IF;
+
+  -- Open starter slots, filled by the team's picks the same way rosters are
+  SELECT draft_id INTO v_draft_id FROM public.draft_state WHERE league_id = p_league_id;
+
+  SELECT COALESCE(
+    settings->'lineup',
+    '{"QB": 1, "RB": 2, "WR": 2, "TE": 1, "FLEX": 1, "K": 1, "DEF": 1}'::JSONB
+  ) INTO v_needs
+  FROM public.leagues
+  WHERE id = p_league_id;
+
+  FOR v_position IN
+    SELECT UPPER(COALESCE(p.position, ''))
+    FROM public.draft_picks dp
+    JOIN public.players p ON p.id = dp.player_id
+    WHERE dp.draft_id = v_draft_id
+    AND dp.team_id = p_team_id
+    ORDER BY dp.pick_number
+  LOOP
+    IF COALESCE((v_needs->>v_position)::INTEGER, 0) > 0 THEN
+      v_needs := jsonb_set(v_needs, ARRAY[v_position], to_jsonb((v_needs->>v_position)::INTEGER - 1));
+    ELSIF v_position IN ('RB', 'WR', 'TE') AND COALESCE((v_needs->>'FLEX')::INTEGER, 0) > 0 THEN
+      v_needs := jsonb_set(v_needs, ARRAY['FLEX'], to_jsonb((v_needs->>'FLEX')::INTEGER - 1));
+    END IF;
+  END LOOP;
+
+  SELECT p.id INTO v_player_id
+  FROM public.players p
+  WHERE NOT public.is_player_taken(p_league_id, p.id)
+  AND (
+    COALESCE((v_needs->>UPPER(p.position))::INTEGER, 0) > 0
+    OR (
+      UPPER(p.position) IN ('RB', 'WR', 'TE')
+      AND COALESCE((v_needs->>'FLEX')::INTEGER, 0) > 0
+    )
+  )
+  ORDER BY
+    p.adp ASC NULLS LAST,
+    p.projected_points DESC NULLS LAST,
+    p.last_name,
+    p.first_name
+  LIMIT 1;
+
+  RETURN COALESCE(v_player_id, public.best_available_player(p_league_id));
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Player a mock draft bot takes with its next pick
+CREATE OR REPLACE FUNCTION public.mock_bot_pick_player(p_mock_draft_id UUID, p_team_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_mock_draft public.mock_drafts%ROWTYPE;
+  v_strategy TEXT;
+  v_needs JSONB;
+  v_position TEXT;
+  v_round INTEGER;
+  v_picks_left INTEGER;
+  v_specialists_needed INTEGER;
+  v_player_id UUID;
+BEGIN
+  SELECT * INTO v_mock_draft FROM public.mock_drafts WHERE id = p_mock_draft_id;
+
+  SELECT COALESCE(bot_strategy, 'balanced') INTO v_strategy
+  FROM public.mock_draft_teams
+  WHERE id = p_team_id;
+
+  -- Open starter slots after the bot's picks so far
+  SELECT COALESCE(
+    settings->'lineup',
+    '{"QB": 1, "RB": 2, "WR": 2, "TE": 1, "FLEX": 1, "K": 1, "DEF": 1}'::JSONB
+  ) INTO v_needs
+  FROM public.leagues
+  WHERE id = v_mock_draft.league_id;
+
+  FOR v_position IN
+    SELECT UPPER(p.position)
+    FROM public.mock_draft_picks mdp
+    JOIN public.players p ON p.id = mdp.player_id
+    WHERE mdp.mock_draft_id = p_mock_draft_id
+    AND mdp.mock_team_id = p_team_id
+    ORDER BY mdp.pick_number
+  LOOP
+    IF COALESCE((v_needs->>v_position)::INTEGER, 0) > 0 THEN
+      v_needs := jsonb_set(v_needs, ARRAY[v_position], to_jsonb((v_needs->>v_position)::INTEGER - 1));
+    ELSIF v_position IN ('RB', 'WR', 'TE') AND COALESCE((v_needs->>'FLEX')::INTEGER, 0) > 0 THEN
+      v_needs := jsonb_set(v_needs, ARRAY['FLEX'], to_jsonb((v_needs->>'FLEX')::INTEGER - 1));
+    END IF;
+  END LOOP;
+
+  v_round := v_mock_draft.current_pick / array_length(v_mock_draft.draft_order, 1) + 1;
+  v_picks_left := v_mock_draft.total_rounds - v_round + 1;
+  v_specialists_needed :=
+    COALESCE((v_needs->>'K')::INTEGER, 0) + COALESCE((v_needs->>'DEF')::INTEGER, 0);
+
+  -- Kickers and defenses only once the remaining picks are needed for them
+  IF v_specialists_needed > 0 AND v_picks_left <= v_specialists_needed THEN
+    SELECT p.id INTO v_player_id
+    FROM public.players p
+    WHERE UPPER(p.position) IN ('K', 'DEF')
+    AND COALESCE((v_needs->>UPPER(p.position))::INTEGER, 0) > 0
+    AND NOT EXISTS (
+      SELECT 1 FROM public.mock_draft_picks mdp
+      WHERE mdp.mock_draft_id = p_mock_draft_id AND mdp.player_id = p.id
+    )
+    ORDER BY p.adp ASC NULLS LAST, p.projected_points DESC NULLS LAST, random()
+    LIMIT 1;
+
+    IF v_player_id IS NOT NULL THEN
+      RETURN v_player_id;
+    END IF;
+  END IF;
+
+  -- Score the top of the board: ranking, then need and personality, plus a
+  -- little noise so the same bot doesn't draft the same team every time
+  SELECT c.id INTO v_player_id
+  FROM (
+    SELECT
+      p.id,
+      UPPER(p.position) AS position,
+      ROW_NUMBER() OVER (
+        ORDER BY p.adp ASC NULLS LAST, p.projected_points DESC NULLS LAST, random()
+      ) AS board_rank
+    FROM public.players p
+    WHERE UPPER(p.position) NOT IN ('K', 'DEF')
+    AND NOT EXISTS (
+      SELECT 1 FROM public.mock_draft_picks mdp
+      WHERE mdp.mock_draft_id = p_mock_draft_id AND mdp.player_id = p.id
+    )
+  ) c
+  WHERE c.board_rank <= 30
+  ORDER BY
+    c.board_rank
+    + CASE
+        WHEN v_strategy = 'best_available' THEN 0
+        WHEN COALESCE((v_needs->>c.position)::INTEGER, 0) > 0 THEN 0
+        WHEN c.position IN ('RB', 'WR', 'TE') AND COALESCE((v_needs->>'FLEX')::INTEGER, 0) > 0 THEN 0
+        ELSE 12
+      END
+    + CASE
+        WHEN c.position = 'RB' AND v_round <= 4 AND v_strategy = 'rb_heavy' THEN -8
+        WHEN c.position = 'RB' AND v_round <= 4 AND v_strategy = 'zero_rb' THEN 25
+        ELSE 0
+      END
+    + random() * CASE WHEN v_strategy = 'best_available' THEN 2 ELSE 4 END
+  LIMIT 1;
+
+  -- Only kickers and defenses left
+  IF v_player_id IS NULL THEN
+    SELECT p.id INTO v_player_id
+    FROM public.players p
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.mock_draft_picks mdp
+      WHERE mdp.mock_draft_id = p_mock_draft_id AND mdp.player_id = p.id
+    )
+    ORDER BY p.adp ASC NULLS LAST, p.projected_points DESC NULLS LAST, random()
+    LIMIT 1;
+  END IF;
+
+  RETURN v_player_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Bots pick with mock_bot_pick_player instead of at random
+CREATE OR REPLACE FUNCTION public.make_mock_draft_bot_pick(p_mock_draft_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_mock_draft public.mock_drafts%ROWTYPE;
+  v_team record;
+  v_next_team TEXT;
+  v_player_id UUID;
+  v_result JSON;
+BEGIN
+  -- Get mock draft state
+  SELECT * INTO v_mock_draft FROM public.mock_drafts WHERE id = p_mock_draft_id;
+  
+  IF v_mock_draft.id IS NULL THEN 
+    RAISE EXCEPTION 'Mock draft not found'; 
+  END IF;
+  
+  IF v_mock_draft.status != 'in_progress' THEN
+    RETURN json_build_object('success', false, 'message', 'Mock draft not in progress');
+  END IF;
+  
+  -- Calculate whose turn it is
+  v_next_team := public.pick_sequence_team(
+    v_mock_draft.draft_order, v_mock_draft.pick_sequence, v_mock_draft.current_pick
+  );
+  
+  -- Get team and verify it's a bot
+  SELECT * INTO v_team
+  FROM public.mock_draft_teams
+  WHERE mock_draft_id = p_mock_draft_id AND name = v_next_team;
+  
+  IF NOT COALESCE(v_team.is_bot, FALSE) THEN
+    RETURN json_build_object('success', false, 'message', 'Not a bot''s turn', 'next_team', v_next_team);
+  END IF;
+  
+  -- Draft from the ranking, weighted by need and the bot's personality
+  v_player_id := public.mock_bot_pick_player(p_mock_draft_id, v_team.id);
+  
+  IF v_player_id IS NULL THEN
+    RETURN json_build_object('success', false, 'message', 'No players available');
+  END IF;
+  
+  -- Make the pick
+  SELECT public.make_mock_draft_pick(p_mock_draft_id, v_next_team, v_player_id) INTO v_result;
+  
+  RETURN json_build_object(
+    'success', true,
+    'team_name', v_next_team,
+    'player_name', v_result->>'player_name',
+    'message', v_result->>'message',
+    'pick_number', v_result->>'pick_number',
+    'round', v_result->>'round',
+    'is_complete', v_result->>'is_complete'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Bot personalities are chosen when the mock draft is created
+DROP FUNCTION IF EXISTS public.create_league_mock_draft(UUID, TEXT, INTEGER, INTEGER, TEXT, INTEGER[]);
+
+CREATE OR REPLACE FUNCTION public.create_league_mock_draft(
+  p_league_id UUID,
+  p_user_team_name TEXT,
+  p_num_bots INTEGER DEFAULT 3,
+  p_total_rounds INTEGER DEFAULT 5,
+  p_draft_format TEXT DEFAULT 'snake',
+  p_pick_sequence INTEGER[] DEFAULT NULL,
+  p_bot_strategies TEXT[] DEFAULT NULL -- One per bot, in bot order; balanced when missing
+)
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID;
+  v_mock_draft_id UUID;
+  v_user_team_id UUID;
+  v_total_teams INTEGER;
+  v_bot_names TEXT[] := ARRAY[
+    'Bot Warriors', 'AI Titans', 'Robo Raiders', 'Cyber Crusaders',
+    'Digital Dragons', 'Machine Monsters', 'Virtual Vikings', 'Binary Bears',
+    'Circuit Sharks', 'Data Demons', 'Neural Knights'
+  ];
+  v_bot_name TEXT;
+  v_shuffled_teams TEXT[];
+  i INTEGER;
+BEGIN
+  -- Get current user ID from auth context
+  v_user_id := auth.uid();
+  
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Verify user has a team in this league
+  IF NOT EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE league_id = p_league_id AND owner_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'You must have a team in this league to create a mock draft';
+  END IF;
+
+  -- Verify league exists and is not a mock league
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leagues
+    WHERE id = p_league_id AND (is_mock IS NULL OR is_mock = FALSE)
+  ) THEN
+    RAISE EXCEPTION 'League not found or is already a mock league';
+  END IF;
+
+  v_total_teams := p_num_bots + 1;
+
+  PERFORM public.validate_pick_sequence(p_pick_sequence, v_total_teams, p_total_rounds);
+
+  -- Create the mock draft record
+  INSERT INTO public.mock_drafts (
+    league_id,
+    creator_id,
+    num_bots,
+    total_rounds,
+    status,
+    draft_format,
+    pick_sequence
+  )
+  VALUES (
+    p_league_id,
+    v_user_id,
+    p_num_bots,
+    p_total_rounds,
+    'in_progress',
+    p_draft_format,
+    p_pick_sequence
+  )
+  RETURNING id INTO v_mock_draft_id;
+
+  -- Create user's mock team
+  INSERT INTO public.mock_draft_teams (mock_draft_id, name, is_bot, owner_id)
+  VALUES (v_mock_draft_id, p_user_team_name, FALSE, v_user_id)
+  RETURNING id INTO v_user_team_id;
+
+  -- Create shuffled team order starting with user
+  v_shuffled_teams := ARRAY[p_user_team_name];
+
+  -- Create bot teams
+  FOR i IN 1..p_num_bots LOOP
+    v_bot_name := v_bot_names[(i - 1) % array_length(v_bot_names, 1) + 1];
+    
+    INSERT INTO public.mock_draft_teams (mock_draft_id, name, is_bot, owner_id, bot_strategy)
+    VALUES (v_mock_draft_id, v_bot_name, TRUE, NULL, COALESCE(p_bot_strategies[i], 'balanced'));
+    
+    v_shuffled_teams := array_append(v_shuffled_teams, v_bot_name);
+  END LOOP;
+
+  -- Shuffle the draft order
+  SELECT ARRAY_AGG(name ORDER BY random()) INTO v_shuffled_teams
+  FROM public.mock_draft_teams
+  WHERE mock_draft_id = v_mock_draft_id;
+
+  -- Update mock draft with shuffled order
+  UPDATE public.mock_drafts
+  SET draft_order = v_shuffled_teams
+  WHERE id = v_mock_draft_id;
+
+  RETURN json_build_object(
+    'mock_draft_id', v_mock_draft_id,
+    'league_id', p_league_id,
+    'user_team_id', v_user_team_id,
+    'total_teams', v_total_teams,
+    'draft_order', v_shuffled_teams,
+    'message', 'Mock draft created and started successfully'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
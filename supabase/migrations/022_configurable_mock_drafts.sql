@@ -0,0 +1,379 @@
+-- Configurable Mock Drafts Migration
+-- A mock draft keeps the options it was started with, so resuming it later
+-- drafts the same way:
+--   user_draft_slot        - the user's 1-based slot in draft_order (NULL: random)
+--   bot_pick_delay         - milliseconds a bot waits before picking (0: instant)
+--   mirror_league_settings - rounds, format and lineup were copied from the league
+--   lineup                 - starter slots the bots draft for (NULL: the league's)
+-- Round count and format were already stored as total_rounds and draft_format.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'mock_drafts'
+    AND column_name = 'user_draft_slot'
+  ) THEN
+    ALTER TABLE public.mock_drafts ADD COLUMN user_draft_slot INTEGER;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'mock_drafts'
+    AND column_name = 'bot_pick_delay'
+  ) THEN
+    ALTER TABLE public.mock_drafts ADD COLUMN bot_pick_delay INTEGER DEFAULT 1500 NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'mock_drafts'
+    AND column_name = 'mirror_league_settings'
+  ) THEN
+    ALTER TABLE public.mock_drafts ADD COLUMN mirror_league_settings BOOLEAN DEFAULT FALSE NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'mock_drafts'
+    AND column_name = 'lineup'
+  ) THEN
+    ALTER TABLE public.mock_drafts ADD COLUMN lineup JSONB;
+  END IF;
+END $$;
+
+-- Bots fill the mock draft's own lineup when it has one
+CREATE OR REPLACE FUNCTION public.mock_bot_pick_player(p_mock_draft_id UUID, p_team_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_mock_draft public.mock_drafts%ROWTYPE;
+  v_strategy TEXT;
+  v_needs JSONB;
+  v_position TEXT;
+  v_round INTEGER;
+  v_picks_left INTEGER;
+  v_specialists_needed INTEGER;
+  v_player_id UUID;
+BEGIN
+  SELECT * INTO v_mock_draft FROM public.mock_drafts WHERE id = p_mock_draft_id;
+
+  SELECT COALESCE(bot_strategy, 'balanced') INTO v_strategy
+  FROM public.mock_draft_teams
+  WHERE id = p_team_id;
+
+  -- Open starter slots after the bot's picks so far
+  SELECT COALESCE(
+    v_mock_draft.lineup,
+    settings->'lineup',
+    '{"QB": 1, "RB": 2, "WR": 2, "TE": 1, "FLEX": 1, "K": 1, "DEF": 1}'::JSONB
+  ) INTO v_needs
+  FROM public.leagues
+  WHERE id = v_mock_draft.league_id;
+
+  FOR v_position IN
+    SELECT UPPER(p.position)
+    FROM public.mock_draft_picks mdp
+    JOIN public.players p ON p.id = mdp.player_id
+    WHERE mdp.mock_draft_id = p_mock_draft_id
+    AND mdp.mock_team_id = p_team_id
+    ORDER BY mdp.pick_number
+  LOOP
+    IF COALESCE((v_needs->>v_position)::INTEGER, 0) > 0 THEN
+      v_needs := jsonb_set(v_needs, ARRAY[v_position], to_jsonb((v_needs->>v_position)::INTEGER - 1));
+    ELSIF v_position IN ('RB', 'WR', 'TE') AND COALESCE((v_needs->>'FLEX')::INTEGER, 0) > 0 THEN
+      v_needs := jsonb_set(v_needs, ARRAY['FLEX'], to_jsonb((v_needs->>'FLEX')::INTEGER - 1));
+    END IF;
+  END LOOP;
+
+  v_round := v_mock_draft.current_pick / array_length(v_mock_draft.draft_order, 1) + 1;
+  v_picks_left := v_mock_draft.total_rounds - v_round + 1;
+  v_specialists_needed :=
+    COALESCE((v_needs->>'K')::INTEGER, 0) + COALESCE((v_needs->>'DEF')::INTEGER, 0);
+
+  -- Kickers and defenses only once the remaining picks are needed for them
+  IF v_specialists_needed > 0 AND v_picks_left <= v_specialists_needed THEN
+    SELECT p.id INTO v_player_id
+    FROM public.players p
+    WHERE UPPER(p.position) IN ('K', 'DEF')
+    AND COALESCE((v_needs->>UPPER(p.position))::INTEGER, 0) > 0
+    AND NOT EXISTS (
+      SELECT 1 FROM public.mock_draft_picks mdp
+      WHERE mdp.mock_draft_id = p_mock_draft_id AND mdp.player_id = p.id
+    )
+    ORDER BY p.adp ASC NULLS LAST, p.projected_points DESC NULLS LAST, random()
+    LIMIT 1;
+
+    IF v_player_id IS NOT NULL THEN
+      RETURN v_player_id;
+    END IF;
+  END IF;
+
+  -- Score the top of the board: ranking, then need and personality, plus a
+  -- little noise so the same bot doesn't draft the same team every time
+  SELECT c.id INTO v_player_id
+  FROM (
+    SELECT
+      p.id,
+      UPPER(p.position) AS position,
+      ROW_NUMBER() OVER (
+        ORDER BY p.adp ASC NULLS LAST, p.projected_points DESC NULLS LAST, random()
+      ) AS board_rank
+    FROM public.players p
+    WHERE UPPER(p.position) NOT IN ('K', 'DEF')
+    AND NOT EXISTS (
+      SELECT 1 FROM public.mock_draft_picks mdp
+      WHERE mdp.mock_draft_id = p_mock_draft_id AND mdp.player_id = p.id
+    )
+  ) c
+  WHERE c.board_rank <= 30
+  ORDER BY
+    c.board_rank
+    + CASE
+        WHEN v_strategy = 'best_available' THEN 0
+        WHEN COALESCE((v_needs->>c.position)::INTEGER, 0) > 0 THEN 0
+        WHEN c.position IN ('RB', 'WR', 'TE') AND COALESCE((v_needs->>'FLEX')::INTEGER, 0) > 0 THEN 0
+        ELSE 12
+      END
+    + CASE
+        WHEN c.position = 'RB' AND v_round <= 4 AND v_strategy = 'rb_heavy' THEN -8
+        WHEN c.position = 'RB' AND v_round <= 4 AND v_strategy = 'zero_rb' THEN 25
+        ELSE 0
+      END
+    + random() * CASE WHEN v_strategy = 'best_available' THEN 2 ELSE 4 END
+  LIMIT 1;
+
+  -- Only kickers and defenses left
+  IF v_player_id IS NULL THEN
+    SELECT p.id INTO v_player_id
+    FROM public.players p
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.mock_draft_picks mdp
+      WHERE mdp.mock_draft_id = p_mock_draft_id AND mdp.player_id = p.id
+    )
+    ORDER BY p.adp ASC NULLS LAST, p.projected_points DESC NULLS LAST, random()
+    LIMIT 1;
+  END IF;
+
+  RETURN v_player_id;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP FUNCTION IF EXISTS public.create_league_mock_draft(UUID, TEXT, INTEGER, INTEGER, TEXT, INTEGER[], TEXT[]);
+
+CREATE OR REPLACE FUNCTION public.create_league_mock_draft(
+  p_league_id UUID,
+  p_user_team_name TEXT,
+  p_num_bots INTEGER DEFAULT 3,
+  p_total_rounds INTEGER DEFAULT 5,
+  p_draft_format TEXT DEFAULT 'snake',
+  p_pick_sequence INTEGER[] DEFAULT NULL,
+  p_bot_strategies TEXT[] DEFAULT NULL, -- One per bot, in bot order; balanced when missing
+  p_user_draft_slot INTEGER DEFAULT NULL, -- 1-based; random when NULL
+  p_bot_pick_delay INTEGER DEFAULT 1500, -- Milliseconds; 0 is instant
+  p_mirror_league_settings BOOLEAN DEFAULT FALSE,
+  p_lineup JSONB DEFAULT NULL -- Starter slots the bots draft for
+)
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID;
+  v_mock_draft_id UUID;
+  v_user_team_id UUID;
+  v_total_teams INTEGER;
+  v_bot_names TEXT[] := ARRAY[
+    'Bot Warriors', 'AI Titans', 'Robo Raiders', 'Cyber Crusaders',
+    'Digital Dragons', 'Machine Monsters', 'Virtual Vikings', 'Binary Bears',
+    'Circuit Sharks', 'Data Demons', 'Neural Knights'
+  ];
+  v_bot_name TEXT;
+  v_shuffled_teams TEXT[];
+  i INTEGER;
+BEGIN
+  -- Get current user ID from auth context
+  v_user_id := auth.uid();
+  
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Verify user has a team in this league
+  IF NOT EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE league_id = p_league_id AND owner_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'You must have a team in this league to create a mock draft';
+  END IF;
+
+  -- Verify league exists and is not a mock league
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leagues
+    WHERE id = p_league_id AND (is_mock IS NULL OR is_mock = FALSE)
+  ) THEN
+    RAISE EXCEPTION 'League not found or is already a mock league';
+  END IF;
+
+  v_total_teams := p_num_bots + 1;
+
+  IF p_user_draft_slot IS NOT NULL AND (p_user_draft_slot < 1 OR p_user_draft_slot > v_total_teams) THEN
+    RAISE EXCEPTION 'Draft slot must be between 1 and %', v_total_teams;
+  END IF;
+
+  IF p_bot_pick_delay IS NULL OR p_bot_pick_delay < 0 THEN
+    RAISE EXCEPTION 'Bot pick delay cannot be negative';
+  END IF;
+
+  PERFORM public.validate_pick_sequence(p_pick_sequence, v_total_teams, p_total_rounds);
+
+  -- Create the mock draft record
+  INSERT INTO public.mock_drafts (
+    league_id,
+    creator_id,
+    num_bots,
+    total_rounds,
+    status,
+    draft_format,
+    pick_sequence,
+    user_draft_slot,
+    bot_pick_delay,
+    mirror_league_settings,
+    lineup
+  )
+  VALUES (
+    p_league_id,
+    v_user_id,
+    p_num_bots,
+    p_total_rounds,
+    'in_progress',
+    p_draft_format,
+    p_pick_sequence,
+    p_user_draft_slot,
+    p_bot_pick_delay,
+    COALESCE(p_mirror_league_settings, FALSE),
+    p_lineup
+  )
+  RETURNING id INTO v_mock_draft_id;
+
+  -- Create user's mock team
+  INSERT INTO public.mock_draft_teams (mock_draft_id, name, is_bot, owner_id)
+  VALUES (v_mock_draft_id, p_user_team_name, FALSE, v_user_id)
+  RETURNING id INTO v_user_team_id;
+
+  -- Create shuffled team order starting with user
+  v_shuffled_teams := ARRAY[p_user_team_name];
+
+  -- Create bot teams
+  FOR i IN 1..p_num_bots LOOP
+    v_bot_name := v_bot_names[(i - 1) % array_length(v_bot_names, 1) + 1];
+    
+    INSERT INTO public.mock_draft_teams (mock_draft_id, name, is_bot, owner_id, bot_strategy)
+    VALUES (v_mock_draft_id, v_bot_name, TRUE, NULL, COALESCE(p_bot_strategies[i], 'balanced'));
+    
+    v_shuffled_teams := array_append(v_shuffled_teams, v_bot_name);
+  END LOOP;
+
+  -- Shuffle the draft order
+  SELECT ARRAY_AGG(name ORDER BY random()) INTO v_shuffled_teams
+  FROM public.mock_draft_teams
+  WHERE mock_draft_id = v_mock_draft_id;
+
+  -- Put the user in their chosen slot, bots shuffled around them
+  IF p_user_draft_slot IS NOT NULL THEN
+    v_shuffled_teams := array_remove(v_shuffled_teams, p_user_team_name);
+    v_shuffled_teams :=
+      v_shuffled_teams[1:p_user_draft_slot - 1]
+      || p_user_team_name
+      || v_shuffled_teams[p_user_draft_slot:];
+  END IF;
+
+  -- Update mock draft with shuffled order
+  UPDATE public.mock_drafts
+  SET draft_order = v_shuffled_teams
+  WHERE id = v_mock_draft_id;
+
+  RETURN json_build_object(
+    'mock_draft_id', v_mock_draft_id,
+    'league_id', p_league_id,
+    'user_team_id', v_user_team_id,
+    'total_teams', v_total_teams,
+    'draft_order', v_shuffled_teams,
+    'message', 'Mock draft created and started successfully'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Mock draft state includes its options and each bot's personality
+CREATE OR REPLACE FUNCTION public.get_mock_draft_state(p_mock_draft_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_mock_draft public.mock_drafts%ROWTYPE;
+  v_teams JSON;
+  v_picks JSON;
+  v_next_team TEXT;
+  v_team_count INTEGER;
+BEGIN
+  -- Get mock draft
+  SELECT * INTO v_mock_draft FROM public.mock_drafts WHERE id = p_mock_draft_id;
+  
+  IF v_mock_draft.id IS NULL THEN 
+    RAISE EXCEPTION 'Mock draft not found'; 
+  END IF;
+  
+  -- Get teams
+  SELECT json_agg(row_to_json(t)) INTO v_teams
+  FROM (
+    SELECT id, mock_draft_id, name, is_bot, owner_id, bot_strategy, created_at
+    FROM public.mock_draft_teams
+    WHERE mock_draft_id = p_mock_draft_id
+    ORDER BY created_at
+  ) t;
+  
+  -- Get picks
+  SELECT json_agg(row_to_json(p)) INTO v_picks
+  FROM (
+    SELECT 
+      mdp.id, 
+      mdp.mock_draft_id, 
+      mdp.mock_team_id, 
+      mdp.player_id, 
+      mdp.round, 
+      mdp.pick_number,
+      mdt.name as team_name,
+      pl.first_name || ' ' || pl.last_name as player_name
+    FROM public.mock_draft_picks mdp
+    JOIN public.mock_draft_teams mdt ON mdt.id = mdp.mock_team_id
+    JOIN public.players pl ON pl.id = mdp.player_id
+    WHERE mdp.mock_draft_id = p_mock_draft_id
+    ORDER BY mdp.pick_number
+  ) p;
+  
+  -- Calculate next team
+  v_team_count := array_length(v_mock_draft.draft_order, 1);
+  v_next_team := public.pick_sequence_team(
+    v_mock_draft.draft_order, v_mock_draft.pick_sequence, v_mock_draft.current_pick
+  );
+  
+  RETURN json_build_object(
+    'id', v_mock_draft.id,
+    'league_id', v_mock_draft.league_id,
+    'creator_id', v_mock_draft.creator_id,
+    'status', v_mock_draft.status,
+    'num_bots', v_mock_draft.num_bots,
+    'total_rounds', v_mock_draft.total_rounds,
+    'current_round', v_mock_draft.current_round,
+    'current_pick', v_mock_draft.current_pick,
+    'draft_order', v_mock_draft.draft_order,
+    'draft_format', v_mock_draft.draft_format,
+    'user_draft_slot', v_mock_draft.user_draft_slot,
+    'bot_pick_delay', v_mock_draft.bot_pick_delay,
+    'mirror_league_settings', v_mock_draft.mirror_league_settings,
+    'lineup', v_mock_draft.lineup,
+    'teams', COALESCE(v_teams, '[]'::json),
+    'picks', COALESCE(v_picks, '[]'::json),
+    'next_team', v_next_team,
+    'total_picks', v_team_count * v_mock_draft.total_rounds
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
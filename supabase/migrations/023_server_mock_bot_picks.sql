@@ -0,0 +1,84 @@
+-- Server-Driven Mock Draft Bots Migration
+-- Bot picks in mock drafts used to be driven from the browser, so closing the
+-- tab stalled the draft and two open tabs raced each other. The server's
+-- background job now calls process_mock_draft_bot_picks() on a short
+-- interval; it picks for every mock draft whose bot has waited out its
+-- bot_pick_delay since the last pick. Clients only watch for changes.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'mock_drafts'
+    AND column_name = 'last_pick_at'
+  ) THEN
+    ALTER TABLE public.mock_drafts ADD COLUMN last_pick_at TIMESTAMPTZ DEFAULT NOW(); -- When the last pick (or the draft's creation) happened
+  END IF;
+END $$;
+
+UPDATE public.mock_drafts
+SET last_pick_at = COALESCE(
+  (SELECT MAX(mdp.created_at) FROM public.mock_draft_picks mdp WHERE mdp.mock_draft_id = mock_drafts.id),
+  created_at
+)
+WHERE last_pick_at IS NULL OR status = 'in_progress';
+
+CREATE INDEX IF NOT EXISTS idx_mock_drafts_in_progress
+  ON public.mock_drafts(last_pick_at)
+  WHERE status = 'in_progress';
+
+-- Stamp the draft whenever a pick lands, whoever made it
+CREATE OR REPLACE FUNCTION public.touch_mock_draft_last_pick()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.mock_drafts
+  SET last_pick_at = NOW()
+  WHERE id = NEW.mock_draft_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_touch_mock_draft_last_pick ON public.mock_draft_picks;
+CREATE TRIGGER trigger_touch_mock_draft_last_pick
+  AFTER INSERT ON public.mock_draft_picks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_mock_draft_last_pick();
+
+-- Make every bot pick that is due. Instant bots (bot_pick_delay 0) keep
+-- picking until it is the user's turn; the rest make one pick per call.
+CREATE OR REPLACE FUNCTION public.process_mock_draft_bot_picks()
+RETURNS JSON AS $$
+DECLARE
+  v_mock_draft public.mock_drafts%ROWTYPE;
+  v_result JSON;
+  v_bot_picks INTEGER := 0;
+BEGIN
+  FOR v_mock_draft IN
+    SELECT md.* FROM public.mock_drafts md
+    WHERE md.status = 'in_progress'
+    AND md.last_pick_at + make_interval(secs => md.bot_pick_delay / 1000.0) <= NOW()
+    AND EXISTS (
+      SELECT 1 FROM public.mock_draft_teams mdt
+      WHERE mdt.mock_draft_id = md.id
+      AND mdt.is_bot
+      AND mdt.name = public.pick_sequence_team(md.draft_order, md.pick_sequence, md.current_pick)
+    )
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    LOOP
+      v_result := public.make_mock_draft_bot_pick(v_mock_draft.id);
+      EXIT WHEN NOT (v_result->>'success')::BOOLEAN;
+
+      v_bot_picks := v_bot_picks + 1;
+      EXIT WHEN v_mock_draft.bot_pick_delay > 0 OR (v_result->>'is_complete')::BOOLEAN;
+    END LOOP;
+  END LOOP;
+
+  RETURN json_build_object('bot_picks', v_bot_picks);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the server job picks for bots now
+REVOKE EXECUTE ON FUNCTION public.make_mock_draft_bot_pick(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.process_mock_draft_bot_picks() FROM PUBLIC, anon, authenticated;
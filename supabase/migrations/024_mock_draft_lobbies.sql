@@ -0,0 +1,500 @@
+-- Mock Draft Lobbies Migration
+-- A mock draft can now open as a lobby (status 'lobby') instead of starting
+-- straight away. Every seat but the creator's starts as a bot; other members
+-- of the league claim a bot seat to draft it themselves, and leaving hands it
+-- back to a bot. The creator starts the draft, which sets the draft order and
+-- leaves any unclaimed seats to the bots.
+
+ALTER TABLE public.mock_drafts DROP CONSTRAINT IF EXISTS mock_drafts_status_check;
+ALTER TABLE public.mock_drafts ADD CONSTRAINT mock_drafts_status_check
+  CHECK (status IN ('lobby', 'in_progress', 'completed', 'cancelled'));
+
+-- League-mates can claim every bot seat
+ALTER TABLE public.mock_drafts DROP CONSTRAINT IF EXISTS valid_num_bots;
+ALTER TABLE public.mock_drafts ADD CONSTRAINT valid_num_bots
+  CHECK (num_bots >= 0 AND num_bots <= 11);
+
+-- Shuffle a mock draft's teams into its draft order, keeping the creator in
+-- their chosen slot, and return the order
+CREATE OR REPLACE FUNCTION public.order_mock_draft(p_mock_draft_id UUID)
+RETURNS TEXT[] AS $$
+DECLARE
+  v_mock_draft public.mock_drafts%ROWTYPE;
+  v_creator_team TEXT;
+  v_order TEXT[];
+BEGIN
+  SELECT * INTO v_mock_draft FROM public.mock_drafts WHERE id = p_mock_draft_id;
+
+  SELECT ARRAY_AGG(name ORDER BY random()) INTO v_order
+  FROM public.mock_draft_teams
+  WHERE mock_draft_id = p_mock_draft_id;
+
+  -- Put the creator in their chosen slot, everyone else shuffled around them
+  IF v_mock_draft.user_draft_slot IS NOT NULL THEN
+    SELECT name INTO v_creator_team
+    FROM public.mock_draft_teams
+    WHERE mock_draft_id = p_mock_draft_id AND owner_id = v_mock_draft.creator_id;
+
+    v_order := array_remove(v_order, v_creator_team);
+    v_order :=
+      v_order[1:v_mock_draft.user_draft_slot - 1]
+      || v_creator_team
+      || v_order[v_mock_draft.user_draft_slot:];
+  END IF;
+
+  UPDATE public.mock_drafts
+  SET draft_order = v_order
+  WHERE id = p_mock_draft_id;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.order_mock_draft(UUID) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS public.create_league_mock_draft(UUID, TEXT, INTEGER, INTEGER, TEXT, INTEGER[], TEXT[], INTEGER, INTEGER, BOOLEAN, JSONB);
+
+CREATE OR REPLACE FUNCTION public.create_league_mock_draft(
+  p_league_id UUID,
+  p_user_team_name TEXT,
+  p_num_bots INTEGER DEFAULT 3,
+  p_total_rounds INTEGER DEFAULT 5,
+  p_draft_format TEXT DEFAULT 'snake',
+  p_pick_sequence INTEGER[] DEFAULT NULL,
+  p_bot_strategies TEXT[] DEFAULT NULL, -- One per bot, in bot order; balanced when missing
+  p_user_draft_slot INTEGER DEFAULT NULL, -- 1-based; random when NULL
+  p_bot_pick_delay INTEGER DEFAULT 1500, -- Milliseconds; 0 is instant
+  p_mirror_league_settings BOOLEAN DEFAULT FALSE,
+  p_lineup JSONB DEFAULT NULL, -- Starter slots the bots draft for
+  p_lobby BOOLEAN DEFAULT FALSE -- Wait in a lobby for league-mates to claim bot seats
+)
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID;
+  v_mock_draft_id UUID;
+  v_user_team_id UUID;
+  v_total_teams INTEGER;
+  v_bot_names TEXT[] := ARRAY[
+    'Bot Warriors', 'AI Titans', 'Robo Raiders', 'Cyber Crusaders',
+    'Digital Dragons', 'Machine Monsters', 'Virtual Vikings', 'Binary Bears',
+    'Circuit Sharks', 'Data Demons', 'Neural Knights'
+  ];
+  v_bot_name TEXT;
+  v_shuffled_teams TEXT[];
+  i INTEGER;
+BEGIN
+  -- Get current user ID from auth context
+  v_user_id := auth.uid();
+  
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Verify user has a team in this league
+  IF NOT EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE league_id = p_league_id AND owner_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'You must have a team in this league to create a mock draft';
+  END IF;
+
+  -- Verify league exists and is not a mock league
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leagues
+    WHERE id = p_league_id AND (is_mock IS NULL OR is_mock = FALSE)
+  ) THEN
+    RAISE EXCEPTION 'League not found or is already a mock league';
+  END IF;
+
+  v_total_teams := p_num_bots + 1;
+
+  IF p_user_draft_slot IS NOT NULL AND (p_user_draft_slot < 1 OR p_user_draft_slot > v_total_teams) THEN
+    RAISE EXCEPTION 'Draft slot must be between 1 and %', v_total_teams;
+  END IF;
+
+  IF p_bot_pick_delay IS NULL OR p_bot_pick_delay < 0 THEN
+    RAISE EXCEPTION 'Bot pick delay cannot be negative';
+  END IF;
+
+  PERFORM public.validate_pick_sequence(p_pick_sequence, v_total_teams, p_total_rounds);
+
+  -- Create the mock draft record
+  INSERT INTO public.mock_drafts (
+    league_id,
+    creator_id,
+    num_bots,
+    total_rounds,
+    status,
+    draft_format,
+    pick_sequence,
+    user_draft_slot,
+    bot_pick_delay,
+    mirror_league_settings,
+    lineup
+  )
+  VALUES (
+    p_league_id,
+    v_user_id,
+    p_num_bots,
+    p_total_rounds,
+    CASE WHEN p_lobby THEN 'lobby' ELSE 'in_progress' END,
+    p_draft_format,
+    p_pick_sequence,
+    p_user_draft_slot,
+    p_bot_pick_delay,
+    COALESCE(p_mirror_league_settings, FALSE),
+    p_lineup
+  )
+  RETURNING id INTO v_mock_draft_id;
+
+  -- Create user's mock team
+  INSERT INTO public.mock_draft_teams (mock_draft_id, name, is_bot, owner_id)
+  VALUES (v_mock_draft_id, p_user_team_name, FALSE, v_user_id)
+  RETURNING id INTO v_user_team_id;
+
+  -- Create bot teams
+  FOR i IN 1..p_num_bots LOOP
+    v_bot_name := v_bot_names[(i - 1) % array_length(v_bot_names, 1) + 1];
+    
+    INSERT INTO public.mock_draft_teams (mock_draft_id, name, is_bot, owner_id, bot_strategy)
+    VALUES (v_mock_draft_id, v_bot_name, TRUE, NULL, COALESCE(p_bot_strategies[i], 'balanced'));
+  END LOOP;
+
+  -- Lobbies are ordered when the creator starts the draft
+  IF NOT p_lobby THEN
+    v_shuffled_teams := public.order_mock_draft(v_mock_draft_id);
+  END IF;
+
+  RETURN json_build_object(
+    'mock_draft_id', v_mock_draft_id,
+    'league_id', p_league_id,
+    'user_team_id', v_user_team_id,
+    'total_teams', v_total_teams,
+    'draft_order', COALESCE(v_shuffled_teams, ARRAY[]::TEXT[]),
+    'status', CASE WHEN p_lobby THEN 'lobby' ELSE 'in_progress' END,
+    'message', CASE
+      WHEN p_lobby THEN 'Mock draft lobby created'
+      ELSE 'Mock draft created and started successfully'
+    END
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Claim a bot seat in a mock draft lobby with your league team
+CREATE OR REPLACE FUNCTION public.claim_mock_draft_seat(p_mock_draft_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID;
+  v_mock_draft public.mock_drafts%ROWTYPE;
+  v_team_name TEXT;
+  v_seat_id UUID;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_mock_draft FROM public.mock_drafts WHERE id = p_mock_draft_id FOR UPDATE;
+
+  IF v_mock_draft.id IS NULL THEN
+    RAISE EXCEPTION 'Mock draft not found';
+  END IF;
+
+  IF v_mock_draft.status != 'lobby' THEN
+    RAISE EXCEPTION 'This mock draft has already started';
+  END IF;
+
+  SELECT name INTO v_team_name
+  FROM public.teams
+  WHERE league_id = v_mock_draft.league_id AND owner_id = v_user_id;
+
+  IF v_team_name IS NULL THEN
+    RAISE EXCEPTION 'You must have a team in this league to join its mock drafts';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.mock_draft_teams
+    WHERE mock_draft_id = p_mock_draft_id AND owner_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'You already have a seat in this mock draft';
+  END IF;
+
+  SELECT id INTO v_seat_id
+  FROM public.mock_draft_teams
+  WHERE mock_draft_id = p_mock_draft_id AND is_bot
+  ORDER BY created_at, id
+  LIMIT 1;
+
+  IF v_seat_id IS NULL THEN
+    RAISE EXCEPTION 'This mock draft is full';
+  END IF;
+
+  UPDATE public.mock_draft_teams
+  SET name = v_team_name,
+      is_bot = FALSE,
+      owner_id = v_user_id,
+      bot_strategy = NULL
+  WHERE id = v_seat_id;
+
+  RETURN json_build_object(
+    'team_id', v_seat_id,
+    'message', v_team_name || ' joined the mock draft'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Give your seat in a mock draft lobby back to a bot
+CREATE OR REPLACE FUNCTION public.leave_mock_draft_seat(p_mock_draft_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID;
+  v_mock_draft public.mock_drafts%ROWTYPE;
+  v_seat public.mock_draft_teams%ROWTYPE;
+  v_bot_names TEXT[] := ARRAY[
+    'Bot Warriors', 'AI Titans', 'Robo Raiders', 'Cyber Crusaders',
+    'Digital Dragons', 'Machine Monsters', 'Virtual Vikings', 'Binary Bears',
+    'Circuit Sharks', 'Data Demons', 'Neural Knights'
+  ];
+  v_bot_name TEXT;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_mock_draft FROM public.mock_drafts WHERE id = p_mock_draft_id FOR UPDATE;
+
+  IF v_mock_draft.id IS NULL THEN
+    RAISE EXCEPTION 'Mock draft not found';
+  END IF;
+
+  IF v_mock_draft.status != 'lobby' THEN
+    RAISE EXCEPTION 'This mock draft has already started';
+  END IF;
+
+  IF v_mock_draft.creator_id = v_user_id THEN
+    RAISE EXCEPTION 'The creator can''t leave their own mock draft';
+  END IF;
+
+  SELECT * INTO v_seat
+  FROM public.mock_draft_teams
+  WHERE mock_draft_id = p_mock_draft_id AND owner_id = v_user_id;
+
+  IF v_seat.id IS NULL THEN
+    RAISE EXCEPTION 'You don''t have a seat in this mock draft';
+  END IF;
+
+  -- First bot name not already in the draft
+  SELECT n INTO v_bot_name
+  FROM unnest(v_bot_names) WITH ORDINALITY AS b(n, i)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.mock_draft_teams
+    WHERE mock_draft_id = p_mock_draft_id AND name = b.n
+  )
+  ORDER BY b.i
+  LIMIT 1;
+
+  UPDATE public.mock_draft_teams
+  SET name = v_bot_name,
+      is_bot = TRUE,
+      owner_id = NULL,
+      bot_strategy = 'balanced'
+  WHERE id = v_seat.id;
+
+  RETURN json_build_object(
+    'message', v_seat.name || ' left the mock draft'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Start a mock draft lobby (creator only); bots keep the unclaimed seats
+CREATE OR REPLACE FUNCTION public.start_mock_draft(p_mock_draft_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID;
+  v_mock_draft public.mock_drafts%ROWTYPE;
+  v_order TEXT[];
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_mock_draft FROM public.mock_drafts WHERE id = p_mock_draft_id FOR UPDATE;
+
+  IF v_mock_draft.id IS NULL THEN
+    RAISE EXCEPTION 'Mock draft not found';
+  END IF;
+
+  IF v_mock_draft.creator_id != v_user_id THEN
+    RAISE EXCEPTION 'Only the creator can start this mock draft';
+  END IF;
+
+  IF v_mock_draft.status != 'lobby' THEN
+    RAISE EXCEPTION 'This mock draft has already started';
+  END IF;
+
+  v_order := public.order_mock_draft(p_mock_draft_id);
+
+  UPDATE public.mock_drafts
+  SET status = 'in_progress',
+      num_bots = (
+        SELECT COUNT(*) FROM public.mock_draft_teams
+        WHERE mock_draft_id = p_mock_draft_id AND is_bot
+      ),
+      last_pick_at = NOW()
+  WHERE id = p_mock_draft_id;
+
+  RETURN json_build_object(
+    'draft_order', v_order,
+    'message', 'Mock draft started'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Human picks are checked against the seat's owner
+CREATE OR REPLACE FUNCTION public.make_mock_draft_pick(
+  p_mock_draft_id UUID,
+  p_team_name TEXT,
+  p_player_id UUID
+)
+RETURNS JSON AS $$
+DECLARE
+  v_mock_draft public.mock_drafts%ROWTYPE;
+  v_team_id UUID;
+  v_is_bot BOOLEAN;
+  v_owner_id UUID;
+  v_player_name TEXT;
+  v_next_team TEXT;
+  v_team_count INTEGER;
+  v_new_pick_number INTEGER;
+  v_new_round INTEGER;
+BEGIN
+  -- Get mock draft state
+  SELECT * INTO v_mock_draft FROM public.mock_drafts WHERE id = p_mock_draft_id;
+  
+  IF v_mock_draft.id IS NULL THEN 
+    RAISE EXCEPTION 'Mock draft not found'; 
+  END IF;
+  
+  IF v_mock_draft.status != 'in_progress' THEN
+    RAISE EXCEPTION 'Mock draft is not in progress';
+  END IF;
+  
+  -- Calculate whose turn it is from the stored pick sequence
+  v_team_count := array_length(v_mock_draft.draft_order, 1);
+  v_next_team := public.pick_sequence_team(
+    v_mock_draft.draft_order, v_mock_draft.pick_sequence, v_mock_draft.current_pick
+  );
+  
+  IF v_next_team != p_team_name THEN 
+    RAISE EXCEPTION 'Not this team''s turn! Current turn: %', v_next_team; 
+  END IF;
+  
+  -- Find team
+  SELECT id, is_bot, owner_id INTO v_team_id, v_is_bot, v_owner_id
+  FROM public.mock_draft_teams
+  WHERE mock_draft_id = p_mock_draft_id AND name = p_team_name;
+  
+  IF v_team_id IS NULL THEN
+    RAISE EXCEPTION 'Team not found in mock draft';
+  END IF;
+
+  -- With league-mates in the draft, people may only pick for their own seat
+  IF NOT v_is_bot AND v_owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only pick for your own team';
+  END IF;
+  
+  -- Verify player is not already picked in this mock draft
+  IF EXISTS (
+    SELECT 1 FROM public.mock_draft_picks
+    WHERE mock_draft_id = p_mock_draft_id AND player_id = p_player_id
+  ) THEN
+    RAISE EXCEPTION 'Player already picked in this mock draft';
+  END IF;
+  
+  -- Get player name
+  SELECT first_name || ' ' || last_name INTO v_player_name
+  FROM public.players
+  WHERE id = p_player_id;
+  
+  IF v_player_name IS NULL THEN
+    RAISE EXCEPTION 'Player not found';
+  END IF;
+  
+  v_new_pick_number := v_mock_draft.current_pick + 1;
+  v_new_round := v_mock_draft.current_round;
+  
+  -- Check if we need to move to next round
+  IF v_new_pick_number % v_team_count = 0 THEN
+    v_new_round := v_mock_draft.current_round + 1;
+  END IF;
+  
+  -- Insert pick
+  INSERT INTO public.mock_draft_picks (mock_draft_id, mock_team_id, player_id, round, pick_number) 
+  VALUES (p_mock_draft_id, v_team_id, p_player_id, v_mock_draft.current_round, v_new_pick_number);
+  
+  -- Update mock draft state
+  UPDATE public.mock_drafts 
+  SET current_pick = v_new_pick_number, 
+      current_round = v_new_round,
+      status = CASE 
+        WHEN v_new_round > v_mock_draft.total_rounds THEN 'completed'
+        ELSE 'in_progress'
+      END,
+      completed_at = CASE 
+        WHEN v_new_round > v_mock_draft.total_rounds THEN NOW()
+        ELSE NULL
+      END
+  WHERE id = p_mock_draft_id;
+  
+  RETURN json_build_object(
+    'message', p_team_name || ' picked ' || v_player_name,
+    'pick_number', v_new_pick_number,
+    'round', v_new_round,
+    'player_name', v_player_name,
+    'is_complete', v_new_round > v_mock_draft.total_rounds
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- League members see open lobbies and mock drafts they have a seat in
+CREATE OR REPLACE FUNCTION public.get_league_mock_drafts(p_league_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_result JSON;
+BEGIN
+  SELECT json_agg(row_to_json(m)) INTO v_result
+  FROM (
+    SELECT 
+      id, 
+      league_id, 
+      creator_id, 
+      status, 
+      (SELECT COUNT(*) FROM public.mock_draft_teams mdt
+       WHERE mdt.mock_draft_id = mock_drafts.id AND NOT mdt.is_bot) AS human_teams,
+      num_bots, 
+      total_rounds,
+      current_round,
+      current_pick,
+      created_at,
+      completed_at
+    FROM public.mock_drafts
+    WHERE league_id = p_league_id
+    AND (
+      creator_id = auth.uid()
+      OR status = 'lobby'
+      OR EXISTS (
+        SELECT 1 FROM public.mock_draft_teams mdt
+        WHERE mdt.mock_draft_id = mock_drafts.id AND mdt.owner_id = auth.uid()
+      )
+    )
+    ORDER BY created_at DESC
+  ) m;
+  
+  RETURN COALESCE(v_result, '[]'::json);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,77 @@
+-- Mock Draft Pick Positions Migration
+-- Mock draft picks come back with the player's position so the draft board
+-- grid can color its cells the same way it does for league drafts.
+
+CREATE OR REPLACE FUNCTION public.get_mock_draft_state(p_mock_draft_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_mock_draft public.mock_drafts%ROWTYPE;
+  v_teams JSON;
+  v_picks JSON;
+  v_next_team TEXT;
+  v_team_count INTEGER;
+BEGIN
+  -- Get mock draft
+  SELECT * INTO v_mock_draft FROM public.mock_drafts WHERE id = p_mock_draft_id;
+  
+  IF v_mock_draft.id IS NULL THEN 
+    RAISE EXCEPTION 'Mock draft not found'; 
+  END IF;
+  
+  -- Get teams
+  SELECT json_agg(row_to_json(t)) INTO v_teams
+  FROM (
+    SELECT id, mock_draft_id, name, is_bot, owner_id, bot_strategy, created_at
+    FROM public.mock_draft_teams
+    WHERE mock_draft_id = p_mock_draft_id
+    ORDER BY created_at
+  ) t;
+  
+  -- Get picks
+  SELECT json_agg(row_to_json(p)) INTO v_picks
+  FROM (
+    SELECT 
+      mdp.id, 
+      mdp.mock_draft_id, 
+      mdp.mock_team_id, 
+      mdp.player_id, 
+      mdp.round, 
+      mdp.pick_number,
+      mdt.name as team_name,
+      pl.first_name || ' ' || pl.last_name as player_name,
+      pl.position
+    FROM public.mock_draft_picks mdp
+    JOIN public.mock_draft_teams mdt ON mdt.id = mdp.mock_team_id
+    JOIN public.players pl ON pl.id = mdp.player_id
+    WHERE mdp.mock_draft_id = p_mock_draft_id
+    ORDER BY mdp.pick_number
+  ) p;
+  
+  -- Calculate next team
+  v_team_count := array_length(v_mock_draft.draft_order, 1);
+  v_next_team := public.pick_sequence_team(
+    v_mock_draft.draft_order, v_mock_draft.pick_sequence, v_mock_draft.current_pick
+  );
+  
+  RETURN json_build_object(
+    'id', v_mock_draft.id,
+    'league_id', v_mock_draft.league_id,
+    'creator_id', v_mock_draft.creator_id,
+    'status', v_mock_draft.status,
+    'num_bots', v_mock_draft.num_bots,
+    'total_rounds', v_mock_draft.total_rounds,
+    'current_round', v_mock_draft.current_round,
+    'current_pick', v_mock_draft.current_pick,
+    'draft_order', v_mock_draft.draft_order,
+    'draft_format', v_mock_draft.draft_format,
+    'user_draft_slot', v_mock_draft.user_draft_slot,
+    'bot_pick_delay', v_mock_draft.bot_pick_delay,
+    'mirror_league_settings', v_mock_draft.mirror_league_settings,
+    'lineup', v_mock_draft.lineup,
+    'teams', COALESCE(v_teams, '[]'::json),
+    'picks', COALESCE(v_picks, '[]'::json),
+    'next_team', v_next_team,
+    'total_picks', v_team_count * v_mock_draft.total_rounds
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,659 @@
+-- Keeper Leagues Migration
+-- Commissioners can let teams carry players over from the league's last
+-- completed draft into the next one. Keeper options live in leagues.settings:
+--   keepers_enabled      - whether teams may declare keepers (default false)
+--   max_keepers          - keepers allowed per team (default 1)
+--   keeper_round_penalty - a keeper costs the pick N rounds before the round
+--                          it was drafted in, never earlier than round 1 (default 1)
+--   keeper_deadline      - declarations close at this time; NULL leaves them
+--                          open until the draft starts
+--
+-- start_new_season() clears rosters and returns the league to a pending
+-- draft without touching teams or past drafts. When the next draft starts,
+-- each keeper is recorded as its team's pick in the round it costs, and the
+-- clock skips every slot a keeper already filled.
+
+-- Keeper picks are marked so they can't be undone like a normal pick
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'draft_picks'
+    AND column_name = 'is_keeper'
+  ) THEN
+    ALTER TABLE public.draft_picks ADD COLUMN is_keeper BOOLEAN DEFAULT FALSE NOT NULL;
+  END IF;
+END $$;
+
+-- Players a team keeps from a completed draft for the league's next draft
+CREATE TABLE IF NOT EXISTS public.keepers (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  league_id UUID REFERENCES public.leagues(id) ON DELETE CASCADE NOT NULL,
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL,
+  player_id UUID REFERENCES public.players(id) ON DELETE CASCADE NOT NULL,
+  source_draft_id UUID REFERENCES public.drafts(id) ON DELETE CASCADE NOT NULL, -- Draft the player is kept from
+  round INTEGER NOT NULL CHECK (round >= 1), -- Round whose pick the team forfeits
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+  UNIQUE(source_draft_id, player_id),
+  UNIQUE(source_draft_id, team_id, round) -- One keeper per forfeited pick
+);
+
+CREATE INDEX IF NOT EXISTS idx_keepers_league_id ON public.keepers(league_id, source_draft_id);
+
+ALTER TABLE public.keepers ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the SECURITY DEFINER functions below
+CREATE POLICY "Public read keepers" ON public.keepers FOR SELECT USING (true);
+
+-- The completed draft a league's keepers come from, if any
+CREATE OR REPLACE FUNCTION public.get_keeper_source_draft(p_league_id UUID)
+RETURNS UUID AS $$
+BEGIN
+  RETURN (
+    SELECT id FROM public.drafts
+    WHERE league_id = p_league_id
+    AND status = 'completed'
+    ORDER BY completed_at DESC NULLS LAST
+    LIMIT 1
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Check that a team's owner can still change keepers and return its league
+CREATE OR REPLACE FUNCTION public.check_keeper_window(p_team_id UUID)
+RETURNS public.leagues AS $$
+DECLARE
+  v_user_id UUID;
+  v_league public.leagues%ROWTYPE;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT l.* INTO v_league
+  FROM public.leagues l
+  JOIN public.teams t ON t.league_id = l.id
+  WHERE t.id = p_team_id AND t.owner_id = v_user_id;
+
+  IF v_league.id IS NULL THEN
+    RAISE EXCEPTION 'You can only manage keepers for your own team';
+  END IF;
+
+  IF NOT COALESCE((v_league.settings->>'keepers_enabled')::BOOLEAN, FALSE) THEN
+    RAISE EXCEPTION 'Keepers are not enabled in this league';
+  END IF;
+
+  IF COALESCE(v_league.settings->>'draft_type', 'standard') = 'auction' THEN
+    RAISE EXCEPTION 'Keepers are only supported for standard drafts';
+  END IF;
+
+  IF v_league.draft_status != 'pending' THEN
+    RAISE EXCEPTION 'Keepers can only be changed before the draft starts';
+  END IF;
+
+  IF NULLIF(v_league.settings->>'keeper_deadline', '') IS NOT NULL
+    AND NOW() > (v_league.settings->>'keeper_deadline')::TIMESTAMPTZ THEN
+    RAISE EXCEPTION 'The keeper deadline has passed';
+  END IF;
+
+  RETURN v_league;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Declare a keeper for the next draft (team owner only)
+-- The player must have been drafted by this team in the last completed draft
+CREATE OR REPLACE FUNCTION public.declare_keeper(p_team_id UUID, p_player_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_league public.leagues%ROWTYPE;
+  v_source_draft_id UUID;
+  v_drafted_round INTEGER;
+  v_round INTEGER;
+  v_max_keepers INTEGER;
+  v_penalty INTEGER;
+  v_total_rounds INTEGER;
+  v_keeper_id UUID;
+  v_player_name TEXT;
+BEGIN
+  v_league := public.check_keeper_window(p_team_id);
+
+  v_max_keepers := COALESCE((v_league.settings->>'max_keepers')::INTEGER, 1);
+  v_penalty := COALESCE((v_league.settings->>'keeper_round_penalty')::INTEGER, 1);
+  v_total_rounds := COALESCE((v_league.settings->>'draft_rounds')::INTEGER, 5);
+
+  v_source_draft_id := public.get_keeper_source_draft(v_league.id);
+  IF v_source_draft_id IS NULL THEN
+    RAISE EXCEPTION 'This league has no completed draft to keep players from';
+  END IF;
+
+  SELECT round INTO v_drafted_round
+  FROM public.draft_picks
+  WHERE draft_id = v_source_draft_id
+  AND team_id = p_team_id
+  AND player_id = p_player_id;
+
+  IF v_drafted_round IS NULL THEN
+    RAISE EXCEPTION 'You can only keep players your team drafted last season';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.keepers
+    WHERE source_draft_id = v_source_draft_id AND player_id = p_player_id
+  ) THEN
+    RAISE EXCEPTION 'This player is already a keeper';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM public.keepers
+    WHERE source_draft_id = v_source_draft_id AND team_id = p_team_id
+  ) >= v_max_keepers THEN
+    RAISE EXCEPTION 'Teams can keep at most % player(s)', v_max_keepers;
+  END IF;
+
+  v_round := GREATEST(v_drafted_round - v_penalty, 1);
+
+  IF v_round > v_total_rounds THEN
+    RAISE EXCEPTION 'This keeper costs a round % pick, but the draft only has % rounds',
+      v_round, v_total_rounds;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.keepers
+    WHERE source_draft_id = v_source_draft_id
+    AND team_id = p_team_id
+    AND round = v_round
+  ) THEN
+    RAISE EXCEPTION 'Your round % pick is already used by another keeper', v_round;
+  END IF;
+
+  INSERT INTO public.keepers (league_id, team_id, player_id, source_draft_id, round)
+  VALUES (v_league.id, p_team_id, p_player_id, v_source_draft_id, v_round)
+  RETURNING id INTO v_keeper_id;
+
+  SELECT TRIM(COALESCE(first_name, '') || ' ' || COALESCE(last_name, '')) INTO v_player_name
+  FROM public.players
+  WHERE id = p_player_id;
+
+  RETURN json_build_object(
+    'message', 'Keeping ' || v_player_name || ' with your round ' || v_round || ' pick',
+    'keeper_id', v_keeper_id,
+    'round', v_round
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Drop a declared keeper (team owner only, before the deadline)
+CREATE OR REPLACE FUNCTION public.remove_keeper(p_keeper_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_keeper public.keepers%ROWTYPE;
+BEGIN
+  SELECT * INTO v_keeper FROM public.keepers WHERE id = p_keeper_id;
+
+  IF v_keeper.id IS NULL THEN
+    RAISE EXCEPTION 'Keeper not found';
+  END IF;
+
+  PERFORM public.check_keeper_window(v_keeper.team_id);
+
+  DELETE FROM public.keepers WHERE id = p_keeper_id;
+
+  RETURN json_build_object(
+    'message', 'Keeper removed',
+    'keeper_id', p_keeper_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Close out a completed draft and get the league ready for its next one
+-- (commissioner only). Teams, past drafts and declared keepers stay.
+CREATE OR REPLACE FUNCTION public.start_new_season(p_league_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID;
+  v_league public.leagues%ROWTYPE;
+  v_cleared INTEGER;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_league FROM public.leagues WHERE id = p_league_id FOR UPDATE;
+
+  IF v_league.id IS NULL OR v_league.commissioner_id != v_user_id THEN
+    RAISE EXCEPTION 'Only the league commissioner can start a new season';
+  END IF;
+
+  IF v_league.draft_status != 'completed' THEN
+    RAISE EXCEPTION 'The current draft must be completed before a new season starts';
+  END IF;
+
+  -- Players won at auction stay taken league-wide, so auctions can't roll over
+  IF EXISTS (SELECT 1 FROM public.auction_drafts WHERE league_id = p_league_id) THEN
+    RAISE EXCEPTION 'New seasons are only supported for standard drafts';
+  END IF;
+
+  DELETE FROM public.rosters r
+  USING public.teams t
+  WHERE t.id = r.team_id
+  AND t.league_id = p_league_id;
+  GET DIAGNOSTICS v_cleared = ROW_COUNT;
+
+  -- The finished draft stays in drafts and draft_picks for keeper eligibility
+  DELETE FROM public.draft_state WHERE league_id = p_league_id;
+
+  UPDATE public.leagues
+  SET draft_status = 'pending',
+      draft_order_locked_at = NULL
+  WHERE id = p_league_id;
+
+  RETURN json_build_object(
+    'message', 'New season started',
+    'cleared_roster_spots', v_cleared
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Lowest 1-indexed pick after p_after that no pick (or keeper) fills yet;
+-- NULL once every slot up to p_total_picks is taken
+CREATE OR REPLACE FUNCTION public.next_open_pick(
+  p_draft_id UUID,
+  p_after INTEGER,
+  p_total_picks INTEGER
+)
+RETURNS INTEGER AS $$
+BEGIN
+  RETURN (
+    SELECT MIN(n)
+    FROM generate_series(p_after + 1, p_total_picks) AS n
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.draft_picks
+      WHERE draft_id = p_draft_id AND pick_number = n
+    )
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Start a league's draft in its published order and put the first pick on the clock
+-- p_pick_sequence comes from buildPickSequence in shared/draftOrder.ts
+-- Declared keepers are recorded first, in the slots they cost their teams
+CREATE OR REPLACE FUNCTION public.start_draft(p_league_id UUID, p_pick_sequence INTEGER[])
+RETURNS JSON AS $$
+DECLARE
+  team_count INTEGER;
+  v_max_teams INTEGER;
+  v_min_teams INTEGER;
+  v_total_rounds INTEGER;
+  v_time_limit INTEGER;
+  v_order_locked BOOLEAN;
+  v_draft_format TEXT;
+  v_keepers_enabled BOOLEAN;
+  shuffled_teams TEXT[];
+  v_draft_id UUID;
+  v_user_id UUID;
+  v_source_draft_id UUID;
+  v_keeper RECORD;
+  v_slot INTEGER;
+  v_keeper_count INTEGER := 0;
+  v_next_pick INTEGER;
+  v_current_pick INTEGER;
+BEGIN
+  -- Get current user ID from auth context
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Verify user is commissioner of the league
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leagues
+    WHERE id = p_league_id AND commissioner_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Only the league commissioner can start the draft';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.draft_state
+    WHERE league_id = p_league_id AND started
+  ) THEN
+    RAISE EXCEPTION 'Draft has already started for this league';
+  END IF;
+
+  -- Get team limits, round count and pick clock from league settings
+  SELECT
+    max_teams,
+    COALESCE((settings->>'min_teams')::INTEGER, 2),
+    COALESCE((settings->>'draft_rounds')::INTEGER, 5),
+    COALESCE((settings->>'pick_time_limit')::INTEGER, 120),
+    draft_order_locked_at IS NOT NULL,
+    COALESCE(settings->>'draft_format', 'snake'),
+    COALESCE((settings->>'keepers_enabled')::BOOLEAN, FALSE)
+  INTO v_max_teams, v_min_teams, v_total_rounds, v_time_limit, v_order_locked, v_draft_format,
+    v_keepers_enabled
+  FROM public.leagues
+  WHERE id = p_league_id;
+
+  IF v_total_rounds < 1 THEN
+    RAISE EXCEPTION 'Draft must have at least 1 round';
+  END IF;
+
+  IF v_time_limit < 10 THEN
+    RAISE EXCEPTION 'Pick time limit must be at least 10 seconds';
+  END IF;
+
+  -- Count teams in this league
+  SELECT COUNT(*) INTO team_count
+  FROM public.teams
+  WHERE league_id = p_league_id;
+
+  IF team_count < v_min_teams THEN
+    RAISE EXCEPTION 'Need at least % teams to start (currently have %)', v_min_teams, team_count;
+  END IF;
+
+  IF team_count > v_max_teams THEN
+    RAISE EXCEPTION 'League allows at most % teams (currently have %)', v_max_teams, team_count;
+  END IF;
+
+  PERFORM public.validate_pick_sequence(p_pick_sequence, team_count, v_total_rounds);
+
+  -- Use the published order when there is one, otherwise shuffle
+  IF v_order_locked THEN
+    IF EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE league_id = p_league_id AND draft_position IS NULL
+    ) THEN
+      RAISE EXCEPTION 'A team joined after the draft order was locked; unlock and update the order first';
+    END IF;
+
+    SELECT ARRAY_AGG(name ORDER BY draft_position) INTO shuffled_teams
+    FROM public.teams
+    WHERE league_id = p_league_id;
+  ELSE
+    SELECT ARRAY_AGG(name ORDER BY random()) INTO shuffled_teams
+    FROM public.teams
+    WHERE league_id = p_league_id;
+  END IF;
+
+  -- Keepers come from the last draft to finish, before this one exists
+  IF v_keepers_enabled THEN
+    v_source_draft_id := public.get_keeper_source_draft(p_league_id);
+  END IF;
+
+  -- Create draft record
+  INSERT INTO public.drafts (
+    league_id, status, current_pick, total_picks, current_round, pick_time_limit, started_at
+  )
+  VALUES (
+    p_league_id, 'in_progress', 0, team_count * v_total_rounds, 1, v_time_limit, NOW()
+  )
+  RETURNING id INTO v_draft_id;
+
+  -- Each keeper takes its team's pick in the round it costs
+  FOR v_keeper IN
+    SELECT k.team_id, k.player_id, k.round, t.name AS team_name
+    FROM public.keepers k
+    JOIN public.teams t ON t.id = k.team_id
+    WHERE k.source_draft_id = v_source_draft_id
+    AND t.league_id = p_league_id
+    ORDER BY k.round
+  LOOP
+    IF v_keeper.round > v_total_rounds THEN
+      RAISE EXCEPTION '% has a round % keeper, but the draft only has % rounds',
+        v_keeper.team_name, v_keeper.round, v_total_rounds;
+    END IF;
+
+    v_slot := array_position(
+      p_pick_sequence[(v_keeper.round - 1) * team_count + 1 : v_keeper.round * team_count],
+      array_position(shuffled_teams, v_keeper.team_name) - 1
+    );
+
+    INSERT INTO public.draft_picks (draft_id, team_id, player_id, round, pick_number, is_keeper)
+    VALUES (
+      v_draft_id, v_keeper.team_id, v_keeper.player_id, v_keeper.round,
+      (v_keeper.round - 1) * team_count + v_slot, TRUE
+    );
+
+    v_keeper_count := v_keeper_count + 1;
+  END LOOP;
+
+  -- The clock starts on the first slot a keeper didn't fill
+  v_next_pick := public.next_open_pick(v_draft_id, 0, team_count * v_total_rounds);
+  v_current_pick := COALESCE(v_next_pick - 1, team_count * v_total_rounds);
+
+  UPDATE public.drafts
+  SET current_pick = v_current_pick,
+      current_round = v_current_pick / team_count + 1
+  WHERE id = v_draft_id;
+
+  -- Create or reset this league's draft state
+  INSERT INTO public.draft_state (
+    league_id, draft_id, started, draft_order, current_round, current_pick,
+    max_teams, total_rounds, pick_deadline, pick_sequence, draft_format
+  )
+  VALUES (
+    p_league_id, v_draft_id, TRUE, shuffled_teams, v_current_pick / team_count + 1, v_current_pick,
+    team_count, v_total_rounds, NOW() + make_interval(secs => v_time_limit),
+    p_pick_sequence, v_draft_format
+  )
+  ON CONFLICT (league_id) DO UPDATE
+  SET draft_id = EXCLUDED.draft_id,
+      started = TRUE,
+      draft_order = EXCLUDED.draft_order,
+      current_round = EXCLUDED.current_round,
+      current_pick = EXCLUDED.current_pick,
+      max_teams = EXCLUDED.max_teams,
+      total_rounds = EXCLUDED.total_rounds,
+      pick_deadline = EXCLUDED.pick_deadline,
+      paused = FALSE,
+      paused_time_remaining = NULL,
+      pick_sequence = EXCLUDED.pick_sequence,
+      draft_format = EXCLUDED.draft_format;
+
+  -- Update league draft status
+  UPDATE public.leagues
+  SET draft_status = 'in_progress'
+  WHERE id = p_league_id;
+
+  -- Nothing left to pick when keepers filled every slot
+  IF v_next_pick IS NULL THEN
+    PERFORM public.complete_draft(p_league_id);
+  END IF;
+
+  RETURN json_build_object(
+    'message', 'Draft started',
+    'order', shuffled_teams,
+    'draft_id', v_draft_id,
+    'league_id', p_league_id,
+    'total_rounds', v_total_rounds,
+    'draft_format', v_draft_format,
+    'keepers', v_keeper_count
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Record a pick for the team on the clock and advance the draft
+-- Callers are responsible for validating the team and player first
+-- Slots filled by keepers are skipped when moving to the next pick
+CREATE OR REPLACE FUNCTION public.record_draft_pick(
+  p_league_id UUID,
+  p_team_id UUID,
+  p_player_id UUID,
+  p_auto_picked BOOLEAN DEFAULT FALSE
+)
+RETURNS JSON AS $$
+DECLARE
+  state public.draft_state%ROWTYPE;
+  v_time_limit INTEGER;
+  team_count INTEGER;
+  new_pick_number INTEGER;
+  new_current_pick INTEGER;
+  new_round INTEGER;
+  v_next_open INTEGER;
+  v_is_last_pick BOOLEAN;
+BEGIN
+  -- Lock the state row so a manual pick and the clock can't both take a slot
+  SELECT * INTO state FROM public.draft_state WHERE league_id = p_league_id FOR UPDATE;
+
+  SELECT pick_time_limit INTO v_time_limit FROM public.drafts WHERE id = state.draft_id;
+
+  new_pick_number := state.current_pick + 1;
+  team_count := array_length(state.draft_order, 1);
+
+  INSERT INTO public.draft_picks (draft_id, team_id, player_id, round, pick_number, auto_picked)
+  VALUES (state.draft_id, p_team_id, p_player_id, state.current_round, new_pick_number, p_auto_picked);
+
+  v_next_open := public.next_open_pick(state.draft_id, new_pick_number, team_count * state.total_rounds);
+  v_is_last_pick := v_next_open IS NULL;
+  new_current_pick := COALESCE(v_next_open - 1, team_count * state.total_rounds);
+  new_round := new_current_pick / team_count + 1;
+
+  -- Advance the draft and start the clock for the next slot
+  -- While paused, the next slot keeps its full time until the draft resumes
+  UPDATE public.draft_state
+  SET current_pick = new_current_pick,
+      current_round = new_round,
+      pick_deadline = CASE
+        WHEN v_is_last_pick OR state.paused THEN NULL
+        ELSE NOW() + make_interval(secs => COALESCE(v_time_limit, 120))
+      END,
+      paused_time_remaining = CASE
+        WHEN state.paused AND NOT v_is_last_pick THEN COALESCE(v_time_limit, 120)
+        ELSE NULL
+      END
+  WHERE league_id = p_league_id;
+
+  UPDATE public.drafts
+  SET current_pick = new_current_pick,
+      current_round = new_round
+  WHERE id = state.draft_id;
+
+  -- The last pick finishes the draft and fills every team's roster
+  IF v_is_last_pick THEN
+    PERFORM public.complete_draft(p_league_id);
+  END IF;
+
+  RETURN json_build_object(
+    'pick_number', new_pick_number,
+    'round', new_round,
+    'auto_picked', p_auto_picked,
+    'draft_complete', v_is_last_pick
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Undo the most recent pick (commissioner only)
+-- Keeper picks were made when the draft started, so they are never undone
+CREATE OR REPLACE FUNCTION public.undo_last_pick(p_league_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  state public.draft_state%ROWTYPE;
+  v_user_id UUID;
+  v_time_limit INTEGER;
+  v_last_pick public.draft_picks%ROWTYPE;
+  v_team_name TEXT;
+  v_player_name TEXT;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leagues
+    WHERE id = p_league_id AND commissioner_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Only the league commissioner can undo picks';
+  END IF;
+
+  SELECT * INTO state FROM public.draft_state WHERE league_id = p_league_id FOR UPDATE;
+  IF state.league_id IS NULL OR NOT state.started THEN
+    RAISE EXCEPTION 'Draft has not started';
+  END IF;
+
+  SELECT * INTO v_last_pick
+  FROM public.draft_picks
+  WHERE draft_id = state.draft_id
+  AND NOT is_keeper
+  ORDER BY pick_number DESC
+  LIMIT 1;
+
+  IF v_last_pick.id IS NULL THEN
+    RAISE EXCEPTION 'No picks to undo';
+  END IF;
+
+  SELECT name INTO v_team_name FROM public.teams WHERE id = v_last_pick.team_id;
+  SELECT TRIM(COALESCE(first_name, '') || ' ' || COALESCE(last_name, '')) INTO v_player_name
+  FROM public.players
+  WHERE id = v_last_pick.player_id;
+
+  -- Undoing the final pick reopens a completed draft, so its rosters go too
+  IF EXISTS (
+    SELECT 1 FROM public.drafts WHERE id = state.draft_id AND status = 'completed'
+  ) THEN
+    DELETE FROM public.rosters r
+    USING public.draft_picks dp
+    WHERE dp.draft_id = state.draft_id
+    AND r.team_id = dp.team_id
+    AND r.player_id = dp.player_id;
+
+    UPDATE public.drafts
+    SET status = 'in_progress',
+        completed_at = NULL
+    WHERE id = state.draft_id;
+
+    UPDATE public.leagues
+    SET draft_status = 'in_progress'
+    WHERE id = p_league_id;
+  END IF;
+
+  DELETE FROM public.draft_picks WHERE id = v_last_pick.id;
+
+  SELECT pick_time_limit INTO v_time_limit FROM public.drafts WHERE id = state.draft_id;
+
+  -- Put the slot back on the clock with its full time
+  UPDATE public.draft_state
+  SET current_pick = v_last_pick.pick_number - 1,
+      current_round = v_last_pick.round,
+      pick_deadline = CASE
+        WHEN state.paused THEN NULL
+        ELSE NOW() + make_interval(secs => COALESCE(v_time_limit, 120))
+      END,
+      paused_time_remaining = CASE
+        WHEN state.paused THEN COALESCE(v_time_limit, 120)
+        ELSE NULL
+      END
+  WHERE league_id = p_league_id;
+
+  UPDATE public.drafts
+  SET current_pick = v_last_pick.pick_number - 1,
+      current_round = v_last_pick.round
+  WHERE id = state.draft_id;
+
+  INSERT INTO public.draft_actions (league_id, draft_id, actor_id, action, details)
+  VALUES (
+    p_league_id, state.draft_id, v_user_id, 'undo_pick',
+    jsonb_build_object(
+      'pick_number', v_last_pick.pick_number,
+      'team_id', v_last_pick.team_id,
+      'team_name', v_team_name,
+      'player_id', v_last_pick.player_id,
+      'player_name', v_player_name
+    )
+  );
+
+  RETURN json_build_object(
+    'message', 'Undid pick ' || v_last_pick.pick_number || ': ' || v_team_name || ' - ' || v_player_name,
+    'pick_number', v_last_pick.pick_number,
+    'round', v_last_pick.round
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.check_keeper_window(UUID) FROM PUBLIC, anon, authenticated;
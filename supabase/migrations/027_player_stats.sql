@@ -0,0 +1,107 @@
+-- Player Stats Ingestion Migration
+-- The server imports players and weekly stat lines from a stat provider
+-- (server/lib/statIngestion.ts). Players are matched on players.external_id;
+-- each player's line for a week lands in player_stats, and players.stats
+-- keeps the season-to-date totals.
+--
+-- Imports are triggered by site admins (profiles.is_admin). Admins are
+-- appointed from the SQL editor or with the service role; users can't
+-- promote themselves through the profile policies.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'profiles'
+    AND column_name = 'is_admin'
+  ) THEN
+    ALTER TABLE public.profiles ADD COLUMN is_admin BOOLEAN DEFAULT FALSE NOT NULL;
+  END IF;
+END $$;
+
+-- Signed-in users can insert and update their own profile, but never is_admin
+CREATE OR REPLACE FUNCTION public.protect_profile_is_admin()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.is_admin := FALSE;
+    ELSE
+      NEW.is_admin := OLD.is_admin;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_profile_is_admin ON public.profiles;
+CREATE TRIGGER trigger_protect_profile_is_admin
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_is_admin();
+
+-- One stat line per player per week
+CREATE TABLE IF NOT EXISTS public.player_stats (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  player_id UUID REFERENCES public.players(id) ON DELETE CASCADE NOT NULL,
+  season INTEGER NOT NULL,
+  week INTEGER NOT NULL CHECK (week >= 1),
+  stats JSONB DEFAULT '{}'::jsonb NOT NULL, -- Raw counts keyed by StatKey in shared/scoring.ts
+  source TEXT, -- Provider that supplied the line
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+  UNIQUE(player_id, season, week)
+);
+
+CREATE INDEX IF NOT EXISTS idx_player_stats_season_week ON public.player_stats(season, week);
+
+ALTER TABLE public.player_stats ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the server's ingestion with the service role
+CREATE POLICY "Public read player_stats" ON public.player_stats FOR SELECT USING (true);
+
+-- Roll a season's weekly lines up into players.stats:
+--   { "season": 2025, "games": 3, "totals": { "rec": 18, ... } }
+CREATE OR REPLACE FUNCTION public.refresh_player_season_stats(p_season INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  UPDATE public.players p
+  SET stats = jsonb_build_object(
+        'season', p_season,
+        'games', totals.games,
+        'totals', totals.totals
+      ),
+      updated_at = NOW()
+  FROM (
+    SELECT
+      ps.player_id,
+      COUNT(DISTINCT ps.week) AS games,
+      COALESCE(
+        (
+          SELECT jsonb_object_agg(t.key, t.total)
+          FROM (
+            SELECT s.key, SUM(s.value::NUMERIC) AS total
+            FROM public.player_stats inner_ps,
+                 jsonb_each_text(inner_ps.stats) AS s
+            WHERE inner_ps.player_id = ps.player_id
+            AND inner_ps.season = p_season
+            GROUP BY s.key
+          ) t
+        ),
+        '{}'::jsonb
+      ) AS totals
+    FROM public.player_stats ps
+    WHERE ps.season = p_season
+    GROUP BY ps.player_id
+  ) totals
+  WHERE p.id = totals.player_id;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_player_season_stats(INTEGER) FROM PUBLIC, anon, authenticated;
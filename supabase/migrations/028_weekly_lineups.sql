@@ -0,0 +1,58 @@
+-- Weekly Lineups Migration
+-- Scoring a week needs to know who started for each team that week, not who
+-- starts today. The first time a league's week is scored, every team's
+-- current starters (rosters.is_starter) are copied into weekly_lineups; later
+-- runs for the same week (e.g. after stat corrections) score that same
+-- lineup. Scores themselves are computed by the server with the league's
+-- scoring rules and upserted into scores.
+
+CREATE TABLE IF NOT EXISTS public.weekly_lineups (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  league_id UUID REFERENCES public.leagues(id) ON DELETE CASCADE NOT NULL,
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL,
+  player_id UUID REFERENCES public.players(id) ON DELETE CASCADE NOT NULL,
+  season INTEGER NOT NULL,
+  week INTEGER NOT NULL CHECK (week >= 1),
+  slot TEXT NOT NULL, -- Lineup slot the player started in (QB, RB, FLEX, ...)
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+  UNIQUE(team_id, season, week, player_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_weekly_lineups_league_week ON public.weekly_lineups(league_id, season, week);
+
+ALTER TABLE public.weekly_lineups ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the server with the service role
+CREATE POLICY "Public read weekly_lineups" ON public.weekly_lineups FOR SELECT USING (true);
+
+-- Lock in this week's starters for every team in a league that doesn't have
+-- a lineup for the week yet; returns how many players were added
+CREATE OR REPLACE FUNCTION public.snapshot_weekly_lineups(
+  p_league_id UUID,
+  p_season INTEGER,
+  p_week INTEGER
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_added INTEGER;
+BEGIN
+  INSERT INTO public.weekly_lineups (league_id, team_id, player_id, season, week, slot)
+  SELECT t.league_id, r.team_id, r.player_id, p_season, p_week, r.position
+  FROM public.rosters r
+  JOIN public.teams t ON t.id = r.team_id
+  WHERE t.league_id = p_league_id
+  AND r.is_starter
+  AND NOT EXISTS (
+    SELECT 1 FROM public.weekly_lineups wl
+    WHERE wl.team_id = r.team_id
+    AND wl.season = p_season
+    AND wl.week = p_week
+  )
+  ON CONFLICT (team_id, season, week, player_id) DO NOTHING;
+
+  GET DIAGNOSTICS v_added = ROW_COUNT;
+  RETURN v_added;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.snapshot_weekly_lineups(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
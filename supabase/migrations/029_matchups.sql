@@ -0,0 +1,123 @@
+-- Matchups Migration
+-- Head-to-head schedules. The commissioner's client generates the regular
+-- season with shared/schedule.ts and saves it through save_league_schedule;
+-- each row is one week's game between two teams, or a bye when away_team_id
+-- is NULL. Teams can belong to a division, which the generator can weight
+-- and standings report on.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'teams'
+    AND column_name = 'division'
+  ) THEN
+    ALTER TABLE public.teams ADD COLUMN division TEXT;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.matchups (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  league_id UUID REFERENCES public.leagues(id) ON DELETE CASCADE NOT NULL,
+  season INTEGER NOT NULL,
+  week INTEGER NOT NULL CHECK (week >= 1),
+  home_team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL,
+  away_team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE, -- NULL for a bye
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+  UNIQUE(league_id, season, week, home_team_id),
+  CHECK (away_team_id IS NULL OR away_team_id != home_team_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_matchups_league_season ON public.matchups(league_id, season, week);
+
+ALTER TABLE public.matchups ENABLE ROW LEVEL SECURITY;
+
+-- Written only through save_league_schedule
+CREATE POLICY "Public read matchups" ON public.matchups FOR SELECT USING (true);
+
+-- Replace a season's schedule:
+--   p_matchups  [{ "week": 1, "home_team_id": "...", "away_team_id": "..." | null }, ...]
+--   p_divisions { "<team_id>": "East" | null, ... } (teams left out keep theirs)
+CREATE OR REPLACE FUNCTION public.save_league_schedule(
+  p_league_id UUID,
+  p_season INTEGER,
+  p_matchups JSON,
+  p_divisions JSON DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID;
+  v_league public.leagues%ROWTYPE;
+  v_saved INTEGER;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_league FROM public.leagues WHERE id = p_league_id FOR UPDATE;
+
+  IF v_league.id IS NULL OR v_league.commissioner_id != v_user_id THEN
+    RAISE EXCEPTION 'Only the league commissioner can set the schedule';
+  END IF;
+
+  -- Once a week has been scored, results depend on who played whom
+  IF EXISTS (
+    SELECT 1 FROM public.scores
+    WHERE league_id = p_league_id
+    AND season = p_season
+  ) THEN
+    RAISE EXCEPTION 'The schedule can''t change after weeks have been scored';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM json_array_elements(p_matchups) m
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE id = (m->>'home_team_id')::UUID
+      AND league_id = p_league_id
+    )
+    OR (
+      m->>'away_team_id' IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM public.teams
+        WHERE id = (m->>'away_team_id')::UUID
+        AND league_id = p_league_id
+      )
+    )
+  ) THEN
+    RAISE EXCEPTION 'Every matchup must be between teams in this league';
+  END IF;
+
+  IF p_divisions IS NOT NULL THEN
+    UPDATE public.teams t
+    SET division = NULLIF(TRIM(d.value), ''),
+        updated_at = NOW()
+    FROM json_each_text(p_divisions) d
+    WHERE t.id = d.key::UUID
+    AND t.league_id = p_league_id;
+  END IF;
+
+  DELETE FROM public.matchups
+  WHERE league_id = p_league_id
+  AND season = p_season;
+
+  INSERT INTO public.matchups (league_id, season, week, home_team_id, away_team_id)
+  SELECT
+    p_league_id,
+    p_season,
+    (m->>'week')::INTEGER,
+    (m->>'home_team_id')::UUID,
+    (m->>'away_team_id')::UUID
+  FROM json_array_elements(p_matchups) m;
+  GET DIAGNOSTICS v_saved = ROW_COUNT;
+
+  RETURN json_build_object(
+    'message', 'Schedule saved',
+    'matchups', v_saved
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,94 @@
+-- Standings Migration
+-- Standings are computed by shared/standings.ts from a season's scored
+-- matchups. get_league_standings returns what it needs in one call: the
+-- league's teams and every head-to-head game where both teams have a score.
+--
+-- Ties the league's tiebreakers can't separate go to a coin flip. Each team
+-- draws one random value per season the first time standings are read, and
+-- keeps it, so the same tie always breaks the same way.
+
+CREATE TABLE IF NOT EXISTS public.standings_coin_flips (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  league_id UUID REFERENCES public.leagues(id) ON DELETE CASCADE NOT NULL,
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL,
+  season INTEGER NOT NULL,
+  value DOUBLE PRECISION NOT NULL, -- Higher wins the flip
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+  UNIQUE(team_id, season)
+);
+
+ALTER TABLE public.standings_coin_flips ENABLE ROW LEVEL SECURITY;
+
+-- Written only through get_league_standings
+CREATE POLICY "Public read standings_coin_flips" ON public.standings_coin_flips FOR SELECT USING (true);
+
+-- Standings inputs for a season:
+--   { "teams": [{ "id", "name", "division", "coin_flip" }],
+--     "games": [{ "week", "home_team_id", "away_team_id", "home_points", "away_points" }] }
+CREATE OR REPLACE FUNCTION public.get_league_standings(
+  p_league_id UUID,
+  p_season INTEGER
+)
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID;
+  v_teams JSON;
+  v_games JSON;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.leagues WHERE id = p_league_id) THEN
+    RAISE EXCEPTION 'League not found';
+  END IF;
+
+  -- Draw a coin flip for any team that doesn't have one this season
+  INSERT INTO public.standings_coin_flips (league_id, team_id, season, value)
+  SELECT t.league_id, t.id, p_season, random()
+  FROM public.teams t
+  WHERE t.league_id = p_league_id
+  ON CONFLICT (team_id, season) DO NOTHING;
+
+  SELECT COALESCE(json_agg(json_build_object(
+    'id', t.id,
+    'name', t.name,
+    'division', t.division,
+    'coin_flip', cf.value
+  ) ORDER BY t.created_at), '[]'::json)
+  INTO v_teams
+  FROM public.teams t
+  JOIN public.standings_coin_flips cf ON cf.team_id = t.id AND cf.season = p_season
+  WHERE t.league_id = p_league_id;
+
+  SELECT COALESCE(json_agg(json_build_object(
+    'week', m.week,
+    'home_team_id', m.home_team_id,
+    'away_team_id', m.away_team_id,
+    'home_points', hs.points,
+    'away_points', aws.points
+  ) ORDER BY m.week), '[]'::json)
+  INTO v_games
+  FROM public.matchups m
+  JOIN public.scores hs
+    ON hs.team_id = m.home_team_id
+    AND hs.league_id = m.league_id
+    AND hs.season = m.season
+    AND hs.week = m.week
+  JOIN public.scores aws
+    ON aws.team_id = m.away_team_id
+    AND aws.league_id = m.league_id
+    AND aws.season = m.season
+    AND aws.week = m.week
+  WHERE m.league_id = p_league_id
+  AND m.season = p_season
+  AND m.away_team_id IS NOT NULL;
+
+  RETURN json_build_object(
+    'teams', v_teams,
+    'games', v_games
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,38 @@
+-- Scheduled Draft Sweeps Migration
+-- Expired picks, auction lots and mock draft bot picks were only swept by
+-- the Express server's background jobs, which never run on Netlify: the API
+-- there is a serverless function with no long-lived process, so picks stayed
+-- on the clock, lots never closed and mock drafts stalled on their first bot.
+-- pg_cron now calls the same sweeps inside the database every second,
+-- wherever the app is deployed. The Node jobs (server/jobs) still work
+-- alongside it for self-hosted servers; each sweep locks what it touches, so
+-- running both is safe.
+--
+-- pg_cron must be enabled for the project (Database > Extensions in the
+-- Supabase dashboard) before this migration runs.
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- Auto-pick for every live draft whose pick deadline has passed.
+-- cron.schedule replaces a job with the same name, so this is safe to rerun.
+SELECT cron.schedule(
+  'process-expired-picks',
+  '1 seconds',
+  'SELECT public.process_expired_picks()'
+);
+
+-- Sell (or auto-nominate) in every auction whose bid countdown ran out
+SELECT cron.schedule(
+  'process-expired-auction-lots',
+  '1 seconds',
+  'SELECT public.process_expired_auction_lots()'
+);
+
+-- Pick for every mock draft bot whose pick delay has passed. Bots pick on
+-- the next sweep after their delay, so delays under a second round up to it
+-- unless a Node server is sweeping too.
+SELECT cron.schedule(
+  'process-mock-draft-bot-picks',
+  '1 seconds',
+  'SELECT public.process_mock_draft_bot_picks()'
+);
@@ -0,0 +1,242 @@
+-- Mock Draft Seat Checks Migration
+-- Tightens who can act on a mock draft now that bots are server-driven and
+-- lobbies are shared with league-mates:
+--   * make_mock_draft_pick no longer lets a signed-in user pick for a bot;
+--     only the server's sweep does, and people pick only for their own seat
+--   * claiming a seat gives it a name no other seat in the draft has, since
+--     picks look seats up by name
+--   * open lobbies are only listed to members of the league
+
+-- Claim a bot seat in a mock draft lobby with your league team
+CREATE OR REPLACE FUNCTION public.claim_mock_draft_seat(p_mock_draft_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID;
+  v_mock_draft public.mock_drafts%ROWTYPE;
+  v_team_name TEXT;
+  v_seat_name TEXT;
+  v_suffix INTEGER := 1;
+  v_seat_id UUID;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_mock_draft FROM public.mock_drafts WHERE id = p_mock_draft_id FOR UPDATE;
+
+  IF v_mock_draft.id IS NULL THEN
+    RAISE EXCEPTION 'Mock draft not found';
+  END IF;
+
+  IF v_mock_draft.status != 'lobby' THEN
+    RAISE EXCEPTION 'This mock draft has already started';
+  END IF;
+
+  SELECT name INTO v_team_name
+  FROM public.teams
+  WHERE league_id = v_mock_draft.league_id AND owner_id = v_user_id;
+
+  IF v_team_name IS NULL THEN
+    RAISE EXCEPTION 'You must have a team in this league to join its mock drafts';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.mock_draft_teams
+    WHERE mock_draft_id = p_mock_draft_id AND owner_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'You already have a seat in this mock draft';
+  END IF;
+
+  SELECT id INTO v_seat_id
+  FROM public.mock_draft_teams
+  WHERE mock_draft_id = p_mock_draft_id AND is_bot
+  ORDER BY created_at, id
+  LIMIT 1;
+
+  IF v_seat_id IS NULL THEN
+    RAISE EXCEPTION 'This mock draft is full';
+  END IF;
+
+  -- Picks look seats up by name, so the seat can't share one with the
+  -- creator's team or a bot; a clash gets a number, e.g. "Gridiron Gang (2)"
+  v_seat_name := v_team_name;
+  WHILE EXISTS (
+    SELECT 1 FROM public.mock_draft_teams
+    WHERE mock_draft_id = p_mock_draft_id AND name = v_seat_name AND id != v_seat_id
+  ) LOOP
+    v_suffix := v_suffix + 1;
+    v_seat_name := v_team_name || ' (' || v_suffix || ')';
+  END LOOP;
+
+  UPDATE public.mock_draft_teams
+  SET name = v_seat_name,
+      is_bot = FALSE,
+      owner_id = v_user_id,
+      bot_strategy = NULL
+  WHERE id = v_seat_id;
+
+  RETURN json_build_object(
+    'team_id', v_seat_id,
+    'team_name', v_seat_name,
+    'message', v_seat_name || ' joined the mock draft'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Human picks are checked against the seat's owner; bot picks must come
+-- from the server
+CREATE OR REPLACE FUNCTION public.make_mock_draft_pick(
+  p_mock_draft_id UUID,
+  p_team_name TEXT,
+  p_player_id UUID
+)
+RETURNS JSON AS $$
+DECLARE
+  v_mock_draft public.mock_drafts%ROWTYPE;
+  v_team_id UUID;
+  v_is_bot BOOLEAN;
+  v_owner_id UUID;
+  v_player_name TEXT;
+  v_next_team TEXT;
+  v_team_count INTEGER;
+  v_new_pick_number INTEGER;
+  v_new_round INTEGER;
+BEGIN
+  -- Get mock draft state
+  SELECT * INTO v_mock_draft FROM public.mock_drafts WHERE id = p_mock_draft_id;
+  
+  IF v_mock_draft.id IS NULL THEN 
+    RAISE EXCEPTION 'Mock draft not found'; 
+  END IF;
+  
+  IF v_mock_draft.status != 'in_progress' THEN
+    RAISE EXCEPTION 'Mock draft is not in progress';
+  END IF;
+  
+  -- Calculate whose turn it is from the stored pick sequence
+  v_team_count := array_length(v_mock_draft.draft_order, 1);
+  v_next_team := public.pick_sequence_team(
+    v_mock_draft.draft_order, v_mock_draft.pick_sequence, v_mock_draft.current_pick
+  );
+  
+  IF v_next_team != p_team_name THEN 
+    RAISE EXCEPTION 'Not this team''s turn! Current turn: %', v_next_team; 
+  END IF;
+  
+  -- Find team
+  SELECT id, is_bot, owner_id INTO v_team_id, v_is_bot, v_owner_id
+  FROM public.mock_draft_teams
+  WHERE mock_draft_id = p_mock_draft_id AND name = p_team_name;
+  
+  IF v_team_id IS NULL THEN
+    RAISE EXCEPTION 'Team not found in mock draft';
+  END IF;
+
+  -- Bots are picked for only by process_mock_draft_bot_picks, which runs
+  -- without a signed-in user; people may only pick for their own seat
+  IF v_is_bot THEN
+    IF COALESCE(auth.role(), '') IN ('anon', 'authenticated') THEN
+      RAISE EXCEPTION 'Bots make their own picks';
+    END IF;
+  ELSIF v_owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only pick for your own team';
+  END IF;
+  
+  -- Verify player is not already picked in this mock draft
+  IF EXISTS (
+    SELECT 1 FROM public.mock_draft_picks
+    WHERE mock_draft_id = p_mock_draft_id AND player_id = p_player_id
+  ) THEN
+    RAISE EXCEPTION 'Player already picked in this mock draft';
+  END IF;
+  
+  -- Get player name
+  SELECT first_name || ' ' || last_name INTO v_player_name
+  FROM public.players
+  WHERE id = p_player_id;
+  
+  IF v_player_name IS NULL THEN
+    RAISE EXCEPTION 'Player not found';
+  END IF;
+  
+  v_new_pick_number := v_mock_draft.current_pick + 1;
+  v_new_round := v_mock_draft.current_round;
+  
+  -- Check if we need to move to next round
+  IF v_new_pick_number % v_team_count = 0 THEN
+    v_new_round := v_mock_draft.current_round + 1;
+  END IF;
+  
+  -- Insert pick
+  INSERT INTO public.mock_draft_picks (mock_draft_id, mock_team_id, player_id, round, pick_number) 
+  VALUES (p_mock_draft_id, v_team_id, p_player_id, v_mock_draft.current_round, v_new_pick_number);
+  
+  -- Update mock draft state
+  UPDATE public.mock_drafts 
+  SET current_pick = v_new_pick_number, 
+      current_round = v_new_round,
+      status = CASE 
+        WHEN v_new_round > v_mock_draft.total_rounds THEN 'completed'
+        ELSE 'in_progress'
+      END,
+      completed_at = CASE 
+        WHEN v_new_round > v_mock_draft.total_rounds THEN NOW()
+        ELSE NULL
+      END
+  WHERE id = p_mock_draft_id;
+  
+  RETURN json_build_object(
+    'message', p_team_name || ' picked ' || v_player_name,
+    'pick_number', v_new_pick_number,
+    'round', v_new_round,
+    'player_name', v_player_name,
+    'is_complete', v_new_round > v_mock_draft.total_rounds
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- League members see open lobbies and mock drafts they have a seat in
+CREATE OR REPLACE FUNCTION public.get_league_mock_drafts(p_league_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_result JSON;
+BEGIN
+  SELECT json_agg(row_to_json(m)) INTO v_result
+  FROM (
+    SELECT 
+      id, 
+      league_id, 
+      creator_id, 
+      status, 
+      (SELECT COUNT(*) FROM public.mock_draft_teams mdt
+       WHERE mdt.mock_draft_id = mock_drafts.id AND NOT mdt.is_bot) AS human_teams,
+      num_bots, 
+      total_rounds,
+      current_round,
+      current_pick,
+      created_at,
+      completed_at
+    FROM public.mock_drafts
+    WHERE league_id = p_league_id
+    AND (
+      creator_id = auth.uid()
+      OR (
+        status = 'lobby'
+        AND EXISTS (
+          SELECT 1 FROM public.teams t
+          WHERE t.league_id = p_league_id AND t.owner_id = auth.uid()
+        )
+      )
+      OR EXISTS (
+        SELECT 1 FROM public.mock_draft_teams mdt
+        WHERE mdt.mock_draft_id = mock_drafts.id AND mdt.owner_id = auth.uid()
+      )
+    )
+    ORDER BY created_at DESC
+  ) m;
+  
+  RETURN COALESCE(v_result, '[]'::json);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
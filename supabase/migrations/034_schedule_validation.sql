@@ -0,0 +1,126 @@
+-- Schedule Validation Migration
+-- save_league_schedule trusted the client's generated schedule beyond team
+-- membership. It now also rejects matchups outside the league's regular
+-- season weeks (leagues.settings->>'regular_season_weeks', 14 by default),
+-- teams playing themselves, and teams playing more than once in a week.
+
+CREATE OR REPLACE FUNCTION public.save_league_schedule(
+  p_league_id UUID,
+  p_season INTEGER,
+  p_matchups JSON,
+  p_divisions JSON DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID;
+  v_league public.leagues%ROWTYPE;
+  v_saved INTEGER;
+  v_weeks INTEGER;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_league FROM public.leagues WHERE id = p_league_id FOR UPDATE;
+
+  IF v_league.id IS NULL OR v_league.commissioner_id != v_user_id THEN
+    RAISE EXCEPTION 'Only the league commissioner can set the schedule';
+  END IF;
+
+  -- Once a week has been scored, results depend on who played whom
+  IF EXISTS (
+    SELECT 1 FROM public.scores
+    WHERE league_id = p_league_id
+    AND season = p_season
+  ) THEN
+    RAISE EXCEPTION 'The schedule can''t change after weeks have been scored';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM json_array_elements(p_matchups) m
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE id = (m->>'home_team_id')::UUID
+      AND league_id = p_league_id
+    )
+    OR (
+      m->>'away_team_id' IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM public.teams
+        WHERE id = (m->>'away_team_id')::UUID
+        AND league_id = p_league_id
+      )
+    )
+  ) THEN
+    RAISE EXCEPTION 'Every matchup must be between teams in this league';
+  END IF;
+
+  v_weeks := COALESCE((v_league.settings->>'regular_season_weeks')::INTEGER, 14);
+
+  IF EXISTS (
+    SELECT 1
+    FROM json_array_elements(p_matchups) m
+    WHERE (m->>'week')::INTEGER IS NULL
+    OR (m->>'week')::INTEGER NOT BETWEEN 1 AND v_weeks
+  ) THEN
+    RAISE EXCEPTION 'Matchups must fall in weeks 1 to % of the regular season', v_weeks;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM json_array_elements(p_matchups) m
+    WHERE m->>'home_team_id' = m->>'away_team_id'
+  ) THEN
+    RAISE EXCEPTION 'A team can''t play itself';
+  END IF;
+
+  -- One game (or bye) per team per week, which also rules out the same
+  -- pairing twice in a week
+  IF EXISTS (
+    SELECT 1
+    FROM (
+      SELECT (m->>'week')::INTEGER AS week, m->>'home_team_id' AS team_id
+      FROM json_array_elements(p_matchups) m
+      UNION ALL
+      SELECT (m->>'week')::INTEGER, m->>'away_team_id'
+      FROM json_array_elements(p_matchups) m
+      WHERE m->>'away_team_id' IS NOT NULL
+    ) appearances
+    GROUP BY week, team_id
+    HAVING COUNT(*) > 1
+  ) THEN
+    RAISE EXCEPTION 'A team can only play once a week';
+  END IF;
+
+  IF p_divisions IS NOT NULL THEN
+    UPDATE public.teams t
+    SET division = NULLIF(TRIM(d.value), ''),
+        updated_at = NOW()
+    FROM json_each_text(p_divisions) d
+    WHERE t.id = d.key::UUID
+    AND t.league_id = p_league_id;
+  END IF;
+
+  DELETE FROM public.matchups
+  WHERE league_id = p_league_id
+  AND season = p_season;
+
+  INSERT INTO public.matchups (league_id, season, week, home_team_id, away_team_id)
+  SELECT
+    p_league_id,
+    p_season,
+    (m->>'week')::INTEGER,
+    (m->>'home_team_id')::UUID,
+    (m->>'away_team_id')::UUID
+  FROM json_array_elements(p_matchups) m;
+  GET DIAGNOSTICS v_saved = ROW_COUNT;
+
+  RETURN json_build_object(
+    'message', 'Schedule saved',
+    'matchups', v_saved
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
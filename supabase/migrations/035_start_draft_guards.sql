@@ -0,0 +1,220 @@
+-- Start Draft Guards Migration
+-- start_draft only refused to run when draft_state said a draft had
+-- started. Auctions never write draft_state, so a commissioner could start a
+-- pick-order draft in an auction league during or after its auction, and both
+-- would write draft_picks for the same teams. start_draft now checks the
+-- league's draft type and draft status, like start_auction_draft does.
+
+-- Start a league's draft in its published order and put the first pick on the clock
+-- The pick sequence is built from the league's draft format
+-- Declared keepers are recorded first, in the slots they cost their teams
+CREATE OR REPLACE FUNCTION public.start_draft(p_league_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  team_count INTEGER;
+  v_max_teams INTEGER;
+  v_min_teams INTEGER;
+  v_total_rounds INTEGER;
+  v_time_limit INTEGER;
+  v_order_locked BOOLEAN;
+  v_draft_format TEXT;
+  v_pick_sequence INTEGER[];
+  v_keepers_enabled BOOLEAN;
+  shuffled_teams TEXT[];
+  v_draft_id UUID;
+  v_user_id UUID;
+  v_league public.leagues%ROWTYPE;
+  v_source_draft_id UUID;
+  v_keeper RECORD;
+  v_slot INTEGER;
+  v_keeper_count INTEGER := 0;
+  v_next_pick INTEGER;
+  v_current_pick INTEGER;
+BEGIN
+  -- Get current user ID from auth context
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_league FROM public.leagues WHERE id = p_league_id FOR UPDATE;
+
+  -- Verify user is commissioner of the league
+  IF v_league.id IS NULL OR v_league.commissioner_id != v_user_id THEN
+    RAISE EXCEPTION 'Only the league commissioner can start the draft';
+  END IF;
+
+  -- Auction leagues draft through start_auction_draft, which never writes
+  -- draft_state, so the started check below can't see a running auction
+  IF COALESCE(v_league.settings->>'draft_type', 'standard') = 'auction' THEN
+    RAISE EXCEPTION 'This league uses an auction draft';
+  END IF;
+
+  IF v_league.draft_status != 'pending' THEN
+    RAISE EXCEPTION 'Draft has already started for this league';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.draft_state
+    WHERE league_id = p_league_id AND started
+  ) THEN
+    RAISE EXCEPTION 'Draft has already started for this league';
+  END IF;
+
+  -- Get team limits, round count and pick clock from league settings
+  SELECT
+    max_teams,
+    COALESCE((settings->>'min_teams')::INTEGER, 2),
+    COALESCE((settings->>'draft_rounds')::INTEGER, 5),
+    COALESCE((settings->>'pick_time_limit')::INTEGER, 120),
+    draft_order_locked_at IS NOT NULL,
+    COALESCE(settings->>'draft_format', 'snake'),
+    COALESCE((settings->>'keepers_enabled')::BOOLEAN, FALSE)
+  INTO v_max_teams, v_min_teams, v_total_rounds, v_time_limit, v_order_locked, v_draft_format,
+    v_keepers_enabled
+  FROM public.leagues
+  WHERE id = p_league_id;
+
+  IF v_total_rounds < 1 THEN
+    RAISE EXCEPTION 'Draft must have at least 1 round';
+  END IF;
+
+  IF v_time_limit < 10 THEN
+    RAISE EXCEPTION 'Pick time limit must be at least 10 seconds';
+  END IF;
+
+  -- Count teams in this league
+  SELECT COUNT(*) INTO team_count
+  FROM public.teams
+  WHERE league_id = p_league_id;
+
+  IF team_count < v_min_teams THEN
+    RAISE EXCEPTION 'Need at least % teams to start (currently have %)', v_min_teams, team_count;
+  END IF;
+
+  IF team_count > v_max_teams THEN
+    RAISE EXCEPTION 'League allows at most % teams (currently have %)', v_max_teams, team_count;
+  END IF;
+
+  -- Unknown formats draft as snake, like toDraftFormat in shared/draftOrder.ts
+  IF v_draft_format NOT IN ('snake', 'linear', 'third_round_reversal') THEN
+    v_draft_format := 'snake';
+  END IF;
+
+  v_pick_sequence := public.build_pick_sequence(team_count, v_total_rounds, v_draft_format);
+
+  -- Use the published order when there is one, otherwise shuffle
+  IF v_order_locked THEN
+    IF EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE league_id = p_league_id AND draft_position IS NULL
+    ) THEN
+      RAISE EXCEPTION 'A team joined after the draft order was locked; unlock and update the order first';
+    END IF;
+
+    SELECT ARRAY_AGG(name ORDER BY draft_position) INTO shuffled_teams
+    FROM public.teams
+    WHERE league_id = p_league_id;
+  ELSE
+    SELECT ARRAY_AGG(name ORDER BY random()) INTO shuffled_teams
+    FROM public.teams
+    WHERE league_id = p_league_id;
+  END IF;
+
+  -- Keepers come from the last draft to finish, before this one exists
+  IF v_keepers_enabled THEN
+    v_source_draft_id := public.get_keeper_source_draft(p_league_id);
+  END IF;
+
+  -- Create draft record
+  INSERT INTO public.drafts (
+    league_id, status, current_pick, total_picks, current_round, pick_time_limit, started_at
+  )
+  VALUES (
+    p_league_id, 'in_progress', 0, team_count * v_total_rounds, 1, v_time_limit, NOW()
+  )
+  RETURNING id INTO v_draft_id;
+
+  -- Each keeper takes its team's pick in the round it costs
+  FOR v_keeper IN
+    SELECT k.team_id, k.player_id, k.round, t.name AS team_name
+    FROM public.keepers k
+    JOIN public.teams t ON t.id = k.team_id
+    WHERE k.source_draft_id = v_source_draft_id
+    AND t.league_id = p_league_id
+    ORDER BY k.round
+  LOOP
+    IF v_keeper.round > v_total_rounds THEN
+      RAISE EXCEPTION '% has a round % keeper, but the draft only has % rounds',
+        v_keeper.team_name, v_keeper.round, v_total_rounds;
+    END IF;
+
+    v_slot := array_position(
+      v_pick_sequence[(v_keeper.round - 1) * team_count + 1 : v_keeper.round * team_count],
+      array_position(shuffled_teams, v_keeper.team_name) - 1
+    );
+
+    INSERT INTO public.draft_picks (draft_id, team_id, player_id, round, pick_number, is_keeper)
+    VALUES (
+      v_draft_id, v_keeper.team_id, v_keeper.player_id, v_keeper.round,
+      (v_keeper.round - 1) * team_count + v_slot, TRUE
+    );
+
+    v_keeper_count := v_keeper_count + 1;
+  END LOOP;
+
+  -- The clock starts on the first slot a keeper didn't fill
+  v_next_pick := public.next_open_pick(v_draft_id, 0, team_count * v_total_rounds);
+  v_current_pick := COALESCE(v_next_pick - 1, team_count * v_total_rounds);
+
+  UPDATE public.drafts
+  SET current_pick = v_current_pick,
+      current_round = v_current_pick / team_count + 1
+  WHERE id = v_draft_id;
+
+  -- Create or reset this league's draft state
+  INSERT INTO public.draft_state (
+    league_id, draft_id, started, draft_order, current_round, current_pick,
+    max_teams, total_rounds, pick_deadline, pick_sequence, draft_format
+  )
+  VALUES (
+    p_league_id, v_draft_id, TRUE, shuffled_teams, v_current_pick / team_count + 1, v_current_pick,
+    team_count, v_total_rounds, NOW() + make_interval(secs => v_time_limit),
+    v_pick_sequence, v_draft_format
+  )
+  ON CONFLICT (league_id) DO UPDATE
+  SET draft_id = EXCLUDED.draft_id,
+      started = TRUE,
+      draft_order = EXCLUDED.draft_order,
+      current_round = EXCLUDED.current_round,
+      current_pick = EXCLUDED.current_pick,
+      max_teams = EXCLUDED.max_teams,
+      total_rounds = EXCLUDED.total_rounds,
+      pick_deadline = EXCLUDED.pick_deadline,
+      paused = FALSE,
+      paused_time_remaining = NULL,
+      pick_sequence = EXCLUDED.pick_sequence,
+      draft_format = EXCLUDED.draft_format;
+
+  -- Update league draft status
+  UPDATE public.leagues
+  SET draft_status = 'in_progress'
+  WHERE id = p_league_id;
+
+  -- Nothing left to pick when keepers filled every slot
+  IF v_next_pick IS NULL THEN
+    PERFORM public.complete_draft(p_league_id);
+  END IF;
+
+  RETURN json_build_object(
+    'message', 'Draft started',
+    'order', shuffled_teams,
+    'draft_id', v_draft_id,
+    'league_id', p_league_id,
+    'total_rounds', v_total_rounds,
+    'draft_format', v_draft_format,
+    'keepers', v_keeper_count
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
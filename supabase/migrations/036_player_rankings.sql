@@ -0,0 +1,28 @@
+-- Player Rankings Migration
+-- Mock draft bots and draft grades rank players by players.adp and
+-- players.projected_points, but nothing wrote those columns after the
+-- one-time backfill in 021, so bots drafted at random and reports had no
+-- grades. Stat ingestion now stores the provider's ADP and projections with
+-- each player, and fills in the rest from ingested season totals (see
+-- deriveRankings in server/lib/statIngestion.ts) through set_player_rankings.
+
+-- Store derived rankings:
+--   [{ "id": "<player uuid>", "adp": 12, "projected_points": 241.5 }, ...]
+CREATE OR REPLACE FUNCTION public.set_player_rankings(p_rankings JSON)
+RETURNS INTEGER AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  UPDATE public.players p
+  SET adp = r.adp,
+      projected_points = r.projected_points,
+      updated_at = NOW()
+  FROM json_to_recordset(p_rankings) AS r(id UUID, adp NUMERIC, projected_points NUMERIC)
+  WHERE p.id = r.id;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.set_player_rankings(JSON) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,209 @@
+-- Standings Access Migration
+-- get_league_standings let any signed-in user read any league's standings,
+-- and drew coin flips for whatever season it was asked about, so every read
+-- could write rows. It is now limited to the league's commissioner and team
+-- owners, and only reads: save_league_schedule draws the season's coin flips
+-- when the schedule is saved. Teams without one (added after the schedule)
+-- count as 0.
+
+-- Standings inputs for a season:
+--   { "teams": [{ "id", "name", "division", "coin_flip" }],
+--     "games": [{ "week", "home_team_id", "away_team_id", "home_points", "away_points" }] }
+CREATE OR REPLACE FUNCTION public.get_league_standings(
+  p_league_id UUID,
+  p_season INTEGER
+)
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID;
+  v_teams JSON;
+  v_games JSON;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.leagues WHERE id = p_league_id) THEN
+    RAISE EXCEPTION 'League not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leagues WHERE id = p_league_id AND commissioner_id = v_user_id
+  ) AND NOT EXISTS (
+    SELECT 1 FROM public.teams WHERE league_id = p_league_id AND owner_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'You are not a member of this league';
+  END IF;
+
+  SELECT COALESCE(json_agg(json_build_object(
+    'id', t.id,
+    'name', t.name,
+    'division', t.division,
+    'coin_flip', COALESCE(cf.value, 0)
+  ) ORDER BY t.created_at), '[]'::json)
+  INTO v_teams
+  FROM public.teams t
+  LEFT JOIN public.standings_coin_flips cf ON cf.team_id = t.id AND cf.season = p_season
+  WHERE t.league_id = p_league_id;
+
+  SELECT COALESCE(json_agg(json_build_object(
+    'week', m.week,
+    'home_team_id', m.home_team_id,
+    'away_team_id', m.away_team_id,
+    'home_points', hs.points,
+    'away_points', aws.points
+  ) ORDER BY m.week), '[]'::json)
+  INTO v_games
+  FROM public.matchups m
+  JOIN public.scores hs
+    ON hs.team_id = m.home_team_id
+    AND hs.league_id = m.league_id
+    AND hs.season = m.season
+    AND hs.week = m.week
+  JOIN public.scores aws
+    ON aws.team_id = m.away_team_id
+    AND aws.league_id = m.league_id
+    AND aws.season = m.season
+    AND aws.week = m.week
+  WHERE m.league_id = p_league_id
+  AND m.season = p_season
+  AND m.away_team_id IS NOT NULL;
+
+  RETURN json_build_object(
+    'teams', v_teams,
+    'games', v_games
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Save a season's schedule and draw its standings coin flips
+CREATE OR REPLACE FUNCTION public.save_league_schedule(
+  p_league_id UUID,
+  p_season INTEGER,
+  p_matchups JSON,
+  p_divisions JSON DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID;
+  v_league public.leagues%ROWTYPE;
+  v_saved INTEGER;
+  v_weeks INTEGER;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_league FROM public.leagues WHERE id = p_league_id FOR UPDATE;
+
+  IF v_league.id IS NULL OR v_league.commissioner_id != v_user_id THEN
+    RAISE EXCEPTION 'Only the league commissioner can set the schedule';
+  END IF;
+
+  -- Once a week has been scored, results depend on who played whom
+  IF EXISTS (
+    SELECT 1 FROM public.scores
+    WHERE league_id = p_league_id
+    AND season = p_season
+  ) THEN
+    RAISE EXCEPTION 'The schedule can''t change after weeks have been scored';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM json_array_elements(p_matchups) m
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE id = (m->>'home_team_id')::UUID
+      AND league_id = p_league_id
+    )
+    OR (
+      m->>'away_team_id' IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM public.teams
+        WHERE id = (m->>'away_team_id')::UUID
+        AND league_id = p_league_id
+      )
+    )
+  ) THEN
+    RAISE EXCEPTION 'Every matchup must be between teams in this league';
+  END IF;
+
+  v_weeks := COALESCE((v_league.settings->>'regular_season_weeks')::INTEGER, 14);
+
+  IF EXISTS (
+    SELECT 1
+    FROM json_array_elements(p_matchups) m
+    WHERE (m->>'week')::INTEGER IS NULL
+    OR (m->>'week')::INTEGER NOT BETWEEN 1 AND v_weeks
+  ) THEN
+    RAISE EXCEPTION 'Matchups must fall in weeks 1 to % of the regular season', v_weeks;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM json_array_elements(p_matchups) m
+    WHERE m->>'home_team_id' = m->>'away_team_id'
+  ) THEN
+    RAISE EXCEPTION 'A team can''t play itself';
+  END IF;
+
+  -- One game (or bye) per team per week, which also rules out the same
+  -- pairing twice in a week
+  IF EXISTS (
+    SELECT 1
+    FROM (
+      SELECT (m->>'week')::INTEGER AS week, m->>'home_team_id' AS team_id
+      FROM json_array_elements(p_matchups) m
+      UNION ALL
+      SELECT (m->>'week')::INTEGER, m->>'away_team_id'
+      FROM json_array_elements(p_matchups) m
+      WHERE m->>'away_team_id' IS NOT NULL
+    ) appearances
+    GROUP BY week, team_id
+    HAVING COUNT(*) > 1
+  ) THEN
+    RAISE EXCEPTION 'A team can only play once a week';
+  END IF;
+
+  IF p_divisions IS NOT NULL THEN
+    UPDATE public.teams t
+    SET division = NULLIF(TRIM(d.value), ''),
+        updated_at = NOW()
+    FROM json_each_text(p_divisions) d
+    WHERE t.id = d.key::UUID
+    AND t.league_id = p_league_id;
+  END IF;
+
+  DELETE FROM public.matchups
+  WHERE league_id = p_league_id
+  AND season = p_season;
+
+  INSERT INTO public.matchups (league_id, season, week, home_team_id, away_team_id)
+  SELECT
+    p_league_id,
+    p_season,
+    (m->>'week')::INTEGER,
+    (m->>'home_team_id')::UUID,
+    (m->>'away_team_id')::UUID
+  FROM json_array_elements(p_matchups) m;
+  GET DIAGNOSTICS v_saved = ROW_COUNT;
+
+  -- Draw each team's coin flip for the season, once; a saved-over schedule
+  -- keeps the flips already drawn
+  INSERT INTO public.standings_coin_flips (league_id, team_id, season, value)
+  SELECT t.league_id, t.id, p_season, random()
+  FROM public.teams t
+  WHERE t.league_id = p_league_id
+  ON CONFLICT (team_id, season) DO NOTHING;
+
+  RETURN json_build_object(
+    'message', 'Schedule saved',
+    'matchups', v_saved
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
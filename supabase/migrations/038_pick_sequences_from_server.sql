@@ -0,0 +1,387 @@
+-- Pick Sequences From The Server Migration
+-- 032 built pick sequences in plpgsql, a second copy of buildPickSequence in
+-- shared/draftOrder.ts that nothing kept in step with the first. Sequences
+-- now come only from shared/draftOrder.ts: the Express routes in
+-- server/routes/draft.ts build them and call start_draft and
+-- create_league_mock_draft with the service role, passing the user they
+-- authenticated. Clients can no longer call either function directly, so
+-- they can't hand in a sequence of their own.
+
+DROP FUNCTION IF EXISTS public.start_draft(UUID);
+DROP FUNCTION IF EXISTS public.create_league_mock_draft(UUID, TEXT, INTEGER, INTEGER, TEXT, TEXT[], INTEGER, INTEGER, BOOLEAN, JSONB, BOOLEAN);
+DROP FUNCTION IF EXISTS public.build_pick_sequence(INTEGER, INTEGER, TEXT);
+DROP FUNCTION IF EXISTS public.is_round_reversed(INTEGER, TEXT);
+
+-- Start a league's draft in its published order and put the first pick on the clock
+-- p_pick_sequence is buildPickSequence for the league's teams, rounds and format
+-- Declared keepers are recorded first, in the slots they cost their teams
+CREATE OR REPLACE FUNCTION public.start_draft(
+  p_league_id UUID,
+  p_user_id UUID,
+  p_pick_sequence INTEGER[]
+)
+RETURNS JSON AS $$
+DECLARE
+  team_count INTEGER;
+  v_max_teams INTEGER;
+  v_min_teams INTEGER;
+  v_total_rounds INTEGER;
+  v_time_limit INTEGER;
+  v_order_locked BOOLEAN;
+  v_draft_format TEXT;
+  v_pick_sequence INTEGER[];
+  v_keepers_enabled BOOLEAN;
+  shuffled_teams TEXT[];
+  v_draft_id UUID;
+  v_user_id UUID;
+  v_league public.leagues%ROWTYPE;
+  v_source_draft_id UUID;
+  v_keeper RECORD;
+  v_slot INTEGER;
+  v_keeper_count INTEGER := 0;
+  v_next_pick INTEGER;
+  v_current_pick INTEGER;
+BEGIN
+  -- The server route passes the signed-in user it checked
+  v_user_id := p_user_id;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_league FROM public.leagues WHERE id = p_league_id FOR UPDATE;
+
+  -- Verify user is commissioner of the league
+  IF v_league.id IS NULL OR v_league.commissioner_id != v_user_id THEN
+    RAISE EXCEPTION 'Only the league commissioner can start the draft';
+  END IF;
+
+  -- Auction leagues draft through start_auction_draft, which never writes
+  -- draft_state, so the started check below can't see a running auction
+  IF COALESCE(v_league.settings->>'draft_type', 'standard') = 'auction' THEN
+    RAISE EXCEPTION 'This league uses an auction draft';
+  END IF;
+
+  IF v_league.draft_status != 'pending' THEN
+    RAISE EXCEPTION 'Draft has already started for this league';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.draft_state
+    WHERE league_id = p_league_id AND started
+  ) THEN
+    RAISE EXCEPTION 'Draft has already started for this league';
+  END IF;
+
+  -- Get team limits, round count and pick clock from league settings
+  SELECT
+    max_teams,
+    COALESCE((settings->>'min_teams')::INTEGER, 2),
+    COALESCE((settings->>'draft_rounds')::INTEGER, 5),
+    COALESCE((settings->>'pick_time_limit')::INTEGER, 120),
+    draft_order_locked_at IS NOT NULL,
+    COALESCE(settings->>'draft_format', 'snake'),
+    COALESCE((settings->>'keepers_enabled')::BOOLEAN, FALSE)
+  INTO v_max_teams, v_min_teams, v_total_rounds, v_time_limit, v_order_locked, v_draft_format,
+    v_keepers_enabled
+  FROM public.leagues
+  WHERE id = p_league_id;
+
+  IF v_total_rounds < 1 THEN
+    RAISE EXCEPTION 'Draft must have at least 1 round';
+  END IF;
+
+  IF v_time_limit < 10 THEN
+    RAISE EXCEPTION 'Pick time limit must be at least 10 seconds';
+  END IF;
+
+  -- Count teams in this league
+  SELECT COUNT(*) INTO team_count
+  FROM public.teams
+  WHERE league_id = p_league_id;
+
+  IF team_count < v_min_teams THEN
+    RAISE EXCEPTION 'Need at least % teams to start (currently have %)', v_min_teams, team_count;
+  END IF;
+
+  IF team_count > v_max_teams THEN
+    RAISE EXCEPTION 'League allows at most % teams (currently have %)', v_max_teams, team_count;
+  END IF;
+
+  -- Unknown formats draft as snake, like toDraftFormat in shared/draftOrder.ts
+  IF v_draft_format NOT IN ('snake', 'linear', 'third_round_reversal') THEN
+    v_draft_format := 'snake';
+  END IF;
+
+  -- The route built the sequence from the team count it saw; a team joining
+  -- or leaving since then leaves it the wrong length
+  IF COALESCE(array_length(p_pick_sequence, 1), 0) != team_count * v_total_rounds
+    OR EXISTS (SELECT 1 FROM unnest(p_pick_sequence) s WHERE s IS NULL OR s < 0 OR s >= team_count)
+  THEN
+    RAISE EXCEPTION 'The league''s teams changed while the draft was starting; try again';
+  END IF;
+
+  v_pick_sequence := p_pick_sequence;
+
+  -- Use the published order when there is one, otherwise shuffle
+  IF v_order_locked THEN
+    IF EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE league_id = p_league_id AND draft_position IS NULL
+    ) THEN
+      RAISE EXCEPTION 'A team joined after the draft order was locked; unlock and update the order first';
+    END IF;
+
+    SELECT ARRAY_AGG(name ORDER BY draft_position) INTO shuffled_teams
+    FROM public.teams
+    WHERE league_id = p_league_id;
+  ELSE
+    SELECT ARRAY_AGG(name ORDER BY random()) INTO shuffled_teams
+    FROM public.teams
+    WHERE league_id = p_league_id;
+  END IF;
+
+  -- Keepers come from the last draft to finish, before this one exists
+  IF v_keepers_enabled THEN
+    v_source_draft_id := public.get_keeper_source_draft(p_league_id);
+  END IF;
+
+  -- Create draft record
+  INSERT INTO public.drafts (
+    league_id, status, current_pick, total_picks, current_round, pick_time_limit, started_at
+  )
+  VALUES (
+    p_league_id, 'in_progress', 0, team_count * v_total_rounds, 1, v_time_limit, NOW()
+  )
+  RETURNING id INTO v_draft_id;
+
+  -- Each keeper takes its team's pick in the round it costs
+  FOR v_keeper IN
+    SELECT k.team_id, k.player_id, k.round, t.name AS team_name
+    FROM public.keepers k
+    JOIN public.teams t ON t.id = k.team_id
+    WHERE k.source_draft_id = v_source_draft_id
+    AND t.league_id = p_league_id
+    ORDER BY k.round
+  LOOP
+    IF v_keeper.round > v_total_rounds THEN
+      RAISE EXCEPTION '% has a round % keeper, but the draft only has % rounds',
+        v_keeper.team_name, v_keeper.round, v_total_rounds;
+    END IF;
+
+    v_slot := array_position(
+      v_pick_sequence[(v_keeper.round - 1) * team_count + 1 : v_keeper.round * team_count],
+      array_position(shuffled_teams, v_keeper.team_name) - 1
+    );
+
+    INSERT INTO public.draft_picks (draft_id, team_id, player_id, round, pick_number, is_keeper)
+    VALUES (
+      v_draft_id, v_keeper.team_id, v_keeper.player_id, v_keeper.round,
+      (v_keeper.round - 1) * team_count + v_slot, TRUE
+    );
+
+    v_keeper_count := v_keeper_count + 1;
+  END LOOP;
+
+  -- The clock starts on the first slot a keeper didn't fill
+  v_next_pick := public.next_open_pick(v_draft_id, 0, team_count * v_total_rounds);
+  v_current_pick := COALESCE(v_next_pick - 1, team_count * v_total_rounds);
+
+  UPDATE public.drafts
+  SET current_pick = v_current_pick,
+      current_round = v_current_pick / team_count + 1
+  WHERE id = v_draft_id;
+
+  -- Create or reset this league's draft state
+  INSERT INTO public.draft_state (
+    league_id, draft_id, started, draft_order, current_round, current_pick,
+    max_teams, total_rounds, pick_deadline, pick_sequence, draft_format
+  )
+  VALUES (
+    p_league_id, v_draft_id, TRUE, shuffled_teams, v_current_pick / team_count + 1, v_current_pick,
+    team_count, v_total_rounds, NOW() + make_interval(secs => v_time_limit),
+    v_pick_sequence, v_draft_format
+  )
+  ON CONFLICT (league_id) DO UPDATE
+  SET draft_id = EXCLUDED.draft_id,
+      started = TRUE,
+      draft_order = EXCLUDED.draft_order,
+      current_round = EXCLUDED.current_round,
+      current_pick = EXCLUDED.current_pick,
+      max_teams = EXCLUDED.max_teams,
+      total_rounds = EXCLUDED.total_rounds,
+      pick_deadline = EXCLUDED.pick_deadline,
+      paused = FALSE,
+      paused_time_remaining = NULL,
+      pick_sequence = EXCLUDED.pick_sequence,
+      draft_format = EXCLUDED.draft_format;
+
+  -- Update league draft status
+  UPDATE public.leagues
+  SET draft_status = 'in_progress'
+  WHERE id = p_league_id;
+
+  -- Nothing left to pick when keepers filled every slot
+  IF v_next_pick IS NULL THEN
+    PERFORM public.complete_draft(p_league_id);
+  END IF;
+
+  RETURN json_build_object(
+    'message', 'Draft started',
+    'order', shuffled_teams,
+    'draft_id', v_draft_id,
+    'league_id', p_league_id,
+    'total_rounds', v_total_rounds,
+    'draft_format', v_draft_format,
+    'keepers', v_keeper_count
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.start_draft(UUID, UUID, INTEGER[]) FROM PUBLIC, anon, authenticated;
+
+-- Create a mock draft (or lobby) within an existing league
+-- p_pick_sequence is buildPickSequence for the bots plus the creator
+CREATE OR REPLACE FUNCTION public.create_league_mock_draft(
+  p_league_id UUID,
+  p_user_id UUID,
+  p_pick_sequence INTEGER[],
+  p_user_team_name TEXT,
+  p_num_bots INTEGER DEFAULT 3,
+  p_total_rounds INTEGER DEFAULT 5,
+  p_draft_format TEXT DEFAULT 'snake',
+  p_bot_strategies TEXT[] DEFAULT NULL, -- One per bot, in bot order; balanced when missing
+  p_user_draft_slot INTEGER DEFAULT NULL, -- 1-based; random when NULL
+  p_bot_pick_delay INTEGER DEFAULT 1500, -- Milliseconds; 0 is instant
+  p_mirror_league_settings BOOLEAN DEFAULT FALSE,
+  p_lineup JSONB DEFAULT NULL, -- Starter slots the bots draft for
+  p_lobby BOOLEAN DEFAULT FALSE -- Wait in a lobby for league-mates to claim bot seats
+)
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID;
+  v_mock_draft_id UUID;
+  v_user_team_id UUID;
+  v_total_teams INTEGER;
+  v_pick_sequence INTEGER[];
+  v_bot_names TEXT[] := ARRAY[
+    'Bot Warriors', 'AI Titans', 'Robo Raiders', 'Cyber Crusaders',
+    'Digital Dragons', 'Machine Monsters', 'Virtual Vikings', 'Binary Bears',
+    'Circuit Sharks', 'Data Demons', 'Neural Knights'
+  ];
+  v_bot_name TEXT;
+  v_shuffled_teams TEXT[];
+  i INTEGER;
+BEGIN
+  -- The server route passes the signed-in user it checked
+  v_user_id := p_user_id;
+  
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Verify user has a team in this league
+  IF NOT EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE league_id = p_league_id AND owner_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'You must have a team in this league to create a mock draft';
+  END IF;
+
+  -- Verify league exists and is not a mock league
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leagues
+    WHERE id = p_league_id AND (is_mock IS NULL OR is_mock = FALSE)
+  ) THEN
+    RAISE EXCEPTION 'League not found or is already a mock league';
+  END IF;
+
+  v_total_teams := p_num_bots + 1;
+
+  IF p_user_draft_slot IS NOT NULL AND (p_user_draft_slot < 1 OR p_user_draft_slot > v_total_teams) THEN
+    RAISE EXCEPTION 'Draft slot must be between 1 and %', v_total_teams;
+  END IF;
+
+  IF p_bot_pick_delay IS NULL OR p_bot_pick_delay < 0 THEN
+    RAISE EXCEPTION 'Bot pick delay cannot be negative';
+  END IF;
+
+  IF p_draft_format IS NULL OR p_draft_format NOT IN ('snake', 'linear', 'third_round_reversal') THEN
+    RAISE EXCEPTION 'Unknown draft format: %', p_draft_format;
+  END IF;
+
+  IF p_total_rounds IS NULL OR p_total_rounds < 1 THEN
+    RAISE EXCEPTION 'Draft must have at least 1 round';
+  END IF;
+
+  IF COALESCE(array_length(p_pick_sequence, 1), 0) != v_total_teams * p_total_rounds
+    OR EXISTS (SELECT 1 FROM unnest(p_pick_sequence) s WHERE s IS NULL OR s < 0 OR s >= v_total_teams)
+  THEN
+    RAISE EXCEPTION 'Pick sequence doesn''t match % teams and % rounds', v_total_teams, p_total_rounds;
+  END IF;
+
+  v_pick_sequence := p_pick_sequence;
+
+  -- Create the mock draft record
+  INSERT INTO public.mock_drafts (
+    league_id,
+    creator_id,
+    num_bots,
+    total_rounds,
+    status,
+    draft_format,
+    pick_sequence,
+    user_draft_slot,
+    bot_pick_delay,
+    mirror_league_settings,
+    lineup
+  )
+  VALUES (
+    p_league_id,
+    v_user_id,
+    p_num_bots,
+    p_total_rounds,
+    CASE WHEN p_lobby THEN 'lobby' ELSE 'in_progress' END,
+    p_draft_format,
+    v_pick_sequence,
+    p_user_draft_slot,
+    p_bot_pick_delay,
+    COALESCE(p_mirror_league_settings, FALSE),
+    p_lineup
+  )
+  RETURNING id INTO v_mock_draft_id;
+
+  -- Create user's mock team
+  INSERT INTO public.mock_draft_teams (mock_draft_id, name, is_bot, owner_id)
+  VALUES (v_mock_draft_id, p_user_team_name, FALSE, v_user_id)
+  RETURNING id INTO v_user_team_id;
+
+  -- Create bot teams
+  FOR i IN 1..p_num_bots LOOP
+    v_bot_name := v_bot_names[(i - 1) % array_length(v_bot_names, 1) + 1];
+    
+    INSERT INTO public.mock_draft_teams (mock_draft_id, name, is_bot, owner_id, bot_strategy)
+    VALUES (v_mock_draft_id, v_bot_name, TRUE, NULL, COALESCE(p_bot_strategies[i], 'balanced'));
+  END LOOP;
+
+  -- Lobbies are ordered when the creator starts the draft
+  IF NOT p_lobby THEN
+    v_shuffled_teams := public.order_mock_draft(v_mock_draft_id);
+  END IF;
+
+  RETURN json_build_object(
+    'mock_draft_id', v_mock_draft_id,
+    'league_id', p_league_id,
+    'user_team_id', v_user_team_id,
+    'total_teams', v_total_teams,
+    'draft_order', COALESCE(v_shuffled_teams, ARRAY[]::TEXT[]),
+    'status', CASE WHEN p_lobby THEN 'lobby' ELSE 'in_progress' END,
+    'message', CASE
+      WHEN p_lobby THEN 'Mock draft lobby created'
+      ELSE 'Mock draft created and started successfully'
+    END
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.create_league_mock_draft(UUID, UUID, INTEGER[], TEXT, INTEGER, INTEGER, TEXT, TEXT[], INTEGER, INTEGER, BOOLEAN, JSONB, BOOLEAN) FROM PUBLIC, anon, authenticated;
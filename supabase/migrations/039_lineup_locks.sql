@@ -0,0 +1,67 @@
+-- Lineup Locks Migration
+-- snapshot_weekly_lineups used to run the first time a week was scored, so
+-- it copied whoever was starting then, not at kickoff: a lineup change made
+-- between kickoff and scoring counted. Each NFL week now has a lock time
+-- (its first kickoff) in lineup_locks, imported ahead of the season from the
+-- stat provider. pg_cron snapshots every league's starters once a week's
+-- lock time passes, and the server refuses to score a week that hasn't
+-- locked.
+
+CREATE TABLE IF NOT EXISTS public.lineup_locks (
+  season INTEGER NOT NULL,
+  week INTEGER NOT NULL CHECK (week >= 1),
+  lock_at TIMESTAMP WITH TIME ZONE NOT NULL, -- The week's first kickoff
+  locked_at TIMESTAMP WITH TIME ZONE, -- When lineups were snapshotted; NULL until then
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+  PRIMARY KEY (season, week)
+);
+
+ALTER TABLE public.lineup_locks ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the server with the service role and by lock_due_lineups
+CREATE POLICY "Public read lineup_locks" ON public.lineup_locks FOR SELECT USING (true);
+
+-- Snapshot every league's starters for each week whose lock time has passed
+-- and that hasn't locked yet; returns how many weeks were locked
+CREATE OR REPLACE FUNCTION public.lock_due_lineups()
+RETURNS INTEGER AS $$
+DECLARE
+  v_lock RECORD;
+  v_league_id UUID;
+  v_locked INTEGER := 0;
+BEGIN
+  FOR v_lock IN
+    SELECT season, week
+    FROM public.lineup_locks
+    WHERE lock_at <= NOW()
+    AND locked_at IS NULL
+    ORDER BY season, week
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    FOR v_league_id IN
+      SELECT id FROM public.leagues WHERE is_mock IS NULL OR is_mock = FALSE
+    LOOP
+      PERFORM public.snapshot_weekly_lineups(v_league_id, v_lock.season, v_lock.week);
+    END LOOP;
+
+    UPDATE public.lineup_locks
+    SET locked_at = NOW()
+    WHERE season = v_lock.season
+    AND week = v_lock.week;
+
+    v_locked := v_locked + 1;
+  END LOOP;
+
+  RETURN v_locked;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.lock_due_lineups() FROM PUBLIC, anon, authenticated;
+
+-- Check for weeks to lock every minute. cron.schedule replaces a job with the
+-- same name, so this is safe to rerun.
+SELECT cron.schedule(
+  'lock-weekly-lineups',
+  '* * * * *',
+  'SELECT public.lock_due_lineups()'
+);
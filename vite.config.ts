@@ -1,7 +1,7 @@
 import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
-import { createServer } from "./server";
+import { createServer, startBackgroundJobs } from "./server";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -35,6 +35,13 @@ function expressPlugin(): Plugin {
 
       // Add Express app as middleware to Vite dev server
       server.middlewares.use(app);
+
+      // Run the draft clock for as long as the dev server is up. Vitest also
+      // builds a Vite server, in middleware mode with no httpServer, and must
+      // never sweep a real database
+      if (process.env.VITEST || !server.httpServer) return;
+      const stopBackgroundJobs = startBackgroundJobs();
+      server.httpServer.on("close", stopBackgroundJobs);
     },
   };
 }